@@ -0,0 +1,160 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../src/lib/logger.js';
+import {
+  deleteAttribute,
+  getAttribute,
+  updateAttribute,
+  type AttributePayload,
+} from '../../src/services/partTypeAdmin.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+function parseFlag(value: unknown): boolean {
+  return value === true || ['1', 'true', 'yes'].includes(String(value ?? '').trim().toLowerCase());
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for attribute endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapAdminErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|cannot|would invalidate/i.test(error.message)) {
+      status = 409;
+    } else if (/must|required|invalid|references|more than once|no more than|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+function buildAttributePayload(body: RequestBody): AttributePayload {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required.');
+  }
+
+  const pick = <T>(key: string): T | undefined => (key in body ? (body[key] as T) : undefined);
+
+  return {
+    code: pick<string>('code'),
+    dataType: pick<string | null>('dataType'),
+    minValue: pick<number | string | null>('minValue'),
+    maxValue: pick<number | string | null>('maxValue'),
+    unit: pick<string | null>('unit'),
+    requiredRule: pick<string | null>('requiredRule'),
+    alternativeMin: pick<string | null>('alternativeMin'),
+    alternativeMax: pick<string | null>('alternativeMax'),
+  };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const attributeId = Number.parseInt(resolveParam(req.query?.attributeId), 10);
+
+  if (!Number.isInteger(attributeId) || attributeId <= 0) {
+    res.status(400).json({ error: 'A valid attribute id is required.' });
+    return;
+  }
+
+  if (method === 'PUT') {
+    try {
+      const body = await readJsonBody(req);
+      const data = await updateAttribute(attributeId, buildAttributePayload(body), {
+        dryRun: parseFlag(body?.['dryRun'] ?? req.query?.dryRun),
+        confirm: parseFlag(body?.['confirm'] ?? req.query?.confirm),
+      });
+      res.status(200).json({ data });
+    } catch (error) {
+      logger.error('Failed to update attribute', { attributeId, error: serializeError(error) });
+      const { status, message } = mapAdminErrorToStatus(error, 'Unable to update attribute.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method === 'DELETE') {
+    try {
+      const data = await deleteAttribute(attributeId, {
+        dryRun: parseFlag(req.query?.dryRun),
+        confirm: parseFlag(req.query?.confirm),
+      });
+      res.status(200).json({ data });
+    } catch (error) {
+      logger.error('Failed to remove attribute', { attributeId, error: serializeError(error) });
+      const { status, message } = mapAdminErrorToStatus(error, 'Unable to remove attribute.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for attribute endpoint', { method, attributeId });
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const data = await getAttribute(attributeId);
+
+    if (!data) {
+      res.status(404).json({ error: 'Attribute not found.' });
+      return;
+    }
+
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load attribute', { attributeId, error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to retrieve attribute.' });
+  }
+}
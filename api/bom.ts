@@ -1,12 +1,172 @@
+import { Readable } from 'node:stream';
+
 import { logger, serializeError } from '../src/lib/logger.js';
-import { getBillOfMaterials } from '../src/services/bom.js';
+import { resolveSortDirection } from '../src/lib/pagination.js';
+import { createBomLine, getBillOfMaterials } from '../src/services/bom.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for BOM endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function parseDecimal(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim().length === 0)) {
+    return undefined;
+  }
+
+  // A value that was sent but cannot be read must not quietly fall back to the default.
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : Number.NaN;
+
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${field} must be a number.`);
+  }
+
+  return parsed;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function optionalDate(value: unknown): string | null | undefined {
+  if (value === null) {
+    return null;
+  }
+
+  return typeof value === 'string' ? value : undefined;
+}
+
+function buildBomLinePayload(body: RequestBody) {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required.');
+  }
+
+  return {
+    assembly: typeof body['assembly'] === 'string' ? body['assembly'] : '',
+    component: typeof body['component'] === 'string' ? body['component'] : '',
+    itemSequence: optionalString(body['itemSequence']),
+    quantityPer: parseDecimal(body['quantityPer'], 'quantityPer'),
+    uom: optionalString(body['uom']),
+    effectiveDate: optionalDate(body['effectiveDate']),
+    obsoleteDate: optionalDate(body['obsoleteDate']),
+    notes: optionalString(body['notes']),
+  };
+}
+
+function parseDateParam(value: unknown): Date | null | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+
+  if (typeof raw !== 'string' || raw.trim().length === 0) {
+    return undefined;
+  }
+
+  const date = new Date(raw.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  return typeof value === 'string' ? value : '';
+}
+
+function readPageRequest(query: Record<string, unknown> | undefined, limit: number | undefined) {
+  const cursor = resolveQueryParam(query?.['cursor']).trim();
+  const sort = resolveQueryParam(query?.['sort']).trim();
+
+  return {
+    limit,
+    cursor: cursor || undefined,
+    sort: sort || undefined,
+    direction: resolveSortDirection(resolveQueryParam(query?.['direction'])),
+  };
+}
+
+function isPageRequestError(error: unknown): error is Error {
+  return error instanceof Error && /pagination cursor|sort must be/i.test(error.message);
+}
+
+function mapBomErrorToStatus(error: unknown): { status: number; message: string } {
+  let status = 500;
+  let message = 'Unable to save bill of materials line.';
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|already used/i.test(error.message)) {
+      status = 409;
+    } else if (/circular|overlaps|must|required|not a valid|invalid/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
 
 export default async function handler(req: any, res: any) {
   const method = req.method ?? 'GET';
 
+  if (method === 'OPTIONS') {
+    res.setHeader('Allow', 'GET, POST, OPTIONS');
+    res.status(204).end();
+    return;
+  }
+
+  if (method === 'POST') {
+    try {
+      const body = await readJsonBody(req);
+      const payload = buildBomLinePayload(body);
+      const data = await createBomLine(payload);
+      res.status(201).json({ data });
+    } catch (error) {
+      logger.error('Failed to create bill of materials line', { error: serializeError(error) });
+      const { status, message } = mapBomErrorToStatus(error);
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
   if (method !== 'GET') {
     logger.warn('Unsupported method for BOM endpoint', { method });
-    res.setHeader('Allow', 'GET');
+    res.setHeader('Allow', 'GET, POST');
     res.status(405).json({ error: 'Method Not Allowed' });
     return;
   }
@@ -15,12 +175,28 @@ export default async function handler(req: any, res: any) {
   const limit = typeof rawLimit === 'string' ? Number.parseInt(rawLimit, 10) : undefined;
   const rawAssembly = Array.isArray(req.query?.assembly) ? req.query?.assembly[0] : req.query?.assembly;
   const assembly = typeof rawAssembly === 'string' ? rawAssembly.trim() : undefined;
+  const asOf = parseDateParam(req.query?.asOf);
+
+  if (asOf === null) {
+    res.status(400).json({ error: 'asOf must be a valid date.' });
+    return;
+  }
 
   try {
-    const data = await getBillOfMaterials({ limit, assembly });
-    res.status(200).json({ data });
+    const result = await getBillOfMaterials({
+      ...readPageRequest(req.query, Number.isNaN(limit) ? undefined : limit),
+      assembly,
+      asOf,
+    });
+    res.status(200).json({ data: result.items, pagination: result.pageInfo });
   } catch (error) {
     logger.error('Failed to load bill of materials', { error: serializeError(error) });
+
+    if (isPageRequestError(error)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
     res.status(500).json({ error: 'Unable to retrieve bill of materials.' });
   }
 }
@@ -0,0 +1,158 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../../src/lib/logger.js';
+import { deleteBomLine, updateBomLine } from '../../../src/services/bom.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for BOM line endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function parseDecimal(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim().length === 0)) {
+    return undefined;
+  }
+
+  // A value that was sent but cannot be read must not quietly fall back to the default.
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : Number.NaN;
+
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${field} must be a number.`);
+  }
+
+  return parsed;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function optionalDate(value: unknown): string | null | undefined {
+  if (value === null) {
+    return null;
+  }
+
+  return typeof value === 'string' ? value : undefined;
+}
+
+function buildBomLineUpdate(body: RequestBody) {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required.');
+  }
+
+  return {
+    itemSequence: optionalString(body['itemSequence']),
+    quantityPer: parseDecimal(body['quantityPer'], 'quantityPer'),
+    uom: optionalString(body['uom']),
+    effectiveDate: optionalDate(body['effectiveDate']),
+    obsoleteDate: optionalDate(body['obsoleteDate']),
+    notes: optionalString(body['notes']),
+  };
+}
+
+function mapBomErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|already used/i.test(error.message)) {
+      status = 409;
+    } else if (/circular|overlaps|must|required|not a valid|invalid/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const assembly = resolveParam(req.query?.assembly).trim();
+  const component = resolveParam(req.query?.component).trim();
+
+  if (method === 'OPTIONS') {
+    res.setHeader('Allow', 'PUT, DELETE, OPTIONS');
+    res.status(204).end();
+    return;
+  }
+
+  if (!assembly || !component) {
+    res.status(400).json({ error: 'An assembly and component part number are required.' });
+    return;
+  }
+
+  if (method === 'PUT') {
+    try {
+      const body = await readJsonBody(req);
+      const data = await updateBomLine(assembly, component, buildBomLineUpdate(body));
+      res.status(200).json({ data });
+    } catch (error) {
+      logger.error('Failed to update bill of materials line', { assembly, component, error: serializeError(error) });
+      const { status, message } = mapBomErrorToStatus(error, 'Unable to save bill of materials line.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method === 'DELETE') {
+    try {
+      await deleteBomLine(assembly, component);
+      res.status(204).end();
+    } catch (error) {
+      logger.error('Failed to delete bill of materials line', { assembly, component, error: serializeError(error) });
+      const { status, message } = mapBomErrorToStatus(error, 'Unable to delete bill of materials line.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  logger.warn('Unsupported method for BOM line endpoint', { method, assembly, component });
+  res.setHeader('Allow', 'PUT, DELETE');
+  res.status(405).json({ error: 'Method Not Allowed' });
+}
@@ -0,0 +1,75 @@
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { compareBillsOfMaterials } from '../../src/services/bom.js';
+
+function resolveParam(value: unknown): string {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return typeof raw === 'string' ? raw.trim() : '';
+}
+
+function parseDateParam(value: unknown): Date | null | undefined {
+  const raw = resolveParam(value);
+
+  if (raw.length === 0) {
+    return undefined;
+  }
+
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseFlag(value: unknown): boolean {
+  return ['1', 'true', 'yes'].includes(resolveParam(value).toLowerCase());
+}
+
+function parseNumeric(value: unknown): number | undefined {
+  const raw = resolveParam(value);
+
+  if (!raw) {
+    return undefined;
+  }
+
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for BOM comparison endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const left = resolveParam(req.query?.left);
+  const right = resolveParam(req.query?.right);
+  const asOf = parseDateParam(req.query?.asOf);
+
+  if (!left || !right) {
+    res.status(400).json({ error: 'Both left and right assemblies are required.' });
+    return;
+  }
+
+  if (asOf === null) {
+    res.status(400).json({ error: 'asOf must be a valid date.' });
+    return;
+  }
+
+  try {
+    const data = await compareBillsOfMaterials(left, right, {
+      allLevels: parseFlag(req.query?.allLevels),
+      maxDepth: parseNumeric(req.query?.maxDepth),
+      asOf,
+    });
+    res.status(200).json({ data });
+  } catch (error) {
+    if (error instanceof Error && /does not exist/i.test(error.message)) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+
+    logger.error('Failed to compare bills of materials', { left, right, error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to compare bills of materials.' });
+  }
+}
@@ -0,0 +1,94 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { importEdaBillOfMaterials } from '../../src/services/bomImport.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for BOM import endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapImportErrorToStatus(error: unknown): { status: number; message: string } {
+  let status = 500;
+  let message = 'Unable to import bill of materials.';
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/circular|must|required|not a valid|invalid|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'POST';
+
+  if (method === 'OPTIONS') {
+    res.setHeader('Allow', 'POST, OPTIONS');
+    res.status(204).end();
+    return;
+  }
+
+  if (method !== 'POST') {
+    logger.warn('Unsupported method for BOM import endpoint', { method });
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const body = (await readJsonBody(req)) ?? {};
+    const data = await importEdaBillOfMaterials({
+      assembly: typeof body['assembly'] === 'string' ? body['assembly'] : '',
+      csv: typeof body['csv'] === 'string' ? body['csv'] : '',
+      dryRun: body['dryRun'] !== false,
+      uom: typeof body['uom'] === 'string' ? body['uom'] : undefined,
+      replaceExisting: body['replaceExisting'] === true,
+      skipUnmatched: body['skipUnmatched'] === true,
+    });
+    res.status(data.dryRun ? 200 : 201).json({ data });
+  } catch (error) {
+    logger.error('Failed to import bill of materials', { error: serializeError(error) });
+    const { status, message } = mapImportErrorToStatus(error);
+    res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,47 @@
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { getPendingBomChanges } from '../../src/services/bom.js';
+
+function parseDateParam(value: unknown): Date | null | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+
+  if (typeof raw !== 'string' || raw.trim().length === 0) {
+    return undefined;
+  }
+
+  const date = new Date(raw.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for pending BOM changes endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const from = parseDateParam(req.query?.from);
+  const to = parseDateParam(req.query?.to);
+  const rawAssembly = Array.isArray(req.query?.assembly) ? req.query?.assembly[0] : req.query?.assembly;
+  const assembly = typeof rawAssembly === 'string' ? rawAssembly.trim() : undefined;
+
+  if (from === null || to === null) {
+    res.status(400).json({ error: 'from and to must be valid dates.' });
+    return;
+  }
+
+  try {
+    const data = await getPendingBomChanges({ from, to, assembly });
+    res.status(200).json({ data });
+  } catch (error) {
+    if (error instanceof Error && /must start before/i.test(error.message)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    logger.error('Failed to load pending bill of materials changes', { error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to retrieve pending bill of materials changes.' });
+  }
+}
@@ -0,0 +1,118 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { rollUpStandardCosts } from '../../src/services/costing.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+function parseDateValue(value: unknown): Date | null | undefined {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return undefined;
+  }
+
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for cost roll-up endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method === 'OPTIONS') {
+    res.setHeader('Allow', 'GET, POST, OPTIONS');
+    res.status(204).end();
+    return;
+  }
+
+  if (method !== 'GET' && method !== 'POST') {
+    logger.warn('Unsupported method for cost roll-up endpoint', { method });
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  let partNumber = resolveQueryParam(req.query?.partNumber).trim();
+  let asOfRaw: unknown = resolveQueryParam(req.query?.asOf);
+  let mode: 'simulate' | 'commit' = 'simulate';
+
+  try {
+    if (method === 'POST') {
+      const body = (await readJsonBody(req)) ?? {};
+      partNumber = typeof body['partNumber'] === 'string' ? body['partNumber'].trim() : partNumber;
+      asOfRaw = body['asOf'] ?? asOfRaw;
+      mode = body['mode'] === 'commit' ? 'commit' : 'simulate';
+    }
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request body.' });
+    return;
+  }
+
+  const asOf = parseDateValue(asOfRaw);
+
+  if (asOf === null) {
+    res.status(400).json({ error: 'asOf must be a valid date.' });
+    return;
+  }
+
+  try {
+    const data = await rollUpStandardCosts({ partNumber: partNumber || undefined, mode, asOf });
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Standard cost roll-up failed', { partNumber, mode, error: serializeError(error) });
+
+    if (error instanceof Error && /does not exist/i.test(error.message)) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+
+    res.status(500).json({ error: 'Unable to roll up standard costs.' });
+  }
+}
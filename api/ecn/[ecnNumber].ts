@@ -0,0 +1,137 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { getEcn, readEcnChanges, updateEcn, type EcnPayload } from '../../src/services/ecn.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for ECN endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapEcnErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|already used|cannot|only draft|no longer a draft/i.test(error.message)) {
+      status = 409;
+    } else if (/circular|overlaps|must|required|not a valid|invalid|not listed|only one|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+function buildEcnPayload(body: RequestBody): EcnPayload {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required.');
+  }
+
+  const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+  return {
+    ecnNumber: optionalString(body['ecnNumber']),
+    classCode: optionalString(body['classCode']),
+    notes: optionalString(body['notes']),
+    employeeId: optionalString(body['employeeId']),
+    parts: Array.isArray(body['parts']) ? (body['parts'] as EcnPayload['parts']) : undefined,
+    changes: readEcnChanges(body['changes']),
+  };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const ecnNumber = resolveParam(req.query?.ecnNumber).trim();
+
+  if (method === 'OPTIONS') {
+    res.setHeader('Allow', 'GET, PUT, OPTIONS');
+    res.status(204).end();
+    return;
+  }
+
+  if (!ecnNumber) {
+    res.status(400).json({ error: 'An ECN number is required.' });
+    return;
+  }
+
+  if (method === 'PUT') {
+    try {
+      const body = await readJsonBody(req);
+      const data = await updateEcn(ecnNumber, buildEcnPayload(body));
+      res.status(200).json({ data });
+    } catch (error) {
+      logger.error('Failed to update engineering change notice', { ecnNumber, error: serializeError(error) });
+      const { status, message } = mapEcnErrorToStatus(error, 'Unable to save engineering change notice.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for ECN detail endpoint', { method, ecnNumber });
+    res.setHeader('Allow', 'GET, PUT');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const data = await getEcn(ecnNumber);
+
+    if (!data) {
+      res.status(404).json({ error: 'ECN not found.' });
+      return;
+    }
+
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load engineering change notice', { ecnNumber, error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to retrieve engineering change notice.' });
+  }
+}
@@ -0,0 +1,107 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../../src/lib/logger.js';
+import { transitionEcn, type EcnStatus } from '../../../src/services/ecn.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for ECN endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapEcnErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|already used|cannot|only draft|no longer a draft/i.test(error.message)) {
+      status = 409;
+    } else if (/circular|overlaps|must|required|not a valid|invalid|not listed|only one|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'POST';
+  const ecnNumber = resolveParam(req.query?.ecnNumber).trim();
+
+  if (method === 'OPTIONS') {
+    res.setHeader('Allow', 'POST, OPTIONS');
+    res.status(204).end();
+    return;
+  }
+
+  if (method !== 'POST') {
+    logger.warn('Unsupported method for ECN transition endpoint', { method, ecnNumber });
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  if (!ecnNumber) {
+    res.status(400).json({ error: 'An ECN number is required.' });
+    return;
+  }
+
+  try {
+    const body = (await readJsonBody(req)) ?? {};
+    const data = await transitionEcn(ecnNumber, {
+      status: (typeof body['status'] === 'string' ? body['status'] : '') as EcnStatus,
+      employeeId: typeof body['employeeId'] === 'string' ? body['employeeId'] : undefined,
+      comment: typeof body['comment'] === 'string' ? body['comment'] : undefined,
+    });
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to transition engineering change notice', { ecnNumber, error: serializeError(error) });
+    const { status, message } = mapEcnErrorToStatus(error, 'Unable to update the ECN status.');
+    res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,21 @@
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { listEcnClassCodes } from '../../src/services/ecn.js';
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for ECN class code endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const data = await listEcnClassCodes();
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load ECN class codes', { error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to retrieve ECN class codes.' });
+  }
+}
@@ -0,0 +1,58 @@
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { getPartInventory, parseInventoryGrouping } from '../../src/services/inventory.js';
+
+function resolvePartNumber(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for part inventory endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const partNumber = resolvePartNumber(req.query?.partNumber).trim();
+
+  if (!partNumber) {
+    res.status(400).json({ error: 'A part number is required.' });
+    return;
+  }
+
+  try {
+    const groupBy = parseInventoryGrouping(resolveQueryParam(req.query?.groupBy));
+    const data = await getPartInventory(partNumber, { groupBy });
+
+    if (!data) {
+      res.status(404).json({ error: 'Part not found.' });
+      return;
+    }
+
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load part inventory', { partNumber, error: serializeError(error) });
+    const isInputError = error instanceof Error && /must/i.test(error.message);
+    res.status(isInputError ? 400 : 500).json({
+      error: isInputError ? (error as Error).message : 'Unable to retrieve part inventory.',
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../src/lib/logger.js';
+import {
+  renderLabels,
+  writeLabels,
+  type LabelFormat,
+  type LabelRequest,
+  type LabelSymbology,
+} from '../src/services/labels.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for labels endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapLabelErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  return typeof value === 'string' && value.trim() ? Number(value) : undefined;
+}
+
+function buildLabelRequests(value: unknown): LabelRequest[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.map((entry: Record<string, unknown>) => ({
+    kind: entry?.['kind'],
+    partNumber: toOptionalString(entry?.['partNumber']),
+    lotNumber: toOptionalString(entry?.['lotNumber']),
+    quantity: toOptionalNumber(entry?.['quantity']),
+    departmentCode: toOptionalString(entry?.['departmentCode']),
+    locationCode: toOptionalString(entry?.['locationCode']),
+    copies: toOptionalNumber(entry?.['copies']),
+  })) as LabelRequest[];
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'POST';
+
+  if (method !== 'POST') {
+    logger.warn('Unsupported method for labels endpoint', { method });
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const body = (await readJsonBody(req)) ?? {};
+    const labels = buildLabelRequests(body['labels']);
+    const options = {
+      format: toOptionalString(body['format'])?.toLowerCase() as LabelFormat | undefined,
+      template: toOptionalString(body['template']),
+      symbology: toOptionalString(body['symbology'])?.toLowerCase() as LabelSymbology | undefined,
+    };
+
+    if (body['save'] === true || body['save'] === 'true') {
+      const data = await writeLabels(labels, options);
+      res.status(201).json({ data });
+      return;
+    }
+
+    const file = await renderLabels(labels, options);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.status(200).send(file.body);
+  } catch (error) {
+    logger.error('Failed to render labels', { error: serializeError(error) });
+    const status = mapLabelErrorToStatus(error);
+    res.status(status).json({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to render labels.' });
+  }
+}
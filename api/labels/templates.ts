@@ -0,0 +1,15 @@
+import { logger } from '../../src/lib/logger.js';
+import { listLabelTemplates } from '../../src/services/labels.js';
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for label templates endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  res.status(200).json({ data: listLabelTemplates() });
+}
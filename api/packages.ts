@@ -0,0 +1,121 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../src/lib/logger.js';
+import { createPackage, listPackages, type PackagePayload } from '../src/services/packages.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for packages endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapPackageErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|cannot/i.test(error.message)) {
+      status = 409;
+    } else if (/must|required|invalid|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+function buildPackagePayload(body: RequestBody): PackagePayload {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required.');
+  }
+
+  return {
+    name: typeof body['name'] === 'string' ? body['name'] : undefined,
+    categories: body['categories'] === undefined ? undefined : (body['categories'] as string[]),
+  };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method === 'POST') {
+    try {
+      const body = await readJsonBody(req);
+      const data = await createPackage(buildPackagePayload(body));
+      res.status(201).json({ data });
+    } catch (error) {
+      logger.error('Failed to create package', { error: serializeError(error) });
+      const { status, message } = mapPackageErrorToStatus(error, 'Unable to create package.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for packages endpoint', { method });
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const data = await listPackages({
+      category: resolveQueryParam(req.query?.category),
+      query: resolveQueryParam(req.query?.q),
+    });
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load packages', { error: serializeError(error) });
+    const { status, message } = mapPackageErrorToStatus(error, 'Unable to retrieve packages.');
+    res.status(status).json({ error: message });
+  }
+}
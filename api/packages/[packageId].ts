@@ -0,0 +1,137 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { deletePackage, getPackage, updatePackage, type PackagePayload } from '../../src/services/packages.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for package endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapPackageErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|cannot/i.test(error.message)) {
+      status = 409;
+    } else if (/must|required|invalid|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+function buildPackagePayload(body: RequestBody): PackagePayload {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required.');
+  }
+
+  return {
+    name: typeof body['name'] === 'string' ? body['name'] : undefined,
+    categories: body['categories'] === undefined ? undefined : (body['categories'] as string[]),
+  };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const packageId = Number.parseInt(resolveParam(req.query?.packageId), 10);
+
+  if (!Number.isInteger(packageId) || packageId <= 0) {
+    res.status(400).json({ error: 'A valid package id is required.' });
+    return;
+  }
+
+  if (method === 'PUT') {
+    try {
+      const body = await readJsonBody(req);
+      const data = await updatePackage(packageId, buildPackagePayload(body));
+      res.status(200).json({ data });
+    } catch (error) {
+      logger.error('Failed to update package', { packageId, error: serializeError(error) });
+      const { status, message } = mapPackageErrorToStatus(error, 'Unable to update package.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method === 'DELETE') {
+    try {
+      await deletePackage(packageId);
+      res.status(204).end();
+    } catch (error) {
+      logger.error('Failed to remove package', { packageId, error: serializeError(error) });
+      const { status, message } = mapPackageErrorToStatus(error, 'Unable to remove package.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for package endpoint', { method, packageId });
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const data = await getPackage(packageId);
+
+    if (!data) {
+      res.status(404).json({ error: 'Package not found.' });
+      return;
+    }
+
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load package', { packageId, error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to retrieve package.' });
+  }
+}
@@ -0,0 +1,145 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../src/lib/logger.js';
+import {
+  deletePartType,
+  getPartType,
+  updatePartType,
+  type PartTypePayload,
+} from '../../src/services/partTypeAdmin.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for part type endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapAdminErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|cannot|would invalidate/i.test(error.message)) {
+      status = 409;
+    } else if (/must|required|invalid|references|more than once|no more than|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+function buildPartTypePayload(body: RequestBody): PartTypePayload {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required.');
+  }
+
+  const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+  return {
+    code: optionalString(body['code']),
+    sheetName: optionalString(body['sheetName']),
+    packageColumn: optionalString(body['packageColumn']),
+  };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const partTypeId = Number.parseInt(resolveParam(req.query?.partTypeId), 10);
+
+  if (!Number.isInteger(partTypeId) || partTypeId <= 0) {
+    res.status(400).json({ error: 'A valid part type id is required.' });
+    return;
+  }
+
+  if (method === 'PUT') {
+    try {
+      const body = await readJsonBody(req);
+      const data = await updatePartType(partTypeId, buildPartTypePayload(body));
+      res.status(200).json({ data });
+    } catch (error) {
+      logger.error('Failed to update part type', { partTypeId, error: serializeError(error) });
+      const { status, message } = mapAdminErrorToStatus(error, 'Unable to update part type.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method === 'DELETE') {
+    try {
+      await deletePartType(partTypeId);
+      res.status(204).end();
+    } catch (error) {
+      logger.error('Failed to remove part type', { partTypeId, error: serializeError(error) });
+      const { status, message } = mapAdminErrorToStatus(error, 'Unable to remove part type.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for part type endpoint', { method, partTypeId });
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const data = await getPartType(partTypeId);
+
+    if (!data) {
+      res.status(404).json({ error: 'Part type not found.' });
+      return;
+    }
+
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load part type', { partTypeId, error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to retrieve part type.' });
+  }
+}
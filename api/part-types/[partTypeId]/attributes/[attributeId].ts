@@ -0,0 +1,63 @@
+import { logger, serializeError } from '../../../../src/lib/logger.js';
+import { removeAttributeMapping } from '../../../../src/services/partTypeAdmin.js';
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+function parseFlag(value: unknown): boolean {
+  return value === true || ['1', 'true', 'yes'].includes(String(value ?? '').trim().toLowerCase());
+}
+
+function mapAdminErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|cannot|would invalidate/i.test(error.message)) {
+      status = 409;
+    } else if (/must|required|invalid|references|more than once|no more than|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'DELETE';
+  const partTypeId = Number.parseInt(resolveParam(req.query?.partTypeId), 10);
+  const attributeId = Number.parseInt(resolveParam(req.query?.attributeId), 10);
+
+  if (method !== 'DELETE') {
+    logger.warn('Unsupported method for attribute mapping endpoint', { method, partTypeId, attributeId });
+    res.setHeader('Allow', 'DELETE');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  if (!Number.isInteger(partTypeId) || partTypeId <= 0 || !Number.isInteger(attributeId) || attributeId <= 0) {
+    res.status(400).json({ error: 'A valid part type id and attribute id are required.' });
+    return;
+  }
+
+  try {
+    const data = await removeAttributeMapping(partTypeId, attributeId, {
+      dryRun: parseFlag(req.query?.dryRun),
+      confirm: parseFlag(req.query?.confirm),
+    });
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to unmap attribute from part type', { partTypeId, attributeId, error: serializeError(error) });
+    const { status, message } = mapAdminErrorToStatus(error, 'Unable to unmap attribute from part type.');
+    res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,111 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../../src/lib/logger.js';
+import { getPartNumberFormat, setPartNumberFormat } from '../../../src/services/partNumbering.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for part numbering endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapNumberingErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/must|required|may only|too large|invalid/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const partTypeId = Number.parseInt(resolveParam(req.query?.partTypeId), 10);
+
+  if (!Number.isInteger(partTypeId) || partTypeId <= 0) {
+    res.status(400).json({ error: 'A valid part type id is required.' });
+    return;
+  }
+
+  if (method === 'PUT') {
+    try {
+      const body = (await readJsonBody(req)) ?? {};
+      const data = await setPartNumberFormat(partTypeId, {
+        keyName: typeof body['keyName'] === 'string' ? body['keyName'] : undefined,
+        format: typeof body['format'] === 'string' ? body['format'] : undefined,
+        nextNumber: typeof body['nextNumber'] === 'number' ? body['nextNumber'] : undefined,
+      });
+      res.status(200).json({ data });
+    } catch (error) {
+      logger.error('Failed to save part number format', { partTypeId, error: serializeError(error) });
+      const { status, message } = mapNumberingErrorToStatus(error, 'Unable to save part number format.');
+      res.status(status).json({ error: message });
+    }
+    return;
+  }
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for part numbering endpoint', { method, partTypeId });
+    res.setHeader('Allow', 'GET, PUT');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const data = await getPartNumberFormat(partTypeId);
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load part number format', { partTypeId, error: serializeError(error) });
+    const { status, message } = mapNumberingErrorToStatus(error, 'Unable to retrieve part number format.');
+    res.status(status).json({ error: message });
+  }
+}
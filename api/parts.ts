@@ -1,6 +1,7 @@
 import { Readable } from 'node:stream';
 
 import { logger, serializeError } from '../src/lib/logger.js';
+import { resolveSortDirection } from '../src/lib/pagination.js';
 import { searchParts, upsertPart } from '../src/services/parts.js';
 
 type RequestBody = Record<string, unknown> | null;
@@ -67,6 +68,22 @@ function parseNumeric(value: unknown): number | undefined {
   return undefined;
 }
 
+function readPageRequest(query: Record<string, unknown> | undefined, limit: number | undefined) {
+  const cursor = resolveQueryParam(query?.['cursor']).trim();
+  const sort = resolveQueryParam(query?.['sort']).trim();
+
+  return {
+    limit,
+    cursor: cursor || undefined,
+    sort: sort || undefined,
+    direction: resolveSortDirection(resolveQueryParam(query?.['direction'])),
+  };
+}
+
+function isPageRequestError(error: unknown): error is Error {
+  return error instanceof Error && /pagination cursor|sort must be/i.test(error.message);
+}
+
 async function readJsonBody(req: any): Promise<RequestBody> {
   if (req.body && typeof req.body === 'object') {
     return req.body as Record<string, unknown>;
@@ -139,6 +156,7 @@ function buildPartPayload(body: RequestBody) {
     status: typeof body['status'] === 'string' ? body['status'] : undefined,
     partTypeId: parseNumeric(body['partTypeId']),
     attributes: normalizeAttributes(body['attributes']),
+    allowDuplicate: body['allowDuplicate'] === true,
   };
 }
 
@@ -155,6 +173,8 @@ function mapSaveErrorToStatus(error: unknown): { status: number; message: string
       status = 400;
     } else if (/does not exist/i.test(error.message)) {
       status = 404;
+    } else if (/duplicates existing|cannot/i.test(error.message)) {
+      status = 409;
     } else if (/required/i.test(error.message)) {
       status = 400;
     }
@@ -197,6 +217,7 @@ export default async function handler(req: any, res: any) {
   const description = resolveQueryParam(req.query?.description).trim();
   const inStockOnly = parseBooleanFlag(req.query?.inStock);
   const limit = resolvePartResultLimit(req.query?.limit);
+  const page = readPageRequest(req.query, limit);
 
   if (partNumber.length === 0 && description.length === 0 && !inStockOnly) {
     logger.warn('Rejected part search without filters', { source: 'vercel-function' });
@@ -215,16 +236,18 @@ export default async function handler(req: any, res: any) {
   });
 
   try {
-    const data = await searchParts({
+    const result = await searchParts({
+      ...page,
       partNumber,
       description,
       inStockOnly,
-      limit,
+      includeDeleted: parseBooleanFlag(req.query?.includeDeleted),
     });
-    res.status(200).json({ data });
+    res.status(200).json({ data: result.items, pagination: result.pageInfo });
 
     logger.info('Part search completed', {
-      resultCount: data.length,
+      resultCount: result.items.length,
+      total: result.pageInfo.total,
       partNumberLength: partNumber.length,
       descriptionLength: description.length,
       inStockOnly,
@@ -240,6 +263,11 @@ export default async function handler(req: any, res: any) {
       error: serializeError(error),
       source: 'vercel-function',
     });
+    if (isPageRequestError(error)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
     res.status(500).json({ error: 'Unable to complete part search.' });
   }
 }
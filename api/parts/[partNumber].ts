@@ -1,6 +1,7 @@
 import { Readable } from 'node:stream';
 
 import { logger, serializeError } from '../../src/lib/logger.js';
+import { deletePart } from '../../src/services/partLifecycle.js';
 import { getPartDetail, upsertPart } from '../../src/services/parts.js';
 
 type RequestBody = Record<string, unknown> | null;
@@ -114,6 +115,8 @@ function mapSaveErrorToStatus(error: unknown): { status: number; message: string
       status = 400;
     } else if (/does not exist/i.test(error.message)) {
       status = 404;
+    } else if (/duplicates existing|cannot/i.test(error.message)) {
+      status = 409;
     } else if (/required/i.test(error.message)) {
       status = 400;
     }
@@ -127,7 +130,7 @@ export default async function handler(req: any, res: any) {
   const partNumber = resolvePartNumber(req.query?.partNumber);
 
   if (method === 'OPTIONS') {
-    res.setHeader('Allow', 'GET, PUT, OPTIONS');
+    res.setHeader('Allow', 'GET, PUT, DELETE, OPTIONS');
     res.status(204).end();
     return;
   }
@@ -173,7 +176,23 @@ export default async function handler(req: any, res: any) {
     return;
   }
 
+  if (method === 'DELETE') {
+    try {
+      await deletePart(partNumber);
+      res.status(204).end();
+    } catch (error) {
+      logger.error('Failed to delete part from Vercel function', {
+        partNumber,
+        error: serializeError(error),
+      });
+      const message = error instanceof Error ? error.message : 'Unable to delete part.';
+      const status = /does not exist/i.test(message) ? 404 : /cannot/i.test(message) ? 409 : 500;
+      res.status(status).json({ error: status === 500 ? 'Unable to delete part.' : message });
+    }
+    return;
+  }
+
   logger.warn('Unsupported method for part detail endpoint', { method, partNumber });
-  res.setHeader('Allow', 'GET, PUT');
+  res.setHeader('Allow', 'GET, PUT, DELETE');
   res.status(405).json({ error: 'Method Not Allowed' });
 }
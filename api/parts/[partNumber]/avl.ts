@@ -0,0 +1,161 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../../src/lib/logger.js';
+import {
+  addPartSource,
+  listPartSources,
+  updatePartSource,
+  type PartSourcePayload,
+} from '../../../src/services/partSourcing.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolvePartNumber(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for part AVL endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapSourceErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/cannot|already exists/i.test(error.message)) {
+    return 409;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+function parseWeight(value: unknown): number | undefined {
+  const text = resolveQueryParam(value).trim();
+  return text ? Number.parseFloat(text) : undefined;
+}
+
+function buildSourcePayload(body: RequestBody): PartSourcePayload {
+  const source = body ?? {};
+  const pick = <T>(key: string) => (source[key] === undefined ? undefined : (source[key] as T));
+  const approved = source['approved'];
+
+  return {
+    manufacturerPartNumber: pick<string>('manufacturerPartNumber'),
+    supplierId: pick<string>('supplierId'),
+    description: pick<string | null>('description'),
+    status: pick<string | null>('status'),
+    approved: approved === undefined ? undefined : approved === true || approved === 'true',
+    price: pick<number | string | null>('price'),
+    leadTime: pick<number | string | null>('leadTime'),
+    rating: pick<number | string | null>('rating'),
+    obsoleteDate: pick<string | null>('obsoleteDate'),
+  };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const partNumber = resolvePartNumber(req.query?.partNumber).trim();
+
+  if (!partNumber) {
+    res.status(400).json({ error: 'A part number is required.' });
+    return;
+  }
+
+  if (method !== 'GET' && method !== 'POST' && method !== 'PATCH') {
+    logger.warn('Unsupported method for part AVL endpoint', { method });
+    res.setHeader('Allow', 'GET, POST, PATCH');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    if (method === 'GET') {
+      const includeRetired = resolveQueryParam(req.query?.includeRetired).toLowerCase();
+      const data = await listPartSources(partNumber, {
+        includeRetired: includeRetired === 'true' || includeRetired === '1',
+        weights: {
+          price: parseWeight(req.query?.priceWeight),
+          leadTime: parseWeight(req.query?.leadTimeWeight),
+          rating: parseWeight(req.query?.ratingWeight),
+        },
+      });
+      res.status(200).json({ data });
+      return;
+    }
+
+    const payload = buildSourcePayload(await readJsonBody(req));
+
+    if (method === 'POST') {
+      const data = await addPartSource(partNumber, payload);
+      res.status(201).json({ data });
+      return;
+    }
+
+    const data = await updatePartSource(partNumber, payload);
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Part AVL request failed', { partNumber, method, error: serializeError(error) });
+    const status = mapSourceErrorToStatus(error);
+    res.status(status).json({
+      error: error instanceof Error && status !== 500 ? error.message : 'Unable to process part sources.',
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../../../src/lib/logger.js';
+import { retirePartSource } from '../../../../src/services/partSourcing.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolvePartNumber(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for part source retire endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function mapSourceErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/cannot|already exists/i.test(error.message)) {
+    return 409;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'POST';
+  const partNumber = resolvePartNumber(req.query?.partNumber).trim();
+
+  if (!partNumber) {
+    res.status(400).json({ error: 'A part number is required.' });
+    return;
+  }
+
+  if (method !== 'POST') {
+    logger.warn('Unsupported method for part source retire endpoint', { method });
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const body = (await readJsonBody(req)) ?? {};
+    const data = await retirePartSource(partNumber, {
+      manufacturerPartNumber: typeof body['manufacturerPartNumber'] === 'string' ? body['manufacturerPartNumber'] : undefined,
+      supplierId: typeof body['supplierId'] === 'string' ? body['supplierId'] : undefined,
+      obsoleteDate: typeof body['obsoleteDate'] === 'string' ? body['obsoleteDate'] : null,
+    });
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Part source retire failed', { partNumber, error: serializeError(error) });
+    const status = mapSourceErrorToStatus(error);
+    res.status(status).json({
+      error: error instanceof Error && status !== 500 ? error.message : 'Unable to retire part source.',
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../../src/lib/logger.js';
+import { clonePart, type PartCloneOptions, type PartCloneSection } from '../../../src/services/partClone.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolvePartNumber(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for part clone endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+
+function buildCloneOptions(body: RequestBody): PartCloneOptions {
+  const source = body ?? {};
+  const sections = source['sections'];
+
+  return {
+    targetPartNumber: typeof source['partNumber'] === 'string' ? source['partNumber'] : undefined,
+    description: typeof source['description'] === 'string' ? source['description'] : undefined,
+    revision: typeof source['revision'] === 'string' ? source['revision'] : undefined,
+    sections: Array.isArray(sections) ? (sections.map((entry) => String(entry)) as PartCloneSection[]) : undefined,
+    resetCosts: source['resetCosts'] === true || source['resetCosts'] === 'true',
+  };
+}
+
+function mapCloneErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/already exists|must be different/i.test(error.message)) {
+    return 409;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'POST';
+
+  if (method !== 'POST') {
+    logger.warn('Unsupported method for part clone endpoint', { method });
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const partNumber = resolvePartNumber(req.query?.partNumber).trim();
+
+  if (!partNumber) {
+    res.status(400).json({ error: 'A part number is required.' });
+    return;
+  }
+
+  try {
+    const data = await clonePart(partNumber, buildCloneOptions(await readJsonBody(req)));
+    res.status(201).json({ data });
+  } catch (error) {
+    logger.error('Failed to clone part', { partNumber, error: serializeError(error) });
+    const status = mapCloneErrorToStatus(error);
+    const message = error instanceof Error && status !== 500 ? error.message : 'Unable to clone part.';
+    res.status(status).json({ error: message });
+  }
+}
@@ -0,0 +1,99 @@
+import { logger, serializeError } from '../../../src/lib/logger.js';
+import { listPartDocuments, uploadPartDocument } from '../../../src/services/partDocuments.js';
+
+function resolvePartNumber(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+function mapDocumentErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/cannot|already exists/i.test(error.message)) {
+    return 409;
+  }
+
+  if (/bytes or smaller/i.test(error.message)) {
+    return 413;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+// The file is the raw request body; its metadata travels in the query string so uploads stream
+// straight to storage instead of being buffered as base64 JSON.
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const partNumber = resolvePartNumber(req.query?.partNumber).trim();
+
+  if (!partNumber) {
+    res.status(400).json({ error: 'A part number is required.' });
+    return;
+  }
+
+  if (method !== 'GET' && method !== 'POST') {
+    logger.warn('Unsupported method for part documents endpoint', { method });
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    if (method === 'GET') {
+      const all = resolveQueryParam(req.query?.all).toLowerCase();
+      const data = await listPartDocuments(partNumber, {
+        all: all === 'true' || all === '1',
+        asOf: resolveQueryParam(req.query?.asOf) || null,
+      });
+      res.status(200).json({ data });
+      return;
+    }
+
+    const data = await uploadPartDocument(
+      partNumber,
+      {
+        documentId: resolveQueryParam(req.query?.documentId),
+        revision: resolveQueryParam(req.query?.revision),
+        description: resolveQueryParam(req.query?.description),
+        notes: resolveQueryParam(req.query?.notes),
+        fileName: resolveQueryParam(req.query?.fileName),
+        contentType: resolveQueryParam(req.headers?.['content-type']),
+        effectiveDate: resolveQueryParam(req.query?.effectiveDate) || null,
+        uploadedBy: resolveQueryParam(req.query?.uploadedBy),
+      },
+      req,
+    );
+    res.status(201).json({ data });
+  } catch (error) {
+    logger.error('Part documents request failed', { partNumber, method, error: serializeError(error) });
+    const status = mapDocumentErrorToStatus(error);
+    res.status(status).json({
+      error: error instanceof Error && status !== 500 ? error.message : 'Unable to process part documents.',
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { logger, serializeError } from '../../../../src/lib/logger.js';
+import { getPartDocumentContent, sendPartDocumentContent } from '../../../../src/services/partDocuments.js';
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+  const partNumber = resolveParam(req.query?.partNumber).trim();
+  const documentId = resolveParam(req.query?.documentId).trim();
+
+  if (!partNumber || !documentId) {
+    res.status(400).json({ error: 'A part number and document ID are required.' });
+    return;
+  }
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for part document download endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const file = await getPartDocumentContent(partNumber, documentId);
+    const download = resolveQueryParam(req.query?.download).toLowerCase();
+
+    sendPartDocumentContent(res, file, download === 'true' || download === '1');
+  } catch (error) {
+    logger.error('Part document download failed', { partNumber, documentId, error: serializeError(error) });
+    const status = error instanceof Error && /does not exist/i.test(error.message) ? 404 : 500;
+    res.status(status).json({
+      error: error instanceof Error && status !== 500 ? error.message : 'Unable to download part document.',
+    });
+  }
+}
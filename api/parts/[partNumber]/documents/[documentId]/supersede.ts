@@ -0,0 +1,89 @@
+import { logger, serializeError } from '../../../../../src/lib/logger.js';
+import { supersedePartDocument } from '../../../../../src/services/partDocuments.js';
+
+function resolveParam(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+function mapDocumentErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/cannot|already exists/i.test(error.message)) {
+    return 409;
+  }
+
+  if (/bytes or smaller/i.test(error.message)) {
+    return 413;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'POST';
+  const partNumber = resolveParam(req.query?.partNumber).trim();
+  const documentId = resolveParam(req.query?.documentId).trim();
+
+  if (!partNumber || !documentId) {
+    res.status(400).json({ error: 'A part number and document ID are required.' });
+    return;
+  }
+
+  if (method !== 'POST') {
+    logger.warn('Unsupported method for part document supersede endpoint', { method });
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const data = await supersedePartDocument(
+      partNumber,
+      documentId,
+      {
+        documentId: resolveQueryParam(req.query?.newDocumentId),
+        revision: resolveQueryParam(req.query?.revision),
+        description: resolveQueryParam(req.query?.description),
+        notes: resolveQueryParam(req.query?.notes),
+        fileName: resolveQueryParam(req.query?.fileName),
+        contentType: resolveQueryParam(req.headers?.['content-type']),
+        effectiveDate: resolveQueryParam(req.query?.effectiveDate) || null,
+        uploadedBy: resolveQueryParam(req.query?.uploadedBy),
+      },
+      req,
+    );
+    res.status(201).json({ data });
+  } catch (error) {
+    logger.error('Part document supersede failed', { partNumber, documentId, error: serializeError(error) });
+    const status = mapDocumentErrorToStatus(error);
+    res.status(status).json({
+      error: error instanceof Error && status !== 500 ? error.message : 'Unable to supersede part document.',
+    });
+  }
+}
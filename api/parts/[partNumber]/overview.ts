@@ -0,0 +1,42 @@
+import { logger, serializeError } from '../../../src/lib/logger.js';
+import { getPartOverviewAggregate } from '../../../src/services/partOverview.js';
+
+function resolvePartNumber(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for part overview endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const partNumber = resolvePartNumber(req.query?.partNumber).trim();
+
+  if (!partNumber) {
+    res.status(400).json({ error: 'A part number is required.' });
+    return;
+  }
+
+  try {
+    const data = await getPartOverviewAggregate(partNumber);
+
+    if (!data) {
+      res.status(404).json({ error: 'Part not found.' });
+      return;
+    }
+
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load part overview', { partNumber, error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to retrieve part overview.' });
+  }
+}
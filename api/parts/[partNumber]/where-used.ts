@@ -0,0 +1,62 @@
+import { logger, serializeError } from '../../../src/lib/logger.js';
+import { getWhereUsed } from '../../../src/services/bom.js';
+
+function resolvePartNumber(param: unknown): string {
+  if (Array.isArray(param)) {
+    return typeof param[0] === 'string' ? decodeURIComponent(param[0]) : '';
+  }
+
+  return typeof param === 'string' ? decodeURIComponent(param) : '';
+}
+
+function parseDateParam(value: unknown): Date | null | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+
+  if (typeof raw !== 'string' || raw.trim().length === 0) {
+    return undefined;
+  }
+
+  const date = new Date(raw.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for where-used endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const partNumber = resolvePartNumber(req.query?.partNumber).trim();
+
+  if (!partNumber) {
+    res.status(400).json({ error: 'A part number is required.' });
+    return;
+  }
+
+  const rawDepth = Array.isArray(req.query?.maxDepth) ? req.query?.maxDepth[0] : req.query?.maxDepth;
+  const maxDepth = typeof rawDepth === 'string' ? Number.parseInt(rawDepth, 10) : undefined;
+  const asOf = parseDateParam(req.query?.asOf);
+
+  if (asOf === null) {
+    res.status(400).json({ error: 'asOf must be a valid date.' });
+    return;
+  }
+
+  try {
+    const data = await getWhereUsed(partNumber, { maxDepth, asOf });
+
+    if (!data) {
+      res.status(404).json({ error: 'Part not found.' });
+      return;
+    }
+
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Failed to load where-used for part', { partNumber, error: serializeError(error) });
+    res.status(500).json({ error: 'Unable to retrieve where-used assemblies.' });
+  }
+}
@@ -0,0 +1,140 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { findDuplicateParts, type DuplicateCheckInput } from '../../src/services/partDuplicates.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+function resolveQueryValues(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((entry): entry is string => typeof entry === 'string')
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+function parseNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for duplicate part endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+
+// GET checks an existing part (partNumber) or MPNs (mpn, repeatable); attribute values can be
+// passed as attr.<id>=value. POST accepts the same fields as the part save payload.
+function buildQueryInput(query: Record<string, unknown>): DuplicateCheckInput {
+  const attributes = Object.entries(query)
+    .map(([key, value]) => ({ match: key.match(/^attr\.(\d+)$/), value: resolveQueryParam(value) }))
+    .filter((entry) => entry.match && entry.value)
+    .map((entry) => ({ attributeId: Number.parseInt((entry.match as RegExpMatchArray)[1], 10), value: entry.value }));
+
+  return {
+    partNumber: resolveQueryParam(query['partNumber']) || undefined,
+    partTypeId: parseNumber(resolveQueryParam(query['partTypeId'])),
+    manufacturerPartNumbers: resolveQueryValues(query['mpn']),
+    attributes,
+    limit: parseNumber(resolveQueryParam(query['limit'])),
+  };
+}
+
+function buildBodyInput(body: RequestBody): DuplicateCheckInput {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required.');
+  }
+
+  const attributes = Array.isArray(body['attributes'])
+    ? (body['attributes'] as Record<string, unknown>[])
+        .map((entry) => ({
+          attributeId: parseNumber(entry?.['attributeId']) ?? Number.NaN,
+          value: typeof entry?.['value'] === 'string' ? (entry['value'] as string) : '',
+        }))
+        .filter((entry) => Number.isFinite(entry.attributeId))
+    : [];
+
+  return {
+    partNumber: typeof body['partNumber'] === 'string' ? body['partNumber'] : undefined,
+    partTypeId: parseNumber(body['partTypeId']),
+    manufacturerPartNumbers: Array.isArray(body['manufacturerPartNumbers'])
+      ? (body['manufacturerPartNumbers'] as unknown[]).filter((entry): entry is string => typeof entry === 'string')
+      : [],
+    attributes,
+    limit: parseNumber(body['limit']),
+  };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET' && method !== 'POST') {
+    logger.warn('Unsupported method for duplicate part endpoint', { method });
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const input = method === 'POST' ? buildBodyInput(await readJsonBody(req)) : buildQueryInput(req.query ?? {});
+
+    if (!input.partNumber && !input.partTypeId && (input.manufacturerPartNumbers ?? []).length === 0) {
+      res.status(400).json({ error: 'A partNumber, partTypeId or manufacturer part number is required.' });
+      return;
+    }
+
+    const data = await findDuplicateParts(input);
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Duplicate part check failed', { error: serializeError(error) });
+    const message = error instanceof Error ? error.message : 'Unable to check for duplicate parts.';
+    const status = error instanceof Error && /required|invalid/i.test(error.message) ? 400 : 500;
+    res.status(status).json({ error: status === 500 ? 'Unable to check for duplicate parts.' : message });
+  }
+}
@@ -0,0 +1,59 @@
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { exportParts } from '../../src/services/partExport.js';
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+function resolveQueryValues(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((entry): entry is string => typeof entry === 'string')
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for part export endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const format = resolveQueryParam(req.query?.format).toLowerCase() || 'csv';
+
+  if (format !== 'csv' && format !== 'xlsx') {
+    res.status(400).json({ error: 'format must be csv or xlsx.' });
+    return;
+  }
+
+  const partTypeId = Number.parseInt(resolveQueryParam(req.query?.partTypeId), 10);
+
+  try {
+    const file = await exportParts({
+      format,
+      partTypeId: Number.isFinite(partTypeId) ? partTypeId : undefined,
+      partNumbers: resolveQueryValues(req.query?.partNumber),
+    });
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.status(200).send(file.body);
+  } catch (error) {
+    logger.error('Failed to export parts', { error: serializeError(error) });
+    const status = error instanceof Error && /must/i.test(error.message) ? 400 : 500;
+    res.status(status).json({ error: status === 400 ? (error as Error).message : 'Unable to export parts.' });
+  }
+}
@@ -0,0 +1,86 @@
+import { Readable } from 'node:stream';
+
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { importParts } from '../../src/services/partImport.js';
+
+type RequestBody = Record<string, unknown> | null;
+
+async function readJsonBody(req: any): Promise<RequestBody> {
+  if (req.body && typeof req.body === 'object') {
+    return req.body as Record<string, unknown>;
+  }
+
+  if (!(req instanceof Readable)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload for part import endpoint', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+
+function mapImportErrorToStatus(error: unknown): { status: number; message: string } {
+  let status = 500;
+  let message = 'Unable to import parts.';
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/must|required|invalid|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'POST';
+
+  if (method !== 'POST') {
+    logger.warn('Unsupported method for part import endpoint', { method });
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const body = (await readJsonBody(req)) ?? {};
+    const data = await importParts({
+      format: body['format'] === 'xlsx' ? 'xlsx' : 'csv',
+      content: typeof body['content'] === 'string' ? body['content'] : '',
+      dryRun: body['dryRun'] !== false,
+      batchSize: typeof body['batchSize'] === 'number' ? body['batchSize'] : undefined,
+      allowDuplicates: body['allowDuplicates'] === true,
+    });
+    res.status(data.dryRun ? 200 : 201).json({ data });
+  } catch (error) {
+    logger.error('Failed to import parts', { error: serializeError(error) });
+    const { status, message } = mapImportErrorToStatus(error);
+    res.status(status).json({ error: message });
+  }
+}
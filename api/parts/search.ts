@@ -0,0 +1,122 @@
+import { logger, serializeError } from '../../src/lib/logger.js';
+import { searchPartsParametric, type ParametricFilter } from '../../src/services/parts.js';
+
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return '';
+}
+
+function resolveQueryValues(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+function parseBooleanFlag(value: unknown): boolean {
+  const normalized = resolveQueryParam(value).trim().toLowerCase();
+  return normalized === 'true' || normalized === '1' || normalized === 'yes' || normalized === 'on';
+}
+
+function parseNumber(value: string): number | undefined {
+  if (value.trim().length === 0) {
+    return undefined;
+  }
+
+  const parsed = Number.parseFloat(value.trim());
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// Attribute filters arrive as attr.<id>=value (repeatable), attr.<id>.min=n and attr.<id>.max=n.
+// Bounds are passed through as text so the search can read engineering notation in the attribute's unit.
+function buildAttributeFilters(query: Record<string, unknown>): ParametricFilter[] {
+  const filters = new Map<number, ParametricFilter>();
+
+  Object.entries(query).forEach(([key, value]) => {
+    const match = key.match(/^attr\.(\d+)(?:\.(min|max))?$/);
+
+    if (!match) {
+      return;
+    }
+
+    const attributeId = Number.parseInt(match[1], 10);
+    const filter = filters.get(attributeId) ?? { attributeId };
+
+    if (match[2] === 'min' || match[2] === 'max') {
+      const bound = resolveQueryParam(value).trim();
+      if (!bound) {
+        throw new Error(`${key} must be a number.`);
+      }
+      filter[match[2]] = bound;
+    } else {
+      filter.values = [...(filter.values ?? []), ...resolveQueryValues(value)];
+    }
+
+    filters.set(attributeId, filter);
+  });
+
+  return Array.from(filters.values());
+}
+
+function mapSearchErrorToStatus(error: unknown): { status: number; message: string } {
+  let status = 500;
+  let message = 'Unable to search parts.';
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/must|required|not defined|does not have/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+export default async function handler(req: any, res: any) {
+  const method = req.method ?? 'GET';
+
+  if (method !== 'GET') {
+    logger.warn('Unsupported method for parametric part search endpoint', { method });
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const query = (req.query ?? {}) as Record<string, unknown>;
+
+  try {
+    const partTypeId = parseNumber(resolveQueryParam(query['partTypeId']));
+    const packageIds = resolveQueryValues(query['package'])
+      .flatMap((entry) => entry.split(','))
+      .map((entry) => Number.parseInt(entry, 10))
+      .filter((entry) => Number.isFinite(entry));
+    const limitValue = parseNumber(resolveQueryParam(query['limit']));
+
+    const data = await searchPartsParametric({
+      partNumber: resolveQueryParam(query['partNumber']),
+      description: resolveQueryParam(query['description']),
+      inStockOnly: parseBooleanFlag(query['inStock']),
+      includeDeleted: parseBooleanFlag(query['includeDeleted']),
+      limit: limitValue ?? 100,
+      partTypeId,
+      packageIds,
+      filters: buildAttributeFilters(query),
+    });
+    res.status(200).json({ data });
+  } catch (error) {
+    logger.error('Parametric part search failed', { error: serializeError(error) });
+    const { status, message } = mapSearchErrorToStatus(error);
+    res.status(status).json({ error: message });
+  }
+}
@@ -1,6 +1,31 @@
 import { logger, serializeError } from '../src/lib/logger.js';
+import { resolveSortDirection } from '../src/lib/pagination.js';
 import { getUnitsOfMeasure } from '../src/services/uom.js';
 
+function resolveQueryParam(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? '';
+  }
+
+  return typeof value === 'string' ? value : '';
+}
+
+function readPageRequest(query: Record<string, unknown> | undefined, limit: number | undefined) {
+  const cursor = resolveQueryParam(query?.['cursor']).trim();
+  const sort = resolveQueryParam(query?.['sort']).trim();
+
+  return {
+    limit,
+    cursor: cursor || undefined,
+    sort: sort || undefined,
+    direction: resolveSortDirection(resolveQueryParam(query?.['direction'])),
+  };
+}
+
+function isPageRequestError(error: unknown): error is Error {
+  return error instanceof Error && /pagination cursor|sort must be/i.test(error.message);
+}
+
 export default async function handler(req: any, res: any) {
   const method = req.method ?? 'GET';
 
@@ -15,10 +40,16 @@ export default async function handler(req: any, res: any) {
   const limit = typeof rawLimit === 'string' ? Number.parseInt(rawLimit, 10) : undefined;
 
   try {
-    const data = await getUnitsOfMeasure(limit);
-    res.status(200).json({ data });
+    const result = await getUnitsOfMeasure(readPageRequest(req.query, Number.isNaN(limit) ? undefined : limit));
+    res.status(200).json({ data: result.items, pagination: result.pageInfo });
   } catch (error) {
     logger.error('Failed to load units of measure', { error: serializeError(error) });
+
+    if (isPageRequestError(error)) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
     res.status(500).json({ error: 'Unable to retrieve units of measure.' });
   }
 }
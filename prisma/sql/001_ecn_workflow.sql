@@ -0,0 +1,41 @@
+-- ECN workflow state, staged part changes and status history (see src/services/ecn.ts).
+-- Apply before re-pulling the schema; see "Applying schema additions" in readme.txt.
+
+CREATE TABLE IF NOT EXISTS ecn_workflow (
+  ECNNumber      VARCHAR(10) NOT NULL,
+  status         ENUM('draft', 'review', 'approved', 'implemented') NOT NULL DEFAULT 'draft',
+  created_at     DATETIME    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at     DATETIME    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  approved_by    VARCHAR(10) NULL,
+  approved_at    DATETIME    NULL,
+  implemented_by VARCHAR(10) NULL,
+  implemented_at DATETIME    NULL,
+  PRIMARY KEY (ECNNumber),
+  CONSTRAINT fk_ecnworkflow_ecnheader FOREIGN KEY (ECNNumber) REFERENCES ecnheader (ECNNumber) ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+CREATE TABLE IF NOT EXISTS ecn_change (
+  ecn_change_ID INT         NOT NULL AUTO_INCREMENT,
+  ECNNumber     VARCHAR(10) NOT NULL,
+  PartNumber    VARCHAR(30) NOT NULL,
+  change_type   ENUM('revision', 'attribute', 'bom', 'document') NOT NULL,
+  payload       JSON        NOT NULL,
+  applied_at    DATETIME    NULL,
+  PRIMARY KEY (ecn_change_ID),
+  KEY fk_ecnchange_ecnheader (ECNNumber),
+  KEY ix_ecnchange_partnumber (PartNumber),
+  CONSTRAINT fk_ecnchange_ecnheader FOREIGN KEY (ECNNumber) REFERENCES ecnheader (ECNNumber) ON DELETE CASCADE
+) ENGINE = InnoDB;
+
+CREATE TABLE IF NOT EXISTS ecn_status_history (
+  ecn_status_history_ID INT         NOT NULL AUTO_INCREMENT,
+  ECNNumber             VARCHAR(10) NOT NULL,
+  from_status           ENUM('draft', 'review', 'approved', 'implemented') NULL,
+  to_status             ENUM('draft', 'review', 'approved', 'implemented') NOT NULL,
+  EmployeeID            VARCHAR(10) NULL,
+  comment               TEXT        NULL,
+  changed_at            DATETIME    NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (ecn_status_history_ID),
+  KEY fk_ecnhistory_ecnheader (ECNNumber),
+  CONSTRAINT fk_ecnhistory_ecnheader FOREIGN KEY (ECNNumber) REFERENCES ecnheader (ECNNumber) ON DELETE CASCADE
+) ENGINE = InnoDB;
@@ -0,0 +1,11 @@
+-- Part number format per part type, used to reserve numbers from syskeys (see src/services/partNumbering.ts).
+-- Apply before re-pulling the schema; see "Applying schema additions" in readme.txt.
+
+CREATE TABLE IF NOT EXISTS part_number_format (
+  part_type_ID TINYINT UNSIGNED NOT NULL,
+  syskey_name  VARCHAR(10)      NOT NULL,
+  format       VARCHAR(30)      NOT NULL,
+  updated_at   DATETIME         NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (part_type_ID),
+  CONSTRAINT fk_partnumberformat_parttype FOREIGN KEY (part_type_ID) REFERENCES part_type (part_type_id) ON DELETE CASCADE
+) ENGINE = InnoDB;
@@ -0,0 +1,18 @@
+-- Stored file metadata and revision chains for part documents (see src/services/partDocuments.ts).
+-- Apply before re-pulling the schema; see "Applying schema additions" in readme.txt.
+
+CREATE TABLE IF NOT EXISTS part_document_file (
+  PartNumber            VARCHAR(30)  NOT NULL,
+  DocumentID            VARCHAR(15)  NOT NULL,
+  document_key          VARCHAR(15)  NOT NULL,
+  supersedes_DocumentID VARCHAR(15)  NULL,
+  file_name             VARCHAR(255) NOT NULL,
+  content_type          VARCHAR(100) NOT NULL,
+  byte_size             BIGINT       NOT NULL,
+  uploaded_by           VARCHAR(10)  NULL,
+  uploaded_at           DATETIME     NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (PartNumber, DocumentID),
+  KEY ix_partdocfile_key (PartNumber, document_key),
+  CONSTRAINT fk_partdocfile_partdocuments FOREIGN KEY (PartNumber, DocumentID)
+    REFERENCES partdocuments (PartNumber, DocumentID) ON DELETE CASCADE
+) ENGINE = InnoDB;
@@ -106,6 +106,43 @@ const buildLocationLookups = (locations = []) => {
   return { byRoom, byRoomAndLocation };
 };
 
+// Renders text with the search match ranges wrapped in <mark>, without going through innerHTML.
+const appendHighlightedText = (target, value, highlights = []) => {
+  const text = String(value ?? '');
+
+  if (text.length === 0) {
+    target.append('—');
+    return;
+  }
+
+  let cursor = 0;
+  const ranges = [...highlights]
+    .filter((range) => Number.isInteger(range?.start) && Number.isInteger(range?.length) && range.length > 0)
+    .sort((a, b) => a.start - b.start);
+
+  ranges.forEach((range) => {
+    const start = Math.max(range.start, cursor);
+    const end = Math.min(range.start + range.length, text.length);
+
+    if (end <= start) {
+      return;
+    }
+
+    if (start > cursor) {
+      target.append(text.slice(cursor, start));
+    }
+
+    const mark = document.createElement('mark');
+    mark.textContent = text.slice(start, end);
+    target.appendChild(mark);
+    cursor = end;
+  });
+
+  if (cursor < text.length) {
+    target.append(text.slice(cursor));
+  }
+};
+
 const applyLocationDisplays = (parts = [], locations = []) => {
   const { byRoom, byRoomAndLocation } = buildLocationLookups(locations);
 
@@ -174,7 +211,7 @@ function initInventorySearch() {
   const searchInput = document.querySelector('#part-search');
   const descriptionInput = document.querySelector('#description-search');
   const inStockCheckbox = document.querySelector('#in-stock-filter');
-  const limitCheckbox = document.querySelector('#limit-results');
+  const sortButtons = document.querySelectorAll('[data-part-sort]');
   const resultsBody = document.querySelector('[data-part-results]');
   const controlContainers = document.querySelectorAll('[data-part-controls]');
   const totalTargets = document.querySelectorAll('[data-part-total]');
@@ -189,6 +226,8 @@ function initInventorySearch() {
   }
 
   const PAGE_SIZE = 25;
+  const FETCH_SIZE = 100;
+  const MAX_FETCH_SIZE = 1000;
   const COLUMN_COUNT = 7;
   const quantityFormatter = new Intl.NumberFormat(undefined, {
     minimumFractionDigits: 0,
@@ -200,13 +239,33 @@ function initInventorySearch() {
   let selectedRow = null;
   let selectedPartNumber = '';
   let lastParts = [];
+  let totalParts = 0;
+  let nextCursor = null;
+  let activeParams = null;
   let currentPageIndex = 0;
+  let sortKey = 'relevance';
+  let sortDirection = 'asc';
 
   const getPartQuery = () => searchInput.value.trim();
   const getDescriptionQuery = () => (descriptionInput ? descriptionInput.value.trim() : '');
   const isInStockOnly = () => Boolean(inStockCheckbox?.checked);
-  const shouldLimitResults = () => (limitCheckbox ? limitCheckbox.checked : true);
-  const getTotalPages = () => (lastParts.length === 0 ? 0 : Math.ceil(lastParts.length / PAGE_SIZE));
+  const getTotalPages = () => (totalParts === 0 ? 0 : Math.ceil(totalParts / PAGE_SIZE));
+
+  const updateSortIndicators = () => {
+    sortButtons.forEach((button) => {
+      const header = button.closest('th');
+
+      if (!header) {
+        return;
+      }
+
+      if (button.dataset.partSort === sortKey) {
+        header.setAttribute('aria-sort', sortDirection === 'desc' ? 'descending' : 'ascending');
+      } else {
+        header.removeAttribute('aria-sort');
+      }
+    });
+  };
 
   const resetControls = () => {
     currentPageIndex = 0;
@@ -232,8 +291,6 @@ function initInventorySearch() {
   };
 
   const updateControls = () => {
-    const totalParts = lastParts.length;
-
     if (totalParts === 0) {
       resetControls();
       return;
@@ -272,7 +329,63 @@ function initInventorySearch() {
     enableButtonState(lastButtons, isLastPage);
   };
 
-  const showPage = (pageIndex) => {
+  const fetchParts = async (params, cursor, limit) => {
+    const pageParams = new URLSearchParams(params);
+    const fetchOptions = {};
+    pageParams.set('limit', String(limit));
+
+    if (cursor) {
+      pageParams.set('cursor', cursor);
+    }
+
+    if (activeController) {
+      fetchOptions.signal = activeController.signal;
+    }
+
+    const response = await fetch(`/api/parts?${pageParams.toString()}`, fetchOptions);
+
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+
+    const payload = await response.json();
+    let parts = Array.isArray(payload.data) ? payload.data : [];
+
+    try {
+      const locations = await loadLocationsReference();
+      parts = applyLocationDisplays(parts, locations);
+    } catch (error) {
+      console.error('Unable to align room and location data', error);
+    }
+
+    const total = Number(payload?.pagination?.total);
+
+    return {
+      parts,
+      total: Number.isFinite(total) ? total : parts.length,
+      nextCursor: payload?.pagination?.nextCursor ?? null,
+    };
+  };
+
+  // Later pages are pulled from the server as the user pages forward, so large result sets are
+  // never loaded in one request.
+  const ensureLoaded = async (count) => {
+    while (lastParts.length < count && nextCursor && activeParams) {
+      const params = activeParams;
+      const limit = Math.min(Math.max(count - lastParts.length, FETCH_SIZE), MAX_FETCH_SIZE);
+      const result = await fetchParts(params, nextCursor, limit);
+
+      if (params !== activeParams) {
+        return;
+      }
+
+      lastParts = [...lastParts, ...result.parts];
+      totalParts = result.total;
+      nextCursor = result.nextCursor;
+    }
+  };
+
+  const showPage = async (pageIndex) => {
     const totalPages = getTotalPages();
 
     if (totalPages === 0) {
@@ -280,7 +393,22 @@ function initInventorySearch() {
       return;
     }
 
-    currentPageIndex = Math.min(Math.max(pageIndex, 0), totalPages - 1);
+    const targetIndex = Math.min(Math.max(pageIndex, 0), totalPages - 1);
+
+    try {
+      await ensureLoaded((targetIndex + 1) * PAGE_SIZE);
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        return;
+      }
+
+      console.error('Unable to load additional parts:', error);
+      showMessage('Unable to retrieve parts. Please try again.');
+      return;
+    }
+
+    const loadedPages = Math.max(1, Math.ceil(lastParts.length / PAGE_SIZE));
+    currentPageIndex = Math.min(targetIndex, loadedPages - 1);
     const start = currentPageIndex * PAGE_SIZE;
     const pageParts = lastParts.slice(start, start + PAGE_SIZE);
     renderRows(pageParts);
@@ -289,19 +417,19 @@ function initInventorySearch() {
 
   firstButtons.forEach((button) => {
     button.addEventListener('click', () => {
-      showPage(0);
+      void showPage(0);
     });
   });
 
   previousButtons.forEach((button) => {
     button.addEventListener('click', () => {
-      showPage(currentPageIndex - 1);
+      void showPage(currentPageIndex - 1);
     });
   });
 
   nextButtons.forEach((button) => {
     button.addEventListener('click', () => {
-      showPage(currentPageIndex + 1);
+      void showPage(currentPageIndex + 1);
     });
   });
 
@@ -309,7 +437,7 @@ function initInventorySearch() {
     button.addEventListener('click', () => {
       const totalPages = getTotalPages();
       if (totalPages > 0) {
-        showPage(totalPages - 1);
+        void showPage(totalPages - 1);
       }
     });
   });
@@ -342,6 +470,8 @@ function initInventorySearch() {
     resultsBody.appendChild(row);
 
     lastParts = [];
+    totalParts = 0;
+    nextCursor = null;
     clearSelection();
   };
 
@@ -395,9 +525,29 @@ function initInventorySearch() {
           ? part.availableQuantity
           : 0;
 
-      const cells = [
-        part.partNumber,
+      const match = part.match && Array.isArray(part.match.highlights) ? part.match : null;
+
+      const partCell = document.createElement('td');
+      appendHighlightedText(partCell, part.partNumber, match?.field === 'partNumber' ? match.highlights : []);
+
+      if (match?.field === 'manufacturerPartNumber') {
+        const mpn = document.createElement('span');
+        mpn.className = 'match-note';
+        mpn.append('MPN ');
+        appendHighlightedText(mpn, match.value, match.highlights);
+        partCell.appendChild(mpn);
+      }
+
+      const descriptionCell = document.createElement('td');
+      appendHighlightedText(
+        descriptionCell,
         part.description,
+        match?.field === 'description' ? match.highlights : [],
+      );
+
+      row.append(partCell, descriptionCell);
+
+      const cells = [
         quantityFormatter.format(quantityValue),
         part.stockUom,
         part.room,
@@ -446,7 +596,6 @@ function initInventorySearch() {
 
     try {
       const params = new URLSearchParams();
-      const fetchOptions = {};
 
       if (partQuery) {
         params.set('partNumber', partQuery);
@@ -460,39 +609,25 @@ function initInventorySearch() {
         params.set('inStock', 'true');
       }
 
-      if (!shouldLimitResults()) {
-        params.set('limit', '5000');
-      }
-
-      if (activeController) {
-        fetchOptions.signal = activeController.signal;
-      }
-
-      const queryString = params.toString();
-      const requestUrl = queryString.length > 0 ? `/api/parts?${queryString}` : '/api/parts';
-      const response = await fetch(requestUrl, fetchOptions);
-
-      if (!response.ok) {
-        throw new Error(`Request failed with status ${response.status}`);
-      }
+      params.set('sort', sortKey);
+      params.set('direction', sortDirection);
+      activeParams = params;
 
-      const payload = await response.json();
-      let parts = Array.isArray(payload.data) ? payload.data : [];
+      const result = await fetchParts(params, null, FETCH_SIZE);
 
-      try {
-        const locations = await loadLocationsReference();
-        parts = applyLocationDisplays(parts, locations);
-      } catch (error) {
-        console.error('Unable to align room and location data', error);
+      if (params !== activeParams) {
+        return;
       }
 
-      if (parts.length === 0) {
+      if (result.parts.length === 0) {
         showMessage('No parts matched your filters.');
         return;
       }
 
-      lastParts = parts;
-      showPage(0);
+      lastParts = result.parts;
+      totalParts = result.total;
+      nextCursor = result.nextCursor;
+      await showPage(0);
     } catch (error) {
       if (error.name === 'AbortError') {
         return;
@@ -504,6 +639,10 @@ function initInventorySearch() {
   };
 
   const queueSearch = () => {
+    // New search text goes back to best-match ordering.
+    sortKey = 'relevance';
+    sortDirection = 'asc';
+    updateSortIndicators();
     window.clearTimeout(debounceTimer);
     debounceTimer = window.setTimeout(() => {
       void performSearch();
@@ -523,12 +662,21 @@ function initInventorySearch() {
     });
   }
 
-  if (limitCheckbox) {
-    limitCheckbox.addEventListener('change', () => {
+  sortButtons.forEach((button) => {
+    button.addEventListener('click', () => {
+      const key = button.dataset.partSort;
+
+      if (!key) {
+        return;
+      }
+
+      sortDirection = key === sortKey && sortDirection === 'asc' ? 'desc' : 'asc';
+      sortKey = key;
+      updateSortIndicators();
       window.clearTimeout(debounceTimer);
       void performSearch();
     });
-  }
+  });
 
   document.addEventListener('inventory:part-changed', () => {
     window.clearTimeout(debounceTimer);
@@ -931,14 +1079,28 @@ function initBillOfMaterials() {
         fetchOptions.signal = activeController.signal;
       }
 
-      const response = await fetch(`/api/bom?assembly=${encodeURIComponent(trimmedAssembly)}`, fetchOptions);
+      const rows = [];
+      let cursor = null;
 
-      if (!response.ok) {
-        throw new Error(`Request failed with status ${response.status}`);
-      }
+      do {
+        const params = new URLSearchParams({ assembly: trimmedAssembly, limit: '1000' });
 
-      const payload = await response.json();
-      renderRows(payload?.data ?? []);
+        if (cursor) {
+          params.set('cursor', cursor);
+        }
+
+        const response = await fetch(`/api/bom?${params.toString()}`, fetchOptions);
+
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`);
+        }
+
+        const payload = await response.json();
+        rows.push(...(Array.isArray(payload?.data) ? payload.data : []));
+        cursor = payload?.pagination?.nextCursor ?? null;
+      } while (cursor);
+
+      renderRows(rows);
     } catch (error) {
       if (error.name === 'AbortError') {
         return;
@@ -1200,6 +1362,10 @@ function initPartEditor() {
   const saveButton = modal?.querySelector('[data-part-save]');
   const cancelButton = modal?.querySelector('[data-part-cancel]');
   const typeWarning = modal?.querySelector('[data-part-type-warning]');
+  const whereUsedSection = modal?.querySelector('[data-part-where-used-section]');
+  const whereUsedBody = modal?.querySelector('[data-part-where-used]');
+  const sourcesSection = modal?.querySelector('[data-part-sources-section]');
+  const sourcesBody = modal?.querySelector('[data-part-sources]');
 
   if (
     !modal ||
@@ -1298,29 +1464,232 @@ function initPartEditor() {
     return { kind: 'text', options: [] };
   };
 
-  const resolveRequirementState = (requiredRule, subtypeValue) => {
-    const normalizedRule = typeof requiredRule === 'string' ? requiredRule.trim().toLowerCase() : '';
-    if (!normalizedRule) {
-      return { required: false, visible: true };
+  // Mirrors src/services/engineeringUnits.ts so the form accepts "4.7k" or "100nF" the way the
+  // server will store them.
+  const SI_PREFIXES = {
+    f: 1e-15, p: 1e-12, n: 1e-9, u: 1e-6, 'µ': 1e-6, 'μ': 1e-6, m: 1e-3, k: 1e3, K: 1e3, M: 1e6, meg: 1e6, G: 1e9, T: 1e12,
+  };
+  const DISPLAY_PREFIXES = [
+    [1e12, 'T'], [1e9, 'G'], [1e6, 'M'], [1e3, 'k'], [1, ''], [1e-3, 'm'], [1e-6, 'µ'], [1e-9, 'n'], [1e-12, 'p'], [1e-15, 'f'],
+  ];
+  const BASE_UNITS = {
+    'Ω': ['ω', 'ohms', 'ohm', 'r'],
+    F: ['farads', 'farad', 'f'],
+    H: ['henries', 'henry', 'h'],
+    V: ['volts', 'volt', 'v'],
+    A: ['amperes', 'ampere', 'amps', 'amp', 'a'],
+    W: ['watts', 'watt', 'w'],
+    Hz: ['hertz', 'hz'],
+    s: ['seconds', 'sec', 's'],
+    m: ['meters', 'metres', 'meter', 'metre', 'm'],
+    g: ['grams', 'gram', 'g'],
+  };
+
+  const findBaseUnit = (text) =>
+    Object.keys(BASE_UNITS).find((symbol) => BASE_UNITS[symbol].includes(text.toLowerCase()) || symbol === text) ?? null;
+
+  const describeUnit = (unit) => {
+    const text = typeof unit === 'string' ? unit.trim() : '';
+    if (!text) return { symbol: null, scale: 1, aliases: [] };
+
+    const direct = findBaseUnit(text);
+    if (direct) return { symbol: direct, scale: 1, aliases: BASE_UNITS[direct] };
+
+    const prefixes = Object.keys(SI_PREFIXES).sort((a, b) => b.length - a.length);
+    for (const prefix of prefixes) {
+      if (text.startsWith(prefix) && text.length > prefix.length) {
+        const base = findBaseUnit(text.slice(prefix.length));
+        if (base) return { symbol: base, scale: SI_PREFIXES[prefix], aliases: BASE_UNITS[base] };
+      }
+    }
+
+    return { symbol: null, scale: 1, aliases: [text.toLowerCase()] };
+  };
+
+  const parseEngineeringValue = (input, unit) => {
+    let text = String(input ?? '').replace(/\s+/g, '');
+    if (!text) return null;
+
+    const infix = text.match(/^(\d+)([fpnuµμmkKMGTRr])(\d+)(.*)$/);
+    if (infix) {
+      const prefix = infix[2] === 'R' || infix[2] === 'r' ? '' : infix[2];
+      text = `${infix[1]}.${infix[3]}${prefix}${infix[4]}`;
+    }
+
+    const match = text.match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)(.*)$/);
+    if (!match) return null;
+
+    const number = Number.parseFloat(match[1]);
+    const info = describeUnit(unit);
+    const alias = [...info.aliases].sort((a, b) => b.length - a.length).find((candidate) => match[2].toLowerCase().endsWith(candidate));
+    const prefix = alias ? match[2].slice(0, match[2].length - alias.length) : match[2];
+
+    if (!prefix) {
+      return match[2] ? number / info.scale : number;
+    }
+
+    const multiplier = SI_PREFIXES[prefix.toLowerCase() === 'meg' ? 'meg' : prefix];
+    return multiplier === undefined ? null : (number * multiplier) / info.scale;
+  };
+
+  const formatEngineeringValue = (value, unit) => {
+    const info = describeUnit(unit);
+    const text = typeof unit === 'string' ? unit.trim() : '';
+
+    if (!info.symbol) {
+      const plain = String(Number(value.toPrecision(6)));
+      return text ? `${plain} ${text}` : plain;
+    }
+
+    const base = value * info.scale;
+    const magnitude = Math.abs(base);
+    const [divisor, prefix] =
+      magnitude === 0
+        ? [1, '']
+        : DISPLAY_PREFIXES.find(([candidate]) => magnitude >= candidate * (1 - 1e-9)) ?? DISPLAY_PREFIXES[DISPLAY_PREFIXES.length - 1];
+
+    return `${Number((base / divisor).toPrecision(6))} ${prefix}${info.symbol}`;
+  };
+
+  const normalizeRuleIdentifier = (value) =>
+    String(value ?? '')
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, '_')
+      .replace(/_\d+$/, '');
+
+  const buildRuleValues = (partType, values) => {
+    const ruleValues = new Map();
+    (partType?.attributes ?? []).forEach((attribute) => {
+      const value = values instanceof Map ? values.get(attribute.attributeId) : undefined;
+      ruleValues.set(normalizeRuleIdentifier(attribute.code), String(value ?? '').trim());
+    });
+    return ruleValues;
+  };
+
+  const compareRuleValues = (actual, operator, expected) => {
+    const numericPattern = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+    const expectedText = String(expected).trim();
+
+    if (numericPattern.test(actual) && numericPattern.test(expectedText)) {
+      const left = Number.parseFloat(actual);
+      const right = Number.parseFloat(expectedText);
+      switch (operator) {
+        case '=':
+          return left === right;
+        case '!=':
+          return left !== right;
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+        default:
+          return false;
+      }
     }
 
-    if (normalizedRule === 'yes') {
-      return { required: true, visible: true };
+    if (operator === '=') return actual.toLowerCase() === expectedText.toLowerCase();
+    if (operator === '!=') return actual.toLowerCase() !== expectedText.toLowerCase();
+    return false;
+  };
+
+  // Mirrors evaluateRule in src/services/attributeRules.ts: null means "not decided yet" because
+  // an attribute the rule depends on has no value.
+  const evaluateRuleNode = (node, ruleValues) => {
+    if (!node) return null;
+
+    if (node.type === 'and' || node.type === 'or') {
+      const results = node.operands.map((operand) => evaluateRuleNode(operand, ruleValues));
+      const decisive = node.type === 'and' ? false : true;
+      if (results.some((result) => result === decisive)) return decisive;
+      return results.every((result) => result === !decisive) ? !decisive : null;
+    }
+
+    if (node.type === 'not') {
+      const result = evaluateRuleNode(node.operand, ruleValues);
+      return result === null ? null : !result;
     }
 
-    if (normalizedRule === 'no') {
-      return { required: false, visible: true };
+    const actual = ruleValues.get(node.attribute) ?? '';
+
+    if (node.type === 'empty') {
+      return node.negated ? actual.length > 0 : actual.length === 0;
+    }
+
+    if (!actual) return null;
+
+    if (node.type === 'in') {
+      const matches = node.values.some((value) => compareRuleValues(actual, '=', value));
+      return node.negated ? !matches : matches;
     }
 
-    const matches = Array.from(normalizedRule.matchAll(/'([^']+)'/g)).map((match) => match[1]?.trim().toLowerCase());
-    const normalizedSubtype = (subtypeValue ?? '').trim().toLowerCase();
+    return compareRuleValues(actual, node.operator, node.value);
+  };
 
-    if (matches.length > 0 && normalizedSubtype) {
-      const matchFound = matches.some((entry) => entry === normalizedSubtype);
-      return { required: matchFound, visible: matchFound };
+  const collectRuleAttributes = (node, target) => {
+    if (!node) return target;
+    if (node.type === 'and' || node.type === 'or') {
+      node.operands.forEach((operand) => collectRuleAttributes(operand, target));
+    } else if (node.type === 'not') {
+      collectRuleAttributes(node.operand, target);
+    } else {
+      target.add(node.attribute);
     }
+    return target;
+  };
 
-    return { required: false, visible: true };
+  const collectRuleDependencies = (partType) => {
+    const dependencies = new Set();
+    (partType?.attributes ?? []).forEach((attribute) => {
+      collectRuleAttributes(attribute.requirement?.condition, dependencies);
+      [...(attribute.alternativeMin ?? []), ...(attribute.alternativeMax ?? [])].forEach((range) =>
+        collectRuleAttributes(range.condition, dependencies),
+      );
+    });
+    return dependencies;
+  };
+
+  const resolveRequirementState = (attribute, ruleValues) => {
+    const requirement = attribute?.requirement;
+
+    if (requirement?.kind === 'always') {
+      return { required: true, visible: true, reason: 'Always required' };
+    }
+
+    if (requirement?.kind !== 'conditional' || !requirement.condition) {
+      return { required: false, visible: true, reason: null };
+    }
+
+    const result = evaluateRuleNode(requirement.condition, ruleValues);
+    if (result === null) {
+      return { required: false, visible: true, reason: null };
+    }
+
+    return result
+      ? { required: true, visible: true, reason: `Required because ${requirement.description}` }
+      : { required: false, visible: false, reason: null };
+  };
+
+  const resolveAttributeBounds = (attribute, ruleValues) => {
+    const findRange = (ranges) =>
+      (Array.isArray(ranges) ? ranges : []).find((range) => evaluateRuleNode(range.condition, ruleValues) === true) ?? null;
+    const minRange = findRange(attribute?.alternativeMin);
+    const maxRange = findRange(attribute?.alternativeMax);
+
+    const describeBound = (value) => (attribute?.unit ? formatEngineeringValue(value, attribute.unit) : value);
+
+    return {
+      min: minRange ? minRange.value : attribute?.minValue,
+      max: maxRange ? maxRange.value : attribute?.maxValue,
+      notes: [
+        minRange ? `Minimum ${describeBound(minRange.value)} when ${minRange.description}` : '',
+        maxRange ? `Maximum ${describeBound(maxRange.value)} when ${maxRange.description}` : '',
+      ].filter(Boolean),
+    };
   };
 
   const isSubtypeAttribute = (attribute) => normalizeAttributeCode(attribute?.code) === 'subtype';
@@ -1335,17 +1704,10 @@ function initPartEditor() {
       return options.length === 0 || options.some((option) => option.toLowerCase() === trimmed.toLowerCase());
     }
 
-    if (kind === 'int') {
-      const parsed = Number.parseInt(trimmed, 10);
-      if (Number.isNaN(parsed)) return false;
-      if (typeof attribute.minValue === 'number' && parsed < attribute.minValue) return false;
-      if (typeof attribute.maxValue === 'number' && parsed > attribute.maxValue) return false;
-      return true;
-    }
-
-    if (kind === 'double') {
-      const parsed = Number.parseFloat(trimmed);
-      if (Number.isNaN(parsed)) return false;
+    if (kind === 'int' || kind === 'double') {
+      const parsed = parseEngineeringValue(trimmed, attribute.unit);
+      if (parsed === null) return false;
+      if (kind === 'int' && !Number.isInteger(Number(parsed.toPrecision(12)))) return false;
       if (typeof attribute.minValue === 'number' && parsed < attribute.minValue) return false;
       if (typeof attribute.maxValue === 'number' && parsed > attribute.maxValue) return false;
       return true;
@@ -1422,6 +1784,173 @@ function initPartEditor() {
     return indexed.map((entry) => entry.attribute);
   };
 
+  const quantityFormatter = new Intl.NumberFormat(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 4,
+  });
+
+  const formatShortDate = (value) => {
+    if (!value) {
+      return '—';
+    }
+
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return '—';
+    }
+
+    return date.toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: '2-digit',
+    });
+  };
+
+  const showWhereUsedMessage = (message) => {
+    if (!whereUsedBody) {
+      return;
+    }
+
+    whereUsedBody.innerHTML = '';
+    const row = document.createElement('tr');
+    const cell = document.createElement('td');
+    cell.colSpan = 5;
+    cell.textContent = message;
+    row.appendChild(cell);
+    whereUsedBody.appendChild(row);
+  };
+
+  const hideWhereUsed = () => {
+    if (whereUsedSection) {
+      whereUsedSection.hidden = true;
+    }
+
+    if (whereUsedBody) {
+      whereUsedBody.innerHTML = '';
+    }
+  };
+
+  const renderWhereUsed = (rows) => {
+    if (!whereUsedBody) {
+      return;
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      showWhereUsedMessage('This part is not used on any bill of materials.');
+      return;
+    }
+
+    whereUsedBody.innerHTML = '';
+
+    rows.forEach((entry) => {
+      const row = document.createElement('tr');
+      const indent = '\u2003'.repeat(Math.max(0, (Number(entry.level) || 1) - 1));
+      const assemblyLabel = entry.assemblyDescription
+        ? `${entry.assembly} — ${entry.assemblyDescription}`
+        : entry.assembly;
+      const flags = [entry.isTopLevel ? 'top level' : '', entry.isCyclic ? 'cyclic' : ''].filter(Boolean);
+
+      const cells = [
+        `${indent}${assemblyLabel}${flags.length > 0 ? ` (${flags.join(', ')})` : ''}`,
+        String(entry.level ?? '—'),
+        typeof entry.quantityPer === 'number' && Number.isFinite(entry.quantityPer)
+          ? quantityFormatter.format(entry.quantityPer)
+          : '—',
+        formatShortDate(entry.effectiveDate),
+        formatShortDate(entry.obsoleteDate),
+      ];
+
+      cells.forEach((value) => {
+        const cell = document.createElement('td');
+        cell.textContent = value;
+        row.appendChild(cell);
+      });
+
+      whereUsedBody.appendChild(row);
+    });
+  };
+
+  const loadWhereUsed = async (partNumber) => {
+    if (!whereUsedSection || !whereUsedBody || !partNumber) {
+      return;
+    }
+
+    whereUsedSection.hidden = false;
+    showWhereUsedMessage('Loading where-used assemblies…');
+
+    try {
+      const response = await fetch(`/api/parts/${encodeURIComponent(partNumber)}/where-used`);
+
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+
+      const payload = await response.json();
+      renderWhereUsed(payload?.data?.rows ?? []);
+    } catch (error) {
+      console.error('Failed to load where-used assemblies', error);
+      showWhereUsedMessage('Unable to load where-used assemblies.');
+    }
+  };
+
+  const hideSources = () => {
+    if (sourcesSection) {
+      sourcesSection.hidden = true;
+    }
+
+    if (sourcesBody) {
+      sourcesBody.innerHTML = '';
+    }
+  };
+
+  const renderSources = (sources) => {
+    if (!sourcesSection || !sourcesBody) {
+      return;
+    }
+
+    sourcesSection.hidden = false;
+    sourcesBody.innerHTML = '';
+
+    if (!Array.isArray(sources) || sources.length === 0) {
+      const row = document.createElement('tr');
+      const cell = document.createElement('td');
+      cell.colSpan = 7;
+      cell.textContent = 'No manufacturer or supplier part numbers are on file.';
+      row.appendChild(cell);
+      sourcesBody.appendChild(row);
+      return;
+    }
+
+    const formatNumber = (value, suffix = '') =>
+      typeof value === 'number' && Number.isFinite(value) ? `${quantityFormatter.format(value)}${suffix}` : '—';
+
+    sources.forEach((source) => {
+      const row = document.createElement('tr');
+      const supplierLabel = source.supplierName ? `${source.supplierId} — ${source.supplierName}` : source.supplierId;
+      const statusLabel = [source.approved ? 'Approved' : '', source.retired ? 'Retired' : source.status]
+        .filter(Boolean)
+        .join(', ');
+
+      const cells = [
+        source.rank === null || source.rank === undefined ? '—' : String(source.rank),
+        source.manufacturerPartNumber || '—',
+        supplierLabel || '—',
+        statusLabel || '—',
+        formatNumber(source.price),
+        formatNumber(source.leadTime, ' days'),
+        formatNumber(source.rating),
+      ];
+
+      cells.forEach((value) => {
+        const cell = document.createElement('td');
+        cell.textContent = value;
+        row.appendChild(cell);
+      });
+
+      sourcesBody.appendChild(row);
+    });
+  };
+
   const getPackageOptionsForPartType = (partType) =>
     Array.isArray(partType?.packageOptions) ? partType.packageOptions : [];
 
@@ -1641,6 +2170,9 @@ function initPartEditor() {
     const trimmed = (value ?? '').trim();
     if (!trimmed) return '';
     const unit = typeof attribute?.unit === 'string' ? attribute.unit.trim() : '';
+    const { kind } = parseAttributeDataType(attribute?.dataType);
+    const parsed = kind === 'int' || kind === 'double' ? parseEngineeringValue(trimmed, unit) : null;
+    if (parsed !== null) return formatEngineeringValue(parsed, unit);
     return unit ? `${trimmed} ${unit}` : trimmed;
   };
 
@@ -1654,7 +2186,7 @@ function initPartEditor() {
     const attributeValues = values instanceof Map ? values : new Map();
     const attributeIndexLookup = new Map(partType.attributes.map((attribute, index) => [attribute.attributeId, index]));
     const subtypeAttribute = partType.attributes.find((attribute) => isSubtypeAttribute(attribute));
-    const subtypeValue = subtypeAttribute ? (attributeValues.get(subtypeAttribute.attributeId) ?? '').trim() : '';
+    const ruleValues = buildRuleValues(partType, attributeValues);
     const descriptionParts = [];
 
     const partTypeLabel = partType.sheetName || partType.code || '';
@@ -1680,7 +2212,7 @@ function initPartEditor() {
         return;
       }
 
-      const { visible } = resolveRequirementState(attribute.requiredRule, subtypeValue);
+      const { visible } = resolveRequirementState(attribute, ruleValues);
       if (!visible) {
         return;
       }
@@ -1723,8 +2255,12 @@ function initPartEditor() {
     const attributeValues = values instanceof Map ? new Map(values) : new Map();
     state.attributeValues = attributeValues;
     const attributeIndexLookup = new Map(partType.attributes.map((attribute, index) => [attribute.attributeId, index]));
+    const ruleValues = buildRuleValues(partType, attributeValues);
+    const ruleDependencies = collectRuleDependencies(partType);
 
-    const buildAttributeField = (attribute, required) => {
+    const buildAttributeField = (attribute, requirement) => {
+      const required = requirement.required;
+      const bounds = resolveAttributeBounds(attribute, ruleValues);
       const field = document.createElement('div');
       field.className = 'modal__field';
       const label = document.createElement('label');
@@ -1738,6 +2274,9 @@ function initPartEditor() {
         const requiredMark = document.createElement('span');
         requiredMark.className = 'field-required';
         requiredMark.textContent = ' *';
+        if (requirement.reason) {
+          requiredMark.title = requirement.reason;
+        }
         label.appendChild(requiredMark);
       }
 
@@ -1778,18 +2317,18 @@ function initPartEditor() {
         control.value = attributeValues.get(attribute.attributeId) ?? '';
       } else {
         control = document.createElement('input');
-        control.type = kind === 'int' || kind === 'double' ? 'number' : 'text';
-        control.inputMode = kind === 'int' ? 'numeric' : kind === 'double' ? 'decimal' : 'text';
-        if (kind === 'int') {
-          control.step = '1';
-        } else if (kind === 'double') {
-          control.step = 'any';
-        }
-        if (typeof attribute.minValue === 'number') {
-          control.min = String(attribute.minValue);
-        }
-        if (typeof attribute.maxValue === 'number') {
-          control.max = String(attribute.maxValue);
+        // Numeric attributes stay text inputs so values can be typed as printed, e.g. "4.7k" or "100nF".
+        control.type = 'text';
+        control.inputMode = 'text';
+        if (kind === 'int' || kind === 'double') {
+          control.placeholder = attribute.unit ? `e.g. 4.7k or 100m (${attribute.unit})` : 'e.g. 4.7k';
+          const limits = [
+            typeof bounds.min === 'number' ? `≥ ${formatEngineeringValue(bounds.min, attribute.unit)}` : '',
+            typeof bounds.max === 'number' ? `≤ ${formatEngineeringValue(bounds.max, attribute.unit)}` : '',
+          ].filter(Boolean);
+          if (limits.length > 0) {
+            control.title = limits.join(', ');
+          }
         }
         control.value = attributeValues.get(attribute.attributeId) ?? '';
       }
@@ -1799,13 +2338,18 @@ function initPartEditor() {
       control.dataset.partAttributeInput = 'true';
       control.required = Boolean(required);
 
-      const handleChange = () => {
+      const handleChange = (event) => {
         attributeValues.set(attribute.attributeId, control.value.trim());
         state.attributeValues = attributeValues;
         if (isSubtypeAttribute(attribute)) {
           renderAttributes(partTypeId, attributeValues);
           return;
         }
+        // Other rule inputs re-render on commit only so typing in a text box keeps its focus.
+        if (event.type === 'change' && ruleDependencies.has(normalizeRuleIdentifier(attribute.code))) {
+          renderAttributes(partTypeId, attributeValues);
+          return;
+        }
         updateDescriptionFromAttributes();
       };
 
@@ -1828,6 +2372,14 @@ function initPartEditor() {
         field.appendChild(control);
       }
 
+      const hints = [required ? requirement.reason : '', ...bounds.notes].filter(Boolean);
+      if (hints.length > 0) {
+        const hint = document.createElement('p');
+        hint.className = 'modal__hint';
+        hint.textContent = hints.join('. ');
+        field.appendChild(hint);
+      }
+
       attributeContainer.appendChild(field);
     };
 
@@ -1836,7 +2388,7 @@ function initPartEditor() {
     const subtypeReady = isSubtypeComplete(subtypeAttribute, subtypeValue);
 
     if (subtypeAttribute) {
-      buildAttributeField(subtypeAttribute, true);
+      buildAttributeField(subtypeAttribute, { required: true, visible: true, reason: null });
     }
 
     if (!subtypeReady && subtypeAttribute) {
@@ -1851,11 +2403,11 @@ function initPartEditor() {
     );
 
     sortedAttributes.forEach((attribute) => {
-      const { required, visible } = resolveRequirementState(attribute.requiredRule, subtypeValue);
-      if (!visible) {
+      const requirement = resolveRequirementState(attribute, ruleValues);
+      if (!requirement.visible) {
         return;
       }
-      buildAttributeField(attribute, required);
+      buildAttributeField(attribute, requirement);
     });
 
     attributeSection.hidden = attributeContainer.children.length === 0;
@@ -1877,6 +2429,10 @@ function initPartEditor() {
     const isCreate = mode === 'create';
 
     partNumberInput.disabled = !isCreate;
+    partNumberInput.required = !isCreate;
+    if (!isCreate) {
+      partNumberInput.placeholder = '';
+    }
     descriptionInput.disabled = false;
     stockUomSelect.disabled = !isEdit;
     partTypeSelect.disabled = !isEdit;
@@ -1913,6 +2469,8 @@ function initPartEditor() {
     if (typeWarning) {
       typeWarning.hidden = true;
     }
+    hideWhereUsed();
+    hideSources();
     setMode('create');
   };
 
@@ -1940,6 +2498,7 @@ function initPartEditor() {
     }
 
     state.attributeValues = attributeMap;
+    renderSources(detail?.sources ?? []);
     const roomCode = detail?.roomCode ?? '';
     const locationCode = detail?.locationCode ?? '';
 
@@ -2041,9 +2600,11 @@ function initPartEditor() {
       console.error('Failed to load part detail', error);
       setFeedback('Unable to load part details.');
     }
+
+    void loadWhereUsed(partNumber);
   };
 
-  const saveChanges = async () => {
+  const saveChanges = async (allowDuplicate = false) => {
     const partNumber = partNumberInput.value.trim();
     const description = descriptionInput.value.trim();
     const room = roomSelect.value.trim();
@@ -2054,7 +2615,7 @@ function initPartEditor() {
     const partTypeId = toNumber(partTypeSelect.value);
     const attributes = getAttributeValues();
 
-    if (!partNumber) {
+    if (!partNumber && state.mode !== 'create') {
       setFeedback('Part Number is required.', 'error');
       partNumberInput.focus();
       return;
@@ -2087,6 +2648,7 @@ function initPartEditor() {
           status,
           partTypeId,
           attributes,
+          allowDuplicate,
         }),
       });
 
@@ -2094,6 +2656,12 @@ function initPartEditor() {
 
       if (!response.ok) {
         const message = typeof payload?.error === 'string' ? payload.error : 'Unable to save part.';
+        if (isCreate && !allowDuplicate && response.status === 409 && /duplicates existing/i.test(message)) {
+          if (window.confirm(`${message.replace(/;.*$/, '.')}\n\nCreate the part anyway?`)) {
+            await saveChanges(true);
+            return;
+          }
+        }
         throw new Error(message);
       }
 
@@ -2137,11 +2705,31 @@ function initPartEditor() {
     syncRoomAndLocationState(state.mode !== 'view');
   });
 
+  const previewPartNumber = async (partTypeId) => {
+    partNumberInput.placeholder = '';
+
+    if (state.mode !== 'create' || partTypeId === null) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/part-types/${encodeURIComponent(partTypeId)}/numbering`);
+      const payload = await response.json().catch(() => ({}));
+
+      if (response.ok && payload?.data?.preview && state.mode === 'create') {
+        partNumberInput.placeholder = `Auto: ${payload.data.preview}`;
+      }
+    } catch (error) {
+      console.error('Failed to preview part number', error);
+    }
+  };
+
   partTypeSelect.addEventListener('change', () => {
     const selectedId = toNumber(partTypeSelect.value);
     state.attributeValues = new Map();
     renderAttributes(selectedId, state.attributeValues);
     updateDescriptionFromAttributes();
+    void previewPartNumber(selectedId);
 
     if (typeWarning) {
       typeWarning.hidden = selectedId !== null;
@@ -1,16 +1,105 @@
 import 'dotenv/config';
 import { spawn } from 'node:child_process';
-import { createReadStream } from 'node:fs';
 import { copyFile, mkdir, readFile, stat } from 'node:fs/promises';
 import { createServer, IncomingMessage, ServerResponse } from 'node:http';
 import path from 'node:path';
 import process from 'node:process';
 import { summarizeConnectionString } from './lib/connectionString.js';
+import { streamFile } from './lib/fileStream.js';
 import { logger, serializeError } from './lib/logger.js';
+import { resolveSortDirection, type PageRequest } from './lib/pagination.js';
 import { prisma } from './lib/prisma.js';
-import { getBillOfMaterials } from './services/bom.js';
-import { getInventorySnapshot } from './services/inventory.js';
-import { getPartDetail, listPartTypes, searchParts, upsertPart } from './services/parts.js';
+import {
+  compareBillsOfMaterials,
+  createBomLine,
+  deleteBomLine,
+  explodeBillOfMaterials,
+  getBillOfMaterials,
+  getPendingBomChanges,
+  getWhereUsed,
+  updateBomLine,
+} from './services/bom.js';
+import { importEdaBillOfMaterials } from './services/bomImport.js';
+import { rollUpStandardCosts } from './services/costing.js';
+import {
+  createEcn,
+  getEcn,
+  listEcnClassCodes,
+  listEcns,
+  readEcnChanges,
+  transitionEcn,
+  updateEcn,
+  type EcnPayload,
+  type EcnStatus,
+} from './services/ecn.js';
+import { getInventorySnapshot, getPartInventory, parseInventoryGrouping } from './services/inventory.js';
+import {
+  listLabelTemplates,
+  renderLabels,
+  writeLabels,
+  type LabelFormat,
+  type LabelRequest,
+  type LabelSymbology,
+} from './services/labels.js';
+import {
+  createPackage,
+  deletePackage,
+  getPackage,
+  getPackageCategoryOverview,
+  listPackages,
+  updatePackage,
+  type PackagePayload,
+} from './services/packages.js';
+import {
+  deletePart,
+  getPartLifecycle,
+  parseLifecycleState,
+  transitionPartLifecycle,
+} from './services/partLifecycle.js';
+import { clonePart, type PartCloneSection } from './services/partClone.js';
+import {
+  getPartDocumentContent,
+  listPartDocuments,
+  sendPartDocumentContent,
+  supersedePartDocument,
+  uploadPartDocument,
+  type PartDocumentUpload,
+} from './services/partDocuments.js';
+import { exportParts } from './services/partExport.js';
+import { importParts } from './services/partImport.js';
+import { findDuplicateParts, type DuplicateCheckInput } from './services/partDuplicates.js';
+import { getPartNumberFormat, setPartNumberFormat } from './services/partNumbering.js';
+import { getPartOverviewAggregate } from './services/partOverview.js';
+import {
+  addPartSource,
+  listPartSources,
+  retirePartSource,
+  updatePartSource,
+  type PartSourcePayload,
+} from './services/partSourcing.js';
+import {
+  addAttributeMapping,
+  createAttribute,
+  createPartType,
+  deleteAttribute,
+  deletePartType,
+  getAttribute,
+  getPartType,
+  listAttributes,
+  removeAttributeMapping,
+  updateAttribute,
+  updatePartType,
+  type AttributePayload,
+  type PartTypePayload,
+} from './services/partTypeAdmin.js';
+import {
+  getPartDetail,
+  listPartTypes,
+  searchParts,
+  searchPartsParametric,
+  upsertPart,
+  type ParametricFilter,
+} from './services/parts.js';
 import { listLocations } from './services/locations.js';
 import { getUnitsOfMeasure } from './services/uom.js';
 
@@ -217,6 +306,59 @@ async function handlePartDetail(res: ServerResponse, partNumber: string) {
   }
 }
 
+async function handleWhereUsed(
+  res: ServerResponse,
+  partNumber: string,
+  maxDepth: number | undefined,
+  asOf: Date | null | undefined,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  if (asOf === null) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: 'asOf must be a valid date.' }));
+    return;
+  }
+
+  try {
+    const data = await getWhereUsed(partNumber, { maxDepth, asOf });
+
+    if (!data) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Part not found.' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load where-used', { partNumber, error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve where-used assemblies.' }));
+  }
+}
+
+async function handlePartOverview(res: ServerResponse, partNumber: string) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await getPartOverviewAggregate(partNumber);
+
+    if (!data) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Part not found.' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load part overview', { partNumber, error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve part overview.' }));
+  }
+}
+
 function parseNumeric(value: unknown): number | undefined {
   if (typeof value === 'number' && Number.isFinite(value)) {
     return value;
@@ -276,6 +418,7 @@ async function handlePartUpsert(
             };
           })
         : undefined,
+      allowDuplicate: body['allowDuplicate'] === true,
     };
 
     const result = await upsertPart(payload, allowCreate);
@@ -294,6 +437,8 @@ async function handlePartUpsert(
         status = 400;
       } else if (/does not exist/i.test(error.message)) {
         status = 404;
+      } else if (/duplicates existing|cannot/i.test(error.message)) {
+        status = 409;
       } else if (/required/i.test(error.message)) {
         status = 400;
       }
@@ -304,248 +449,1729 @@ async function handlePartUpsert(
   }
 }
 
-function resolveMimeType(filePath: string) {
-  const extension = path.extname(filePath).toLowerCase();
-  return MIME_TYPES[extension] ?? 'application/octet-stream';
-}
-
-function sanitizePath(requestPath: string) {
-  const normalized = path.normalize(requestPath);
-  const relative = normalized.replace(/^\/+/, '');
-  return relative;
-}
+function readDuplicateCheckInput(searchParams: URLSearchParams, body: Record<string, unknown> | null): DuplicateCheckInput {
+  const parseNumber = (value: unknown) => {
+    const parsed = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
 
-function parseBooleanFlag(value: string | null): boolean {
-  if (!value) {
-    return false;
+  if (body) {
+    return {
+      partNumber: typeof body['partNumber'] === 'string' ? body['partNumber'] : undefined,
+      partTypeId: parseNumber(body['partTypeId']),
+      manufacturerPartNumbers: Array.isArray(body['manufacturerPartNumbers'])
+        ? (body['manufacturerPartNumbers'] as unknown[]).filter((entry): entry is string => typeof entry === 'string')
+        : [],
+      attributes: Array.isArray(body['attributes'])
+        ? (body['attributes'] as Record<string, unknown>[])
+            .map((entry) => ({
+              attributeId: parseNumber(entry?.['attributeId']) ?? Number.NaN,
+              value: typeof entry?.['value'] === 'string' ? (entry['value'] as string) : '',
+            }))
+            .filter((entry) => Number.isFinite(entry.attributeId))
+        : [],
+      limit: parseNumber(body['limit']),
+    };
   }
 
-  const normalized = value.trim().toLowerCase();
-  return normalized === 'true' || normalized === '1' || normalized === 'yes' || normalized === 'on';
+  const attributes: { attributeId: number; value: string }[] = [];
+  searchParams.forEach((value, key) => {
+    const match = key.match(/^attr\.(\d+)$/);
+    if (match && value.trim()) {
+      attributes.push({ attributeId: Number.parseInt(match[1], 10), value });
+    }
+  });
+
+  return {
+    partNumber: searchParams.get('partNumber') ?? undefined,
+    partTypeId: parseNumber(searchParams.get('partTypeId')),
+    manufacturerPartNumbers: searchParams
+      .getAll('mpn')
+      .flatMap((entry) => entry.split(','))
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    attributes,
+    limit: parseNumber(searchParams.get('limit')),
+  };
 }
 
-async function readRequestBody(req: IncomingMessage): Promise<unknown> {
-  const chunks: Buffer[] = [];
+async function handleDuplicateCheck(req: IncomingMessage, res: ServerResponse, searchParams: URLSearchParams) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
 
-  for await (const chunk of req) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+  try {
+    const body = req.method === 'POST' ? (((await readRequestBody(req)) as Record<string, unknown> | null) ?? {}) : null;
+    const input = readDuplicateCheckInput(searchParams, body);
 
-    if (totalLength > 1_000_000) {
-      throw new Error('Request body is too large.');
+    if (!input.partNumber && !input.partTypeId && (input.manufacturerPartNumbers ?? []).length === 0) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'A partNumber, partTypeId or manufacturer part number is required.' }));
+      return;
     }
+
+    const data = await findDuplicateParts(input);
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Duplicate part check failed', { error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to check for duplicate parts.' }));
   }
+}
 
-  if (chunks.length === 0) {
-    return null;
+function mapCloneErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
   }
 
-  const payload = Buffer.concat(chunks).toString('utf8').trim();
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
 
-  if (payload.length === 0) {
-    return null;
+  if (/already exists|must be different/i.test(error.message)) {
+    return 409;
   }
 
-  try {
-    return JSON.parse(payload);
-  } catch (error) {
-    logger.warn('Failed to parse JSON payload', { error: serializeError(error) });
-    throw new Error('Invalid JSON payload.');
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
   }
+
+  return 500;
 }
 
-function resolvePartResultLimit(rawLimit: string | null): number | undefined {
-  if (!rawLimit) {
-    return 100;
-  }
+async function handlePartClone(req: IncomingMessage, res: ServerResponse, partNumber: string) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
 
-  const normalized = rawLimit.trim().toLowerCase();
+  try {
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const sections = body['sections'];
+    const data = await clonePart(partNumber, {
+      targetPartNumber: typeof body['partNumber'] === 'string' ? body['partNumber'] : undefined,
+      description: typeof body['description'] === 'string' ? body['description'] : undefined,
+      revision: typeof body['revision'] === 'string' ? body['revision'] : undefined,
+      sections: Array.isArray(sections) ? (sections.map((entry) => String(entry)) as PartCloneSection[]) : undefined,
+      resetCosts: body['resetCosts'] === true || body['resetCosts'] === 'true',
+    });
 
-  if (
-    normalized === 'all' ||
-    normalized === 'false' ||
-    normalized === '0' ||
-    normalized === 'off' ||
-    normalized === 'no'
-  ) {
-    return undefined;
+    res.statusCode = 201;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to clone part', { partNumber, error: serializeError(error) });
+    const status = mapCloneErrorToStatus(error);
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to clone part.' }));
   }
+}
 
-  const parsed = Number.parseInt(normalized, 10);
+async function handlePartImport(req: IncomingMessage, res: ServerResponse) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
 
-  if (Number.isNaN(parsed) || parsed <= 0) {
-    return 100;
+  try {
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const data = await importParts({
+      format: body['format'] === 'xlsx' ? 'xlsx' : 'csv',
+      content: typeof body['content'] === 'string' ? body['content'] : '',
+      dryRun: body['dryRun'] !== false,
+      batchSize: typeof body['batchSize'] === 'number' ? body['batchSize'] : undefined,
+      allowDuplicates: body['allowDuplicates'] === true,
+    });
+    res.statusCode = data.dryRun ? 200 : 201;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Part import failed', { error: serializeError(error) });
+    const isInputError = error instanceof Error && /must|required|invalid|too large/i.test(error.message);
+    res.statusCode = isInputError ? 400 : 500;
+    res.end(JSON.stringify({ error: isInputError ? (error as Error).message : 'Unable to import parts.' }));
   }
-
-  return parsed;
 }
 
-type PartSearchFilters = {
-  partNumber: string;
-  description: string;
-  inStockOnly: boolean;
-  limit: number | undefined;
-};
-
-async function handlePartSearch(
-  req: IncomingMessage,
-  res: ServerResponse,
-  filters: PartSearchFilters,
-) {
-  const partNumber = filters.partNumber.trim();
-  const description = filters.description.trim();
-  const inStockOnly = filters.inStockOnly;
-  const limit = filters.limit;
+async function handlePartExport(res: ServerResponse, searchParams: URLSearchParams) {
+  const format = (searchParams.get('format') ?? 'csv').trim().toLowerCase() || 'csv';
 
-  if (partNumber.length === 0 && description.length === 0 && !inStockOnly) {
-    res.statusCode = 400;
+  if (format !== 'csv' && format !== 'xlsx') {
     res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(
-      JSON.stringify({ error: 'Provide a part number, description, or enable the In Stock filter.' }),
-    );
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: 'format must be csv or xlsx.' }));
     return;
   }
 
-  logger.info('Incoming part search request', {
-    partNumberLength: partNumber.length,
-    descriptionLength: description.length,
-    inStockOnly,
-    limit,
-  });
-
   try {
-    const data = await searchParts({
-      partNumber,
-      description,
-      inStockOnly,
-      limit,
+    const file = await exportParts({
+      format,
+      partTypeId: parseNumeric(searchParams.get('partTypeId')),
+      partNumbers: searchParams
+        .getAll('partNumber')
+        .flatMap((entry) => entry.split(','))
+        .map((entry) => entry.trim())
+        .filter(Boolean),
     });
-    res.statusCode = 200;
-    res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(JSON.stringify({ data }));
 
-    logger.info('Part search completed', {
-      resultCount: data.length,
-      partNumberLength: partNumber.length,
-      descriptionLength: description.length,
-      inStockOnly,
-      limit,
-    });
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.statusCode = 200;
+    res.end(file.body);
   } catch (error) {
-    logger.error('Part search failed', {
-      partNumberLength: partNumber.length,
-      descriptionLength: description.length,
-      inStockOnly,
-      limit,
-      error: serializeError(error),
-    });
-    res.statusCode = 500;
+    logger.error('Part export failed', { error: serializeError(error) });
+    const isInputError = error instanceof Error && /must/i.test(error.message);
     res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(JSON.stringify({ error: 'Unable to complete part search.' }));
+    res.statusCode = isInputError ? 400 : 500;
+    res.end(JSON.stringify({ error: isInputError ? (error as Error).message : 'Unable to export parts.' }));
   }
 }
 
-function parseLimit(rawLimit: string | null): number | undefined {
-  if (!rawLimit) {
-    return undefined;
+function mapLifecycleErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
   }
 
-  const parsed = Number.parseInt(rawLimit, 10);
-  if (Number.isNaN(parsed) || parsed <= 0) {
-    return undefined;
+  if (/does not exist/i.test(error.message)) {
+    return 404;
   }
 
-  return parsed;
+  if (/cannot|already/i.test(error.message)) {
+    return 409;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
 }
 
-async function handleBillOfMaterials(
-  res: ServerResponse,
-  limit: number | undefined,
-  assembly: string | null,
-) {
+async function handlePartLifecycle(req: IncomingMessage, res: ServerResponse, partNumber: string) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
   try {
-    const data = await getBillOfMaterials({
-      limit,
-      assembly: assembly?.trim() || undefined,
+    if (req.method === 'GET') {
+      const data = await getPartLifecycle(partNumber);
+      res.statusCode = 200;
+      res.end(JSON.stringify({ data }));
+      return;
+    }
+
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const data = await transitionPartLifecycle(partNumber, parseLifecycleState(body['state']), {
+      dryRun: body['dryRun'] === true,
     });
     res.statusCode = 200;
-    res.setHeader('Content-Type', 'application/json; charset=utf-8');
     res.end(JSON.stringify({ data }));
   } catch (error) {
-    logger.error('Bill of materials request failed', { error: serializeError(error) });
-    res.statusCode = 500;
-    res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(JSON.stringify({ error: 'Unable to retrieve bill of materials.' }));
+    logger.error('Part lifecycle request failed', { partNumber, method: req.method, error: serializeError(error) });
+    const status = mapLifecycleErrorToStatus(error);
+    res.statusCode = status;
+    res.end(
+      JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to update part lifecycle.' }),
+    );
   }
 }
 
-async function handleInventoryOverview(res: ServerResponse) {
+async function handlePartDelete(res: ServerResponse, partNumber: string) {
   try {
-    const data = await getInventorySnapshot();
-    res.statusCode = 200;
-    res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(JSON.stringify({ data }));
+    await deletePart(partNumber);
+    res.statusCode = 204;
+    res.end();
   } catch (error) {
-    logger.error('Inventory snapshot request failed', { error: serializeError(error) });
-    res.statusCode = 500;
+    logger.error('Failed to delete part', { partNumber, error: serializeError(error) });
+    const status = mapLifecycleErrorToStatus(error);
     res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(JSON.stringify({ error: 'Unable to retrieve inventory snapshot.' }));
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to delete part.' }));
   }
 }
 
-async function handleUnitsOfMeasure(res: ServerResponse, limit: number | undefined) {
+function mapDocumentErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/cannot|already exists/i.test(error.message)) {
+    return 409;
+  }
+
+  if (/bytes or smaller/i.test(error.message)) {
+    return 413;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+// The file is the raw request body; its metadata travels in the query string so uploads stream
+// straight to storage instead of being buffered as base64 JSON.
+function readDocumentUpload(req: IncomingMessage, searchParams: URLSearchParams, documentIdParam: string): PartDocumentUpload {
+  return {
+    documentId: searchParams.get(documentIdParam) ?? undefined,
+    revision: searchParams.get('revision') ?? undefined,
+    description: searchParams.get('description') ?? undefined,
+    notes: searchParams.get('notes') ?? undefined,
+    fileName: searchParams.get('fileName') ?? undefined,
+    contentType: req.headers['content-type'],
+    effectiveDate: searchParams.get('effectiveDate'),
+    uploadedBy: searchParams.get('uploadedBy') ?? undefined,
+  };
+}
+
+async function handlePartDocuments(
+  req: IncomingMessage,
+  res: ServerResponse,
+  partNumber: string,
+  searchParams: URLSearchParams,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
   try {
-    const data = await getUnitsOfMeasure(limit);
-    res.statusCode = 200;
-    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    if (req.method === 'GET') {
+      const data = await listPartDocuments(partNumber, {
+        all: parseBooleanFlag(searchParams.get('all')),
+        asOf: searchParams.get('asOf'),
+      });
+      res.statusCode = 200;
+      res.end(JSON.stringify({ data }));
+      return;
+    }
+
+    const data = await uploadPartDocument(partNumber, readDocumentUpload(req, searchParams, 'documentId'), req);
+    res.statusCode = 201;
     res.end(JSON.stringify({ data }));
   } catch (error) {
-    logger.error('Units of measure request failed', { error: serializeError(error) });
-    res.statusCode = 500;
-    res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(JSON.stringify({ error: 'Unable to retrieve units of measure.' }));
+    logger.error('Part documents request failed', { partNumber, method: req.method, error: serializeError(error) });
+    const status = mapDocumentErrorToStatus(error);
+    res.statusCode = status;
+    res.end(
+      JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to process part documents.' }),
+    );
   }
 }
 
-async function handleLocations(res: ServerResponse, limit: number | undefined) {
+async function handlePartDocumentSupersede(
+  req: IncomingMessage,
+  res: ServerResponse,
+  partNumber: string,
+  documentId: string,
+  searchParams: URLSearchParams,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
   try {
-    logger.info('Locations API request received', { limit });
-    const data = await listLocations(limit);
-    res.statusCode = 200;
-    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    const data = await supersedePartDocument(
+      partNumber,
+      documentId,
+      readDocumentUpload(req, searchParams, 'newDocumentId'),
+      req,
+    );
+    res.statusCode = 201;
     res.end(JSON.stringify({ data }));
-    logger.info('Locations API response sent', { limit, count: data.length });
   } catch (error) {
-    logger.error('Locations request failed', { limit, error: serializeError(error) });
-    res.statusCode = 500;
-    res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(JSON.stringify({ error: 'Unable to retrieve locations.' }));
+    logger.error('Part document supersede failed', { partNumber, documentId, error: serializeError(error) });
+    const status = mapDocumentErrorToStatus(error);
+    res.statusCode = status;
+    res.end(
+      JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to supersede part document.' }),
+    );
   }
 }
 
-async function serveStaticAsset(res: ServerResponse, filePath: string) {
+async function handlePartDocumentDownload(
+  res: ServerResponse,
+  partNumber: string,
+  documentId: string,
+  download: boolean,
+) {
+  try {
+    const file = await getPartDocumentContent(partNumber, documentId);
+    sendPartDocumentContent(res, file, download);
+  } catch (error) {
+    logger.error('Part document download failed', { partNumber, documentId, error: serializeError(error) });
+    const status = error instanceof Error && /does not exist/i.test(error.message) ? 404 : 500;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.statusCode = status;
+    res.end(
+      JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to download part document.' }),
+    );
+  }
+}
+
+function mapSourceErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/cannot|already exists/i.test(error.message)) {
+    return 409;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+function buildSourcePayload(body: Record<string, unknown>): PartSourcePayload {
+  const pick = <T>(key: string) => (body[key] === undefined ? undefined : (body[key] as T));
+  const approved = body['approved'];
+
+  return {
+    manufacturerPartNumber: pick<string>('manufacturerPartNumber'),
+    supplierId: pick<string>('supplierId'),
+    description: pick<string | null>('description'),
+    status: pick<string | null>('status'),
+    approved: approved === undefined ? undefined : approved === true || approved === 'true',
+    price: pick<number | string | null>('price'),
+    leadTime: pick<number | string | null>('leadTime'),
+    rating: pick<number | string | null>('rating'),
+    obsoleteDate: pick<string | null>('obsoleteDate'),
+  };
+}
+
+function parseWeight(value: string | null): number | undefined {
+  const text = (value ?? '').trim();
+  return text ? Number.parseFloat(text) : undefined;
+}
+
+async function handlePartSources(
+  req: IncomingMessage,
+  res: ServerResponse,
+  partNumber: string,
+  searchParams: URLSearchParams,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    if (req.method === 'GET') {
+      const data = await listPartSources(partNumber, {
+        includeRetired: parseBooleanFlag(searchParams.get('includeRetired')),
+        weights: {
+          price: parseWeight(searchParams.get('priceWeight')),
+          leadTime: parseWeight(searchParams.get('leadTimeWeight')),
+          rating: parseWeight(searchParams.get('ratingWeight')),
+        },
+      });
+      res.statusCode = 200;
+      res.end(JSON.stringify({ data }));
+      return;
+    }
+
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const payload = buildSourcePayload(body);
+
+    if (req.method === 'POST') {
+      const data = await addPartSource(partNumber, payload);
+      res.statusCode = 201;
+      res.end(JSON.stringify({ data }));
+      return;
+    }
+
+    const data = await updatePartSource(partNumber, payload);
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Part AVL request failed', { partNumber, method: req.method, error: serializeError(error) });
+    const status = mapSourceErrorToStatus(error);
+    res.statusCode = status;
+    res.end(
+      JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to process part sources.' }),
+    );
+  }
+}
+
+async function handlePartSourceRetire(req: IncomingMessage, res: ServerResponse, partNumber: string) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const data = await retirePartSource(partNumber, {
+      manufacturerPartNumber: typeof body['manufacturerPartNumber'] === 'string' ? body['manufacturerPartNumber'] : undefined,
+      supplierId: typeof body['supplierId'] === 'string' ? body['supplierId'] : undefined,
+      obsoleteDate: typeof body['obsoleteDate'] === 'string' ? body['obsoleteDate'] : null,
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Part source retire failed', { partNumber, error: serializeError(error) });
+    const status = mapSourceErrorToStatus(error);
+    res.statusCode = status;
+    res.end(
+      JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to retire part source.' }),
+    );
+  }
+}
+
+function mapLabelErrorToStatus(error: unknown): number {
+  if (!(error instanceof Error)) {
+    return 500;
+  }
+
+  if (/does not exist/i.test(error.message)) {
+    return 404;
+  }
+
+  if (/must|required|invalid/i.test(error.message)) {
+    return 400;
+  }
+
+  return 500;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  return typeof value === 'string' && value.trim() ? Number(value) : undefined;
+}
+
+function buildLabelRequests(value: unknown): LabelRequest[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.map((entry: Record<string, unknown>) => ({
+    kind: entry?.['kind'],
+    partNumber: toOptionalString(entry?.['partNumber']),
+    lotNumber: toOptionalString(entry?.['lotNumber']),
+    quantity: toOptionalNumber(entry?.['quantity']),
+    departmentCode: toOptionalString(entry?.['departmentCode']),
+    locationCode: toOptionalString(entry?.['locationCode']),
+    copies: toOptionalNumber(entry?.['copies']),
+  })) as LabelRequest[];
+}
+
+function handleLabelTemplates(res: ServerResponse) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.statusCode = 200;
+  res.end(JSON.stringify({ data: listLabelTemplates() }));
+}
+
+async function handleLabels(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const labels = buildLabelRequests(body['labels']);
+    const options = {
+      format: toOptionalString(body['format'])?.toLowerCase() as LabelFormat | undefined,
+      template: toOptionalString(body['template']),
+      symbology: toOptionalString(body['symbology'])?.toLowerCase() as LabelSymbology | undefined,
+    };
+
+    if (body['save'] === true || body['save'] === 'true') {
+      const data = await writeLabels(labels, options);
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.statusCode = 201;
+      res.end(JSON.stringify({ data }));
+      return;
+    }
+
+    const file = await renderLabels(labels, options);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.statusCode = 200;
+    res.end(file.body);
+  } catch (error) {
+    logger.error('Label rendering failed', { error: serializeError(error) });
+    const status = mapLabelErrorToStatus(error);
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: error instanceof Error && status !== 500 ? error.message : 'Unable to render labels.' }));
+  }
+}
+
+function resolveMimeType(filePath: string) {
+  const extension = path.extname(filePath).toLowerCase();
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+function sanitizePath(requestPath: string) {
+  const normalized = path.normalize(requestPath);
+  const relative = normalized.replace(/^\/+/, '');
+  return relative;
+}
+
+function parseBooleanFlag(value: string | null): boolean {
+  if (!value) {
+    return false;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return normalized === 'true' || normalized === '1' || normalized === 'yes' || normalized === 'on';
+}
+
+async function readRequestBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const totalLength = chunks.reduce((sum, buffer) => sum + buffer.length, 0);
+
+    if (totalLength > 1_000_000) {
+      throw new Error('Request body is too large.');
+    }
+  }
+
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  const payload = Buffer.concat(chunks).toString('utf8').trim();
+
+  if (payload.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(payload);
+  } catch (error) {
+    logger.warn('Failed to parse JSON payload', { error: serializeError(error) });
+    throw new Error('Invalid JSON payload.');
+  }
+}
+
+function resolvePartResultLimit(rawLimit: string | null): number | undefined {
+  if (!rawLimit) {
+    return 100;
+  }
+
+  const normalized = rawLimit.trim().toLowerCase();
+
+  if (
+    normalized === 'all' ||
+    normalized === 'false' ||
+    normalized === '0' ||
+    normalized === 'off' ||
+    normalized === 'no'
+  ) {
+    return undefined;
+  }
+
+  const parsed = Number.parseInt(normalized, 10);
+
+  if (Number.isNaN(parsed) || parsed <= 0) {
+    return 100;
+  }
+
+  return parsed;
+}
+
+type PartSearchFilters = PageRequest & {
+  partNumber: string;
+  description: string;
+  inStockOnly: boolean;
+  includeDeleted: boolean;
+};
+
+function readPageRequest(searchParams: URLSearchParams, limit = parseLimit(searchParams.get('limit'))): PageRequest {
+  return {
+    limit,
+    cursor: searchParams.get('cursor')?.trim() || undefined,
+    sort: searchParams.get('sort')?.trim() || undefined,
+    direction: resolveSortDirection(searchParams.get('direction')),
+  };
+}
+
+function isPageRequestError(error: unknown): error is Error {
+  return error instanceof Error && /pagination cursor|sort must be/i.test(error.message);
+}
+
+// Attribute filters arrive as attr.<id>=value (repeatable), attr.<id>.min=n and attr.<id>.max=n.
+// Bounds are passed through as text so the search can read engineering notation in the attribute's unit.
+function buildAttributeFilters(searchParams: URLSearchParams): ParametricFilter[] {
+  const filters = new Map<number, ParametricFilter>();
+
+  searchParams.forEach((value, key) => {
+    const match = key.match(/^attr\.(\d+)(?:\.(min|max))?$/);
+
+    if (!match) {
+      return;
+    }
+
+    const attributeId = Number.parseInt(match[1], 10);
+    const filter = filters.get(attributeId) ?? { attributeId };
+
+    if (match[2] === 'min' || match[2] === 'max') {
+      const bound = value.trim();
+      if (!bound) {
+        throw new Error(`${key} must be a number.`);
+      }
+      filter[match[2]] = bound;
+    } else if (value.trim().length > 0) {
+      filter.values = [...(filter.values ?? []), value.trim()];
+    }
+
+    filters.set(attributeId, filter);
+  });
+
+  return Array.from(filters.values());
+}
+
+async function handleParametricPartSearch(res: ServerResponse, searchParams: URLSearchParams) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const partTypeId = Number.parseInt(searchParams.get('partTypeId') ?? '', 10);
+    const packageIds = searchParams
+      .getAll('package')
+      .flatMap((entry) => entry.split(','))
+      .map((entry) => Number.parseInt(entry, 10))
+      .filter((entry) => Number.isFinite(entry));
+
+    const data = await searchPartsParametric({
+      partNumber: searchParams.get('partNumber') ?? '',
+      description: searchParams.get('description') ?? '',
+      inStockOnly: parseBooleanFlag(searchParams.get('inStock')),
+      includeDeleted: parseBooleanFlag(searchParams.get('includeDeleted')),
+      limit: parseLimit(searchParams.get('limit')) ?? 100,
+      partTypeId: Number.isNaN(partTypeId) ? undefined : partTypeId,
+      packageIds,
+      filters: buildAttributeFilters(searchParams),
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Parametric part search failed', { error: serializeError(error) });
+
+    let status = 500;
+    let message = 'Unable to search parts.';
+
+    if (error instanceof Error) {
+      message = error.message;
+
+      if (/does not exist/i.test(error.message)) {
+        status = 404;
+      } else if (/must|required|not defined|does not have/i.test(error.message)) {
+        status = 400;
+      }
+    }
+
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handlePartSearch(
+  req: IncomingMessage,
+  res: ServerResponse,
+  filters: PartSearchFilters,
+) {
+  const partNumber = filters.partNumber.trim();
+  const description = filters.description.trim();
+  const inStockOnly = filters.inStockOnly;
+  const limit = filters.limit;
+
+  if (partNumber.length === 0 && description.length === 0 && !inStockOnly) {
+    res.statusCode = 400;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(
+      JSON.stringify({ error: 'Provide a part number, description, or enable the In Stock filter.' }),
+    );
+    return;
+  }
+
+  logger.info('Incoming part search request', {
+    partNumberLength: partNumber.length,
+    descriptionLength: description.length,
+    inStockOnly,
+    limit,
+  });
+
+  try {
+    const page = await searchParts({
+      partNumber,
+      description,
+      inStockOnly,
+      includeDeleted: filters.includeDeleted,
+      limit,
+      cursor: filters.cursor,
+      sort: filters.sort,
+      direction: filters.direction,
+    });
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ data: page.items, pagination: page.pageInfo }));
+
+    logger.info('Part search completed', {
+      resultCount: page.items.length,
+      total: page.pageInfo.total,
+      partNumberLength: partNumber.length,
+      descriptionLength: description.length,
+      inStockOnly,
+      limit,
+    });
+  } catch (error) {
+    logger.error('Part search failed', {
+      partNumberLength: partNumber.length,
+      descriptionLength: description.length,
+      inStockOnly,
+      limit,
+      error: serializeError(error),
+    });
+    res.statusCode = isPageRequestError(error) ? 400 : 500;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(
+      JSON.stringify({ error: isPageRequestError(error) ? error.message : 'Unable to complete part search.' }),
+    );
+  }
+}
+
+function parseLimit(rawLimit: string | null): number | undefined {
+  if (!rawLimit) {
+    return undefined;
+  }
+
+  const parsed = Number.parseInt(rawLimit, 10);
+  if (Number.isNaN(parsed) || parsed <= 0) {
+    return undefined;
+  }
+
+  return parsed;
+}
+
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (!value || value.trim().length === 0) {
+    return undefined;
+  }
+
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function handleBillOfMaterials(
+  res: ServerResponse,
+  page: PageRequest,
+  assembly: string | null,
+  asOf: Date | null | undefined,
+) {
+  if (asOf === null) {
+    res.statusCode = 400;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ error: 'asOf must be a valid date.' }));
+    return;
+  }
+
+  try {
+    const result = await getBillOfMaterials({
+      ...page,
+      assembly: assembly?.trim() || undefined,
+      asOf,
+    });
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ data: result.items, pagination: result.pageInfo }));
+  } catch (error) {
+    logger.error('Bill of materials request failed', { error: serializeError(error) });
+    res.statusCode = isPageRequestError(error) ? 400 : 500;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(
+      JSON.stringify({ error: isPageRequestError(error) ? error.message : 'Unable to retrieve bill of materials.' }),
+    );
+  }
+}
+
+async function handleBomExplosion(
+  res: ServerResponse,
+  assembly: string,
+  maxDepth: number | undefined,
+  asOf: Date | null | undefined,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  if (asOf === null) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: 'asOf must be a valid date.' }));
+    return;
+  }
+
+  try {
+    const data = await explodeBillOfMaterials(assembly, { maxDepth, asOf });
+
+    if (!data) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Assembly not found.' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Bill of materials explosion failed', { assembly, error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to explode bill of materials.' }));
+  }
+}
+
+async function handlePendingBomChanges(
+  res: ServerResponse,
+  from: Date | null | undefined,
+  to: Date | null | undefined,
+  assembly: string | null,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  if (from === null || to === null) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: 'from and to must be valid dates.' }));
+    return;
+  }
+
+  try {
+    const data = await getPendingBomChanges({ from, to, assembly: assembly?.trim() || undefined });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    if (error instanceof Error && /must start before/i.test(error.message)) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: error.message }));
+      return;
+    }
+
+    logger.error('Pending bill of materials changes request failed', { error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve pending bill of materials changes.' }));
+  }
+}
+
+async function handleBomComparison(
+  res: ServerResponse,
+  left: string,
+  right: string,
+  allLevels: boolean,
+  maxDepth: number | undefined,
+  asOf: Date | null | undefined,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  if (!left || !right) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: 'Both left and right assemblies are required.' }));
+    return;
+  }
+
+  if (asOf === null) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: 'asOf must be a valid date.' }));
+    return;
+  }
+
+  try {
+    const data = await compareBillsOfMaterials(left, right, { allLevels, maxDepth, asOf });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    if (error instanceof Error && /does not exist/i.test(error.message)) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: error.message }));
+      return;
+    }
+
+    logger.error('Bill of materials comparison failed', { left, right, error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to compare bills of materials.' }));
+  }
+}
+
+function parseDecimal(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim().length === 0)) {
+    return undefined;
+  }
+
+  // A value that was sent but cannot be read must not quietly fall back to the default.
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : Number.NaN;
+
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${field} must be a number.`);
+  }
+
+  return parsed;
+}
+
+function readBomLineFields(body: Record<string, unknown>) {
+  const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  const optionalDate = (value: unknown) => (value === null ? null : optionalString(value));
+
+  return {
+    itemSequence: optionalString(body['itemSequence']),
+    quantityPer: parseDecimal(body['quantityPer'], 'quantityPer'),
+    uom: optionalString(body['uom']),
+    effectiveDate: optionalDate(body['effectiveDate']),
+    obsoleteDate: optionalDate(body['obsoleteDate']),
+    notes: optionalString(body['notes']),
+  };
+}
+
+function mapBomErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|already used/i.test(error.message)) {
+      status = 409;
+    } else if (/circular|overlaps|must|required|not a valid|invalid|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+async function handleBomImport(req: IncomingMessage, res: ServerResponse) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const data = await importEdaBillOfMaterials({
+      assembly: typeof body['assembly'] === 'string' ? body['assembly'] : '',
+      csv: typeof body['csv'] === 'string' ? body['csv'] : '',
+      dryRun: body['dryRun'] !== false,
+      uom: typeof body['uom'] === 'string' ? body['uom'] : undefined,
+      replaceExisting: body['replaceExisting'] === true,
+      skipUnmatched: body['skipUnmatched'] === true,
+    });
+    res.statusCode = data.dryRun ? 200 : 201;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Bill of materials import failed', { error: serializeError(error) });
+    const { status, message } = mapBomErrorToStatus(error, 'Unable to import bill of materials.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleBomLineSave(
+  req: IncomingMessage,
+  res: ServerResponse,
+  target?: { assembly: string; component: string },
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = (await readRequestBody(req)) as Record<string, unknown> | null;
+
+    if (!body || typeof body !== 'object') {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'Request body is required.' }));
+      return;
+    }
+
+    const data = target
+      ? await updateBomLine(target.assembly, target.component, readBomLineFields(body))
+      : await createBomLine({
+          assembly: typeof body['assembly'] === 'string' ? body['assembly'] : '',
+          component: typeof body['component'] === 'string' ? body['component'] : '',
+          ...readBomLineFields(body),
+        });
+
+    res.statusCode = target ? 200 : 201;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to save bill of materials line', { target, error: serializeError(error) });
+    const { status, message } = mapBomErrorToStatus(error, 'Unable to save bill of materials line.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleBomLineDelete(res: ServerResponse, assembly: string, component: string) {
+  try {
+    await deleteBomLine(assembly, component);
+    res.statusCode = 204;
+    res.end();
+  } catch (error) {
+    logger.error('Failed to delete bill of materials line', { assembly, component, error: serializeError(error) });
+    const { status, message } = mapBomErrorToStatus(error, 'Unable to delete bill of materials line.');
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleCostRollup(req: IncomingMessage, res: ServerResponse, url: URL) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  let partNumber = url.searchParams.get('partNumber')?.trim() ?? '';
+  let asOfRaw: string | null = url.searchParams.get('asOf');
+  let mode: 'simulate' | 'commit' = 'simulate';
+
+  try {
+    if (req.method === 'POST') {
+      const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+      partNumber = typeof body['partNumber'] === 'string' ? body['partNumber'].trim() : partNumber;
+      asOfRaw = typeof body['asOf'] === 'string' ? body['asOf'] : asOfRaw;
+      mode = body['mode'] === 'commit' ? 'commit' : 'simulate';
+    }
+  } catch (error) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid request body.' }));
+    return;
+  }
+
+  const asOf = parseDateParam(asOfRaw);
+
+  if (asOf === null) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ error: 'asOf must be a valid date.' }));
+    return;
+  }
+
+  try {
+    const data = await rollUpStandardCosts({ partNumber: partNumber || undefined, mode, asOf });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Standard cost roll-up failed', { partNumber, mode, error: serializeError(error) });
+
+    if (error instanceof Error && /does not exist/i.test(error.message)) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: error.message }));
+      return;
+    }
+
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to roll up standard costs.' }));
+  }
+}
+
+function mapEcnErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|already used|cannot|only draft|no longer a draft/i.test(error.message)) {
+      status = 409;
+    } else if (/circular|overlaps|must|required|not a valid|invalid|not listed|only one|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+function readEcnPayload(body: Record<string, unknown>): EcnPayload {
+  const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+  return {
+    ecnNumber: optionalString(body['ecnNumber']),
+    classCode: optionalString(body['classCode']),
+    notes: optionalString(body['notes']),
+    employeeId: optionalString(body['employeeId']),
+    parts: Array.isArray(body['parts']) ? (body['parts'] as EcnPayload['parts']) : undefined,
+    changes: readEcnChanges(body['changes']),
+  };
+}
+
+async function handleEcnClassCodes(res: ServerResponse) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await listEcnClassCodes();
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load ECN class codes', { error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve ECN class codes.' }));
+  }
+}
+
+async function handleEcnList(res: ServerResponse, searchParams: URLSearchParams) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await listEcns({
+      status: searchParams.get('status') ?? undefined,
+      partNumber: searchParams.get('partNumber') ?? undefined,
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to list engineering change notices', { error: serializeError(error) });
+    const { status, message } = mapEcnErrorToStatus(error, 'Unable to retrieve engineering change notices.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleEcnDetail(res: ServerResponse, ecnNumber: string) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await getEcn(ecnNumber);
+
+    if (!data) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'ECN not found.' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load engineering change notice', { ecnNumber, error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve engineering change notice.' }));
+  }
+}
+
+async function handleEcnSave(req: IncomingMessage, res: ServerResponse, ecnNumber?: string) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = (await readRequestBody(req)) as Record<string, unknown> | null;
+
+    if (!body || typeof body !== 'object') {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'Request body is required.' }));
+      return;
+    }
+
+    const payload = readEcnPayload(body);
+    const data = ecnNumber ? await updateEcn(ecnNumber, payload) : await createEcn(payload);
+    res.statusCode = ecnNumber ? 200 : 201;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to save engineering change notice', { ecnNumber, error: serializeError(error) });
+    const { status, message } = mapEcnErrorToStatus(error, 'Unable to save engineering change notice.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleEcnTransition(req: IncomingMessage, res: ServerResponse, ecnNumber: string) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const data = await transitionEcn(ecnNumber, {
+      status: (typeof body['status'] === 'string' ? body['status'] : '') as EcnStatus,
+      employeeId: typeof body['employeeId'] === 'string' ? body['employeeId'] : undefined,
+      comment: typeof body['comment'] === 'string' ? body['comment'] : undefined,
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to transition engineering change notice', { ecnNumber, error: serializeError(error) });
+    const { status, message } = mapEcnErrorToStatus(error, 'Unable to update the ECN status.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+function mapAdminErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|cannot|would invalidate/i.test(error.message)) {
+      status = 409;
+    } else if (/must|required|invalid|references|more than once|no more than|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+function readPartTypePayload(body: Record<string, unknown>): PartTypePayload {
+  const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+  return {
+    code: optionalString(body['code']),
+    sheetName: optionalString(body['sheetName']),
+    packageColumn: optionalString(body['packageColumn']),
+  };
+}
+
+function readAttributePayload(body: Record<string, unknown>): AttributePayload {
+  const pick = <T>(key: string): T | undefined => (key in body ? (body[key] as T) : undefined);
+
+  return {
+    code: pick<string>('code'),
+    dataType: pick<string | null>('dataType'),
+    minValue: pick<number | string | null>('minValue'),
+    maxValue: pick<number | string | null>('maxValue'),
+    unit: pick<string | null>('unit'),
+    requiredRule: pick<string | null>('requiredRule'),
+    alternativeMin: pick<string | null>('alternativeMin'),
+    alternativeMax: pick<string | null>('alternativeMax'),
+  };
+}
+
+async function handlePartTypeDetail(res: ServerResponse, partTypeId: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await getPartType(partTypeId);
+
+    if (!data) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Part type not found.' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load part type', { partTypeId, error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve part type.' }));
+  }
+}
+
+async function handlePartTypeSave(req: IncomingMessage, res: ServerResponse, partTypeId?: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = (await readRequestBody(req)) as Record<string, unknown> | null;
+
+    if (!body || typeof body !== 'object') {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'Request body is required.' }));
+      return;
+    }
+
+    const payload = readPartTypePayload(body);
+    const data = partTypeId ? await updatePartType(partTypeId, payload) : await createPartType(payload);
+    res.statusCode = partTypeId ? 200 : 201;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to save part type', { partTypeId, error: serializeError(error) });
+    const { status, message } = mapAdminErrorToStatus(error, 'Unable to save part type.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handlePartTypeDelete(res: ServerResponse, partTypeId: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    await deletePartType(partTypeId);
+    res.statusCode = 204;
+    res.end();
+  } catch (error) {
+    logger.error('Failed to remove part type', { partTypeId, error: serializeError(error) });
+    const { status, message } = mapAdminErrorToStatus(error, 'Unable to remove part type.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleAttributeMappingAdd(req: IncomingMessage, res: ServerResponse, partTypeId: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const attributeId = Number.parseInt(String(body['attributeId'] ?? ''), 10);
+
+    if (!Number.isInteger(attributeId) || attributeId <= 0) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'attributeId is required.' }));
+      return;
+    }
+
+    const data = await addAttributeMapping(partTypeId, attributeId);
+    res.statusCode = 201;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to map attribute to part type', { partTypeId, error: serializeError(error) });
+    const { status, message } = mapAdminErrorToStatus(error, 'Unable to map attribute to part type.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleAttributeMappingRemove(
+  res: ServerResponse,
+  partTypeId: number,
+  attributeId: number,
+  searchParams: URLSearchParams,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await removeAttributeMapping(partTypeId, attributeId, {
+      dryRun: parseBooleanFlag(searchParams.get('dryRun')),
+      confirm: parseBooleanFlag(searchParams.get('confirm')),
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to unmap attribute from part type', { partTypeId, attributeId, error: serializeError(error) });
+    const { status, message } = mapAdminErrorToStatus(error, 'Unable to unmap attribute from part type.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleAttributeList(res: ServerResponse) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await listAttributes();
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load attributes', { error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve attributes.' }));
+  }
+}
+
+async function handleAttributeDetail(res: ServerResponse, attributeId: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await getAttribute(attributeId);
+
+    if (!data) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Attribute not found.' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load attribute', { attributeId, error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve attribute.' }));
+  }
+}
+
+async function handleAttributeSave(
+  req: IncomingMessage,
+  res: ServerResponse,
+  searchParams: URLSearchParams,
+  attributeId?: number,
+) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = (await readRequestBody(req)) as Record<string, unknown> | null;
+
+    if (!body || typeof body !== 'object') {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'Request body is required.' }));
+      return;
+    }
+
+    const payload = readAttributePayload(body);
+
+    if (!attributeId) {
+      const data = await createAttribute(payload);
+      res.statusCode = 201;
+      res.end(JSON.stringify({ data }));
+      return;
+    }
+
+    const data = await updateAttribute(attributeId, payload, {
+      dryRun: body['dryRun'] === true || parseBooleanFlag(searchParams.get('dryRun')),
+      confirm: body['confirm'] === true || parseBooleanFlag(searchParams.get('confirm')),
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to save attribute', { attributeId, error: serializeError(error) });
+    const { status, message } = mapAdminErrorToStatus(error, 'Unable to save attribute.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handleAttributeDelete(res: ServerResponse, attributeId: number, searchParams: URLSearchParams) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await deleteAttribute(attributeId, {
+      dryRun: parseBooleanFlag(searchParams.get('dryRun')),
+      confirm: parseBooleanFlag(searchParams.get('confirm')),
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to remove attribute', { attributeId, error: serializeError(error) });
+    const { status, message } = mapAdminErrorToStatus(error, 'Unable to remove attribute.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+function mapPackageErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/already exists|cannot/i.test(error.message)) {
+      status = 409;
+    } else if (/must|required|invalid|too large/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+function readPackagePayload(body: Record<string, unknown>): PackagePayload {
+  return {
+    name: typeof body['name'] === 'string' ? body['name'] : undefined,
+    categories: body['categories'] === undefined ? undefined : (body['categories'] as string[]),
+  };
+}
+
+async function handlePackageList(res: ServerResponse, searchParams: URLSearchParams) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await listPackages({
+      category: searchParams.get('category') ?? undefined,
+      query: searchParams.get('q') ?? undefined,
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load packages', { error: serializeError(error) });
+    const { status, message } = mapPackageErrorToStatus(error, 'Unable to retrieve packages.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handlePackageDetail(res: ServerResponse, packageId: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await getPackage(packageId);
+
+    if (!data) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Package not found.' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load package', { packageId, error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve package.' }));
+  }
+}
+
+async function handlePackageSave(req: IncomingMessage, res: ServerResponse, packageId?: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = (await readRequestBody(req)) as Record<string, unknown> | null;
+
+    if (!body || typeof body !== 'object') {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'Request body is required.' }));
+      return;
+    }
+
+    const payload = readPackagePayload(body);
+    const data = packageId ? await updatePackage(packageId, payload) : await createPackage(payload);
+    res.statusCode = packageId ? 200 : 201;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to save package', { packageId, error: serializeError(error) });
+    const { status, message } = mapPackageErrorToStatus(error, 'Unable to save package.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handlePackageDelete(res: ServerResponse, packageId: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    await deletePackage(packageId);
+    res.statusCode = 204;
+    res.end();
+  } catch (error) {
+    logger.error('Failed to remove package', { packageId, error: serializeError(error) });
+    const { status, message } = mapPackageErrorToStatus(error, 'Unable to remove package.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handlePackageCategories(res: ServerResponse) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await getPackageCategoryOverview();
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load package categories', { error: serializeError(error) });
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Unable to retrieve package categories.' }));
+  }
+}
+
+function mapNumberingErrorToStatus(error: unknown, fallbackMessage: string): { status: number; message: string } {
+  let status = 500;
+  let message = fallbackMessage;
+
+  if (error instanceof Error) {
+    message = error.message;
+
+    if (/does not exist/i.test(error.message)) {
+      status = 404;
+    } else if (/must|required|may only|too large|invalid/i.test(error.message)) {
+      status = 400;
+    }
+  }
+
+  return { status, message };
+}
+
+async function handlePartNumberFormat(res: ServerResponse, partTypeId: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const data = await getPartNumberFormat(partTypeId);
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to load part number format', { partTypeId, error: serializeError(error) });
+    const { status, message } = mapNumberingErrorToStatus(error, 'Unable to retrieve part number format.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handlePartNumberFormatSave(req: IncomingMessage, res: ServerResponse, partTypeId: number) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const body = ((await readRequestBody(req)) as Record<string, unknown> | null) ?? {};
+    const data = await setPartNumberFormat(partTypeId, {
+      keyName: typeof body['keyName'] === 'string' ? body['keyName'] : undefined,
+      format: typeof body['format'] === 'string' ? body['format'] : undefined,
+      nextNumber: typeof body['nextNumber'] === 'number' ? body['nextNumber'] : undefined,
+    });
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Failed to save part number format', { partTypeId, error: serializeError(error) });
+    const { status, message } = mapNumberingErrorToStatus(error, 'Unable to save part number format.');
+    res.statusCode = status;
+    res.end(JSON.stringify({ error: message }));
+  }
+}
+
+async function handlePartInventory(res: ServerResponse, partNumber: string, searchParams: URLSearchParams) {
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  try {
+    const groupBy = parseInventoryGrouping(searchParams.get('groupBy'));
+    const data = await getPartInventory(partNumber, { groupBy });
+
+    if (!data) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Part not found.' }));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Part inventory request failed', { partNumber, error: serializeError(error) });
+    const isInputError = error instanceof Error && /must/i.test(error.message);
+    res.statusCode = isInputError ? 400 : 500;
+    res.end(JSON.stringify({ error: isInputError ? (error as Error).message : 'Unable to retrieve part inventory.' }));
+  }
+}
+
+async function handleInventoryOverview(res: ServerResponse) {
+  try {
+    const data = await getInventorySnapshot();
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ data }));
+  } catch (error) {
+    logger.error('Inventory snapshot request failed', { error: serializeError(error) });
+    res.statusCode = 500;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ error: 'Unable to retrieve inventory snapshot.' }));
+  }
+}
+
+async function handleUnitsOfMeasure(res: ServerResponse, page: PageRequest) {
+  try {
+    const result = await getUnitsOfMeasure(page);
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ data: result.items, pagination: result.pageInfo }));
+  } catch (error) {
+    logger.error('Units of measure request failed', { error: serializeError(error) });
+    res.statusCode = isPageRequestError(error) ? 400 : 500;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(
+      JSON.stringify({ error: isPageRequestError(error) ? error.message : 'Unable to retrieve units of measure.' }),
+    );
+  }
+}
+
+async function handleLocations(res: ServerResponse, page: PageRequest) {
+  const limit = page.limit;
+
+  try {
+    logger.info('Locations API request received', { limit, sort: page.sort, hasCursor: Boolean(page.cursor) });
+    const result = await listLocations(page);
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ data: result.items, pagination: result.pageInfo }));
+    logger.info('Locations API response sent', { limit, count: result.items.length, total: result.pageInfo.total });
+  } catch (error) {
+    logger.error('Locations request failed', { limit, error: serializeError(error) });
+    res.statusCode = isPageRequestError(error) ? 400 : 500;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ error: isPageRequestError(error) ? error.message : 'Unable to retrieve locations.' }));
+  }
+}
+
+async function serveStaticAsset(res: ServerResponse, filePath: string) {
   try {
     const fileStat = await stat(filePath);
     if (fileStat.isDirectory()) {
       throw Object.assign(new Error('Directory access is not allowed'), { code: 'EISDIR' });
     }
 
-    res.statusCode = 200;
-    res.setHeader('Content-Type', resolveMimeType(filePath));
-    const stream = createReadStream(filePath);
-    stream.on('error', (streamError) => {
-      logger.error('Streaming error while serving asset', {
-        filePath,
-        error: serializeError(streamError),
-      });
-      if (!res.headersSent) {
-        res.statusCode = 500;
-        res.end('Internal Server Error');
-      } else {
-        res.destroy(streamError as Error);
-      }
+    streamFile(res, filePath, {
+      headers: { 'Content-Type': resolveMimeType(filePath) },
+      sendError: (response) => response.end('Internal Server Error'),
     });
-    stream.pipe(res);
   } catch (error) {
     const nodeError = error as NodeJS.ErrnoException;
     if (nodeError.code === 'ENOENT') {
@@ -596,6 +2222,224 @@ async function requestHandler(req: IncomingMessage, res: ServerResponse) {
     return;
   }
 
+  if (req.method === 'POST' && normalizedPath === '/api/part-types') {
+    await handlePartTypeSave(req, res);
+    return;
+  }
+
+  const partTypeMappingMatch = normalizedPath.match(/^\/api\/part-types\/(\d+)\/attributes\/(\d+)$/);
+  const partTypeMappingsMatch = normalizedPath.match(/^\/api\/part-types\/(\d+)\/attributes$/);
+  const partTypeDetailMatch = normalizedPath.match(/^\/api\/part-types\/(\d+)$/);
+  const partTypeNumberingMatch = normalizedPath.match(/^\/api\/part-types\/(\d+)\/numbering$/);
+
+  if (req.method === 'GET' && partTypeNumberingMatch) {
+    await handlePartNumberFormat(res, Number.parseInt(partTypeNumberingMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'PUT' && partTypeNumberingMatch) {
+    await handlePartNumberFormatSave(req, res, Number.parseInt(partTypeNumberingMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'DELETE' && partTypeMappingMatch) {
+    await handleAttributeMappingRemove(
+      res,
+      Number.parseInt(partTypeMappingMatch[1], 10),
+      Number.parseInt(partTypeMappingMatch[2], 10),
+      url.searchParams,
+    );
+    return;
+  }
+
+  if (req.method === 'POST' && partTypeMappingsMatch) {
+    await handleAttributeMappingAdd(req, res, Number.parseInt(partTypeMappingsMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'GET' && partTypeDetailMatch) {
+    await handlePartTypeDetail(res, Number.parseInt(partTypeDetailMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'PUT' && partTypeDetailMatch) {
+    await handlePartTypeSave(req, res, Number.parseInt(partTypeDetailMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'DELETE' && partTypeDetailMatch) {
+    await handlePartTypeDelete(res, Number.parseInt(partTypeDetailMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/attributes') {
+    await handleAttributeList(res);
+    return;
+  }
+
+  if (req.method === 'POST' && normalizedPath === '/api/attributes') {
+    await handleAttributeSave(req, res, url.searchParams);
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/packages/categories') {
+    await handlePackageCategories(res);
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/packages') {
+    await handlePackageList(res, url.searchParams);
+    return;
+  }
+
+  if (req.method === 'POST' && normalizedPath === '/api/packages') {
+    await handlePackageSave(req, res);
+    return;
+  }
+
+  const packageDetailMatch = normalizedPath.match(/^\/api\/packages\/(\d+)$/);
+
+  if (req.method === 'GET' && packageDetailMatch) {
+    await handlePackageDetail(res, Number.parseInt(packageDetailMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'PUT' && packageDetailMatch) {
+    await handlePackageSave(req, res, Number.parseInt(packageDetailMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'DELETE' && packageDetailMatch) {
+    await handlePackageDelete(res, Number.parseInt(packageDetailMatch[1], 10));
+    return;
+  }
+
+  const attributeDetailMatch = normalizedPath.match(/^\/api\/attributes\/(\d+)$/);
+
+  if (req.method === 'GET' && attributeDetailMatch) {
+    await handleAttributeDetail(res, Number.parseInt(attributeDetailMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'PUT' && attributeDetailMatch) {
+    await handleAttributeSave(req, res, url.searchParams, Number.parseInt(attributeDetailMatch[1], 10));
+    return;
+  }
+
+  if (req.method === 'DELETE' && attributeDetailMatch) {
+    await handleAttributeDelete(res, Number.parseInt(attributeDetailMatch[1], 10), url.searchParams);
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/labels/templates') {
+    handleLabelTemplates(res);
+    return;
+  }
+
+  if (req.method === 'POST' && normalizedPath === '/api/labels') {
+    await handleLabels(req, res);
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/parts/search') {
+    await handleParametricPartSearch(res, url.searchParams);
+    return;
+  }
+
+  if (req.method === 'POST' && normalizedPath === '/api/parts/import') {
+    await handlePartImport(req, res);
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/parts/export') {
+    await handlePartExport(res, url.searchParams);
+    return;
+  }
+
+  if ((req.method === 'GET' || req.method === 'POST') && normalizedPath === '/api/parts/duplicates') {
+    await handleDuplicateCheck(req, res, url.searchParams);
+    return;
+  }
+
+  const whereUsedMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/where-used$/);
+
+  if (req.method === 'GET' && whereUsedMatch) {
+    await handleWhereUsed(
+      res,
+      decodeURIComponent(whereUsedMatch[1]),
+      parseLimit(url.searchParams.get('maxDepth')),
+      parseDateParam(url.searchParams.get('asOf')),
+    );
+    return;
+  }
+
+  const partOverviewMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/overview$/);
+
+  if (req.method === 'GET' && partOverviewMatch) {
+    await handlePartOverview(res, decodeURIComponent(partOverviewMatch[1]));
+    return;
+  }
+
+  const partLifecycleMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/lifecycle$/);
+
+  if ((req.method === 'GET' || req.method === 'POST') && partLifecycleMatch) {
+    await handlePartLifecycle(req, res, decodeURIComponent(partLifecycleMatch[1]));
+    return;
+  }
+
+  const partCloneMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/clone$/);
+
+  if (req.method === 'POST' && partCloneMatch) {
+    await handlePartClone(req, res, decodeURIComponent(partCloneMatch[1]));
+    return;
+  }
+
+  const partSourcesMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/avl$/);
+
+  if ((req.method === 'GET' || req.method === 'POST' || req.method === 'PATCH') && partSourcesMatch) {
+    await handlePartSources(req, res, decodeURIComponent(partSourcesMatch[1]), url.searchParams);
+    return;
+  }
+
+  const partSourceRetireMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/avl\/retire$/);
+
+  if (req.method === 'POST' && partSourceRetireMatch) {
+    await handlePartSourceRetire(req, res, decodeURIComponent(partSourceRetireMatch[1]));
+    return;
+  }
+
+  const partDocumentsMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/documents$/);
+
+  if ((req.method === 'GET' || req.method === 'POST') && partDocumentsMatch) {
+    await handlePartDocuments(req, res, decodeURIComponent(partDocumentsMatch[1]), url.searchParams);
+    return;
+  }
+
+  const partDocumentMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/documents\/([^/]+)$/);
+
+  if (req.method === 'GET' && partDocumentMatch) {
+    await handlePartDocumentDownload(
+      res,
+      decodeURIComponent(partDocumentMatch[1]),
+      decodeURIComponent(partDocumentMatch[2]),
+      parseBooleanFlag(url.searchParams.get('download')),
+    );
+    return;
+  }
+
+  const partDocumentSupersedeMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)\/documents\/([^/]+)\/supersede$/);
+
+  if (req.method === 'POST' && partDocumentSupersedeMatch) {
+    await handlePartDocumentSupersede(
+      req,
+      res,
+      decodeURIComponent(partDocumentSupersedeMatch[1]),
+      decodeURIComponent(partDocumentSupersedeMatch[2]),
+      url.searchParams,
+    );
+    return;
+  }
+
   if (req.method === 'GET' && normalizedPath.startsWith('/api/parts/')) {
     const partNumber = decodeURIComponent(normalizedPath.replace('/api/parts/', ''));
     await handlePartDetail(res, partNumber);
@@ -613,12 +2457,20 @@ async function requestHandler(req: IncomingMessage, res: ServerResponse) {
     return;
   }
 
+  const partDeleteMatch = normalizedPath.match(/^\/api\/parts\/([^/]+)$/);
+
+  if (req.method === 'DELETE' && partDeleteMatch) {
+    await handlePartDelete(res, decodeURIComponent(partDeleteMatch[1]));
+    return;
+  }
+
   if (req.method === 'GET' && normalizedPath === '/api/parts') {
     await handlePartSearch(req, res, {
+      ...readPageRequest(url.searchParams, resolvePartResultLimit(url.searchParams.get('limit'))),
       partNumber: url.searchParams.get('partNumber') ?? '',
       description: url.searchParams.get('description') ?? '',
       inStockOnly: parseBooleanFlag(url.searchParams.get('inStock')),
-      limit: resolvePartResultLimit(url.searchParams.get('limit')),
+      includeDeleted: parseBooleanFlag(url.searchParams.get('includeDeleted')),
     });
     return;
   }
@@ -626,30 +2478,134 @@ async function requestHandler(req: IncomingMessage, res: ServerResponse) {
   if (req.method === 'GET' && normalizedPath === '/api/bom') {
     await handleBillOfMaterials(
       res,
-      parseLimit(url.searchParams.get('limit')),
+      readPageRequest(url.searchParams),
       url.searchParams.get('assembly'),
+      parseDateParam(url.searchParams.get('asOf')),
+    );
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/bom/pending-changes') {
+    await handlePendingBomChanges(
+      res,
+      parseDateParam(url.searchParams.get('from')),
+      parseDateParam(url.searchParams.get('to')),
+      url.searchParams.get('assembly'),
+    );
+    return;
+  }
+
+  if (req.method === 'POST' && normalizedPath === '/api/bom/import') {
+    await handleBomImport(req, res);
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/bom/compare') {
+    await handleBomComparison(
+      res,
+      url.searchParams.get('left')?.trim() ?? '',
+      url.searchParams.get('right')?.trim() ?? '',
+      ['1', 'true', 'yes'].includes((url.searchParams.get('allLevels') ?? '').trim().toLowerCase()),
+      parseLimit(url.searchParams.get('maxDepth')),
+      parseDateParam(url.searchParams.get('asOf')),
+    );
+    return;
+  }
+
+  const bomExplosionMatch = normalizedPath.match(/^\/api\/bom\/([^/]+)\/explode$/);
+  const bomLineMatch = normalizedPath.match(/^\/api\/bom\/([^/]+)\/([^/]+)$/);
+
+  if (req.method === 'GET' && bomExplosionMatch) {
+    await handleBomExplosion(
+      res,
+      decodeURIComponent(bomExplosionMatch[1]),
+      parseLimit(url.searchParams.get('maxDepth')),
+      parseDateParam(url.searchParams.get('asOf')),
     );
     return;
   }
 
+  if (req.method === 'POST' && normalizedPath === '/api/bom') {
+    await handleBomLineSave(req, res);
+    return;
+  }
+
+  if (req.method === 'PUT' && bomLineMatch) {
+    await handleBomLineSave(req, res, {
+      assembly: decodeURIComponent(bomLineMatch[1]),
+      component: decodeURIComponent(bomLineMatch[2]),
+    });
+    return;
+  }
+
+  if (req.method === 'DELETE' && bomLineMatch) {
+    await handleBomLineDelete(res, decodeURIComponent(bomLineMatch[1]), decodeURIComponent(bomLineMatch[2]));
+    return;
+  }
+
+  if ((req.method === 'GET' || req.method === 'POST') && normalizedPath === '/api/costs/rollup') {
+    await handleCostRollup(req, res, url);
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/ecn/class-codes') {
+    await handleEcnClassCodes(res);
+    return;
+  }
+
+  if (req.method === 'GET' && normalizedPath === '/api/ecn') {
+    await handleEcnList(res, url.searchParams);
+    return;
+  }
+
+  if (req.method === 'POST' && normalizedPath === '/api/ecn') {
+    await handleEcnSave(req, res);
+    return;
+  }
+
+  const ecnTransitionMatch = normalizedPath.match(/^\/api\/ecn\/([^/]+)\/transition$/);
+  const ecnDetailMatch = normalizedPath.match(/^\/api\/ecn\/([^/]+)$/);
+
+  if (req.method === 'POST' && ecnTransitionMatch) {
+    await handleEcnTransition(req, res, decodeURIComponent(ecnTransitionMatch[1]));
+    return;
+  }
+
+  if (req.method === 'GET' && ecnDetailMatch) {
+    await handleEcnDetail(res, decodeURIComponent(ecnDetailMatch[1]));
+    return;
+  }
+
+  if (req.method === 'PUT' && ecnDetailMatch) {
+    await handleEcnSave(req, res, decodeURIComponent(ecnDetailMatch[1]));
+    return;
+  }
+
   if (req.method === 'GET' && normalizedPath === '/api/inventory') {
     await handleInventoryOverview(res);
     return;
   }
 
+  const partInventoryMatch = normalizedPath.match(/^\/api\/inventory\/([^/]+)$/);
+
+  if (req.method === 'GET' && partInventoryMatch) {
+    await handlePartInventory(res, decodeURIComponent(partInventoryMatch[1]), url.searchParams);
+    return;
+  }
+
   if (req.method === 'GET' && normalizedPath === '/api/locations') {
-    await handleLocations(res, parseLimit(url.searchParams.get('limit')));
+    await handleLocations(res, readPageRequest(url.searchParams));
     return;
   }
 
   if (req.method === 'GET' && normalizedPath === '/api/uom') {
-    await handleUnitsOfMeasure(res, parseLimit(url.searchParams.get('limit')));
+    await handleUnitsOfMeasure(res, readPageRequest(url.searchParams));
     return;
   }
 
   if (req.method !== 'GET') {
     res.statusCode = 405;
-    res.setHeader('Allow', 'GET, POST, PUT');
+    res.setHeader('Allow', 'GET, POST, PUT, DELETE');
     res.end('Method Not Allowed');
     return;
   }
@@ -0,0 +1,109 @@
+// Bar/space widths for every Code 128 symbol value, in modules. 103–105 are the start codes and
+// 106 is the stop pattern, which carries a trailing bar.
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100;
+const CODE_C = 99;
+const STOP = 106;
+// A digit run is worth packing two-per-symbol once the saving covers the switch codes.
+const MIN_DIGIT_RUN_START = 4;
+const MIN_DIGIT_RUN_MIDDLE = 6;
+const QUIET_ZONE_MODULES = 10;
+
+export type Code128Symbol = {
+  // Widths of alternating bars and spaces, starting with a bar.
+  widths: number[];
+  // Total width including the quiet zone on each side.
+  modules: number;
+  quietZone: number;
+};
+
+function countDigits(text: string, from: number): number {
+  let end = from;
+  while (end < text.length && text.charCodeAt(end) >= 48 && text.charCodeAt(end) <= 57) {
+    end += 1;
+  }
+  return end - from;
+}
+
+/**
+ * Chooses symbol values for printable ASCII text: code set B for text, switching to code set C
+ * for long digit runs so lot and part numbers stay short enough for small labels.
+ */
+function encodeValues(text: string): number[] {
+  if (!text) {
+    throw new Error('Barcode text is required.');
+  }
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(`Barcode text must be printable ASCII; "${char}" cannot be encoded in Code 128.`);
+    }
+  }
+
+  const values: number[] = [];
+  const leadingDigits = countDigits(text, 0);
+  let set: 'B' | 'C' =
+    leadingDigits >= MIN_DIGIT_RUN_START || (leadingDigits === text.length && leadingDigits % 2 === 0) ? 'C' : 'B';
+  values.push(set === 'C' ? START_C : START_B);
+
+  let index = 0;
+
+  while (index < text.length) {
+    const digits = countDigits(text, index);
+
+    if (set === 'C') {
+      if (digits >= 2) {
+        values.push(Number.parseInt(text.slice(index, index + 2), 10));
+        index += 2;
+        continue;
+      }
+
+      values.push(CODE_B);
+      set = 'B';
+    }
+
+    const atEnd = index + digits === text.length;
+    if (digits >= MIN_DIGIT_RUN_MIDDLE || (atEnd && digits >= MIN_DIGIT_RUN_START)) {
+      // An odd run leaves its first digit in code set B so the rest pairs up.
+      if (digits % 2 === 1) {
+        values.push(text.charCodeAt(index) - 32);
+        index += 1;
+      }
+
+      values.push(CODE_C);
+      set = 'C';
+      continue;
+    }
+
+    values.push(text.charCodeAt(index) - 32);
+    index += 1;
+  }
+
+  const checksum = values.reduce((sum, value, position) => sum + value * Math.max(position, 1), 0) % 103;
+  values.push(checksum, STOP);
+  return values;
+}
+
+/** Encodes printable ASCII text as a Code 128 symbol. */
+export function encodeCode128(text: string): Code128Symbol {
+  const widths = encodeValues(text).flatMap((value) => PATTERNS[value].split('').map(Number));
+  const barWidth = widths.reduce((sum, width) => sum + width, 0);
+
+  return { widths, modules: barWidth + QUIET_ZONE_MODULES * 2, quietZone: QUIET_ZONE_MODULES };
+}
@@ -0,0 +1,97 @@
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+/** A non-blank row of a CSV file or worksheet with the 1-based line or sheet row it starts on. */
+export type SheetRow = {
+  line: number;
+  cells: string[];
+};
+
+// EDA tools and spreadsheets disagree on separators, so the header row decides which one wins.
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  let best = ',';
+  let bestCount = 0;
+
+  CANDIDATE_DELIMITERS.forEach((delimiter) => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Parses RFC 4180 style CSV text (quoted fields, escaped quotes and embedded newlines) into rows
+ * of raw cell strings. Blank lines are dropped; each row keeps the line it starts on, so messages
+ * still point at the right line after a blank line or a multi-line quoted field.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): SheetRow[] {
+  const rows: SheetRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const pushRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim().length > 0)) {
+      rows.push({ line: rowLine, cells: row });
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (char === '\n') {
+      line += 1;
+    }
+
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      pushRow();
+      rowLine = line;
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+}
+
+function quoteCell(value: string, delimiter: string): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) || /^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+// CRLF line endings and quoting match what parseCsv and spreadsheet tools expect to read back.
+export function formatCsv(rows: string[][], delimiter = ','): string {
+  return rows.map((row) => row.map((cell) => quoteCell(cell ?? '', delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,248 @@
+type SymbolSize = {
+  size: number;
+  // Data regions per side and the size of each region, excluding its finder pattern.
+  regions: number;
+  regionSize: number;
+  dataCodewords: number;
+  eccCodewords: number;
+};
+
+// Square ECC 200 symbols that use a single Reed-Solomon block, which covers every label we print.
+const SYMBOL_SIZES: SymbolSize[] = [
+  { size: 10, regions: 1, regionSize: 8, dataCodewords: 3, eccCodewords: 5 },
+  { size: 12, regions: 1, regionSize: 10, dataCodewords: 5, eccCodewords: 7 },
+  { size: 14, regions: 1, regionSize: 12, dataCodewords: 8, eccCodewords: 10 },
+  { size: 16, regions: 1, regionSize: 14, dataCodewords: 12, eccCodewords: 12 },
+  { size: 18, regions: 1, regionSize: 16, dataCodewords: 18, eccCodewords: 14 },
+  { size: 20, regions: 1, regionSize: 18, dataCodewords: 22, eccCodewords: 18 },
+  { size: 22, regions: 1, regionSize: 20, dataCodewords: 30, eccCodewords: 20 },
+  { size: 24, regions: 1, regionSize: 22, dataCodewords: 36, eccCodewords: 24 },
+  { size: 26, regions: 1, regionSize: 24, dataCodewords: 44, eccCodewords: 28 },
+  { size: 32, regions: 2, regionSize: 14, dataCodewords: 62, eccCodewords: 36 },
+  { size: 36, regions: 2, regionSize: 16, dataCodewords: 86, eccCodewords: 42 },
+  { size: 40, regions: 2, regionSize: 18, dataCodewords: 114, eccCodewords: 48 },
+  { size: 44, regions: 2, regionSize: 20, dataCodewords: 144, eccCodewords: 56 },
+  { size: 48, regions: 2, regionSize: 22, dataCodewords: 174, eccCodewords: 68 },
+];
+
+const PAD = 129;
+const UPPER_SHIFT = 235;
+const GF_PRIMITIVE = 0x12d;
+
+const GF_EXP: number[] = [];
+const GF_LOG: number[] = [];
+
+{
+  let value = 1;
+  for (let power = 0; power < 255; power += 1) {
+    GF_EXP[power] = value;
+    GF_LOG[value] = power;
+    value <<= 1;
+    if (value >= 256) {
+      value ^= GF_PRIMITIVE;
+    }
+  }
+}
+
+function gfMultiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : GF_EXP[(GF_LOG[a] + GF_LOG[b]) % 255];
+}
+
+/** ASCII encodation: digit pairs share a codeword, bytes above 127 take an upper shift. */
+function encodeAscii(bytes: Buffer): number[] {
+  const codewords: number[] = [];
+
+  for (let index = 0; index < bytes.length; index += 1) {
+    const byte = bytes[index];
+    const next = bytes[index + 1];
+
+    if (byte >= 48 && byte <= 57 && next !== undefined && next >= 48 && next <= 57) {
+      codewords.push(130 + (byte - 48) * 10 + (next - 48));
+      index += 1;
+    } else if (byte > 127) {
+      codewords.push(UPPER_SHIFT, byte - 127);
+    } else {
+      codewords.push(byte + 1);
+    }
+  }
+
+  return codewords;
+}
+
+function padCodewords(codewords: number[], capacity: number): number[] {
+  const padded = [...codewords];
+
+  if (padded.length < capacity) {
+    padded.push(PAD);
+  }
+
+  // Later pads are scrambled by position so long runs of padding do not form a pattern.
+  while (padded.length < capacity) {
+    const position = padded.length + 1;
+    const pad = PAD + ((149 * position) % 253) + 1;
+    padded.push(pad > 254 ? pad - 254 : pad);
+  }
+
+  return padded;
+}
+
+function computeEcc(data: number[], count: number): number[] {
+  let generator = [1];
+
+  for (let root = 1; root <= count; root += 1) {
+    const next = new Array<number>(generator.length + 1).fill(0);
+    generator.forEach((coefficient, index) => {
+      next[index] ^= coefficient;
+      next[index + 1] ^= gfMultiply(coefficient, GF_EXP[root]);
+    });
+    generator = next;
+  }
+
+  const remainder = new Array<number>(count).fill(0);
+
+  data.forEach((codeword) => {
+    const factor = codeword ^ remainder[0];
+    remainder.shift();
+    remainder.push(0);
+    for (let index = 0; index < count; index += 1) {
+      remainder[index] ^= gfMultiply(generator[index + 1], factor);
+    }
+  });
+
+  return remainder;
+}
+
+/**
+ * The ECC 200 placement algorithm: walks the mapping matrix in diagonal sweeps, returning for
+ * each module the codeword (1-based) and bit (1 = most significant) it shows, as 10 * codeword +
+ * bit, or 1 for the fixed dark corner modules.
+ */
+function placeModules(rows: number, columns: number): number[] {
+  const grid = new Array<number>(rows * columns).fill(0);
+
+  const module = (row: number, column: number, codeword: number, bit: number) => {
+    let r = row;
+    let c = column;
+    if (r < 0) {
+      r += rows;
+      c += 4 - ((rows + 4) % 8);
+    }
+    if (c < 0) {
+      c += columns;
+      r += 4 - ((columns + 4) % 8);
+    }
+    grid[r * columns + c] = 10 * codeword + bit;
+  };
+
+  const utah = (row: number, column: number, codeword: number) => {
+    module(row - 2, column - 2, codeword, 1);
+    module(row - 2, column - 1, codeword, 2);
+    module(row - 1, column - 2, codeword, 3);
+    module(row - 1, column - 1, codeword, 4);
+    module(row - 1, column, codeword, 5);
+    module(row, column - 2, codeword, 6);
+    module(row, column - 1, codeword, 7);
+    module(row, column, codeword, 8);
+  };
+
+  const corner = (codeword: number, positions: [number, number][]) => {
+    positions.forEach(([row, column], index) => module(row, column, codeword, index + 1));
+  };
+
+  let codeword = 1;
+  let row = 4;
+  let column = 0;
+
+  do {
+    if (row === rows && column === 0) {
+      corner(codeword++, [[rows - 1, 0], [rows - 1, 1], [rows - 1, 2], [0, columns - 2], [0, columns - 1], [1, columns - 1], [2, columns - 1], [3, columns - 1]]);
+    }
+    if (row === rows - 2 && column === 0 && columns % 4 !== 0) {
+      corner(codeword++, [[rows - 3, 0], [rows - 2, 0], [rows - 1, 0], [0, columns - 4], [0, columns - 3], [0, columns - 2], [0, columns - 1], [1, columns - 1]]);
+    }
+    if (row === rows - 2 && column === 0 && columns % 8 === 4) {
+      corner(codeword++, [[rows - 3, 0], [rows - 2, 0], [rows - 1, 0], [0, columns - 2], [0, columns - 1], [1, columns - 1], [2, columns - 1], [3, columns - 1]]);
+    }
+    if (row === rows + 4 && column === 2 && columns % 8 === 0) {
+      corner(codeword++, [[rows - 1, 0], [rows - 1, columns - 1], [0, columns - 3], [0, columns - 2], [0, columns - 1], [1, columns - 3], [1, columns - 2], [1, columns - 1]]);
+    }
+
+    do {
+      if (row < rows && column >= 0 && grid[row * columns + column] === 0) {
+        utah(row, column, codeword++);
+      }
+      row -= 2;
+      column += 2;
+    } while (row >= 0 && column < columns);
+    row += 1;
+    column += 3;
+
+    do {
+      if (row >= 0 && column < columns && grid[row * columns + column] === 0) {
+        utah(row, column, codeword++);
+      }
+      row += 2;
+      column -= 2;
+    } while (row < rows && column >= 0);
+    row += 3;
+    column += 1;
+  } while (row < rows || column < columns);
+
+  if (grid[rows * columns - 1] === 0) {
+    grid[rows * columns - 1] = 1;
+    grid[rows * columns - columns - 2] = 1;
+  }
+
+  return grid;
+}
+
+/**
+ * Encodes text as a square ECC 200 DataMatrix symbol. Returns the module grid, row by row,
+ * with true for dark modules; the caller adds a quiet zone of at least one module.
+ */
+export function encodeDataMatrix(text: string): boolean[][] {
+  if (!text) {
+    throw new Error('Barcode text is required.');
+  }
+
+  const data = encodeAscii(Buffer.from(text, 'latin1'));
+  const symbol = SYMBOL_SIZES.find((entry) => entry.dataCodewords >= data.length);
+
+  if (!symbol) {
+    const limit = SYMBOL_SIZES[SYMBOL_SIZES.length - 1].dataCodewords;
+    throw new Error(`Barcode text is too long for a DataMatrix label; it must fit in ${limit} codewords.`);
+  }
+
+  const padded = padCodewords(data, symbol.dataCodewords);
+  const codewords = [...padded, ...computeEcc(padded, symbol.eccCodewords)];
+  const mappingSize = symbol.regions * symbol.regionSize;
+  const placement = placeModules(mappingSize, mappingSize);
+  const matrix = Array.from({ length: symbol.size }, () => new Array<boolean>(symbol.size).fill(false));
+  const pitch = symbol.regionSize + 2;
+
+  for (let regionRow = 0; regionRow < symbol.regions; regionRow += 1) {
+    for (let regionColumn = 0; regionColumn < symbol.regions; regionColumn += 1) {
+      const top = regionRow * pitch;
+      const left = regionColumn * pitch;
+
+      // Finder pattern: solid left and bottom edges, alternating top and right clock tracks.
+      for (let offset = 0; offset < pitch; offset += 1) {
+        matrix[top + offset][left] = true;
+        matrix[top + pitch - 1][left + offset] = true;
+        matrix[top][left + offset] = offset % 2 === 0;
+        matrix[top + offset][left + pitch - 1] = offset % 2 === 1;
+      }
+
+      for (let y = 0; y < symbol.regionSize; y += 1) {
+        for (let x = 0; x < symbol.regionSize; x += 1) {
+          const value = placement[(regionRow * symbol.regionSize + y) * mappingSize + regionColumn * symbol.regionSize + x];
+          const dark =
+            value === 1 || (value >= 10 && (codewords[Math.floor(value / 10) - 1] & (1 << (8 - (value % 10)))) !== 0);
+          matrix[top + 1 + y][left + 1 + x] = dark;
+        }
+      }
+    }
+  }
+
+  return matrix;
+}
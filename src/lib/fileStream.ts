@@ -0,0 +1,39 @@
+import { createReadStream } from 'node:fs';
+import type { ServerResponse } from 'node:http';
+
+import { logger, serializeError } from './logger.js';
+
+export type FileStreamOptions = {
+  headers: Record<string, string>;
+  // Written instead of the file when it fails before any bytes are sent.
+  sendError: (res: ServerResponse) => void;
+  logContext?: Record<string, unknown>;
+};
+
+/**
+ * Streams a file as a 200 response with the given headers. Static assets and part documents both
+ * go through here so a read failure is handled the same way: an error response while nothing has
+ * been sent yet, otherwise the connection is dropped so the client sees a truncated body.
+ */
+export function streamFile(res: ServerResponse, filePath: string, options: FileStreamOptions): void {
+  res.statusCode = 200;
+  Object.entries(options.headers).forEach(([name, value]) => res.setHeader(name, value));
+
+  const stream = createReadStream(filePath);
+  stream.on('error', (streamError) => {
+    logger.error('Streaming error while sending file', {
+      filePath,
+      ...options.logContext,
+      error: serializeError(streamError),
+    });
+
+    if (!res.headersSent) {
+      Object.keys(options.headers).forEach((name) => res.removeHeader(name));
+      res.statusCode = 500;
+      options.sendError(res);
+    } else {
+      res.destroy(streamError);
+    }
+  });
+  stream.pipe(res);
+}
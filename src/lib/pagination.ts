@@ -0,0 +1,220 @@
+import { Prisma } from '@prisma/client';
+
+export type SortDirection = 'asc' | 'desc';
+
+// `sort` stays a plain string because it arrives from query strings; each service validates it
+// against its own sort keys with resolveSortKey.
+export type PageRequest = {
+  limit?: number;
+  cursor?: string;
+  sort?: string;
+  direction?: SortDirection;
+};
+
+export type PageInfo = {
+  total: number;
+  limit: number | null;
+  nextCursor: string | null;
+  sort: string;
+  direction: SortDirection;
+};
+
+export type Page<T> = {
+  items: T[];
+  pageInfo: PageInfo;
+};
+
+type CursorValue = string | number | null;
+
+type CursorPayload = {
+  sort: string;
+  direction: SortDirection;
+  values: CursorValue[];
+  dates: number[];
+};
+
+/**
+ * Normalizes a raw sort value from MySQL (bigint counts, Decimal sums, booleans, dates) into a
+ * JSON-safe value that can be bound back into a keyset comparison.
+ */
+export function toCursorValue(value: unknown): CursorValue | Date {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return value;
+  }
+
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value;
+  }
+
+  if (Prisma.Decimal.isDecimal(value)) {
+    return (value as Prisma.Decimal).toNumber();
+  }
+
+  return String(value);
+}
+
+// Cursors are opaque to clients: base64url JSON holding the sort they were issued for and the
+// sort values of the last row on the page.
+export function encodeCursor(sort: string, direction: SortDirection, values: unknown[]): string {
+  const normalized = values.map(toCursorValue);
+  const payload: CursorPayload = {
+    sort,
+    direction,
+    values: normalized.map((value) => (value instanceof Date ? value.toISOString() : value)),
+    dates: normalized.flatMap((value, index) => (value instanceof Date ? [index] : [])),
+  };
+
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: string, direction: SortDirection): (CursorValue | Date)[] {
+  let payload: CursorPayload;
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPayload;
+  } catch {
+    throw new Error('The pagination cursor is invalid.');
+  }
+
+  if (!payload || !Array.isArray(payload.values) || !Array.isArray(payload.dates)) {
+    throw new Error('The pagination cursor is invalid.');
+  }
+
+  if (payload.sort !== sort || payload.direction !== direction) {
+    throw new Error('The pagination cursor must be used with the sort it was issued for.');
+  }
+
+  return payload.values.map((value, index) =>
+    payload.dates.includes(index) && typeof value === 'string' ? new Date(value) : value,
+  );
+}
+
+export function resolveSortDirection(value: unknown): SortDirection {
+  return typeof value === 'string' && value.trim().toLowerCase() === 'desc' ? 'desc' : 'asc';
+}
+
+export function resolveSortKey<TSort extends string>(value: unknown, allowed: readonly TSort[], fallback: TSort): TSort {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return fallback;
+  }
+
+  const match = allowed.find((entry) => entry.toLowerCase() === value.trim().toLowerCase());
+
+  if (!match) {
+    throw new Error(`Sort must be one of: ${allowed.join(', ')}`);
+  }
+
+  return match;
+}
+
+export function buildOrderClause(expressions: Prisma.Sql[], direction: SortDirection): Prisma.Sql {
+  const keyword = Prisma.raw(direction === 'desc' ? 'DESC' : 'ASC');
+  return Prisma.sql`ORDER BY ${Prisma.join(
+    expressions.map((expression) => Prisma.sql`${expression} ${keyword}`),
+    ', ',
+  )}`;
+}
+
+// Row-value comparison keeps the keyset correct across multi-column sorts; the expressions must
+// never yield NULL or the comparison silently drops rows.
+export function buildKeysetClause(
+  expressions: Prisma.Sql[],
+  values: (CursorValue | Date)[],
+  direction: SortDirection,
+): Prisma.Sql {
+  if (values.length !== expressions.length) {
+    throw new Error('The pagination cursor is invalid.');
+  }
+
+  const operator = Prisma.raw(direction === 'desc' ? '<' : '>');
+  return Prisma.sql`(${Prisma.join(expressions)}) ${operator} (${Prisma.join(values)})`;
+}
+
+function compareCursorValues(a: CursorValue, b: CursorValue): number {
+  if (a === b) {
+    return 0;
+  }
+
+  if (a === null) {
+    return -1;
+  }
+
+  if (b === null) {
+    return 1;
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  const left = String(a);
+  const right = String(b);
+  return left.localeCompare(right, undefined, { numeric: true, sensitivity: 'base' }) || left.localeCompare(right);
+}
+
+/**
+ * Sorts and pages rows that are already in memory with the same cursor contract as the SQL
+ * keyset pages. `sortValues` must end with a value that is unique per row.
+ */
+export function paginateRows<T>(
+  rows: T[],
+  options: {
+    sort: string;
+    direction: SortDirection;
+    limit?: number;
+    cursor?: string;
+    sortValues: (row: T) => CursorValue[];
+  },
+): Page<T> {
+  const multiplier = options.direction === 'desc' ? -1 : 1;
+  const compareKeys = (a: CursorValue[], b: CursorValue[]) => {
+    for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+      const comparison = compareCursorValues(a[index] ?? null, b[index] ?? null);
+      if (comparison !== 0) {
+        return comparison * multiplier;
+      }
+    }
+
+    return 0;
+  };
+
+  const keyed = rows
+    .map((row) => ({ row, key: options.sortValues(row) }))
+    .sort((a, b) => compareKeys(a.key, b.key));
+
+  const after = options.cursor
+    ? (decodeCursor(options.cursor, options.sort, options.direction).map((value) =>
+        value instanceof Date ? value.toISOString() : value,
+      ) as CursorValue[])
+    : null;
+  const remaining = after ? keyed.filter((entry) => compareKeys(entry.key, after) > 0) : keyed;
+  const limit = typeof options.limit === 'number' && options.limit > 0 ? options.limit : null;
+  const pageEntries = limit === null ? remaining : remaining.slice(0, limit);
+  const last = pageEntries[pageEntries.length - 1];
+
+  return {
+    items: pageEntries.map((entry) => entry.row),
+    pageInfo: {
+      total: rows.length,
+      limit,
+      nextCursor:
+        limit !== null && remaining.length > limit && last
+          ? encodeCursor(options.sort, options.direction, last.key)
+          : null,
+      sort: options.sort,
+      direction: options.direction,
+    },
+  };
+}
@@ -0,0 +1,111 @@
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfShape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'text'; x: number; y: number; size: number; text: string; font?: PdfFont };
+
+/** A page in points (1/72 in) with its origin at the top-left, the way labels are laid out. */
+export type PdfPage = {
+  width: number;
+  height: number;
+  shapes: PdfShape[];
+};
+
+const FONT_NAMES: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Helvetica advance widths in 1/1000 em for printable ASCII, enough to centre and fit label text.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/** The standard fonts are not embedded, so text is limited to printable ASCII. */
+function toPdfText(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/** Width of text set in Helvetica; the bold face is close enough for layout. */
+export function measurePdfText(text: string, size: number): number {
+  const width = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+
+  return (width / 1000) * size;
+}
+
+function renderContent(page: PdfPage): string {
+  const lines: string[] = [];
+
+  page.shapes.forEach((shape) => {
+    if (shape.type === 'rect') {
+      const y = page.height - shape.y - shape.height;
+      lines.push(`${formatNumber(shape.x)} ${formatNumber(y)} ${formatNumber(shape.width)} ${formatNumber(shape.height)} re f`);
+      return;
+    }
+
+    // Text is positioned by its baseline.
+    const font = FONT_NAMES[shape.font ?? 'regular'].resource;
+    const y = page.height - shape.y;
+    lines.push(`BT /${font} ${formatNumber(shape.size)} Tf ${formatNumber(shape.x)} ${formatNumber(y)} Td (${toPdfText(shape.text)}) Tj ET`);
+  });
+
+  return lines.join('\n');
+}
+
+/** Writes a PDF with one content stream per page, using the built-in Helvetica faces. */
+export function formatPdf(pages: PdfPage[]): Buffer {
+  if (pages.length === 0) {
+    throw new Error('A PDF must have at least one page.');
+  }
+
+  const objects: string[] = [];
+  const fontIds = { regular: 3, bold: 4 };
+  const pageIds = pages.map((_page, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  (Object.keys(fontIds) as PdfFont[]).forEach((font) => {
+    objects[fontIds[font]] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font].baseFont} /Encoding /WinAnsiEncoding >>`;
+  });
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const content = renderContent(page);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] ` +
+      `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  const chunks: string[] = ['%PDF-1.4\n'];
+  const offsets: number[] = [];
+  let length = Buffer.byteLength(chunks[0], 'latin1');
+
+  for (let id = 1; id < objects.length; id += 1) {
+    const chunk = `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    offsets[id] = length;
+    chunks.push(chunk);
+    length += Buffer.byteLength(chunk, 'latin1');
+  }
+
+  const xref = [
+    'xref',
+    `0 ${objects.length}`,
+    '0000000000 65535 f ',
+    ...offsets.slice(1).map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+  ];
+  chunks.push(`${xref.join('\n')}\ntrailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`);
+
+  return Buffer.from(chunks.join(''), 'latin1');
+}
@@ -0,0 +1,305 @@
+import { crc32, deflateRawSync, inflateRawSync } from 'node:zlib';
+
+import type { SheetRow } from './csv.js';
+
+type ZipEntry = { name: string; data: Buffer };
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Inflation is capped across the whole archive so a small crafted file cannot expand without bound.
+function readZipEntries(buffer: Buffer, maxInflatedBytes: number): Map<string, Buffer> {
+  let endOffset = -1;
+  let inflatedBytes = 0;
+
+  // The end-of-central-directory record sits at the tail, possibly followed by a comment.
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset -= 1) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = offset;
+      break;
+    }
+  }
+
+  if (endOffset < 0) {
+    throw new Error('Workbook is invalid: it is not a zip archive.');
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries = new Map<string, Buffer>();
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Workbook is invalid: the zip directory is corrupt.');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataOffset = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(dataOffset, dataOffset + compressedSize);
+
+    const tooLarge = new Error(`Workbook is too large: its contents must expand to ${maxInflatedBytes} bytes or fewer.`);
+    let data: Buffer;
+
+    if (method === METHOD_STORED) {
+      data = raw;
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(1, maxInflatedBytes - inflatedBytes) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw tooLarge;
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`Workbook is invalid: unsupported zip compression method ${method}.`);
+    }
+
+    inflatedBytes += data.length;
+    if (inflatedBytes > maxInflatedBytes) {
+      throw tooLarge;
+    }
+    entries.set(name, data);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function writeZip(entries: ZipEntry[]): Buffer {
+  const stamp = toDosDateTime(new Date());
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const checksum = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt16LE(stamp.time, 10);
+    local.writeUInt16LE(stamp.date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt16LE(stamp.time, 12);
+    central.writeUInt16LE(stamp.date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower] ?? match;
+  });
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Rich-text strings split their text across several <t> runs; phonetic hints (<rPh>) are not text.
+function readTextRuns(xml: string): string {
+  return Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join('');
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return letters.split('').reduce((total, letter) => total * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function resolveFirstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const relations = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const relationId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const relation = relationId
+    ? Array.from(relations.matchAll(/<Relationship\b[^>]*>/g)).find((match) => match[0].includes(`Id="${relationId}"`))
+    : undefined;
+  const target = relation?.[0].match(/Target="([^"]+)"/)?.[1];
+
+  if (!target) {
+    return 'xl/worksheets/sheet1.xml';
+  }
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Reads the first worksheet of an .xlsx workbook into rows of cell text, the same shape
+ * parseCsv returns, numbered by sheet row. Formulas yield their cached value; styles and number
+ * formats are ignored, so dates come back as serial numbers. Blank rows are dropped.
+ */
+export function parseXlsx(buffer: Buffer, options: { maxInflatedBytes: number }): SheetRow[] {
+  const entries = readZipEntries(buffer, options.maxInflatedBytes);
+  const sharedStrings = Array.from(
+    (entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? '').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g),
+  ).map((match) => readTextRuns(match[1]));
+  const sheet = entries.get(resolveFirstSheetPath(entries))?.toString('utf8');
+
+  if (!sheet) {
+    throw new Error('Workbook is invalid: it has no worksheet.');
+  }
+
+  const rows: SheetRow[] = [];
+  let line = 0;
+
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    // Writers may omit r on rows, in which case each row follows the previous one.
+    const reference = Number.parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? '', 10);
+    line = Number.isFinite(reference) ? reference : line + 1;
+    let nextColumn = 0;
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const reference = attributes.match(/\br="([A-Z]+)\d*"/i)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      const index = reference ? columnIndex(reference) : nextColumn;
+      let value = '';
+
+      if (type === 's') {
+        value = sharedStrings[Number.parseInt(rawValue ?? '', 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readTextRuns(body);
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = value;
+      nextColumn = index + 1;
+    }
+
+    if (row.some((cell) => cell.trim().length > 0)) {
+      rows.push({ line, cells: row });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Writes rows to a single-sheet .xlsx workbook. Every cell is an inline string so values such as
+ * part numbers with leading zeros survive a round trip through Excel unchanged.
+ */
+export function formatXlsx(rows: string[][], sheetName = 'Sheet1'): Buffer {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, cellIndex) =>
+          cell
+            ? `<c r="${columnName(cellIndex)}${rowIndex + 1}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(cell)}</t></is></c>`
+            : '',
+        )
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${encodeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows}</sheetData>` +
+      '</worksheet>',
+  };
+
+  return writeZip(Object.entries(files).map(([name, content]) => ({ name, data: Buffer.from(content, 'utf8') })));
+}
@@ -0,0 +1,109 @@
+import process from 'node:process';
+
+import { logger, serializeError } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { formatCanonicalNumber, parseEngineeringValue } from '../services/engineeringUnits.js';
+import { NUMERIC_VALUE_PATTERN, parseAttributeConstraint } from '../services/parts.js';
+
+const PAGE_SIZE = 2_000;
+const UPDATE_BATCH_SIZE = 200;
+const COMMIT_FLAG = '--commit';
+
+type PendingUpdate = { id: number; to: string };
+
+/**
+ * One-off rewrite of numeric part_data values typed before unit-aware parsing ("4.7k", "16V")
+ * into the canonical numbers range filters compare. Runs as a dry run that lists every change
+ * and every value it cannot read; pass --commit to write the changes.
+ */
+async function main() {
+  const commit = process.argv.includes(COMMIT_FLAG);
+  const canonicalPattern = new RegExp(NUMERIC_VALUE_PATTERN);
+  const attributes = await prisma.attribute.findMany({
+    select: { attribute_ID: true, attribute_code: true, data_type: true, unit: true },
+  });
+  const numeric = attributes.filter((attribute) => {
+    const { kind } = parseAttributeConstraint(attribute.data_type);
+    return kind === 'int' || kind === 'double';
+  });
+  const totals = { scanned: 0, normalized: 0, unreadable: 0 };
+
+  for (const attribute of numeric) {
+    const code = attribute.attribute_code ?? String(attribute.attribute_ID);
+    const isInteger = parseAttributeConstraint(attribute.data_type).kind === 'int';
+    const updates: PendingUpdate[] = [];
+    let cursor: number | undefined;
+
+    for (;;) {
+      const rows = await prisma.part_data.findMany({
+        where: { attribute_ID: attribute.attribute_ID, part_data: { not: null } },
+        select: { part_data_ID: true, part_data: true, partmaster: { select: { PartNumber: true } } },
+        orderBy: { part_data_ID: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor === undefined ? {} : { cursor: { part_data_ID: cursor }, skip: 1 }),
+      });
+
+      if (rows.length === 0) {
+        break;
+      }
+
+      cursor = rows[rows.length - 1].part_data_ID;
+      totals.scanned += rows.length;
+
+      rows.forEach((row) => {
+        const value = (row.part_data ?? '').trim();
+
+        if (!value || canonicalPattern.test(value)) {
+          return;
+        }
+
+        const parsed = parseEngineeringValue(value, attribute.unit);
+        const canonical = parsed === null ? null : formatCanonicalNumber(parsed);
+
+        if (canonical === null || (isInteger && !Number.isInteger(Number(canonical)))) {
+          totals.unreadable += 1;
+          logger.warn('Attribute value cannot be normalized; it stays out of range filters', {
+            attribute: code,
+            unit: attribute.unit,
+            partNumber: row.partmaster.PartNumber,
+            value,
+          });
+          return;
+        }
+
+        updates.push({ id: row.part_data_ID, to: canonical });
+        logger.info(commit ? 'Normalizing attribute value' : 'Would normalize attribute value', {
+          attribute: code,
+          partNumber: row.partmaster.PartNumber,
+          from: value,
+          to: canonical,
+        });
+      });
+    }
+
+    if (commit) {
+      for (let index = 0; index < updates.length; index += UPDATE_BATCH_SIZE) {
+        const batch = updates.slice(index, index + UPDATE_BATCH_SIZE);
+        await prisma.$transaction(
+          batch.map((update) =>
+            prisma.part_data.update({ where: { part_data_ID: update.id }, data: { part_data: update.to } }),
+          ),
+        );
+      }
+    }
+
+    totals.normalized += updates.length;
+  }
+
+  logger.info(commit ? 'Attribute values normalized' : `Dry run finished; re-run with ${COMMIT_FLAG} to apply`, {
+    attributes: numeric.length,
+    ...totals,
+  });
+}
+
+main()
+  .catch((error) => {
+    logger.error('Failed to normalize attribute values', { error: serializeError(error) });
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
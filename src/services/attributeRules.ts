@@ -0,0 +1,539 @@
+import { parseEngineeringValue } from './engineeringUnits.js';
+
+export type RuleOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type RuleNode =
+  | { type: 'and' | 'or'; operands: RuleNode[] }
+  | { type: 'not'; operand: RuleNode }
+  | { type: 'compare'; attribute: string; operator: RuleOperator; value: string | number }
+  | { type: 'in'; attribute: string; values: string[]; negated: boolean }
+  | { type: 'empty'; attribute: string; negated: boolean };
+
+export type RequiredRule = {
+  kind: 'always' | 'never' | 'conditional' | 'invalid';
+  source: string;
+  condition: RuleNode | null;
+  description: string;
+  legacy: boolean;
+  error: string | null;
+};
+
+export type AlternativeRange = {
+  value: number;
+  condition: RuleNode;
+  description: string;
+};
+
+export type ParsedAlternativeRanges = {
+  ranges: AlternativeRange[];
+  errors: string[];
+};
+
+export type RequirementState = {
+  required: boolean;
+  visible: boolean;
+  reason: string | null;
+};
+
+// Attribute values keyed by normalized attribute code (see normalizeRuleIdentifier).
+export type RuleValues = Map<string, string>;
+
+type Token =
+  | { kind: 'word'; value: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number; raw: string }
+  | { kind: 'operator'; value: RuleOperator }
+  | { kind: 'punct'; value: '(' | ')' | ',' }
+  | { kind: 'logic'; value: 'and' | 'or' };
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'is', 'empty', 'blank']);
+
+const LEGACY_SUBTYPE_ATTRIBUTE = 'subtype';
+
+/**
+ * Attribute codes carry spreadsheet suffixes (Subtype_3) and rules are typed by hand, so both
+ * sides are compared lowercase, underscore-separated and without the numeric suffix.
+ */
+export function normalizeRuleIdentifier(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_')
+    .replace(/_\d+$/, '');
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const whitespace = rest.match(/^\s+/);
+
+    if (whitespace) {
+      index += whitespace[0].length;
+      continue;
+    }
+
+    const quoted = rest.match(/^'([^']*)'|^"([^"]*)"/);
+    if (quoted) {
+      tokens.push({ kind: 'string', value: (quoted[1] ?? quoted[2] ?? '').trim() });
+      index += quoted[0].length;
+      continue;
+    }
+
+    const operator = rest.match(/^(<=|>=|!=|<>|==|=|<|>)/);
+    if (operator) {
+      const raw = operator[1];
+      const value = (raw === '<>' ? '!=' : raw === '==' ? '=' : raw) as RuleOperator;
+      tokens.push({ kind: 'operator', value });
+      index += raw.length;
+      continue;
+    }
+
+    const logic = rest.match(/^(&&|\|\|)/);
+    if (logic) {
+      tokens.push({ kind: 'logic', value: logic[1] === '&&' ? 'and' : 'or' });
+      index += 2;
+      continue;
+    }
+
+    if (rest[0] === '(' || rest[0] === ')' || rest[0] === ',') {
+      tokens.push({ kind: 'punct', value: rest[0] });
+      index += 1;
+      continue;
+    }
+
+    const number = rest.match(/^-?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?(?![A-Za-z_])/);
+    if (number) {
+      tokens.push({ kind: 'number', value: Number.parseFloat(number[0]), raw: number[0] });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+    if (word) {
+      const lower = word[0].toLowerCase();
+      tokens.push(lower === 'and' || lower === 'or' ? { kind: 'logic', value: lower } : { kind: 'word', value: word[0] });
+      index += word[0].length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${rest[0]}" at position ${index + 1}.`);
+  }
+
+  return tokens;
+}
+
+class RuleParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): RuleNode {
+    const node = this.parseOr();
+
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected "${this.describe(this.tokens[this.position])}" in rule.`);
+    }
+
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    const token = this.tokens[this.position];
+    this.position += 1;
+    return token;
+  }
+
+  private describe(token: Token | undefined): string {
+    if (!token) {
+      return 'end of rule';
+    }
+
+    return token.kind === 'number' ? token.raw : String(token.value);
+  }
+
+  private isWord(token: Token | undefined, value: string): boolean {
+    return token?.kind === 'word' && token.value.toLowerCase() === value;
+  }
+
+  private parseOr(): RuleNode {
+    const operands = [this.parseAnd()];
+
+    while (this.peek()?.kind === 'logic' && this.peek()?.value === 'or') {
+      this.next();
+      operands.push(this.parseAnd());
+    }
+
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  private parseAnd(): RuleNode {
+    const operands = [this.parseUnary()];
+
+    while (this.peek()?.kind === 'logic' && this.peek()?.value === 'and') {
+      this.next();
+      operands.push(this.parseUnary());
+    }
+
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parseUnary(): RuleNode {
+    const token = this.peek();
+
+    if (this.isWord(token, 'not')) {
+      this.next();
+      return { type: 'not', operand: this.parseUnary() };
+    }
+
+    if (token?.kind === 'punct' && token.value === '(') {
+      this.next();
+      const node = this.parseOr();
+      const closing = this.next();
+
+      if (closing?.kind !== 'punct' || closing.value !== ')') {
+        throw new Error('Missing closing parenthesis in rule.');
+      }
+
+      return node;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseAttribute(): string {
+    const words: string[] = [];
+
+    while (this.peek()?.kind === 'word' && !KEYWORDS.has((this.peek() as { value: string }).value.toLowerCase())) {
+      words.push((this.next() as { value: string }).value);
+    }
+
+    if (words.length === 0) {
+      throw new Error(`Expected an attribute name but found "${this.describe(this.peek())}".`);
+    }
+
+    return normalizeRuleIdentifier(words.join(' '));
+  }
+
+  private parseValue(): string | number {
+    const token = this.next();
+
+    if (token?.kind === 'string') {
+      return token.value;
+    }
+
+    if (token?.kind === 'number') {
+      return token.value;
+    }
+
+    throw new Error(`Expected a quoted value or number but found "${this.describe(token)}".`);
+  }
+
+  private parseComparison(): RuleNode {
+    const attribute = this.parseAttribute();
+    const token = this.peek();
+
+    if (this.isWord(token, 'is')) {
+      this.next();
+      const negated = this.isWord(this.peek(), 'not');
+
+      if (negated) {
+        this.next();
+      }
+
+      const target = this.next();
+      if (!this.isWord(target, 'empty') && !this.isWord(target, 'blank')) {
+        throw new Error(`Expected EMPTY after IS but found "${this.describe(target)}".`);
+      }
+
+      return { type: 'empty', attribute, negated };
+    }
+
+    const negatedIn = this.isWord(token, 'not') && this.isWord(this.tokens[this.position + 1], 'in');
+
+    if (negatedIn || this.isWord(token, 'in')) {
+      this.next();
+      if (negatedIn) {
+        this.next();
+      }
+
+      const opening = this.next();
+      if (opening?.kind !== 'punct' || opening.value !== '(') {
+        throw new Error('Expected "(" after IN.');
+      }
+
+      const values = [String(this.parseValue())];
+
+      while (this.peek()?.kind === 'punct' && this.peek()?.value === ',') {
+        this.next();
+        values.push(String(this.parseValue()));
+      }
+
+      const closing = this.next();
+      if (closing?.kind !== 'punct' || closing.value !== ')') {
+        throw new Error('Missing closing parenthesis after IN values.');
+      }
+
+      return { type: 'in', attribute, values, negated: negatedIn };
+    }
+
+    if (token?.kind !== 'operator') {
+      throw new Error(`Expected a comparison after "${attribute}" but found "${this.describe(token)}".`);
+    }
+
+    this.next();
+    return { type: 'compare', attribute, operator: token.value, value: this.parseValue() };
+  }
+}
+
+export function parseRuleExpression(source: string): RuleNode {
+  const expression = source.trim().replace(/^(required\s+)?(when|if)\s+/i, '');
+
+  if (!expression) {
+    throw new Error('The rule is empty.');
+  }
+
+  return new RuleParser(tokenize(expression)).parse();
+}
+
+function formatValue(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `'${value}'`;
+}
+
+export function describeRule(node: RuleNode): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.operands
+        .map((operand) =>
+          operand.type === 'and' || operand.type === 'or' ? `(${describeRule(operand)})` : describeRule(operand),
+        )
+        .join(node.type === 'and' ? ' AND ' : ' OR ');
+    case 'not':
+      return `NOT (${describeRule(node.operand)})`;
+    case 'compare':
+      return `${node.attribute} ${node.operator} ${formatValue(node.value)}`;
+    case 'in':
+      return `${node.attribute} ${node.negated ? 'NOT IN' : 'IN'} (${node.values.map(formatValue).join(', ')})`;
+    case 'empty':
+      return `${node.attribute} IS ${node.negated ? 'NOT EMPTY' : 'EMPTY'}`;
+  }
+}
+
+/**
+ * Parses attribute.required_rule. Besides YES/NO the rule may be a condition over sibling
+ * attributes (Mounting = 'SMD' AND Voltage >= 50). Older rules that are just a list of quoted
+ * subtype values keep their meaning as "Subtype IN (...)".
+ */
+export function parseRequiredRule(rule: string | null | undefined): RequiredRule {
+  const source = typeof rule === 'string' ? rule.trim() : '';
+  const normalized = source.toLowerCase();
+
+  if (!source || normalized === 'no') {
+    return { kind: 'never', source, condition: null, description: 'Optional', legacy: false, error: null };
+  }
+
+  if (normalized === 'yes') {
+    return { kind: 'always', source, condition: null, description: 'Always required', legacy: false, error: null };
+  }
+
+  try {
+    const condition = parseRuleExpression(source);
+    return { kind: 'conditional', source, condition, description: describeRule(condition), legacy: false, error: null };
+  } catch (error) {
+    const quoted = Array.from(source.matchAll(/'([^']+)'/g))
+      .map((match) => match[1]?.trim())
+      .filter((value): value is string => Boolean(value));
+
+    if (quoted.length > 0) {
+      const condition: RuleNode = { type: 'in', attribute: LEGACY_SUBTYPE_ATTRIBUTE, values: quoted, negated: false };
+      return { kind: 'conditional', source, condition, description: describeRule(condition), legacy: true, error: null };
+    }
+
+    return {
+      kind: 'invalid',
+      source,
+      condition: null,
+      description: 'Optional',
+      legacy: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Parses attribute.alternative_min / alternative_max: entries such as
+ * "0.1 when Subtype = 'Thin Film'; 1 when Subtype = 'Thick Film'", separated by semicolons or
+ * new lines. The first entry whose condition holds replaces the default bound. Bounds may use
+ * engineering notation ("4.7k", "100nF") and are converted to the attribute's unit.
+ */
+export function parseAlternativeRanges(source: string | null | undefined, unit?: string | null): ParsedAlternativeRanges {
+  const text = typeof source === 'string' ? source.trim() : '';
+  const ranges: AlternativeRange[] = [];
+  const errors: string[] = [];
+
+  if (!text) {
+    return { ranges, errors };
+  }
+
+  text
+    .split(/[;\n]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const match = entry.match(/^(.+?)\s+(?:when|if)\s+(.+)$/i);
+      const value = match ? parseEngineeringValue(match[1], unit) : null;
+
+      if (!match || value === null) {
+        errors.push(`"${entry}" must look like "<number> when <condition>".`);
+        return;
+      }
+
+      try {
+        const condition = parseRuleExpression(match[2]);
+        ranges.push({ value, condition, description: describeRule(condition) });
+      } catch (error) {
+        errors.push(`"${entry}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+
+  return { ranges, errors };
+}
+
+export function collectRuleAttributes(node: RuleNode | null, target = new Set<string>()): Set<string> {
+  if (!node) {
+    return target;
+  }
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      node.operands.forEach((operand) => collectRuleAttributes(operand, target));
+      break;
+    case 'not':
+      collectRuleAttributes(node.operand, target);
+      break;
+    default:
+      target.add(node.attribute);
+  }
+
+  return target;
+}
+
+function toNumeric(value: string | number): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const trimmed = value.trim();
+  if (!/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(trimmed)) {
+    return null;
+  }
+
+  return Number.parseFloat(trimmed);
+}
+
+function compareValues(actual: string, operator: RuleOperator, expected: string | number): boolean {
+  const actualNumber = toNumeric(actual);
+  const expectedNumber = toNumeric(expected);
+
+  if (actualNumber !== null && expectedNumber !== null) {
+    switch (operator) {
+      case '=':
+        return actualNumber === expectedNumber;
+      case '!=':
+        return actualNumber !== expectedNumber;
+      case '<':
+        return actualNumber < expectedNumber;
+      case '<=':
+        return actualNumber <= expectedNumber;
+      case '>':
+        return actualNumber > expectedNumber;
+      case '>=':
+        return actualNumber >= expectedNumber;
+    }
+  }
+
+  const left = actual.trim().toLowerCase();
+  const right = String(expected).trim().toLowerCase();
+
+  if (operator === '=') {
+    return left === right;
+  }
+
+  if (operator === '!=') {
+    return left !== right;
+  }
+
+  // Ordering only makes sense for numbers; a text value never satisfies < or >.
+  return false;
+}
+
+/**
+ * Three-valued evaluation: a comparison against an attribute that has no value yet is unknown
+ * (null) rather than false, so fields are not hidden before the user has filled in the
+ * attributes they depend on.
+ */
+export function evaluateRule(node: RuleNode, values: RuleValues): boolean | null {
+  switch (node.type) {
+    case 'and': {
+      const results = node.operands.map((operand) => evaluateRule(operand, values));
+      if (results.some((result) => result === false)) return false;
+      return results.every((result) => result === true) ? true : null;
+    }
+    case 'or': {
+      const results = node.operands.map((operand) => evaluateRule(operand, values));
+      if (results.some((result) => result === true)) return true;
+      return results.every((result) => result === false) ? false : null;
+    }
+    case 'not': {
+      const result = evaluateRule(node.operand, values);
+      return result === null ? null : !result;
+    }
+    case 'empty': {
+      const isEmpty = (values.get(node.attribute) ?? '').trim().length === 0;
+      return node.negated ? !isEmpty : isEmpty;
+    }
+    case 'in': {
+      const actual = (values.get(node.attribute) ?? '').trim();
+      if (!actual) return null;
+      const matches = node.values.some((value) => compareValues(actual, '=', value));
+      return node.negated ? !matches : matches;
+    }
+    case 'compare': {
+      const actual = (values.get(node.attribute) ?? '').trim();
+      if (!actual) return null;
+      return compareValues(actual, node.operator, node.value);
+    }
+  }
+}
+
+export function evaluateRequiredRule(rule: RequiredRule, values: RuleValues): RequirementState {
+  if (rule.kind === 'always') {
+    return { required: true, visible: true, reason: 'Always required' };
+  }
+
+  if (rule.kind !== 'conditional' || !rule.condition) {
+    return { required: false, visible: true, reason: null };
+  }
+
+  const result = evaluateRule(rule.condition, values);
+
+  if (result === null) {
+    return { required: false, visible: true, reason: null };
+  }
+
+  return result
+    ? { required: true, visible: true, reason: `Required because ${rule.description}` }
+    : { required: false, visible: false, reason: null };
+}
+
+export function resolveAlternativeBound(ranges: AlternativeRange[], values: RuleValues): AlternativeRange | null {
+  return ranges.find((range) => evaluateRule(range.condition, values) === true) ?? null;
+}
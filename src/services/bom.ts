@@ -1,6 +1,15 @@
 import { Prisma } from '@prisma/client';
 
 import { logger } from '../lib/logger.js';
+import {
+  buildKeysetClause,
+  buildOrderClause,
+  decodeCursor,
+  encodeCursor,
+  resolveSortKey,
+  type Page,
+  type PageRequest,
+} from '../lib/pagination.js';
 import { prisma } from '../lib/prisma.js';
 
 type RawBomRecord = {
@@ -31,6 +40,100 @@ export type BomOverviewRow = {
   notes: string;
 };
 
+export type BomExplosionRow = {
+  level: number;
+  parent: string;
+  component: string;
+  componentDescription: string;
+  itemSequence: string;
+  quantityPer: number | null;
+  extendedQuantity: number;
+  uom: string;
+  componentLocation: string;
+  availableQuantity: number;
+  effectiveDate: string | null;
+  obsoleteDate: string | null;
+  notes: string;
+  hasChildren: boolean;
+  isPhantom: boolean;
+  isCyclic: boolean;
+};
+
+export type BomExplosion = {
+  assembly: string;
+  assemblyDescription: string;
+  maxDepth: number;
+  truncated: boolean;
+  rows: BomExplosionRow[];
+};
+
+export type WhereUsedRow = {
+  level: number;
+  component: string;
+  assembly: string;
+  assemblyDescription: string;
+  quantityPer: number | null;
+  extendedQuantity: number;
+  uom: string;
+  effectiveDate: string | null;
+  obsoleteDate: string | null;
+  isTopLevel: boolean;
+  isCyclic: boolean;
+};
+
+export type WhereUsed = {
+  partNumber: string;
+  description: string;
+  maxDepth: number;
+  truncated: boolean;
+  topLevelAssemblies: string[];
+  rows: WhereUsedRow[];
+};
+
+export type BomLine = {
+  assembly: string;
+  component: string;
+  itemSequence: string;
+  quantityPer: number | null;
+  uom: string;
+  effectiveDate: string | null;
+  obsoleteDate: string | null;
+  notes: string;
+};
+
+export type BomLinePayload = {
+  assembly: string;
+  component: string;
+  itemSequence?: string;
+  quantityPer?: number;
+  uom?: string;
+  effectiveDate?: string | null;
+  obsoleteDate?: string | null;
+  notes?: string;
+};
+
+export type BomPendingChange = {
+  assembly: string;
+  assemblyDescription: string;
+  component: string;
+  componentDescription: string;
+  itemSequence: string;
+  quantityPer: number | null;
+  changeType: 'effective' | 'obsolete';
+  changeDate: string;
+  effectiveDate: string | null;
+  obsoleteDate: string | null;
+  notes: string;
+};
+
+const DEFAULT_EXPLOSION_DEPTH = 10;
+const DEFAULT_PENDING_WINDOW_DAYS = 30;
+const MAX_EXPLOSION_DEPTH = 25;
+
+// Legacy order method code used for phantom sub-assemblies that are blown through during
+// planning instead of being stocked.
+const PHANTOM_ORDER_METHOD_CODES = new Set(['P']);
+
 function normalize(value: unknown): string {
   if (typeof value === 'string') {
     return value;
@@ -101,50 +204,35 @@ function mapRecord(record: RawBomRecord): BomOverviewRow {
   };
 }
 
-type BomQueryOptions = {
-  limit?: number;
-  assembly?: string;
+type BomOrderingFields = {
+  Assembly: string | null;
+  Component: string | null;
+  ItemSequence: string | null;
 };
 
-export async function getBillOfMaterials(options: BomQueryOptions = {}): Promise<BomOverviewRow[]> {
-  const sanitizedAssembly = typeof options.assembly === 'string' ? options.assembly.trim() : '';
-  const requestedLimit = options.limit;
-  const defaultLimit = sanitizedAssembly.length > 0 ? 200 : 100;
-  const safeLimit =
-    Number.isFinite(requestedLimit) && (requestedLimit as number) > 0
-      ? Math.min(Math.trunc(requestedLimit as number), 200)
-      : defaultLimit;
+function compareBomRows(a: BomOrderingFields, b: BomOrderingFields): number {
+  const assemblyComparison = normalize(a.Assembly).localeCompare(normalize(b.Assembly));
+  if (assemblyComparison !== 0) {
+    return assemblyComparison;
+  }
 
-  logger.debug('Fetching bill of materials overview', {
-    limit: safeLimit,
-    assembly: sanitizedAssembly || undefined,
-  });
+  const seqA = coerceNumber(a.ItemSequence);
+  const seqB = coerceNumber(b.ItemSequence);
 
-  const bomRows = await prisma.bom.findMany({
-    where: sanitizedAssembly.length > 0 ? { Assembly: sanitizedAssembly } : undefined,
-    include: {
-      assembly_partmaster: { select: { DescText: true } },
-      partmaster_bom_ComponentTopartmaster: { select: { DescText: true, LocationCode: true } },
-    },
-    take: safeLimit,
-  });
+  if (seqA !== null && seqB !== null && seqA !== seqB) {
+    return seqA - seqB;
+  }
 
-  const componentPartNumbers = Array.from(
-    new Set(
-      bomRows
-        .map((entry) => normalize(entry.Component).trim())
-        .filter((component) => component.length > 0),
-    ),
-  );
+  return normalize(a.Component).localeCompare(normalize(b.Component));
+}
 
-  const componentLocations = Array.from(
-    new Set(
-      bomRows
-        .map((entry) => normalize(entry.partmaster_bom_ComponentTopartmaster?.LocationCode).trim())
-        .filter((location) => location.length > 0),
-    ),
-  );
+type ComponentStock = {
+  onHandMap: Map<string, number>;
+  allocatedMap: Map<string, number>;
+  locationMap: Map<string, string>;
+};
 
+async function loadComponentStock(componentPartNumbers: string[], componentLocations: string[]): Promise<ComponentStock> {
   const [onHand, allocated, locations] = await Promise.all([
     componentPartNumbers.length
       ? prisma.inventorylots.groupBy({
@@ -196,43 +284,1145 @@ export async function getBillOfMaterials(options: BomQueryOptions = {}): Promise
     }
   });
 
-  const sortedRows = [...bomRows].sort((a, b) => {
-    const assemblyComparison = normalize(a.Assembly).localeCompare(normalize(b.Assembly));
-    if (assemblyComparison !== 0) {
-      return assemblyComparison;
+  return { onHandMap, allocatedMap, locationMap };
+}
+
+// A line is in effect on a date when it became effective on or before that date and has not
+// yet reached its obsolete date.
+export function buildEffectivityFilter(asOf: Date | undefined): Prisma.bomWhereInput {
+  if (!asOf) {
+    return {};
+  }
+
+  return {
+    AND: [
+      { OR: [{ EffectiveDate: null }, { EffectiveDate: { lte: asOf } }] },
+      { OR: [{ ObsoleteDate: null }, { ObsoleteDate: { gt: asOf } }] },
+    ],
+  };
+}
+
+export type BomSortKey = keyof BomOverviewRow;
+
+type BomQueryOptions = PageRequest & {
+  assembly?: string;
+  asOf?: Date;
+};
+
+const MAX_BOM_PAGE_SIZE = 1000;
+
+const ITEM_SEQUENCE_SORT_SQL = Prisma.sql`CASE WHEN b.ItemSequence REGEXP '^[0-9]+$' THEN CAST(b.ItemSequence AS UNSIGNED) ELSE 0 END`;
+const BOM_AVAILABLE_QUANTITY_SQL = Prisma.sql`GREATEST(COALESCE(il.quantityOnHand, 0) - COALESCE(it.quantityAllocated, 0), 0)`;
+
+// Every expression is NULL-safe so the row-value keyset comparison never drops lines; BOM_PKey
+// is appended as the unique tie-breaker. The default sort mirrors compareBomRows.
+const BOM_SORT_EXPRESSIONS: Record<BomSortKey, Prisma.Sql[]> = {
+  assembly: [Prisma.sql`b.Assembly`, ITEM_SEQUENCE_SORT_SQL, Prisma.sql`b.Component`],
+  assemblyDescription: [Prisma.sql`COALESCE(ap.DescText, '')`],
+  component: [Prisma.sql`b.Component`],
+  componentDescription: [Prisma.sql`COALESCE(cp.DescText, '')`],
+  componentLocation: [Prisma.sql`COALESCE(loc.LocationDescription, cp.LocationCode, '')`],
+  availableQuantity: [BOM_AVAILABLE_QUANTITY_SQL],
+  quantityPer: [Prisma.sql`COALESCE(b.QuantityPer, 0)`],
+  effectiveDate: [Prisma.sql`COALESCE(b.EffectiveDate, TIMESTAMP('1000-01-01'))`],
+  obsoleteDate: [Prisma.sql`COALESCE(b.ObsoleteDate, TIMESTAMP('9999-12-31'))`],
+  notes: [Prisma.sql`COALESCE(b.Notes, '')`],
+};
+
+export const BOM_SORT_KEYS = Object.keys(BOM_SORT_EXPRESSIONS) as BomSortKey[];
+
+function buildEffectivitySql(asOf: Date | undefined): Prisma.Sql | null {
+  if (!asOf) {
+    return null;
+  }
+
+  return Prisma.sql`
+    (b.EffectiveDate IS NULL OR b.EffectiveDate <= ${asOf})
+    AND (b.ObsoleteDate IS NULL OR b.ObsoleteDate > ${asOf})
+  `;
+}
+
+function toBomWhereClause(clauses: Prisma.Sql[]): Prisma.Sql {
+  return clauses.length > 0 ? Prisma.sql`WHERE ${Prisma.join(clauses, ' AND ')}` : Prisma.sql``;
+}
+
+export async function getBillOfMaterials(options: BomQueryOptions = {}): Promise<Page<BomOverviewRow>> {
+  const sanitizedAssembly = typeof options.assembly === 'string' ? options.assembly.trim() : '';
+  const requestedLimit = options.limit;
+  const defaultLimit = sanitizedAssembly.length > 0 ? 200 : 100;
+  const safeLimit =
+    Number.isFinite(requestedLimit) && (requestedLimit as number) > 0
+      ? Math.min(Math.trunc(requestedLimit as number), MAX_BOM_PAGE_SIZE)
+      : defaultLimit;
+  const sort = resolveSortKey(options.sort, BOM_SORT_KEYS, 'assembly');
+  const direction = options.direction === 'desc' ? 'desc' : 'asc';
+  const sortExpressions = [...BOM_SORT_EXPRESSIONS[sort], Prisma.sql`b.BOM_PKey`];
+
+  logger.debug('Fetching bill of materials overview', {
+    limit: safeLimit,
+    assembly: sanitizedAssembly || undefined,
+    asOf: options.asOf?.toISOString(),
+    sort,
+    direction,
+    hasCursor: Boolean(options.cursor),
+  });
+
+  const baseClauses: Prisma.Sql[] = [];
+
+  if (sanitizedAssembly.length > 0) {
+    baseClauses.push(Prisma.sql`b.Assembly = ${sanitizedAssembly}`);
+  }
+
+  const effectivity = buildEffectivitySql(options.asOf);
+  if (effectivity) {
+    baseClauses.push(effectivity);
+  }
+
+  const pageClauses = options.cursor
+    ? [...baseClauses, buildKeysetClause(sortExpressions, decodeCursor(options.cursor, sort, direction), direction)]
+    : baseClauses;
+
+  const sortColumns = sortExpressions.map(
+    (expression, index) => Prisma.sql`${expression} AS ${Prisma.raw(`sortValue${index}`)}`,
+  );
+
+  const [records, totals] = await Promise.all([
+    prisma.$queryRaw<(RawBomRecord & Record<string, unknown>)[]>(Prisma.sql`
+      SELECT
+        ${Prisma.join(sortColumns)},
+        b.Assembly,
+        ap.DescText AS AssemblyDescription,
+        b.Component,
+        cp.DescText AS ComponentDescription,
+        b.ItemSequence,
+        b.QuantityPer,
+        b.EffectiveDate,
+        b.ObsoleteDate,
+        b.Notes,
+        cp.LocationCode AS ComponentLocationCode,
+        loc.LocationDescription AS ComponentLocationDescription,
+        ${BOM_AVAILABLE_QUANTITY_SQL} AS AvailableQuantity
+      FROM bom b
+      LEFT JOIN partmaster ap
+        ON ap.PartNumber = b.Assembly
+      LEFT JOIN partmaster cp
+        ON cp.PartNumber = b.Component
+      LEFT JOIN (
+        SELECT PartNumber, SUM(Quantity) AS quantityOnHand
+        FROM inventorylots
+        GROUP BY PartNumber
+      ) il
+        ON il.PartNumber = b.Component
+      LEFT JOIN (
+        SELECT PartNumber, SUM(InventoryQuantity) AS quantityAllocated
+        FROM inventorytags
+        WHERE InventoryQuantity IS NOT NULL
+        GROUP BY PartNumber
+      ) it
+        ON it.PartNumber = b.Component
+      LEFT JOIN (
+        SELECT LocationCode, MAX(NULLIF(TRIM(DescText), '')) AS LocationDescription
+        FROM stocklocations
+        GROUP BY LocationCode
+      ) loc
+        ON loc.LocationCode = cp.LocationCode
+      ${toBomWhereClause(pageClauses)}
+      ${buildOrderClause(sortExpressions, direction)}
+      LIMIT ${safeLimit + 1}
+    `),
+    prisma.$queryRaw<{ total: bigint | number }[]>(Prisma.sql`
+      SELECT COUNT(*) AS total
+      FROM bom b
+      ${toBomWhereClause(baseClauses)}
+    `),
+  ]);
+
+  const hasMore = records.length > safeLimit;
+  const pageRecords = hasMore ? records.slice(0, safeLimit) : records;
+  const lastRecord = pageRecords[pageRecords.length - 1];
+
+  return {
+    items: pageRecords.map(mapRecord),
+    pageInfo: {
+      total: coerceNumber(totals[0]?.total) ?? 0,
+      limit: safeLimit,
+      nextCursor:
+        hasMore && lastRecord
+          ? encodeCursor(
+              sort,
+              direction,
+              sortExpressions.map((_, index) => lastRecord[`sortValue${index}`]),
+            )
+          : null,
+      sort,
+      direction,
+    },
+  };
+}
+
+type BomExplosionOptions = {
+  maxDepth?: number;
+  asOf?: Date;
+};
+
+export async function explodeBillOfMaterials(
+  assembly: string,
+  options: BomExplosionOptions = {},
+): Promise<BomExplosion | null> {
+  const sanitizedAssembly = normalize(assembly).trim();
+
+  if (!sanitizedAssembly) {
+    return null;
+  }
+
+  const requestedDepth = options.maxDepth;
+  const maxDepth =
+    Number.isFinite(requestedDepth) && (requestedDepth as number) > 0
+      ? Math.min(Math.trunc(requestedDepth as number), MAX_EXPLOSION_DEPTH)
+      : DEFAULT_EXPLOSION_DEPTH;
+
+  const root = await prisma.partmaster.findUnique({
+    where: { PartNumber: sanitizedAssembly },
+    select: { PartNumber: true, DescText: true },
+  });
+
+  if (!root) {
+    return null;
+  }
+
+  logger.debug('Exploding bill of materials', {
+    assembly: root.PartNumber,
+    maxDepth,
+    asOf: options.asOf?.toISOString(),
+  });
+
+  const childrenByAssembly = new Map<string, Awaited<ReturnType<typeof loadBomLevel>>>();
+  let frontier = [root.PartNumber];
+
+  // Walk the structure breadth-first so each level costs a single query regardless of width.
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth += 1) {
+    const pending = frontier.filter((partNumber) => !childrenByAssembly.has(partNumber));
+
+    if (pending.length === 0) {
+      break;
     }
 
-    const seqA = coerceNumber(a.ItemSequence);
-    const seqB = coerceNumber(b.ItemSequence);
+    const levelRows = await loadBomLevel(pending, options.asOf);
+    pending.forEach((partNumber) => childrenByAssembly.set(partNumber, []));
+    levelRows.forEach((row) => childrenByAssembly.get(normalize(row.Assembly).trim())?.push(row));
+
+    frontier = Array.from(
+      new Set(levelRows.map((row) => normalize(row.Component).trim()).filter((component) => component.length > 0)),
+    );
+  }
 
-    if (seqA !== null && seqB !== null && seqA !== seqB) {
-      return seqA - seqB;
+  const unexplored = frontier.filter((partNumber) => !childrenByAssembly.has(partNumber));
+  const unexploredWithChildren = new Set(
+    unexplored.length
+      ? (
+          await prisma.bom.findMany({
+            where: { Assembly: { in: unexplored }, ...buildEffectivityFilter(options.asOf) },
+            select: { Assembly: true },
+            distinct: ['Assembly'],
+          })
+        ).map((entry) => normalize(entry.Assembly).trim())
+      : [],
+  );
+
+  const allRows = Array.from(childrenByAssembly.values()).flat();
+  const componentPartNumbers = Array.from(
+    new Set(allRows.map((row) => normalize(row.Component).trim()).filter((component) => component.length > 0)),
+  );
+  const componentLocations = Array.from(
+    new Set(
+      allRows
+        .map((row) => normalize(row.partmaster_bom_ComponentTopartmaster?.LocationCode).trim())
+        .filter((location) => location.length > 0),
+    ),
+  );
+
+  const { onHandMap, allocatedMap, locationMap } = await loadComponentStock(componentPartNumbers, componentLocations);
+
+  const rows: BomExplosionRow[] = [];
+  let truncated = false;
+
+  const walk = (parent: string, level: number, multiplier: number, ancestors: Set<string>) => {
+    const children = [...(childrenByAssembly.get(parent) ?? [])].sort(compareBomRows);
+
+    children.forEach((record) => {
+      const component = normalize(record.Component).trim();
+      const quantityPer = coerceNumber(record.QuantityPer);
+      const extendedQuantity = multiplier * (quantityPer ?? 0);
+      const isCyclic = ancestors.has(component);
+      const loadedChildren = childrenByAssembly.get(component);
+      const hasChildren = (loadedChildren?.length ?? 0) > 0 || unexploredWithChildren.has(component);
+      const canDescend = !isCyclic && hasChildren && Boolean(loadedChildren) && level < maxDepth;
+      const locationCode = normalize(record.partmaster_bom_ComponentTopartmaster?.LocationCode).trim();
+      const locationDescription = locationCode.length > 0 ? locationMap.get(locationCode) ?? '' : '';
+      const onHandQuantity = onHandMap.get(component) ?? 0;
+      const allocatedQuantity = allocatedMap.get(component) ?? 0;
+      const orderMethod = normalize(record.partmaster_bom_ComponentTopartmaster?.OMC).trim().toUpperCase();
+
+      if (hasChildren && !isCyclic && !canDescend) {
+        truncated = true;
+      }
+
+      rows.push({
+        level,
+        parent,
+        component,
+        componentDescription: normalize(record.partmaster_bom_ComponentTopartmaster?.DescText).trim(),
+        itemSequence: normalize(record.ItemSequence).trim(),
+        quantityPer,
+        extendedQuantity,
+        uom: normalize(record.BOMUOMCode).trim(),
+        componentLocation: locationDescription.length > 0 ? locationDescription : locationCode,
+        availableQuantity: Math.max(onHandQuantity - allocatedQuantity, 0),
+        effectiveDate: coerceDate(record.EffectiveDate),
+        obsoleteDate: coerceDate(record.ObsoleteDate),
+        notes: normalize(record.Notes).trim(),
+        hasChildren,
+        isPhantom: PHANTOM_ORDER_METHOD_CODES.has(orderMethod),
+        isCyclic,
+      });
+
+      if (canDescend) {
+        walk(component, level + 1, extendedQuantity, new Set([...ancestors, component]));
+      }
+    });
+  };
+
+  walk(root.PartNumber, 1, 1, new Set([root.PartNumber]));
+
+  if (rows.some((row) => row.isCyclic)) {
+    logger.warn('Cyclic reference detected while exploding bill of materials', { assembly: root.PartNumber });
+  }
+
+  return {
+    assembly: root.PartNumber,
+    assemblyDescription: normalize(root.DescText).trim(),
+    maxDepth,
+    truncated,
+    rows,
+  };
+}
+
+async function loadBomLevel(assemblies: string[], asOf?: Date) {
+  return prisma.bom.findMany({
+    where: { Assembly: { in: assemblies }, ...buildEffectivityFilter(asOf) },
+    include: {
+      partmaster_bom_ComponentTopartmaster: { select: { DescText: true, LocationCode: true, OMC: true } },
+    },
+  });
+}
+
+async function loadParentUsage(partNumbers: string[], asOf?: Date) {
+  return prisma.partmaster.findMany({
+    where: { PartNumber: { in: partNumbers } },
+    select: {
+      PartNumber: true,
+      bom_bom_ComponentTopartmaster: {
+        where: buildEffectivityFilter(asOf),
+        include: { assembly_partmaster: { select: { DescText: true } } },
+      },
+    },
+  });
+}
+
+export async function getWhereUsed(partNumber: string, options: BomExplosionOptions = {}): Promise<WhereUsed | null> {
+  const sanitizedPart = normalize(partNumber).trim();
+
+  if (!sanitizedPart) {
+    return null;
+  }
+
+  const requestedDepth = options.maxDepth;
+  const maxDepth =
+    Number.isFinite(requestedDepth) && (requestedDepth as number) > 0
+      ? Math.min(Math.trunc(requestedDepth as number), MAX_EXPLOSION_DEPTH)
+      : DEFAULT_EXPLOSION_DEPTH;
+
+  const part = await prisma.partmaster.findUnique({
+    where: { PartNumber: sanitizedPart },
+    select: { PartNumber: true, DescText: true },
+  });
+
+  if (!part) {
+    return null;
+  }
+
+  logger.debug('Resolving where-used for component', {
+    partNumber: part.PartNumber,
+    maxDepth,
+    asOf: options.asOf?.toISOString(),
+  });
+
+  type ParentUsage = Awaited<ReturnType<typeof loadParentUsage>>[number]['bom_bom_ComponentTopartmaster'];
+  const parentsByComponent = new Map<string, ParentUsage>();
+  let frontier = [part.PartNumber];
+
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth += 1) {
+    const pending = frontier.filter((entry) => !parentsByComponent.has(entry));
+
+    if (pending.length === 0) {
+      break;
     }
 
-    return normalize(a.Component).localeCompare(normalize(b.Component));
-  });
-
-  return sortedRows.map((record) => {
-    const component = normalize(record.Component).trim();
-    const onHandQuantity = onHandMap.get(component) ?? 0;
-    const allocatedQuantity = allocatedMap.get(component) ?? 0;
-    const availableQuantity = Math.max(onHandQuantity - allocatedQuantity, 0);
-    const locationCode = normalize(record.partmaster_bom_ComponentTopartmaster?.LocationCode).trim();
-    const locationDescription = locationCode.length > 0 ? locationMap.get(locationCode) ?? '' : '';
-
-    return mapRecord({
-      Assembly: record.Assembly,
-      AssemblyDescription: record.assembly_partmaster?.DescText ?? null,
-      Component: record.Component,
-      ComponentDescription: record.partmaster_bom_ComponentTopartmaster?.DescText ?? null,
-      ItemSequence: record.ItemSequence ?? null,
-      QuantityPer: record.QuantityPer ?? null,
-      EffectiveDate: record.EffectiveDate ?? null,
-      ObsoleteDate: record.ObsoleteDate ?? null,
-      Notes: record.Notes ?? null,
-      ComponentLocationCode: locationCode || null,
-      ComponentLocationDescription: locationDescription || null,
-      AvailableQuantity: availableQuantity,
+    const usage = await loadParentUsage(pending, options.asOf);
+    pending.forEach((entry) => parentsByComponent.set(entry, []));
+    usage.forEach((entry) => parentsByComponent.set(entry.PartNumber, entry.bom_bom_ComponentTopartmaster));
+
+    frontier = Array.from(
+      new Set(
+        usage
+          .flatMap((entry) => entry.bom_bom_ComponentTopartmaster)
+          .map((row) => normalize(row.Assembly).trim())
+          .filter((assembly) => assembly.length > 0),
+      ),
+    );
+  }
+
+  const unexplored = frontier.filter((entry) => !parentsByComponent.has(entry));
+  const unexploredWithParents = new Set(
+    unexplored.length
+      ? (
+          await prisma.bom.findMany({
+            where: { Component: { in: unexplored }, ...buildEffectivityFilter(options.asOf) },
+            select: { Component: true },
+            distinct: ['Component'],
+          })
+        ).map((entry) => normalize(entry.Component).trim())
+      : [],
+  );
+
+  const rows: WhereUsedRow[] = [];
+  const topLevelAssemblies = new Set<string>();
+  let truncated = false;
+
+  const walk = (component: string, level: number, multiplier: number, descendants: Set<string>) => {
+    const parents = [...(parentsByComponent.get(component) ?? [])].sort(compareBomRows);
+
+    parents.forEach((record) => {
+      const assembly = normalize(record.Assembly).trim();
+      const quantityPer = coerceNumber(record.QuantityPer);
+      const extendedQuantity = multiplier * (quantityPer ?? 0);
+      const isCyclic = descendants.has(assembly);
+      const loadedParents = parentsByComponent.get(assembly);
+      const hasParents = (loadedParents?.length ?? 0) > 0 || unexploredWithParents.has(assembly);
+      const canAscend = !isCyclic && hasParents && Boolean(loadedParents) && level < maxDepth;
+
+      if (hasParents && !isCyclic && !canAscend) {
+        truncated = true;
+      }
+
+      if (!hasParents && !isCyclic) {
+        topLevelAssemblies.add(assembly);
+      }
+
+      rows.push({
+        level,
+        component,
+        assembly,
+        assemblyDescription: normalize(record.assembly_partmaster?.DescText).trim(),
+        quantityPer,
+        extendedQuantity,
+        uom: normalize(record.BOMUOMCode).trim(),
+        effectiveDate: coerceDate(record.EffectiveDate),
+        obsoleteDate: coerceDate(record.ObsoleteDate),
+        isTopLevel: !hasParents,
+        isCyclic,
+      });
+
+      if (canAscend) {
+        walk(assembly, level + 1, extendedQuantity, new Set([...descendants, assembly]));
+      }
     });
+  };
+
+  walk(part.PartNumber, 1, 1, new Set([part.PartNumber]));
+
+  return {
+    partNumber: part.PartNumber,
+    description: normalize(part.DescText).trim(),
+    maxDepth,
+    truncated,
+    topLevelAssemblies: Array.from(topLevelAssemblies).sort((a, b) => a.localeCompare(b)),
+    rows,
+  };
+}
+
+const ITEM_SEQUENCE_STEP = 10;
+
+export type BomTransaction = Prisma.TransactionClient;
+
+function mapBomLine(record: {
+  Assembly: string;
+  Component: string;
+  ItemSequence: string | null;
+  QuantityPer: number | null;
+  BOMUOMCode: string | null;
+  EffectiveDate: Date | null;
+  ObsoleteDate: Date | null;
+  Notes: string | null;
+}): BomLine {
+  return {
+    assembly: record.Assembly,
+    component: record.Component,
+    itemSequence: normalize(record.ItemSequence).trim(),
+    quantityPer: coerceNumber(record.QuantityPer),
+    uom: normalize(record.BOMUOMCode).trim(),
+    effectiveDate: coerceDate(record.EffectiveDate),
+    obsoleteDate: coerceDate(record.ObsoleteDate),
+    notes: normalize(record.Notes).trim(),
+  };
+}
+
+function parseOptionalDate(value: string | null | undefined, label: string): Date | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value === null || value.trim().length === 0) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${label} must be a valid date.`);
+  }
+
+  return date;
+}
+
+function windowsOverlap(
+  a: { effective: Date | null; obsolete: Date | null },
+  b: { effective: Date | null; obsolete: Date | null },
+): boolean {
+  const aStart = a.effective?.getTime() ?? Number.NEGATIVE_INFINITY;
+  const aEnd = a.obsolete?.getTime() ?? Number.POSITIVE_INFINITY;
+  const bStart = b.effective?.getTime() ?? Number.NEGATIVE_INFINITY;
+  const bEnd = b.obsolete?.getTime() ?? Number.POSITIVE_INFINITY;
+
+  return aStart < bEnd && bStart < aEnd;
+}
+
+async function assertPartExists(tx: BomTransaction, partNumber: string, label: string): Promise<void> {
+  const part = await tx.partmaster.findUnique({ where: { PartNumber: partNumber }, select: { PartNumber: true } });
+
+  if (!part) {
+    throw new Error(`${label} ${partNumber} does not exist.`);
+  }
+}
+
+export async function assertUomExists(tx: BomTransaction, uom: string | null): Promise<void> {
+  if (!uom) {
+    return;
+  }
+
+  const match = await tx.uomcodes.findUnique({ where: { UOMCode: uom }, select: { UOMCode: true } });
+
+  if (!match) {
+    throw new Error(`Unit of measure ${uom} is not a valid UOM code.`);
+  }
+}
+
+export async function assertNoCircularReference(tx: BomTransaction, assembly: string, component: string): Promise<void> {
+  if (assembly.toLowerCase() === component.toLowerCase()) {
+    throw new Error(`Component ${component} cannot be added to its own bill of materials (circular reference).`);
+  }
+
+  // The new line is circular when the assembly already appears somewhere beneath the component.
+  const visited = new Set<string>([component]);
+  let frontier = [component];
+
+  while (frontier.length > 0) {
+    const children = await tx.bom.findMany({
+      where: { Assembly: { in: frontier } },
+      select: { Component: true },
+    });
+
+    const next: string[] = [];
+
+    for (const child of children) {
+      const childPart = normalize(child.Component).trim();
+
+      if (childPart.toLowerCase() === assembly.toLowerCase()) {
+        throw new Error(
+          `Adding ${component} to ${assembly} would create a circular reference because ${assembly} is used beneath ${component}.`,
+        );
+      }
+
+      if (!visited.has(childPart)) {
+        visited.add(childPart);
+        next.push(childPart);
+      }
+    }
+
+    frontier = next;
+  }
+}
+
+export async function resolveItemSequence(
+  tx: BomTransaction,
+  assembly: string,
+  requestedSequence: string | undefined,
+): Promise<string> {
+  const trimmed = normalize(requestedSequence).trim();
+
+  if (trimmed.length > 0) {
+    if (!/^\d+$/.test(trimmed)) {
+      throw new Error('Item sequence must be a whole number so BOM ordering is preserved.');
+    }
+
+    return trimmed;
+  }
+
+  const siblings = await tx.bom.findMany({ where: { Assembly: assembly }, select: { ItemSequence: true } });
+  const highest = siblings.reduce((max, entry) => {
+    const sequence = coerceNumber(entry.ItemSequence);
+    return sequence !== null && sequence > max ? sequence : max;
+  }, 0);
+
+  return String(Math.trunc(highest) + ITEM_SEQUENCE_STEP);
+}
+
+async function assertNoOverlappingWindow(
+  tx: BomTransaction,
+  line: { assembly: string; component: string; itemSequence: string; effective: Date | null; obsolete: Date | null },
+): Promise<void> {
+  if (line.effective && line.obsolete && line.effective.getTime() >= line.obsolete.getTime()) {
+    throw new Error('Effective date must be before the obsolete date.');
+  }
+
+  // Lines sharing an item sequence are successive revisions of the same position, so their
+  // effectivity windows must not overlap.
+  const siblings = await tx.bom.findMany({
+    where: { Assembly: line.assembly, ItemSequence: line.itemSequence, NOT: { Component: line.component } },
+    select: { Component: true, EffectiveDate: true, ObsoleteDate: true },
+  });
+
+  const conflict = siblings.find((sibling) =>
+    windowsOverlap(line, { effective: sibling.EffectiveDate, obsolete: sibling.ObsoleteDate }),
+  );
+
+  if (conflict) {
+    throw new Error(
+      `Item sequence ${line.itemSequence} on ${line.assembly} overlaps the effectivity window of component ${conflict.Component}.`,
+    );
+  }
+}
+
+function resolveQuantityPer(value: number | undefined, fallback: number | null): number {
+  if (value === undefined) {
+    return fallback ?? 1;
+  }
+
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error('Quantity per must be a number greater than zero.');
+  }
+
+  return value;
+}
+
+// The apply* variants run inside a caller's transaction so other workflows (ECN implementation)
+// can stage several BOM edits and commit them atomically with the same validation.
+export async function applyBomLineCreate(tx: BomTransaction, payload: BomLinePayload): Promise<BomLine> {
+  const assembly = normalize(payload.assembly).trim();
+  const component = normalize(payload.component).trim();
+
+  if (!assembly || !component) {
+    throw new Error('An assembly and component part number are required.');
+  }
+
+  const effective = parseOptionalDate(payload.effectiveDate, 'Effective date') ?? null;
+  const obsolete = parseOptionalDate(payload.obsoleteDate, 'Obsolete date') ?? null;
+  const uom = normalize(payload.uom).trim() || null;
+  const quantityPer = resolveQuantityPer(payload.quantityPer, null);
+
+  await assertPartExists(tx, assembly, 'Assembly');
+  await assertPartExists(tx, component, 'Component');
+  await assertUomExists(tx, uom);
+
+  // bom.Component is unique (uniq_BOM_Component), so a part can sit on only one assembly.
+  const existing = await tx.bom.findUnique({
+    where: { Component: component },
+    select: { Assembly: true },
+  });
+
+  if (existing?.Assembly === assembly) {
+    throw new Error(`Component ${component} already exists on the bill of materials for ${assembly}.`);
+  }
+
+  if (existing) {
+    throw new Error(`Component ${component} is already used on assembly ${existing.Assembly}.`);
+  }
+
+  await assertNoCircularReference(tx, assembly, component);
+
+  const itemSequence = await resolveItemSequence(tx, assembly, payload.itemSequence);
+  await assertNoOverlappingWindow(tx, { assembly, component, itemSequence, effective, obsolete });
+
+  const created = await tx.bom.create({
+    data: {
+      Assembly: assembly,
+      Component: component,
+      ItemSequence: itemSequence,
+      QuantityPer: quantityPer,
+      BOMUOMCode: uom,
+      EffectiveDate: effective,
+      ObsoleteDate: obsolete,
+      Notes: normalize(payload.notes).trim() || null,
+    },
+  });
+
+  return mapBomLine(created);
+}
+
+export async function createBomLine(payload: BomLinePayload): Promise<BomLine> {
+  const created = await prisma.$transaction((tx) => applyBomLineCreate(tx, payload));
+
+  logger.info('Bill of materials line created', { assembly: created.assembly, component: created.component });
+
+  return created;
+}
+
+export async function applyBomLineUpdate(
+  tx: BomTransaction,
+  assembly: string,
+  component: string,
+  payload: Omit<BomLinePayload, 'assembly' | 'component'>,
+): Promise<BomLine> {
+  const sanitizedAssembly = normalize(assembly).trim();
+  const sanitizedComponent = normalize(component).trim();
+
+  if (!sanitizedAssembly || !sanitizedComponent) {
+    throw new Error('An assembly and component part number are required.');
+  }
+
+  const existing = await tx.bom.findUnique({
+    where: { Assembly_Component: { Assembly: sanitizedAssembly, Component: sanitizedComponent } },
+  });
+
+  if (!existing) {
+    throw new Error(`Component ${sanitizedComponent} does not exist on the bill of materials for ${sanitizedAssembly}.`);
+  }
+
+  const requestedUom = payload.uom === undefined ? undefined : normalize(payload.uom).trim() || null;
+  const uom = requestedUom === undefined ? existing.BOMUOMCode : requestedUom;
+  await assertUomExists(tx, requestedUom ?? null);
+
+  const effectiveInput = parseOptionalDate(payload.effectiveDate, 'Effective date');
+  const obsoleteInput = parseOptionalDate(payload.obsoleteDate, 'Obsolete date');
+  const effective = effectiveInput === undefined ? existing.EffectiveDate : effectiveInput;
+  const obsolete = obsoleteInput === undefined ? existing.ObsoleteDate : obsoleteInput;
+  const itemSequence =
+    payload.itemSequence === undefined
+      ? normalize(existing.ItemSequence).trim() || (await resolveItemSequence(tx, sanitizedAssembly, undefined))
+      : await resolveItemSequence(tx, sanitizedAssembly, payload.itemSequence);
+
+  await assertNoOverlappingWindow(tx, {
+    assembly: sanitizedAssembly,
+    component: sanitizedComponent,
+    itemSequence,
+    effective,
+    obsolete,
+  });
+
+  const updated = await tx.bom.update({
+    where: { Assembly_Component: { Assembly: sanitizedAssembly, Component: sanitizedComponent } },
+    data: {
+      ItemSequence: itemSequence,
+      QuantityPer: resolveQuantityPer(payload.quantityPer, existing.QuantityPer),
+      BOMUOMCode: uom,
+      EffectiveDate: effective,
+      ObsoleteDate: obsolete,
+      Notes: payload.notes === undefined ? existing.Notes : normalize(payload.notes).trim() || null,
+    },
+  });
+
+  return mapBomLine(updated);
+}
+
+export async function updateBomLine(
+  assembly: string,
+  component: string,
+  payload: Omit<BomLinePayload, 'assembly' | 'component'>,
+): Promise<BomLine> {
+  const updated = await prisma.$transaction((tx) => applyBomLineUpdate(tx, assembly, component, payload));
+
+  logger.info('Bill of materials line updated', { assembly: updated.assembly, component: updated.component });
+
+  return updated;
+}
+
+export async function applyBomLineDelete(tx: BomTransaction, assembly: string, component: string): Promise<void> {
+  const sanitizedAssembly = normalize(assembly).trim();
+  const sanitizedComponent = normalize(component).trim();
+
+  if (!sanitizedAssembly || !sanitizedComponent) {
+    throw new Error('An assembly and component part number are required.');
+  }
+
+  const existing = await tx.bom.findUnique({
+    where: { Assembly_Component: { Assembly: sanitizedAssembly, Component: sanitizedComponent } },
+    select: { BOM_PKey: true },
+  });
+
+  if (!existing) {
+    throw new Error(`Component ${sanitizedComponent} does not exist on the bill of materials for ${sanitizedAssembly}.`);
+  }
+
+  await tx.refdesignators.deleteMany({ where: { Assembly: sanitizedAssembly, Component: sanitizedComponent } });
+  await tx.bom.delete({
+    where: { Assembly_Component: { Assembly: sanitizedAssembly, Component: sanitizedComponent } },
   });
 }
+
+export async function deleteBomLine(assembly: string, component: string): Promise<void> {
+  await prisma.$transaction((tx) => applyBomLineDelete(tx, assembly, component));
+
+  logger.info('Bill of materials line deleted', { assembly: assembly.trim(), component: component.trim() });
+}
+
+type PendingChangeOptions = {
+  from?: Date;
+  to?: Date;
+  assembly?: string;
+};
+
+async function collectStructureAssemblies(assembly: string): Promise<string[]> {
+  const assemblies = new Set<string>([assembly]);
+  let frontier = [assembly];
+
+  for (let depth = 0; depth < MAX_EXPLOSION_DEPTH && frontier.length > 0; depth += 1) {
+    const children = await prisma.bom.findMany({
+      where: { Assembly: { in: frontier } },
+      select: { Component: true },
+    });
+
+    frontier = [];
+    children.forEach((child) => {
+      const component = normalize(child.Component).trim();
+      if (component.length > 0 && !assemblies.has(component)) {
+        assemblies.add(component);
+        frontier.push(component);
+      }
+    });
+  }
+
+  return Array.from(assemblies);
+}
+
+export async function getPendingBomChanges(options: PendingChangeOptions = {}): Promise<BomPendingChange[]> {
+  const from = options.from ?? new Date();
+  const to = options.to ?? new Date(from.getTime() + DEFAULT_PENDING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  if (from.getTime() > to.getTime()) {
+    throw new Error('The pending change window must start before it ends.');
+  }
+
+  const sanitizedAssembly = normalize(options.assembly).trim();
+  const assemblies = sanitizedAssembly ? await collectStructureAssemblies(sanitizedAssembly) : [];
+
+  logger.debug('Loading pending bill of materials changes', {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    assembly: sanitizedAssembly || undefined,
+    structureSize: assemblies.length || undefined,
+  });
+
+  const records = await prisma.bom.findMany({
+    where: {
+      ...(assemblies.length > 0 ? { Assembly: { in: assemblies } } : {}),
+      OR: [{ EffectiveDate: { gte: from, lte: to } }, { ObsoleteDate: { gte: from, lte: to } }],
+    },
+    include: {
+      assembly_partmaster: { select: { DescText: true } },
+      partmaster_bom_ComponentTopartmaster: { select: { DescText: true } },
+    },
+  });
+
+  const isWithinWindow = (date: Date | null) =>
+    date !== null && date.getTime() >= from.getTime() && date.getTime() <= to.getTime();
+
+  const changes = records.flatMap((record) => {
+    const base = {
+      assembly: normalize(record.Assembly).trim(),
+      assemblyDescription: normalize(record.assembly_partmaster?.DescText).trim(),
+      component: normalize(record.Component).trim(),
+      componentDescription: normalize(record.partmaster_bom_ComponentTopartmaster?.DescText).trim(),
+      itemSequence: normalize(record.ItemSequence).trim(),
+      quantityPer: coerceNumber(record.QuantityPer),
+      effectiveDate: coerceDate(record.EffectiveDate),
+      obsoleteDate: coerceDate(record.ObsoleteDate),
+      notes: normalize(record.Notes).trim(),
+    };
+
+    const entries: BomPendingChange[] = [];
+
+    if (isWithinWindow(record.EffectiveDate)) {
+      entries.push({ ...base, changeType: 'effective', changeDate: base.effectiveDate as string });
+    }
+
+    if (isWithinWindow(record.ObsoleteDate)) {
+      entries.push({ ...base, changeType: 'obsolete', changeDate: base.obsoleteDate as string });
+    }
+
+    return entries;
+  });
+
+  return changes.sort((a, b) => {
+    const dateComparison = a.changeDate.localeCompare(b.changeDate);
+    if (dateComparison !== 0) {
+      return dateComparison;
+    }
+
+    return compareBomRows(
+      { Assembly: a.assembly, Component: a.component, ItemSequence: a.itemSequence },
+      { Assembly: b.assembly, Component: b.component, ItemSequence: b.itemSequence },
+    );
+  });
+}
+
+export type BomComparisonSide = {
+  quantity: number | null;
+  uom: string;
+  referenceDesignators: string[];
+};
+
+export type BomComparisonEntry = {
+  component: string;
+  componentDescription: string;
+  status: 'added' | 'removed' | 'changed';
+  changes: Array<'quantity' | 'uom' | 'referenceDesignators'>;
+  left: BomComparisonSide | null;
+  right: BomComparisonSide | null;
+  designatorsAdded: string[];
+  designatorsRemoved: string[];
+};
+
+export type BomComparison = {
+  left: string;
+  leftDescription: string;
+  right: string;
+  rightDescription: string;
+  allLevels: boolean;
+  truncated: boolean;
+  added: BomComparisonEntry[];
+  removed: BomComparisonEntry[];
+  changed: BomComparisonEntry[];
+  unchangedCount: number;
+};
+
+type BomComparisonOptions = {
+  allLevels?: boolean;
+  maxDepth?: number;
+  asOf?: Date;
+};
+
+type ComparableLine = BomComparisonSide & { description: string };
+
+// Quantities are compared with a small tolerance so float noise from multiplied extended
+// quantities does not show up as a change.
+function quantitiesDiffer(left: number | null, right: number | null): boolean {
+  if (left === null || right === null) {
+    return left !== right;
+  }
+
+  return Math.abs(left - right) > 1e-9;
+}
+
+async function collectComparableLines(
+  root: string,
+  allLevels: boolean,
+  maxDepth: number,
+  asOf?: Date,
+): Promise<{ lines: Map<string, ComparableLine>; truncated: boolean }> {
+  const lines = new Map<string, ComparableLine>();
+  let frontier = new Map<string, number>([[root, 1]]);
+  const visited = new Set<string>([root]);
+  const depthLimit = allLevels ? maxDepth : 1;
+  let truncated = false;
+
+  // Multi-level comparisons flatten the structure into extended quantities per component, so the
+  // same part used under different sub-assemblies collapses into one line.
+  for (let depth = 0; depth < depthLimit && frontier.size > 0; depth += 1) {
+    const records = await prisma.bom.findMany({
+      where: { Assembly: { in: Array.from(frontier.keys()) }, ...buildEffectivityFilter(asOf) },
+      include: {
+        partmaster_bom_ComponentTopartmaster: { select: { DescText: true } },
+        refdesignators: { select: { RefDesignator: true } },
+      },
+    });
+
+    const next = new Map<string, number>();
+
+    records.forEach((record) => {
+      const component = normalize(record.Component).trim();
+
+      if (!component) {
+        return;
+      }
+
+      const multiplier = frontier.get(normalize(record.Assembly).trim()) ?? 1;
+      const quantityPer = coerceNumber(record.QuantityPer);
+      const quantity = quantityPer === null ? null : quantityPer * multiplier;
+      const uom = normalize(record.BOMUOMCode).trim();
+      const designators = record.refdesignators
+        .map((entry) => normalize(entry.RefDesignator).trim().toUpperCase())
+        .filter((designator) => designator.length > 0);
+      const existing = lines.get(component);
+
+      if (existing) {
+        existing.quantity =
+          existing.quantity === null && quantity === null ? null : (existing.quantity ?? 0) + (quantity ?? 0);
+        existing.uom = existing.uom === uom ? uom : [existing.uom, uom].filter(Boolean).join(', ');
+        existing.referenceDesignators.push(...designators);
+      } else {
+        lines.set(component, {
+          quantity,
+          uom,
+          referenceDesignators: designators,
+          description: normalize(record.partmaster_bom_ComponentTopartmaster?.DescText).trim(),
+        });
+      }
+
+      if (allLevels && !visited.has(component)) {
+        next.set(component, (next.get(component) ?? 0) + (quantity ?? 0));
+      }
+    });
+
+    next.forEach((_, component) => visited.add(component));
+    frontier = next;
+  }
+
+  if (allLevels && frontier.size > 0) {
+    const deeper = await prisma.bom.count({
+      where: { Assembly: { in: Array.from(frontier.keys()) }, ...buildEffectivityFilter(asOf) },
+    });
+    truncated = deeper > 0;
+  }
+
+  lines.forEach((line) => {
+    line.referenceDesignators = Array.from(new Set(line.referenceDesignators)).sort((a, b) =>
+      a.localeCompare(b, undefined, { numeric: true }),
+    );
+  });
+
+  return { lines, truncated };
+}
+
+export async function compareBillsOfMaterials(
+  left: string,
+  right: string,
+  options: BomComparisonOptions = {},
+): Promise<BomComparison> {
+  const sanitizedLeft = normalize(left).trim();
+  const sanitizedRight = normalize(right).trim();
+
+  if (!sanitizedLeft || !sanitizedRight) {
+    throw new Error('Both a left and a right assembly are required.');
+  }
+
+  const allLevels = options.allLevels === true;
+  const requestedDepth = options.maxDepth;
+  const maxDepth =
+    Number.isFinite(requestedDepth) && (requestedDepth as number) > 0
+      ? Math.min(Math.trunc(requestedDepth as number), MAX_EXPLOSION_DEPTH)
+      : DEFAULT_EXPLOSION_DEPTH;
+
+  const parts = await prisma.partmaster.findMany({
+    where: { PartNumber: { in: [sanitizedLeft, sanitizedRight] } },
+    select: { PartNumber: true, DescText: true },
+  });
+  const descriptions = new Map(parts.map((part) => [part.PartNumber, normalize(part.DescText).trim()]));
+
+  [sanitizedLeft, sanitizedRight].forEach((partNumber) => {
+    if (!descriptions.has(partNumber)) {
+      throw new Error(`Part ${partNumber} does not exist.`);
+    }
+  });
+
+  logger.debug('Comparing bills of materials', {
+    left: sanitizedLeft,
+    right: sanitizedRight,
+    allLevels,
+    maxDepth: allLevels ? maxDepth : 1,
+    asOf: options.asOf?.toISOString(),
+  });
+
+  const leftStructure = await collectComparableLines(sanitizedLeft, allLevels, maxDepth, options.asOf);
+  const rightStructure = await collectComparableLines(sanitizedRight, allLevels, maxDepth, options.asOf);
+
+  const added: BomComparisonEntry[] = [];
+  const removed: BomComparisonEntry[] = [];
+  const changed: BomComparisonEntry[] = [];
+  let unchangedCount = 0;
+
+  const components = new Set([...leftStructure.lines.keys(), ...rightStructure.lines.keys()]);
+  const toSide = (line: ComparableLine | undefined): BomComparisonSide | null =>
+    line ? { quantity: line.quantity, uom: line.uom, referenceDesignators: line.referenceDesignators } : null;
+
+  Array.from(components)
+    .sort((a, b) => a.localeCompare(b))
+    .forEach((component) => {
+      const leftLine = leftStructure.lines.get(component);
+      const rightLine = rightStructure.lines.get(component);
+      const leftDesignators = new Set(leftLine?.referenceDesignators ?? []);
+      const rightDesignators = new Set(rightLine?.referenceDesignators ?? []);
+      const designatorsAdded = Array.from(rightDesignators).filter((designator) => !leftDesignators.has(designator));
+      const designatorsRemoved = Array.from(leftDesignators).filter((designator) => !rightDesignators.has(designator));
+
+      const entry: BomComparisonEntry = {
+        component,
+        componentDescription: leftLine?.description || rightLine?.description || '',
+        status: 'changed',
+        changes: [],
+        left: toSide(leftLine),
+        right: toSide(rightLine),
+        designatorsAdded,
+        designatorsRemoved,
+      };
+
+      if (!leftLine) {
+        added.push({ ...entry, status: 'added' });
+        return;
+      }
+
+      if (!rightLine) {
+        removed.push({ ...entry, status: 'removed' });
+        return;
+      }
+
+      if (quantitiesDiffer(leftLine.quantity, rightLine.quantity)) {
+        entry.changes.push('quantity');
+      }
+
+      if (leftLine.uom !== rightLine.uom) {
+        entry.changes.push('uom');
+      }
+
+      if (designatorsAdded.length > 0 || designatorsRemoved.length > 0) {
+        entry.changes.push('referenceDesignators');
+      }
+
+      if (entry.changes.length > 0) {
+        changed.push(entry);
+      } else {
+        unchangedCount += 1;
+      }
+    });
+
+  return {
+    left: sanitizedLeft,
+    leftDescription: descriptions.get(sanitizedLeft) ?? '',
+    right: sanitizedRight,
+    rightDescription: descriptions.get(sanitizedRight) ?? '',
+    allLevels,
+    truncated: leftStructure.truncated || rightStructure.truncated,
+    added,
+    removed,
+    changed,
+    unchangedCount,
+  };
+}
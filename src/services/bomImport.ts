@@ -0,0 +1,515 @@
+import { parseCsv, type SheetRow } from '../lib/csv.js';
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { assertNoCircularReference, assertUomExists, resolveItemSequence } from './bom.js';
+
+export type BomImportFormat = 'kicad' | 'altium' | 'generic';
+
+export type BomImportLine = {
+  lineNumber: number;
+  designators: string[];
+  quantity: number | null;
+  quantityPer: number | null;
+  partNumber: string;
+  mpn: string;
+  value: string;
+  footprint: string;
+  description: string;
+  component: string | null;
+  matchedBy: 'partNumber' | 'mpn' | null;
+  status: 'matched' | 'unmatched' | 'error' | 'skipped';
+  action: 'create' | 'update' | null;
+  designatorMismatch: boolean;
+  issues: string[];
+};
+
+export type BomImportSummary = {
+  total: number;
+  matched: number;
+  unmatched: number;
+  errors: number;
+  skipped: number;
+  mismatched: number;
+};
+
+export type BomImportCommit = {
+  created: number;
+  updated: number;
+  removed: number;
+  designators: number;
+};
+
+export type BomImportResult = {
+  assembly: string;
+  format: BomImportFormat;
+  dryRun: boolean;
+  lines: BomImportLine[];
+  summary: BomImportSummary;
+  committed: BomImportCommit | null;
+};
+
+export type BomImportOptions = {
+  assembly: string;
+  csv: string;
+  dryRun?: boolean;
+  uom?: string;
+  replaceExisting?: boolean;
+  skipUnmatched?: boolean;
+};
+
+type ColumnKey = 'designators' | 'quantity' | 'partNumber' | 'mpn' | 'value' | 'footprint' | 'description' | 'dnp';
+
+// Header spellings used by KiCad (bom2csv / Symbol Fields Table) and Altium (Report Manager)
+// exports, compared after stripping case, spaces and punctuation.
+const COLUMN_ALIASES: Record<ColumnKey, string[]> = {
+  designators: ['reference', 'references', 'designator', 'designators', 'refdes', 'ref'],
+  quantity: ['qty', 'quantity', 'count'],
+  partNumber: ['partnumber', 'internalpartnumber', 'mmpartnumber', 'pn', 'partno', 'itemnumber'],
+  mpn: ['mpn', 'manufacturerpartnumber', 'manufacturerpartnumber1', 'mfrpn', 'mfrpartnumber', 'mfgpn', 'manufacturerpart'],
+  value: ['value', 'comment'],
+  footprint: ['footprint', 'package'],
+  description: ['description'],
+  dnp: ['dnp', 'donotpopulate', 'donotplace'],
+};
+
+const MAX_DESIGNATOR_LENGTH = 6;
+const MAX_DESIGNATOR_RANGE = 1000;
+const REF_DESIGNATOR_DESCRIPTION_LENGTH = 20;
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function resolveColumns(header: string[]): Partial<Record<ColumnKey, number>> {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<ColumnKey, number>> = {};
+
+  (Object.keys(COLUMN_ALIASES) as ColumnKey[]).forEach((key) => {
+    const index = normalized.findIndex((entry) => COLUMN_ALIASES[key].includes(entry));
+    if (index >= 0) {
+      columns[key] = index;
+    }
+  });
+
+  return columns;
+}
+
+function detectFormat(header: string[]): BomImportFormat {
+  const normalized = header.map(normalizeHeader);
+
+  if (normalized.includes('reference') || normalized.includes('references')) {
+    return 'kicad';
+  }
+
+  if (normalized.includes('designator') || normalized.includes('comment')) {
+    return 'altium';
+  }
+
+  return 'generic';
+}
+
+function parseQuantity(value: string): number | null {
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return null;
+  }
+
+  const parsed = Number.parseFloat(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isTruthyFlag(value: string): boolean {
+  return ['1', 'y', 'yes', 'true', 'x', 'dnp'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Expands designator lists such as "R1-R4, R7" or "C1 C2;C5-7" into individual designators.
+ * Ranges must share a prefix and ascend; anything else is reported back as invalid.
+ */
+export function expandDesignators(raw: string): { designators: string[]; invalid: string[] } {
+  const tokens = raw
+    .replace(/\s*-\s*/g, '-')
+    .split(/[\s,;]+/)
+    .map((token) => token.trim().toUpperCase())
+    .filter((token) => token.length > 0);
+
+  const designators: string[] = [];
+  const invalid: string[] = [];
+
+  tokens.forEach((token) => {
+    if (!token.includes('-')) {
+      designators.push(token);
+      return;
+    }
+
+    const match = token.match(/^([A-Z_]+)(\d+)-([A-Z_]+)?(\d+)$/);
+
+    if (!match || (match[3] && match[3] !== match[1])) {
+      invalid.push(token);
+      return;
+    }
+
+    const start = Number.parseInt(match[2], 10);
+    const end = Number.parseInt(match[4], 10);
+
+    if (end < start || end - start >= MAX_DESIGNATOR_RANGE) {
+      invalid.push(token);
+      return;
+    }
+
+    for (let index = start; index <= end; index += 1) {
+      designators.push(`${match[1]}${index}`);
+    }
+  });
+
+  return { designators: Array.from(new Set(designators)), invalid };
+}
+
+function readCell(row: string[], index: number | undefined): string {
+  return index === undefined ? '' : (row[index] ?? '').trim();
+}
+
+async function matchComponents(lines: BomImportLine[]): Promise<void> {
+  const partNumbers = Array.from(new Set(lines.map((line) => line.partNumber).filter(Boolean)));
+  const knownParts = new Map(
+    (
+      await prisma.partmaster.findMany({
+        where: { PartNumber: { in: partNumbers } },
+        select: { PartNumber: true },
+      })
+    ).map((part) => [part.PartNumber.toUpperCase(), part.PartNumber]),
+  );
+
+  const mpns = Array.from(new Set(lines.map((line) => line.mpn).filter(Boolean)));
+  const crossReferences = mpns.length
+    ? await prisma.partxreference.findMany({
+        where: { PartXReference: { in: mpns } },
+        select: { PartNumber: true, PartXReference: true },
+      })
+    : [];
+  const partsByMpn = new Map<string, Set<string>>();
+
+  crossReferences.forEach((reference) => {
+    const key = reference.PartXReference.trim().toUpperCase();
+    const entry = partsByMpn.get(key) ?? new Set<string>();
+    entry.add(reference.PartNumber);
+    partsByMpn.set(key, entry);
+  });
+
+  lines.forEach((line) => {
+    if (line.status === 'skipped') {
+      return;
+    }
+
+    const direct = line.partNumber ? knownParts.get(line.partNumber.toUpperCase()) : undefined;
+
+    if (direct) {
+      line.component = direct;
+      line.matchedBy = 'partNumber';
+      return;
+    }
+
+    const candidates = line.mpn ? Array.from(partsByMpn.get(line.mpn.toUpperCase()) ?? []) : [];
+
+    if (candidates.length === 1) {
+      line.component = candidates[0];
+      line.matchedBy = 'mpn';
+      return;
+    }
+
+    if (candidates.length > 1) {
+      line.issues.push(`MPN ${line.mpn} is cross-referenced by several parts: ${candidates.sort().join(', ')}.`);
+    } else if (line.partNumber || line.mpn) {
+      line.issues.push(
+        `No part matches ${[line.partNumber && `part number ${line.partNumber}`, line.mpn && `MPN ${line.mpn}`]
+          .filter(Boolean)
+          .join(' or ')}.`,
+      );
+    } else {
+      line.issues.push('Line has neither a part number nor a manufacturer part number.');
+    }
+
+    if (line.status === 'matched') {
+      line.status = 'unmatched';
+    }
+  });
+}
+
+function parseLines(rows: SheetRow[]): { format: BomImportFormat; lines: BomImportLine[] } {
+  const [headerRow, ...body] = rows;
+  const header = headerRow?.cells;
+
+  if (!header) {
+    throw new Error('The BOM file must include a header row.');
+  }
+
+  const columns = resolveColumns(header);
+
+  if (columns.designators === undefined && columns.quantity === undefined) {
+    throw new Error('The BOM file must include a designator or quantity column.');
+  }
+
+  if (columns.partNumber === undefined && columns.mpn === undefined) {
+    throw new Error('The BOM file must include a part number or manufacturer part number column.');
+  }
+
+  const lines = body.map(({ line: lineNumber, cells: row }): BomImportLine => {
+    const { designators, invalid } = expandDesignators(readCell(row, columns.designators));
+    const quantity = parseQuantity(readCell(row, columns.quantity));
+    const line: BomImportLine = {
+      lineNumber,
+      designators,
+      quantity,
+      quantityPer: quantity ?? (designators.length > 0 ? designators.length : null),
+      partNumber: readCell(row, columns.partNumber),
+      mpn: readCell(row, columns.mpn),
+      value: readCell(row, columns.value),
+      footprint: readCell(row, columns.footprint),
+      description: readCell(row, columns.description),
+      component: null,
+      matchedBy: null,
+      status: 'matched',
+      action: null,
+      designatorMismatch: quantity !== null && designators.length > 0 && designators.length !== quantity,
+      issues: [],
+    };
+
+    if (isTruthyFlag(readCell(row, columns.dnp))) {
+      line.status = 'skipped';
+      line.issues.push('Marked do-not-populate.');
+      return line;
+    }
+
+    if (invalid.length > 0) {
+      line.status = 'error';
+      line.issues.push(`Unrecognised designator range: ${invalid.join(', ')}.`);
+    }
+
+    const oversized = designators.filter((designator) => designator.length > MAX_DESIGNATOR_LENGTH);
+    if (oversized.length > 0) {
+      line.status = 'error';
+      line.issues.push(`Designators longer than ${MAX_DESIGNATOR_LENGTH} characters: ${oversized.join(', ')}.`);
+    }
+
+    if (line.quantityPer === null || line.quantityPer <= 0) {
+      line.status = 'error';
+      line.issues.push('Line has no quantity and no designators.');
+    }
+
+    if (line.designatorMismatch) {
+      line.issues.push(`Quantity ${quantity} does not match ${designators.length} designators.`);
+    }
+
+    return line;
+  });
+
+  return { format: detectFormat(header), lines };
+}
+
+function flagDuplicateDesignators(lines: BomImportLine[]): void {
+  const owners = new Map<string, number>();
+
+  lines
+    .filter((line) => line.status !== 'skipped')
+    .forEach((line) => {
+      line.designators.forEach((designator) => {
+        const owner = owners.get(designator);
+        if (owner !== undefined) {
+          line.status = 'error';
+          line.issues.push(`Designator ${designator} is already used on line ${owner}.`);
+        } else {
+          owners.set(designator, line.lineNumber);
+        }
+      });
+    });
+}
+
+async function checkExistingStructure(assembly: string, lines: BomImportLine[]): Promise<Set<string>> {
+  const matched = lines.filter((line) => line.status === 'matched' && line.component);
+  const components = Array.from(new Set(matched.map((line) => line.component as string)));
+  const usages = await prisma.bom.findMany({
+    where: { Component: { in: components } },
+    select: { Assembly: true, Component: true },
+  });
+  const usageByComponent = new Map(usages.map((usage) => [usage.Component, usage.Assembly]));
+  const existingOnAssembly = new Set(
+    usages.filter((usage) => usage.Assembly === assembly).map((usage) => usage.Component),
+  );
+
+  for (const line of matched) {
+    const component = line.component as string;
+    const usedOn = usageByComponent.get(component);
+
+    if (usedOn && usedOn !== assembly) {
+      line.status = 'error';
+      line.issues.push(`Component ${component} is already used on assembly ${usedOn}.`);
+      continue;
+    }
+
+    try {
+      await assertNoCircularReference(prisma, assembly, component);
+    } catch (error) {
+      line.status = 'error';
+      line.issues.push(error instanceof Error ? error.message : 'Circular reference detected.');
+      continue;
+    }
+
+    line.action = existingOnAssembly.has(component) ? 'update' : 'create';
+  }
+
+  return existingOnAssembly;
+}
+
+function summarize(lines: BomImportLine[]): BomImportSummary {
+  return {
+    total: lines.length,
+    matched: lines.filter((line) => line.status === 'matched').length,
+    unmatched: lines.filter((line) => line.status === 'unmatched').length,
+    errors: lines.filter((line) => line.status === 'error').length,
+    skipped: lines.filter((line) => line.status === 'skipped').length,
+    mismatched: lines.filter((line) => line.designatorMismatch).length,
+  };
+}
+
+export async function importEdaBillOfMaterials(options: BomImportOptions): Promise<BomImportResult> {
+  const assembly = (options.assembly ?? '').trim();
+  const dryRun = options.dryRun !== false;
+
+  if (!assembly) {
+    throw new Error('An assembly part number is required.');
+  }
+
+  if (typeof options.csv !== 'string' || options.csv.trim().length === 0) {
+    throw new Error('BOM file contents are required.');
+  }
+
+  const root = await prisma.partmaster.findUnique({ where: { PartNumber: assembly }, select: { PartNumber: true } });
+
+  if (!root) {
+    throw new Error(`Assembly ${assembly} does not exist.`);
+  }
+
+  const { format, lines } = parseLines(parseCsv(options.csv));
+  flagDuplicateDesignators(lines);
+  await matchComponents(lines);
+
+  // Several EDA lines can resolve to the same internal part (e.g. two MPNs on one AVL), and the
+  // BOM holds one line per component, so those lines are merged before writing.
+  const byComponent = new Map<string, BomImportLine[]>();
+  lines
+    .filter((line) => line.status === 'matched' && line.component)
+    .forEach((line) => {
+      const group = byComponent.get(line.component as string) ?? [];
+      group.push(line);
+      byComponent.set(line.component as string, group);
+    });
+
+  byComponent.forEach((group) => {
+    if (group.length > 1) {
+      group.forEach((line) =>
+        line.issues.push(
+          `Merged with line(s) ${group
+            .filter((other) => other !== line)
+            .map((other) => other.lineNumber)
+            .join(', ')} for component ${line.component}.`,
+        ),
+      );
+    }
+  });
+
+  const existingOnAssembly = await checkExistingStructure(assembly, lines);
+  const summary = summarize(lines);
+
+  logger.debug('Parsed EDA bill of materials', { assembly, format, dryRun, ...summary });
+
+  if (dryRun) {
+    return { assembly, format, dryRun, lines, summary, committed: null };
+  }
+
+  const blocked = summary.unmatched + summary.errors;
+
+  if (blocked > 0 && !options.skipUnmatched) {
+    throw new Error(
+      `${blocked} unmatched or invalid line(s) must be resolved before the BOM import is committed; review the dry-run preview or set skipUnmatched.`,
+    );
+  }
+
+  const uom = (options.uom ?? '').trim() || null;
+  const importable = Array.from(byComponent.entries())
+    .map(([component, group]) => ({
+      component,
+      group: group.filter((line) => line.status === 'matched'),
+    }))
+    .filter((entry) => entry.group.length > 0);
+
+  const committed = await prisma.$transaction(
+    async (tx) => {
+      await assertUomExists(tx, uom);
+
+      const result: BomImportCommit = { created: 0, updated: 0, removed: 0, designators: 0 };
+
+      for (const { component, group } of importable) {
+        const quantityPer = group.reduce((sum, line) => sum + (line.quantityPer ?? 0), 0);
+        const designators = Array.from(new Set(group.flatMap((line) => line.designators)));
+        const value = group[0].value.slice(0, REF_DESIGNATOR_DESCRIPTION_LENGTH) || null;
+
+        if (existingOnAssembly.has(component)) {
+          await tx.bom.update({
+            where: { Assembly_Component: { Assembly: assembly, Component: component } },
+            data: { QuantityPer: quantityPer, ...(uom ? { BOMUOMCode: uom } : {}) },
+          });
+          result.updated += 1;
+        } else {
+          await assertNoCircularReference(tx, assembly, component);
+          await tx.bom.create({
+            data: {
+              Assembly: assembly,
+              Component: component,
+              ItemSequence: await resolveItemSequence(tx, assembly, undefined),
+              QuantityPer: quantityPer,
+              BOMUOMCode: uom,
+            },
+          });
+          result.created += 1;
+        }
+
+        await tx.refdesignators.deleteMany({ where: { Assembly: assembly, Component: component } });
+
+        if (designators.length > 0) {
+          await tx.refdesignators.createMany({
+            data: designators.map((designator) => ({
+              Assembly: assembly,
+              Component: component,
+              RefDesignator: designator,
+              DescText: value,
+            })),
+          });
+          result.designators += designators.length;
+        }
+      }
+
+      if (options.replaceExisting) {
+        const imported = importable.map((entry) => entry.component);
+        const stale = await tx.bom.findMany({
+          where: { Assembly: assembly, Component: { notIn: imported } },
+          select: { Component: true },
+        });
+        const staleComponents = stale.map((entry) => entry.Component);
+
+        if (staleComponents.length > 0) {
+          await tx.refdesignators.deleteMany({ where: { Assembly: assembly, Component: { in: staleComponents } } });
+          const removed = await tx.bom.deleteMany({ where: { Assembly: assembly, Component: { in: staleComponents } } });
+          result.removed = removed.count;
+        }
+      }
+
+      return result;
+    },
+    { timeout: 60_000 },
+  );
+
+  logger.info('EDA bill of materials imported', { assembly, format, ...committed });
+
+  return { assembly, format, dryRun, lines, summary, committed };
+}
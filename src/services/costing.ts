@@ -0,0 +1,509 @@
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { buildEffectivityFilter } from './bom.js';
+
+export type CostBreakdown = {
+  material: number;
+  labor: number;
+  burden: number;
+  setup: number;
+  subcontract: number;
+  total: number;
+};
+
+export type CostRollupComponent = {
+  component: string;
+  quantityPer: number;
+  unitCost: number;
+  extendedCost: number;
+};
+
+export type CostRollupLine = {
+  partNumber: string;
+  description: string;
+  level: number;
+  isManufactured: boolean;
+  isCyclic: boolean;
+  yieldFactor: number;
+  lotSize: number;
+  current: CostBreakdown;
+  // Cost added at this level alone: its own operations and subcontract, plus material when purchased.
+  thisLevel: CostBreakdown;
+  // This level plus every component's rolled cost, each category carried into the same category.
+  rolled: CostBreakdown;
+  components: CostRollupComponent[];
+};
+
+export type CostLevelSummary = CostBreakdown & {
+  level: number;
+};
+
+export type CostRollupMode = 'simulate' | 'commit';
+
+export type CostRollupResult = {
+  mode: CostRollupMode;
+  partNumber: string | null;
+  asOf: string;
+  lines: CostRollupLine[];
+  levels: CostLevelSummary[];
+  committedCount: number;
+};
+
+type CostRollupOptions = {
+  partNumber?: string;
+  mode?: CostRollupMode;
+  asOf?: Date;
+};
+
+type CostedPart = {
+  PartNumber: string;
+  DescText: string | null;
+  YieldFactor: number | null;
+  OrderQuantity: number | null;
+  DefaultPOCost: number | null;
+  STDMaterialCost: number | null;
+  STDLaborCost: number | null;
+  STDBurdenCost: number | null;
+  STDSetUpCost: number | null;
+  STDSubContCost: number | null;
+};
+
+type OperationCost = {
+  labor: number;
+  burden: number;
+  setup: number;
+};
+
+const MAX_ROLLUP_DEPTH = 25;
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function asNumber(value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Number.parseFloat(value);
+    if (!Number.isNaN(parsed)) {
+      return parsed;
+    }
+  }
+
+  return 0;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+function buildBreakdown(values: Omit<CostBreakdown, 'total'>): CostBreakdown {
+  const material = roundCost(values.material);
+  const labor = roundCost(values.labor);
+  const burden = roundCost(values.burden);
+  const setup = roundCost(values.setup);
+  const subcontract = roundCost(values.subcontract);
+
+  return {
+    material,
+    labor,
+    burden,
+    setup,
+    subcontract,
+    total: roundCost(material + labor + burden + setup + subcontract),
+  };
+}
+
+// Yield is stored either as a fraction (0.95) or as a percentage (95); anything unusable means
+// the assembly is built without loss.
+function resolveYield(value: unknown): number {
+  const numeric = asNumber(value);
+
+  if (numeric <= 0) {
+    return 1;
+  }
+
+  const fraction = numeric > 1 ? numeric / 100 : numeric;
+  return fraction > 0 && fraction <= 1 ? fraction : 1;
+}
+
+function resolveLotSize(value: unknown): number {
+  const numeric = asNumber(value);
+  return numeric > 0 ? numeric : 1;
+}
+
+async function loadStructure(rootPartNumber: string | null, asOf: Date) {
+  const effectivity = buildEffectivityFilter(asOf);
+
+  if (!rootPartNumber) {
+    return prisma.bom.findMany({
+      where: effectivity,
+      select: { Assembly: true, Component: true, QuantityPer: true },
+    });
+  }
+
+  const rows: { Assembly: string; Component: string; QuantityPer: number | null }[] = [];
+  const visited = new Set<string>([rootPartNumber]);
+  let frontier = [rootPartNumber];
+
+  for (let depth = 0; depth < MAX_ROLLUP_DEPTH && frontier.length > 0; depth += 1) {
+    const levelRows = await prisma.bom.findMany({
+      where: { Assembly: { in: frontier }, ...effectivity },
+      select: { Assembly: true, Component: true, QuantityPer: true },
+    });
+
+    rows.push(...levelRows);
+    frontier = [];
+
+    levelRows.forEach((row) => {
+      const component = normalize(row.Component);
+      if (component && !visited.has(component)) {
+        visited.add(component);
+        frontier.push(component);
+      }
+    });
+  }
+
+  return rows;
+}
+
+async function loadOperationCosts(partNumbers: string[], lotSizes: Map<string, number>): Promise<Map<string, OperationCost>> {
+  const operations = partNumbers.length
+    ? await prisma.routers.findMany({
+        where: { PartNumber: { in: partNumbers }, OR: [{ IsAlternate: null }, { IsAlternate: false }] },
+        include: { workcenters: { select: { DefaultWageRate: true, Burden: true } } },
+      })
+    : [];
+
+  const costs = new Map<string, OperationCost>();
+
+  operations.forEach((operation) => {
+    const partNumber = normalize(operation.PartNumber);
+    const wageRate = asNumber(operation.workcenters?.DefaultWageRate);
+    const burdenRate = asNumber(operation.workcenters?.Burden);
+    const runTime = asNumber(operation.RunTime);
+    // Set-up is incurred once per lot, so spread it across the standard order quantity.
+    const setUpTime = asNumber(operation.SetUpTime) / (lotSizes.get(partNumber) ?? 1);
+    const current = costs.get(partNumber) ?? { labor: 0, burden: 0, setup: 0 };
+
+    costs.set(partNumber, {
+      labor: current.labor + runTime * wageRate,
+      burden: current.burden + (runTime + setUpTime) * burdenRate,
+      setup: current.setup + setUpTime * wageRate,
+    });
+  });
+
+  return costs;
+}
+
+export async function rollUpStandardCosts(options: CostRollupOptions = {}): Promise<CostRollupResult> {
+  const mode: CostRollupMode = options.mode === 'commit' ? 'commit' : 'simulate';
+  const asOf = options.asOf ?? new Date();
+  const rootPartNumber = normalize(options.partNumber) || null;
+
+  if (rootPartNumber) {
+    const root = await prisma.partmaster.findUnique({
+      where: { PartNumber: rootPartNumber },
+      select: { PartNumber: true },
+    });
+
+    if (!root) {
+      throw new Error(`Part ${rootPartNumber} does not exist.`);
+    }
+  }
+
+  logger.info('Starting standard cost roll-up', { mode, partNumber: rootPartNumber ?? undefined, asOf: asOf.toISOString() });
+
+  const structure = await loadStructure(rootPartNumber, asOf);
+  const childrenByAssembly = new Map<string, { component: string; quantityPer: number }[]>();
+  const partNumbers = new Set<string>(rootPartNumber ? [rootPartNumber] : []);
+
+  structure.forEach((row) => {
+    const assembly = normalize(row.Assembly);
+    const component = normalize(row.Component);
+
+    if (!assembly || !component) {
+      return;
+    }
+
+    partNumbers.add(assembly);
+    partNumbers.add(component);
+    const children = childrenByAssembly.get(assembly) ?? [];
+    children.push({ component, quantityPer: asNumber(row.QuantityPer) });
+    childrenByAssembly.set(assembly, children);
+  });
+
+  const parts: CostedPart[] = partNumbers.size
+    ? await prisma.partmaster.findMany({
+        where: { PartNumber: { in: Array.from(partNumbers) } },
+        select: {
+          PartNumber: true,
+          DescText: true,
+          YieldFactor: true,
+          OrderQuantity: true,
+          DefaultPOCost: true,
+          STDMaterialCost: true,
+          STDLaborCost: true,
+          STDBurdenCost: true,
+          STDSetUpCost: true,
+          STDSubContCost: true,
+        },
+      })
+    : [];
+
+  const partMap = new Map(parts.map((part) => [part.PartNumber, part]));
+  const lotSizes = new Map(parts.map((part) => [part.PartNumber, resolveLotSize(part.OrderQuantity)]));
+  const operationCosts = await loadOperationCosts(Array.from(partNumbers), lotSizes);
+
+  const rolledLines = new Map<string, CostRollupLine>();
+  const inProgress = new Set<string>();
+
+  const rollUp = (partNumber: string): CostRollupLine => {
+    const cached = rolledLines.get(partNumber);
+    if (cached) {
+      return cached;
+    }
+
+    const part = partMap.get(partNumber);
+    const current = buildBreakdown({
+      material: asNumber(part?.STDMaterialCost),
+      labor: asNumber(part?.STDLaborCost),
+      burden: asNumber(part?.STDBurdenCost),
+      setup: asNumber(part?.STDSetUpCost),
+      subcontract: asNumber(part?.STDSubContCost),
+    });
+
+    const children = childrenByAssembly.get(partNumber) ?? [];
+    const yieldFactor = resolveYield(part?.YieldFactor);
+    const operations = operationCosts.get(partNumber);
+    let isCyclic = false;
+
+    inProgress.add(partNumber);
+
+    const lowerLevel = { material: 0, labor: 0, burden: 0, setup: 0, subcontract: 0 };
+
+    const components = children.map((child) => {
+      if (inProgress.has(child.component)) {
+        isCyclic = true;
+        return { component: child.component, quantityPer: child.quantityPer, unitCost: 0, extendedCost: 0 };
+      }
+
+      const childLine = rollUp(child.component);
+      const unitCost = childLine.rolled.total;
+      const quantity = child.quantityPer / yieldFactor;
+
+      lowerLevel.material += childLine.rolled.material * quantity;
+      lowerLevel.labor += childLine.rolled.labor * quantity;
+      lowerLevel.burden += childLine.rolled.burden * quantity;
+      lowerLevel.setup += childLine.rolled.setup * quantity;
+      lowerLevel.subcontract += childLine.rolled.subcontract * quantity;
+
+      return {
+        component: child.component,
+        quantityPer: child.quantityPer,
+        unitCost,
+        extendedCost: roundCost((unitCost * child.quantityPer) / yieldFactor),
+      };
+    });
+
+    inProgress.delete(partNumber);
+
+    const isManufactured = children.length > 0;
+    const purchasedMaterial = part?.STDMaterialCost ?? part?.DefaultPOCost ?? 0;
+
+    // A manufactured part's stored standards include its components' costs once rolled, so reusing
+    // them would count those twice; only its routed operations count as this level's own.
+    const thisLevel = buildBreakdown({
+      material: isManufactured ? 0 : asNumber(purchasedMaterial),
+      labor: operations ? operations.labor : isManufactured ? 0 : current.labor,
+      burden: operations ? operations.burden : isManufactured ? 0 : current.burden,
+      setup: operations ? operations.setup : isManufactured ? 0 : current.setup,
+      subcontract: isManufactured ? 0 : current.subcontract,
+    });
+
+    const rolled = buildBreakdown({
+      material: thisLevel.material + lowerLevel.material,
+      labor: thisLevel.labor + lowerLevel.labor,
+      burden: thisLevel.burden + lowerLevel.burden,
+      setup: thisLevel.setup + lowerLevel.setup,
+      subcontract: thisLevel.subcontract + lowerLevel.subcontract,
+    });
+
+    const line: CostRollupLine = {
+      partNumber,
+      description: normalize(part?.DescText),
+      level: 0,
+      isManufactured,
+      isCyclic,
+      yieldFactor,
+      lotSize: lotSizes.get(partNumber) ?? 1,
+      current,
+      thisLevel,
+      rolled,
+      components,
+    };
+
+    rolledLines.set(partNumber, line);
+    return line;
+  };
+
+  const usedComponents = new Set(structure.map((row) => normalize(row.Component)));
+  const roots = rootPartNumber
+    ? [rootPartNumber]
+    : Array.from(childrenByAssembly.keys()).filter((assembly) => !usedComponents.has(assembly));
+
+  roots.forEach((root) => rollUp(root));
+  // Assemblies only reachable through a cycle have no natural root; roll them up on their own.
+  Array.from(childrenByAssembly.keys()).forEach((assembly) => rollUp(assembly));
+  assignLowLevelCodes(roots, rolledLines, childrenByAssembly);
+
+  const levels = rootPartNumber ? summarizeLevels(rootPartNumber, rolledLines, childrenByAssembly) : [];
+
+  const lines = Array.from(rolledLines.values()).sort((a, b) => {
+    if (a.level !== b.level) {
+      return a.level - b.level;
+    }
+
+    return a.partNumber.localeCompare(b.partNumber);
+  });
+
+  let committedCount = 0;
+
+  if (mode === 'commit') {
+    const revisionDate = new Date();
+    const changedLines = lines.filter(
+      (line) =>
+        partMap.has(line.partNumber) &&
+        (line.current.material !== line.rolled.material ||
+          line.current.labor !== line.rolled.labor ||
+          line.current.burden !== line.rolled.burden ||
+          line.current.setup !== line.rolled.setup ||
+          line.current.subcontract !== line.rolled.subcontract),
+    );
+
+    await prisma.$transaction(
+      changedLines.map((line) =>
+        prisma.partmaster.update({
+          where: { PartNumber: line.partNumber },
+          data: {
+            STDMaterialCost: line.rolled.material,
+            STDLaborCost: line.rolled.labor,
+            STDBurdenCost: line.rolled.burden,
+            STDSetUpCost: line.rolled.setup,
+            STDSubContCost: line.rolled.subcontract,
+            CostRevisionDate: revisionDate,
+          },
+        }),
+      ),
+    );
+
+    committedCount = changedLines.length;
+    logger.info('Standard cost roll-up committed', { partNumber: rootPartNumber ?? undefined, committedCount });
+  }
+
+  return {
+    mode,
+    partNumber: rootPartNumber,
+    asOf: asOf.toISOString(),
+    lines,
+    levels,
+    committedCount,
+  };
+}
+
+// A part's level is the deepest position it occupies in any structure, so shared components
+// are reported beneath every assembly that uses them.
+function assignLowLevelCodes(
+  roots: string[],
+  rolledLines: Map<string, CostRollupLine>,
+  childrenByAssembly: Map<string, { component: string; quantityPer: number }[]>,
+): void {
+  const levels = new Map<string, number>(roots.map((root) => [root, 0]));
+
+  for (let iteration = 0; iteration < MAX_ROLLUP_DEPTH; iteration += 1) {
+    let changed = false;
+
+    childrenByAssembly.forEach((children, assembly) => {
+      const parentLevel = levels.get(assembly);
+
+      if (parentLevel === undefined) {
+        return;
+      }
+
+      children.forEach((child) => {
+        if ((levels.get(child.component) ?? -1) < parentLevel + 1) {
+          levels.set(child.component, parentLevel + 1);
+          changed = true;
+        }
+      });
+    });
+
+    if (!changed) {
+      break;
+    }
+  }
+
+  rolledLines.forEach((line) => {
+    line.level = levels.get(line.partNumber) ?? 0;
+  });
+}
+
+// Spreads the root's rolled cost across BOM levels: each occurrence contributes the cost added
+// at its own level times its extended quantity.
+function summarizeLevels(
+  rootPartNumber: string,
+  rolledLines: Map<string, CostRollupLine>,
+  childrenByAssembly: Map<string, { component: string; quantityPer: number }[]>,
+): CostLevelSummary[] {
+  const totals = new Map<number, Omit<CostBreakdown, 'total'>>();
+
+  const visit = (partNumber: string, level: number, quantity: number, ancestors: Set<string>) => {
+    const line = rolledLines.get(partNumber);
+
+    if (!line) {
+      return;
+    }
+
+    const entry = totals.get(level) ?? { material: 0, labor: 0, burden: 0, setup: 0, subcontract: 0 };
+    entry.material += line.thisLevel.material * quantity;
+    entry.labor += line.thisLevel.labor * quantity;
+    entry.burden += line.thisLevel.burden * quantity;
+    entry.setup += line.thisLevel.setup * quantity;
+    entry.subcontract += line.thisLevel.subcontract * quantity;
+
+    totals.set(level, entry);
+
+    (childrenByAssembly.get(partNumber) ?? []).forEach((child) => {
+      if (ancestors.has(child.component)) {
+        return;
+      }
+
+      visit(
+        child.component,
+        level + 1,
+        (quantity * child.quantityPer) / line.yieldFactor,
+        new Set([...ancestors, child.component]),
+      );
+    });
+  };
+
+  visit(rootPartNumber, 0, 1, new Set([rootPartNumber]));
+
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([level, values]) => ({ level, ...buildBreakdown(values) }));
+}
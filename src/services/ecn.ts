@@ -0,0 +1,946 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { applyBomLineCreate, applyBomLineDelete, applyBomLineUpdate, type BomTransaction } from './bom.js';
+import { applyPartAttributeChanges } from './parts.js';
+
+export type EcnStatus = 'draft' | 'review' | 'approved' | 'implemented';
+
+export type EcnChangeType = 'revision' | 'attribute' | 'bom' | 'document';
+
+export type EcnBomAction = 'add' | 'update' | 'remove';
+
+export type EcnChangeInput =
+  | { partNumber: string; type: 'revision'; revision: string }
+  | { partNumber: string; type: 'attribute'; attributeId: number; value: string }
+  | {
+      partNumber: string;
+      type: 'bom';
+      action: EcnBomAction;
+      component: string;
+      quantityPer?: number;
+      uom?: string;
+      itemSequence?: string;
+      effectiveDate?: string | null;
+      obsoleteDate?: string | null;
+      notes?: string;
+    }
+  | { partNumber: string; type: 'document'; documentId: string };
+
+export type EcnChange = {
+  id: number;
+  partNumber: string;
+  type: EcnChangeType;
+  payload: Record<string, unknown>;
+  appliedAt: string | null;
+};
+
+export type EcnPart = {
+  partNumber: string;
+  changeDescription: string;
+  partDescription: string;
+  currentRevision: string;
+};
+
+export type EcnHistoryEntry = {
+  fromStatus: EcnStatus | null;
+  toStatus: EcnStatus;
+  employeeId: string;
+  comment: string;
+  changedAt: string | null;
+};
+
+export type EcnSummary = {
+  ecnNumber: string;
+  classCode: string;
+  date: string | null;
+  employeeId: string;
+  status: EcnStatus;
+  partCount: number;
+};
+
+export type EcnDetail = Omit<EcnSummary, 'partCount'> & {
+  classDescription: string;
+  notes: string;
+  approvedBy: string;
+  approvedAt: string | null;
+  implementedBy: string;
+  implementedAt: string | null;
+  parts: EcnPart[];
+  changes: EcnChange[];
+  documents: { partNumber: string; documentId: string; revision: string; description: string }[];
+  history: EcnHistoryEntry[];
+};
+
+export type EcnPayload = {
+  ecnNumber?: string;
+  classCode?: string;
+  notes?: string;
+  employeeId?: string;
+  parts?: { partNumber: string; description?: string }[];
+  changes?: EcnChangeInput[];
+};
+
+export type EcnTransition = {
+  status: EcnStatus;
+  employeeId?: string;
+  comment?: string;
+};
+
+const ECN_STATUSES: EcnStatus[] = ['draft', 'review', 'approved', 'implemented'];
+
+// Review can send an ECN back for rework, and an approved ECN can be reopened until it is
+// implemented; implementation is final.
+const ECN_TRANSITIONS: Record<EcnStatus, EcnStatus[]> = {
+  draft: ['review'],
+  review: ['draft', 'approved'],
+  approved: ['draft', 'implemented'],
+  implemented: [],
+};
+
+const ECN_NUMBER_PREFIX = 'ECN';
+const ECN_NUMBER_WIDTH = 7;
+const ECN_NUMBER_KEY = 'ECN';
+const MAX_ECN_NUMBER_SKIPS = 1_000;
+const MAX_REVISION_LENGTH = 4;
+const MAX_PART_CHANGE_DESCRIPTION = 60;
+
+// ASME Y14.35 letters that are never used as drawing revisions.
+const SKIPPED_REVISION_LETTERS = new Set(['I', 'O', 'Q', 'S', 'X', 'Z']);
+
+type EcnTransaction = BomTransaction;
+
+type WorkflowRecord = {
+  status: string | null;
+  created_at: Date | null;
+  updated_at: Date | null;
+  approved_by: string | null;
+  approved_at: Date | null;
+  implemented_by: string | null;
+  implemented_at: Date | null;
+};
+
+type ChangeRecord = {
+  ecn_change_ID: number | bigint;
+  PartNumber: string;
+  change_type: string;
+  payload: unknown;
+  applied_at: Date | null;
+};
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function toIsoString(value: Date | null | undefined): string | null {
+  return value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString() : null;
+}
+
+function toStatus(value: unknown): EcnStatus {
+  const normalized = normalize(value).trim().toLowerCase();
+  // ECNs recorded before the workflow existed have no workflow row and are treated as released.
+  return ECN_STATUSES.find((status) => status === normalized) ?? 'implemented';
+}
+
+function parsePayload(value: unknown): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  return {};
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number.parseFloat(value.trim());
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads staged changes from a request body. Each entry names the affected part and one of the
+ * change types; anything malformed is rejected before it reaches the database.
+ */
+export function readEcnChanges(raw: unknown): EcnChangeInput[] | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(raw)) {
+    throw new Error('ECN changes must be an array.');
+  }
+
+  return raw.map((entry, index) => {
+    const record = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const partNumber = normalize(record['partNumber']).trim();
+    const type = normalize(record['type']).trim().toLowerCase();
+    const label = `ECN change at index ${index}`;
+
+    if (!partNumber) {
+      throw new Error(`${label} must include a partNumber.`);
+    }
+
+    if (type === 'revision') {
+      const revision = normalize(record['revision']).trim();
+
+      if (!revision || revision.length > MAX_REVISION_LENGTH) {
+        throw new Error(`${label} must include a revision of ${MAX_REVISION_LENGTH} characters or fewer.`);
+      }
+
+      return { partNumber, type, revision };
+    }
+
+    if (type === 'attribute') {
+      const attributeId = optionalNumber(record['attributeId']);
+
+      if (typeof attributeId !== 'number' || !Number.isInteger(attributeId)) {
+        throw new Error(`${label} must include a valid attributeId.`);
+      }
+
+      return { partNumber, type, attributeId, value: normalize(record['value']).trim() };
+    }
+
+    if (type === 'bom') {
+      const action = normalize(record['action']).trim().toLowerCase();
+      const component = normalize(record['component']).trim();
+
+      if (action !== 'add' && action !== 'update' && action !== 'remove') {
+        throw new Error(`${label} must use a BOM action of add, update or remove.`);
+      }
+
+      if (!component) {
+        throw new Error(`${label} must include a component part number.`);
+      }
+
+      return {
+        partNumber,
+        type,
+        action,
+        component,
+        quantityPer: optionalNumber(record['quantityPer']),
+        uom: optionalString(record['uom']),
+        itemSequence: optionalString(record['itemSequence']),
+        effectiveDate: record['effectiveDate'] === null ? null : optionalString(record['effectiveDate']),
+        obsoleteDate: record['obsoleteDate'] === null ? null : optionalString(record['obsoleteDate']),
+        notes: optionalString(record['notes']),
+      };
+    }
+
+    if (type === 'document') {
+      const documentId = normalize(record['documentId']).trim();
+
+      if (!documentId) {
+        throw new Error(`${label} must include a documentId.`);
+      }
+
+      return { partNumber, type, documentId };
+    }
+
+    throw new Error(`${label} must have a type of revision, attribute, bom or document.`);
+  });
+}
+
+/**
+ * Increments a revision: numeric revisions keep their width (01 → 02), letter revisions roll over
+ * like column names (Y → AA) and skip the letters ASME reserves, and a blank revision starts at A.
+ */
+export function nextRevision(current: string): string {
+  const revision = current.trim().toUpperCase();
+
+  if (!revision) {
+    return 'A';
+  }
+
+  const numeric = revision.match(/^(.*?)(\d+)$/);
+
+  if (numeric) {
+    const [, prefix, digits] = numeric;
+    return `${prefix}${String(Number.parseInt(digits, 10) + 1).padStart(digits.length, '0')}`;
+  }
+
+  if (!/^[A-Z]+$/.test(revision)) {
+    throw new Error(
+      `Revision ${current} cannot be incremented automatically; stage a revision change with the target revision.`,
+    );
+  }
+
+  const letters = revision.split('');
+  let index = letters.length - 1;
+
+  while (index >= 0) {
+    let code = letters[index].charCodeAt(0) + 1;
+
+    while (code <= 90 && SKIPPED_REVISION_LETTERS.has(String.fromCharCode(code))) {
+      code += 1;
+    }
+
+    if (code <= 90) {
+      letters[index] = String.fromCharCode(code);
+      return letters.join('');
+    }
+
+    letters[index] = 'A';
+    index -= 1;
+  }
+
+  return `A${letters.join('')}`;
+}
+
+async function assertEmployeeExists(employeeId: string | undefined): Promise<string | null> {
+  const trimmed = normalize(employeeId).trim();
+
+  if (!trimmed) {
+    return null;
+  }
+
+  const employee = await prisma.employees.findUnique({ where: { EmployeeID: trimmed }, select: { EmployeeID: true } });
+
+  if (!employee) {
+    throw new Error(`Employee ${trimmed} does not exist.`);
+  }
+
+  return trimmed;
+}
+
+async function assertClassCodeExists(classCode: string | undefined): Promise<string | null> {
+  const trimmed = normalize(classCode).trim();
+
+  if (!trimmed) {
+    return null;
+  }
+
+  const match = await prisma.ecnclasscodes.findUnique({
+    where: { ECNClassCode: trimmed },
+    select: { ECNClassCode: true },
+  });
+
+  if (!match) {
+    throw new Error(`ECN class code ${trimmed} does not exist.`);
+  }
+
+  return trimmed;
+}
+
+function normalizeParts(parts: EcnPayload['parts']): { partNumber: string; description: string }[] {
+  const seen = new Map<string, { partNumber: string; description: string }>();
+
+  (parts ?? []).forEach((entry, index) => {
+    const partNumber = normalize(entry?.partNumber).trim();
+    const description = normalize(entry?.description).trim();
+
+    if (!partNumber) {
+      throw new Error(`ECN part at index ${index} must include a partNumber.`);
+    }
+
+    if (description.length > MAX_PART_CHANGE_DESCRIPTION) {
+      throw new Error(`The change description for ${partNumber} must be ${MAX_PART_CHANGE_DESCRIPTION} characters or fewer.`);
+    }
+
+    seen.set(partNumber.toLowerCase(), { partNumber, description });
+  });
+
+  return Array.from(seen.values());
+}
+
+/**
+ * Checks the listed parts and staged changes, returning each listed part number lower-cased
+ * against its partmaster spelling so both tables can store the canonical form.
+ */
+async function assertStagedChangesValid(
+  parts: { partNumber: string }[],
+  changes: EcnChangeInput[],
+): Promise<Map<string, string>> {
+  const partNumbers = parts.map((part) => part.partNumber);
+  const existing = await prisma.partmaster.findMany({
+    where: { PartNumber: { in: partNumbers } },
+    select: { PartNumber: true },
+  });
+  const known = new Map(existing.map((part) => [part.PartNumber.toLowerCase(), part.PartNumber]));
+  const missing = partNumbers.filter((partNumber) => !known.has(partNumber.toLowerCase()));
+
+  if (missing.length > 0) {
+    throw new Error(`Part ${missing.join(', ')} does not exist.`);
+  }
+
+  for (const change of changes) {
+    if (!known.has(change.partNumber.toLowerCase())) {
+      throw new Error(`Staged changes must target a part listed on the ECN; ${change.partNumber} is not listed.`);
+    }
+
+    if (change.type === 'bom' && change.action === 'add') {
+      const component = await prisma.partmaster.findUnique({
+        where: { PartNumber: change.component },
+        select: { PartNumber: true },
+      });
+
+      if (!component) {
+        throw new Error(`Component ${change.component} does not exist.`);
+      }
+    }
+
+    if (change.type === 'document') {
+      const document = await prisma.partdocuments.findUnique({
+        where: { PartNumber_DocumentID: { PartNumber: change.partNumber, DocumentID: change.documentId } },
+        select: { DocumentID: true },
+      });
+
+      if (!document) {
+        throw new Error(`Document ${change.documentId} does not exist for part ${change.partNumber}.`);
+      }
+    }
+  }
+
+  const revisionTargets = changes.filter((change) => change.type === 'revision').map((change) => change.partNumber.toLowerCase());
+  if (new Set(revisionTargets).size !== revisionTargets.length) {
+    throw new Error('Only one revision change may be staged for each part.');
+  }
+
+  return known;
+}
+
+function withCanonicalPartNumbers<T extends { partNumber: string }>(entries: T[], canonical: Map<string, string>): T[] {
+  return entries.map((entry) => ({ ...entry, partNumber: canonical.get(entry.partNumber.toLowerCase()) ?? entry.partNumber }));
+}
+
+function toChangePayload(change: EcnChangeInput): Record<string, unknown> {
+  const { partNumber: _partNumber, type: _type, ...payload } = change;
+  return payload;
+}
+
+async function replaceStagedContent(
+  tx: EcnTransaction,
+  ecnNumber: string,
+  parts: { partNumber: string; description: string }[] | undefined,
+  changes: EcnChangeInput[] | undefined,
+): Promise<void> {
+  if (parts) {
+    await tx.ecnparts.deleteMany({ where: { ECNNumber: ecnNumber } });
+
+    if (parts.length > 0) {
+      await tx.ecnparts.createMany({
+        data: parts.map((part) => ({
+          ECNNumber: ecnNumber,
+          PartNumber: part.partNumber,
+          DescText: part.description || null,
+        })),
+      });
+    }
+  }
+
+  if (changes) {
+    await tx.$executeRaw`DELETE FROM ecn_change WHERE ECNNumber = ${ecnNumber}`;
+
+    for (const change of changes) {
+      await tx.$executeRaw`
+        INSERT INTO ecn_change (ECNNumber, PartNumber, change_type, payload)
+        VALUES (${ecnNumber}, ${change.partNumber}, ${change.type}, ${JSON.stringify(toChangePayload(change))})
+      `;
+    }
+  }
+}
+
+async function recordHistory(
+  tx: EcnTransaction,
+  ecnNumber: string,
+  fromStatus: EcnStatus | null,
+  toStatus: EcnStatus,
+  employeeId: string | null,
+  comment: string | null,
+): Promise<void> {
+  await tx.$executeRaw`
+    INSERT INTO ecn_status_history (ECNNumber, from_status, to_status, EmployeeID, comment, changed_at)
+    VALUES (${ecnNumber}, ${fromStatus}, ${toStatus}, ${employeeId}, ${comment}, ${new Date()})
+  `;
+}
+
+/**
+ * Reserves the next ECN number from the ECN_NUMBER_KEY row of syskeys, the counter the part
+ * numbering sequences use. Locking that one row queues concurrent creates behind each other
+ * instead of range-locking ecnheader. A new counter starts after the highest existing number,
+ * and numbers already entered by hand are skipped.
+ */
+async function generateEcnNumber(tx: EcnTransaction): Promise<string> {
+  await tx.$executeRaw`INSERT IGNORE INTO syskeys (SYSKEYNAME, SYSKEYMIN) VALUES (${ECN_NUMBER_KEY}, 0)`;
+  const [row] = await tx.$queryRaw<{ SYSKEYMIN: number | null }[]>`
+    SELECT SYSKEYMIN FROM syskeys WHERE SYSKEYNAME = ${ECN_NUMBER_KEY} FOR UPDATE
+  `;
+
+  let sequence = Math.max(0, Math.floor(Number(row?.SYSKEYMIN ?? 0)));
+
+  if (sequence === 0) {
+    const [highest] = await tx.$queryRaw<{ last: bigint | number | null }[]>`
+      SELECT MAX(CAST(SUBSTRING(ECNNumber, ${ECN_NUMBER_PREFIX.length + 1}) AS UNSIGNED)) AS last
+      FROM ecnheader
+      WHERE ECNNumber REGEXP ${`^${ECN_NUMBER_PREFIX}[0-9]+$`}
+    `;
+    sequence = Number(highest?.last ?? 0);
+  }
+
+  for (let attempt = 0; attempt < MAX_ECN_NUMBER_SKIPS; attempt += 1) {
+    sequence += 1;
+    const candidate = `${ECN_NUMBER_PREFIX}${String(sequence).padStart(ECN_NUMBER_WIDTH, '0')}`;
+    const existing = await tx.ecnheader.findUnique({ where: { ECNNumber: candidate }, select: { ECNNumber: true } });
+
+    if (!existing) {
+      await tx.$executeRaw`
+        UPDATE syskeys SET SYSKEYMIN = ${sequence}, LASTFORMAT = ${candidate} WHERE SYSKEYNAME = ${ECN_NUMBER_KEY}
+      `;
+      return candidate;
+    }
+  }
+
+  throw new Error(`Unable to find a free ECN number after ${MAX_ECN_NUMBER_SKIPS} attempts.`);
+}
+
+async function loadWorkflow(tx: EcnTransaction | typeof prisma, ecnNumber: string, lock = false) {
+  const rows = await tx.$queryRaw<WorkflowRecord[]>`
+    SELECT status, created_at, updated_at, approved_by, approved_at, implemented_by, implemented_at
+    FROM ecn_workflow
+    WHERE ECNNumber = ${ecnNumber}
+    ${lock ? Prisma.sql`FOR UPDATE` : Prisma.empty}
+  `;
+
+  return rows[0] ?? null;
+}
+
+export async function listEcnClassCodes(): Promise<{ code: string; description: string }[]> {
+  const codes = await prisma.ecnclasscodes.findMany({ orderBy: { ECNClassCode: 'asc' } });
+
+  return codes.map((entry) => ({ code: entry.ECNClassCode, description: normalize(entry.DescText).trim() }));
+}
+
+export async function listEcns(options: { status?: string; partNumber?: string } = {}): Promise<EcnSummary[]> {
+  const status = normalize(options.status).trim().toLowerCase();
+  const partNumber = normalize(options.partNumber).trim();
+
+  if (status && !ECN_STATUSES.includes(status as EcnStatus)) {
+    throw new Error(`Status must be one of: ${ECN_STATUSES.join(', ')}`);
+  }
+
+  const conditions: Prisma.Sql[] = [];
+
+  if (status) {
+    conditions.push(Prisma.sql`COALESCE(w.status, 'implemented') = ${status}`);
+  }
+
+  if (partNumber) {
+    conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM ecnparts ep2 WHERE ep2.ECNNumber = h.ECNNumber AND ep2.PartNumber = ${partNumber})`);
+  }
+
+  const rows = await prisma.$queryRaw<
+    { ECNNumber: string; ECNClassCode: string | null; ECNDate: Date | null; EmployeeID: string | null; status: string | null; partCount: bigint | number }[]
+  >`
+    SELECT
+      h.ECNNumber,
+      h.ECNClassCode,
+      h.ECNDate,
+      h.EmployeeID,
+      w.status,
+      (SELECT COUNT(*) FROM ecnparts ep WHERE ep.ECNNumber = h.ECNNumber) AS partCount
+    FROM ecnheader h
+    LEFT JOIN ecn_workflow w
+      ON w.ECNNumber = h.ECNNumber
+    ${conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty}
+    ORDER BY h.ECNDate DESC, h.ECNNumber DESC
+  `;
+
+  return rows.map((row) => ({
+    ecnNumber: row.ECNNumber,
+    classCode: normalize(row.ECNClassCode).trim(),
+    date: toIsoString(row.ECNDate),
+    employeeId: normalize(row.EmployeeID).trim(),
+    status: toStatus(row.status),
+    partCount: Number(row.partCount),
+  }));
+}
+
+export async function getEcn(ecnNumber: string): Promise<EcnDetail | null> {
+  const trimmed = ecnNumber.trim();
+
+  if (!trimmed) {
+    return null;
+  }
+
+  const header = await prisma.ecnheader.findUnique({
+    where: { ECNNumber: trimmed },
+    include: {
+      ecnclasscodes: true,
+      ecnparts: { include: { partmaster: { select: { DescText: true, Revision: true } } }, orderBy: { PartNumber: 'asc' } },
+      partdocuments: { orderBy: [{ PartNumber: 'asc' }, { DocumentID: 'asc' }] },
+    },
+  });
+
+  if (!header) {
+    return null;
+  }
+
+  const [workflow, changes, history] = await Promise.all([
+    loadWorkflow(prisma, trimmed),
+    prisma.$queryRaw<ChangeRecord[]>`
+      SELECT ecn_change_ID, PartNumber, change_type, payload, applied_at
+      FROM ecn_change
+      WHERE ECNNumber = ${trimmed}
+      ORDER BY ecn_change_ID ASC
+    `,
+    prisma.$queryRaw<
+      { from_status: string | null; to_status: string; EmployeeID: string | null; comment: string | null; changed_at: Date | null }[]
+    >`
+      SELECT from_status, to_status, EmployeeID, comment, changed_at
+      FROM ecn_status_history
+      WHERE ECNNumber = ${trimmed}
+      ORDER BY changed_at ASC, ecn_status_history_ID ASC
+    `,
+  ]);
+
+  return {
+    ecnNumber: header.ECNNumber,
+    classCode: normalize(header.ECNClassCode).trim(),
+    classDescription: normalize(header.ecnclasscodes?.DescText).trim(),
+    date: toIsoString(header.ECNDate),
+    employeeId: normalize(header.EmployeeID).trim(),
+    notes: normalize(header.Notes),
+    status: toStatus(workflow?.status),
+    approvedBy: normalize(workflow?.approved_by).trim(),
+    approvedAt: toIsoString(workflow?.approved_at),
+    implementedBy: normalize(workflow?.implemented_by).trim(),
+    implementedAt: toIsoString(workflow?.implemented_at),
+    parts: header.ecnparts.map((part) => ({
+      partNumber: part.PartNumber,
+      changeDescription: normalize(part.DescText).trim(),
+      partDescription: normalize(part.partmaster?.DescText).trim(),
+      currentRevision: normalize(part.partmaster?.Revision).trim(),
+    })),
+    changes: changes.map((change) => ({
+      id: Number(change.ecn_change_ID),
+      partNumber: change.PartNumber,
+      type: change.change_type as EcnChangeType,
+      payload: parsePayload(change.payload),
+      appliedAt: toIsoString(change.applied_at),
+    })),
+    documents: header.partdocuments.map((document) => ({
+      partNumber: document.PartNumber,
+      documentId: document.DocumentID,
+      revision: normalize(document.DocumentRevision).trim(),
+      description: normalize(document.DescText).trim(),
+    })),
+    history: history.map((entry) => ({
+      fromStatus: entry.from_status ? toStatus(entry.from_status) : null,
+      toStatus: toStatus(entry.to_status),
+      employeeId: normalize(entry.EmployeeID).trim(),
+      comment: normalize(entry.comment),
+      changedAt: toIsoString(entry.changed_at),
+    })),
+  };
+}
+
+export async function createEcn(payload: EcnPayload): Promise<EcnDetail> {
+  const requestedNumber = normalize(payload.ecnNumber).trim().toUpperCase();
+
+  if (requestedNumber.length > 10) {
+    throw new Error('ECN number must be 10 characters or fewer.');
+  }
+
+  const requestedParts = normalizeParts(payload.parts);
+  const requestedChanges = payload.changes ?? [];
+  const classCode = await assertClassCodeExists(payload.classCode);
+  const employeeId = await assertEmployeeExists(payload.employeeId);
+  const canonical = await assertStagedChangesValid(requestedParts, requestedChanges);
+  const parts = withCanonicalPartNumbers(requestedParts, canonical);
+  const changes = withCanonicalPartNumbers(requestedChanges, canonical);
+
+  const ecnNumber = await prisma.$transaction(async (tx) => {
+    const number = requestedNumber || (await generateEcnNumber(tx));
+    const existing = await tx.ecnheader.findUnique({ where: { ECNNumber: number }, select: { ECNNumber: true } });
+
+    if (existing) {
+      throw new Error(`ECN ${number} already exists.`);
+    }
+
+    const now = new Date();
+
+    await tx.ecnheader.create({
+      data: {
+        ECNNumber: number,
+        ECNClassCode: classCode,
+        ECNDate: now,
+        Notes: normalize(payload.notes).trim() || null,
+        EmployeeID: employeeId,
+      },
+    });
+    await tx.$executeRaw`
+      INSERT INTO ecn_workflow (ECNNumber, status, created_at, updated_at)
+      VALUES (${number}, 'draft', ${now}, ${now})
+    `;
+    await replaceStagedContent(tx, number, parts, changes);
+    await recordHistory(tx, number, null, 'draft', employeeId, null);
+
+    return number;
+  });
+
+  logger.info('Engineering change notice created', { ecnNumber, partCount: parts.length, changeCount: changes.length });
+
+  return (await getEcn(ecnNumber)) as EcnDetail;
+}
+
+export async function updateEcn(ecnNumber: string, payload: EcnPayload): Promise<EcnDetail> {
+  const trimmed = ecnNumber.trim();
+  const current = await getEcn(trimmed);
+
+  if (!current) {
+    throw new Error(`ECN ${trimmed} does not exist.`);
+  }
+
+  if (current.status !== 'draft') {
+    throw new Error(`ECN ${trimmed} is ${current.status}; only draft ECNs can be edited.`);
+  }
+
+  const parts = payload.parts ? normalizeParts(payload.parts) : undefined;
+  const changes = payload.changes;
+  const effectiveParts = parts ?? current.parts.map((part) => ({ partNumber: part.partNumber }));
+  const classCode = payload.classCode === undefined ? undefined : await assertClassCodeExists(payload.classCode);
+
+  const canonical = await assertStagedChangesValid(effectiveParts, changes ?? []);
+
+  if (!changes) {
+    const listed = new Set(effectiveParts.map((part) => part.partNumber.toLowerCase()));
+    const orphaned = current.changes.find((change) => !listed.has(change.partNumber.toLowerCase()));
+
+    if (orphaned) {
+      throw new Error(`Staged changes must target a part listed on the ECN; ${orphaned.partNumber} is not listed.`);
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const workflow = await loadWorkflow(tx, trimmed, true);
+
+    if (toStatus(workflow?.status) !== 'draft') {
+      throw new Error(`ECN ${trimmed} is no longer a draft and cannot be edited.`);
+    }
+
+    await tx.ecnheader.update({
+      where: { ECNNumber: trimmed },
+      data: {
+        ...(classCode === undefined ? {} : { ECNClassCode: classCode }),
+        ...(payload.notes === undefined ? {} : { Notes: normalize(payload.notes).trim() || null }),
+      },
+    });
+    await replaceStagedContent(
+      tx,
+      trimmed,
+      parts && withCanonicalPartNumbers(parts, canonical),
+      changes && withCanonicalPartNumbers(changes, canonical),
+    );
+    await tx.$executeRaw`UPDATE ecn_workflow SET updated_at = ${new Date()} WHERE ECNNumber = ${trimmed}`;
+  });
+
+  logger.info('Engineering change notice updated', { ecnNumber: trimmed });
+
+  return (await getEcn(trimmed)) as EcnDetail;
+}
+
+async function implementEcn(tx: EcnTransaction, ecnNumber: string, implementedAt: Date): Promise<void> {
+  const parts = await tx.ecnparts.findMany({
+    where: { ECNNumber: ecnNumber },
+    include: { partmaster: { select: { Revision: true } } },
+  });
+  const changes = await tx.$queryRaw<ChangeRecord[]>`
+    SELECT ecn_change_ID, PartNumber, change_type, payload, applied_at
+    FROM ecn_change
+    WHERE ECNNumber = ${ecnNumber}
+    ORDER BY ecn_change_ID ASC
+  `;
+
+  const staged = changes.map((change) => ({
+    id: Number(change.ecn_change_ID),
+    partNumber: change.PartNumber,
+    type: change.change_type as EcnChangeType,
+    payload: parsePayload(change.payload),
+  }));
+
+  for (const part of parts) {
+    // ECNs saved before part numbers were stored canonically may differ in case only.
+    const partChanges = staged.filter((change) => change.partNumber.toLowerCase() === part.PartNumber.toLowerCase());
+    const attributeChanges = partChanges
+      .filter((change) => change.type === 'attribute')
+      .map((change) => ({
+        attributeId: Number(change.payload['attributeId']),
+        value: normalize(change.payload['value']).trim(),
+      }));
+
+    if (attributeChanges.length > 0) {
+      await applyPartAttributeChanges(tx, part.PartNumber, attributeChanges);
+    }
+
+    for (const change of partChanges.filter((entry) => entry.type === 'bom')) {
+      const component = normalize(change.payload['component']).trim();
+      const fields = {
+        itemSequence: optionalString(change.payload['itemSequence']),
+        quantityPer: optionalNumber(change.payload['quantityPer']),
+        uom: optionalString(change.payload['uom']),
+        effectiveDate: change.payload['effectiveDate'] === null ? null : optionalString(change.payload['effectiveDate']),
+        obsoleteDate: change.payload['obsoleteDate'] === null ? null : optionalString(change.payload['obsoleteDate']),
+        notes: optionalString(change.payload['notes']),
+      };
+
+      switch (change.payload['action']) {
+        case 'add':
+          await applyBomLineCreate(tx, { assembly: part.PartNumber, component, ...fields });
+          break;
+        case 'update':
+          await applyBomLineUpdate(tx, part.PartNumber, component, fields);
+          break;
+        case 'remove':
+          await applyBomLineDelete(tx, part.PartNumber, component);
+          break;
+        default:
+          throw new Error(`Staged BOM change ${change.id} has an invalid action.`);
+      }
+    }
+
+    for (const change of partChanges.filter((entry) => entry.type === 'document')) {
+      const documentId = normalize(change.payload['documentId']).trim();
+      const linked = await tx.partdocuments.updateMany({
+        where: { PartNumber: part.PartNumber, DocumentID: documentId },
+        data: { ECNNumber: ecnNumber },
+      });
+
+      if (linked.count === 0) {
+        throw new Error(`Document ${documentId} does not exist for part ${part.PartNumber}.`);
+      }
+
+      await tx.partdocuments.updateMany({
+        where: { PartNumber: part.PartNumber, DocumentID: documentId, EffectiveDate: null },
+        data: { EffectiveDate: implementedAt },
+      });
+    }
+
+    const previousRevision = normalize(part.partmaster?.Revision).trim();
+    const stagedRevision = partChanges.find((change) => change.type === 'revision');
+    const revision = stagedRevision
+      ? normalize(stagedRevision.payload['revision']).trim().toUpperCase()
+      : nextRevision(previousRevision);
+
+    if (revision.length > MAX_REVISION_LENGTH) {
+      throw new Error(`The next revision for ${part.PartNumber} must be ${MAX_REVISION_LENGTH} characters or fewer.`);
+    }
+
+    await tx.partmaster.update({ where: { PartNumber: part.PartNumber }, data: { Revision: revision } });
+
+    // The applied revision row records the from/to pair so the ECN alone explains the change.
+    const revisionPayload = JSON.stringify({ revision, previousRevision });
+
+    if (stagedRevision) {
+      await tx.$executeRaw`UPDATE ecn_change SET payload = ${revisionPayload} WHERE ecn_change_ID = ${stagedRevision.id}`;
+    } else {
+      await tx.$executeRaw`
+        INSERT INTO ecn_change (ECNNumber, PartNumber, change_type, payload)
+        VALUES (${ecnNumber}, ${part.PartNumber}, 'revision', ${revisionPayload})
+      `;
+    }
+  }
+
+  await tx.$executeRaw`UPDATE ecn_change SET applied_at = ${implementedAt} WHERE ECNNumber = ${ecnNumber}`;
+}
+
+/**
+ * Moves an ECN through draft → review → approved → implemented. Approval and implementation are
+ * signed by an employee, and implementing applies every staged change and bumps each affected
+ * part's revision in a single transaction.
+ */
+export async function transitionEcn(ecnNumber: string, transition: EcnTransition): Promise<EcnDetail> {
+  const trimmed = ecnNumber.trim();
+  const target = normalize(transition.status).trim().toLowerCase() as EcnStatus;
+
+  if (!ECN_STATUSES.includes(target)) {
+    throw new Error(`Status must be one of: ${ECN_STATUSES.join(', ')}`);
+  }
+
+  const employeeId = await assertEmployeeExists(transition.employeeId);
+
+  if ((target === 'approved' || target === 'implemented') && !employeeId) {
+    throw new Error(`An employeeId is required to mark an ECN ${target}.`);
+  }
+
+  const header = await prisma.ecnheader.findUnique({ where: { ECNNumber: trimmed }, select: { ECNNumber: true } });
+
+  if (!header) {
+    throw new Error(`ECN ${trimmed} does not exist.`);
+  }
+
+  const from = await prisma.$transaction(
+    async (tx) => {
+      const workflow = await loadWorkflow(tx, trimmed, true);
+      const current = toStatus(workflow?.status);
+
+      if (!workflow) {
+        throw new Error(`ECN ${trimmed} predates the ECN workflow and cannot be transitioned.`);
+      }
+
+      if (!ECN_TRANSITIONS[current].includes(target)) {
+        throw new Error(`ECN ${trimmed} cannot move from ${current} to ${target}.`);
+      }
+
+      if (target === 'review') {
+        const partCount = await tx.ecnparts.count({ where: { ECNNumber: trimmed } });
+
+        if (partCount === 0) {
+          throw new Error('An ECN must list at least one affected part before it is submitted for review.');
+        }
+      }
+
+      const now = new Date();
+
+      if (target === 'implemented') {
+        await implementEcn(tx, trimmed, now);
+      }
+
+      await tx.$executeRaw`
+        UPDATE ecn_workflow
+        SET
+          status = ${target},
+          updated_at = ${now},
+          approved_by = ${target === 'approved' ? employeeId : target === 'draft' ? null : workflow.approved_by},
+          approved_at = ${target === 'approved' ? now : target === 'draft' ? null : workflow.approved_at},
+          implemented_by = ${target === 'implemented' ? employeeId : null},
+          implemented_at = ${target === 'implemented' ? now : null}
+        WHERE ECNNumber = ${trimmed}
+      `;
+      await recordHistory(tx, trimmed, current, target, employeeId, normalize(transition.comment).trim() || null);
+
+      return current;
+    },
+    { timeout: 60_000 },
+  );
+
+  logger.info('Engineering change notice transitioned', { ecnNumber: trimmed, from, to: target, employeeId });
+
+  return (await getEcn(trimmed)) as EcnDetail;
+}
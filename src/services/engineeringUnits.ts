@@ -0,0 +1,176 @@
+type UnitInfo = {
+  // Canonical symbol of the SI base unit, or null when the unit is not one we scale (%, ppm, °C).
+  symbol: string | null;
+  // How many base units one attribute unit is worth: 1e-6 for "uF", 1 for "Ohm".
+  scale: number;
+  // Lower-case suffixes that may follow a value typed in this unit.
+  aliases: string[];
+};
+
+const SI_PREFIXES: Record<string, number> = {
+  f: 1e-15,
+  p: 1e-12,
+  n: 1e-9,
+  u: 1e-6,
+  'µ': 1e-6,
+  'μ': 1e-6,
+  m: 1e-3,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  meg: 1e6,
+  G: 1e9,
+  T: 1e12,
+};
+
+const DISPLAY_PREFIXES: [number, string][] = [
+  [1e12, 'T'],
+  [1e9, 'G'],
+  [1e6, 'M'],
+  [1e3, 'k'],
+  [1, ''],
+  [1e-3, 'm'],
+  [1e-6, 'µ'],
+  [1e-9, 'n'],
+  [1e-12, 'p'],
+  [1e-15, 'f'],
+];
+
+// Aliases are lower case; the Greek omega and the ohm sign both lower-case to 'ω'.
+const BASE_UNITS: Record<string, string[]> = {
+  'Ω': ['ω', 'ohms', 'ohm', 'r'],
+  F: ['farads', 'farad', 'f'],
+  H: ['henries', 'henry', 'h'],
+  V: ['volts', 'volt', 'v'],
+  A: ['amperes', 'ampere', 'amps', 'amp', 'a'],
+  W: ['watts', 'watt', 'w'],
+  Hz: ['hertz', 'hz'],
+  s: ['seconds', 'sec', 's'],
+  m: ['meters', 'metres', 'meter', 'metre', 'm'],
+  g: ['grams', 'gram', 'g'],
+};
+
+const NUMBER_PATTERN = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)(.*)$/;
+// Datasheet shorthand that puts the prefix where the decimal point goes: 4k7, 2n2, 4R7.
+const INFIX_PATTERN = /^(\d+)([fpnuµμmkKMGTRr])(\d+)(.*)$/;
+const DISPLAY_PRECISION = 6;
+const CANONICAL_PRECISION = 12;
+
+function findBaseUnit(text: string): string | null {
+  const lower = text.toLowerCase();
+  return Object.keys(BASE_UNITS).find((symbol) => BASE_UNITS[symbol].includes(lower) || symbol === text) ?? null;
+}
+
+function describeUnit(unit: string | null | undefined): UnitInfo {
+  const text = typeof unit === 'string' ? unit.trim() : '';
+
+  if (!text) {
+    return { symbol: null, scale: 1, aliases: [] };
+  }
+
+  const direct = findBaseUnit(text);
+  if (direct) {
+    return { symbol: direct, scale: 1, aliases: BASE_UNITS[direct] };
+  }
+
+  // "uF", "kHz", "mOhm": a prefix followed by a base unit. Anything else ("ppm", "%") is taken
+  // literally so its first letter is not mistaken for a prefix.
+  for (const prefix of Object.keys(SI_PREFIXES).sort((a, b) => b.length - a.length)) {
+    if (text.startsWith(prefix) && text.length > prefix.length) {
+      const base = findBaseUnit(text.slice(prefix.length));
+      if (base) {
+        return { symbol: base, scale: SI_PREFIXES[prefix], aliases: BASE_UNITS[base] };
+      }
+    }
+  }
+
+  return { symbol: null, scale: 1, aliases: [text.toLowerCase()] };
+}
+
+function stripUnitSuffix(suffix: string, aliases: string[]): string {
+  const lower = suffix.toLowerCase();
+  const alias = [...aliases].sort((a, b) => b.length - a.length).find((candidate) => lower.endsWith(candidate));
+  return alias ? suffix.slice(0, suffix.length - alias.length) : suffix;
+}
+
+/**
+ * Parses a value the way it is printed on a datasheet into a number expressed in the
+ * attribute's unit: with unit "Ohm", "4.7k", "4k7" and "4.7 kΩ" all give 4700; with unit "uF",
+ * "100nF" gives 0.1. Bare numbers are already in the attribute's unit. Returns null when the
+ * text is not a number or carries a unit that does not match.
+ */
+export function parseEngineeringValue(input: unknown, unit: string | null | undefined): number | null {
+  if (typeof input === 'number') {
+    return Number.isFinite(input) ? input : null;
+  }
+
+  let text = typeof input === 'string' ? input.replace(/\s+/g, '') : '';
+
+  if (!text) {
+    return null;
+  }
+
+  const infix = text.match(INFIX_PATTERN);
+  if (infix) {
+    const prefix = infix[2] === 'R' || infix[2] === 'r' ? '' : infix[2];
+    text = `${infix[1]}.${infix[3]}${prefix}${infix[4]}`;
+  }
+
+  const match = text.match(NUMBER_PATTERN);
+
+  if (!match) {
+    return null;
+  }
+
+  const number = Number.parseFloat(match[1]);
+  const info = describeUnit(unit);
+  const prefix = stripUnitSuffix(match[2], info.aliases);
+
+  if (!prefix) {
+    // Without a prefix the suffix, if any, must have been the unit itself (e.g. "10 ohm" for a
+    // "kOhm" attribute means 0.01).
+    return match[2] ? number / info.scale : number;
+  }
+
+  const multiplier = SI_PREFIXES[prefix.toLowerCase() === 'meg' ? 'meg' : prefix];
+
+  if (multiplier === undefined) {
+    return null;
+  }
+
+  return (number * multiplier) / info.scale;
+}
+
+/** The stored form of a numeric value: plain digits, with float noise from scaling removed. */
+export function formatCanonicalNumber(value: number): string {
+  return String(Number(value.toPrecision(CANONICAL_PRECISION)));
+}
+
+/**
+ * Renders a stored value for people: "4700" with unit "Ohm" becomes "4.7 kΩ" and "0.1" with
+ * unit "uF" becomes "100 nF". Units outside the SI set are appended unchanged.
+ */
+export function formatEngineeringValue(value: number, unit: string | null | undefined): string {
+  const info = describeUnit(unit);
+  const text = typeof unit === 'string' ? unit.trim() : '';
+
+  if (!info.symbol) {
+    const plain = String(Number(value.toPrecision(DISPLAY_PRECISION)));
+    return text ? `${plain} ${text}` : plain;
+  }
+
+  const base = value * info.scale;
+  const magnitude = Math.abs(base);
+  const [divisor, prefix] =
+    magnitude === 0
+      ? [1, '']
+      : DISPLAY_PREFIXES.find(([candidate]) => magnitude >= candidate * (1 - 1e-9)) ?? DISPLAY_PREFIXES[DISPLAY_PREFIXES.length - 1];
+
+  return `${Number((base / divisor).toPrecision(DISPLAY_PRECISION))} ${prefix}${info.symbol}`;
+}
+
+/** formatEngineeringValue for a stored string; values that do not parse are returned as-is. */
+export function formatAttributeDisplay(value: string, unit: string | null | undefined): string {
+  const parsed = parseEngineeringValue(value, unit);
+  return parsed === null ? value : formatEngineeringValue(parsed, unit);
+}
@@ -1,3 +1,5 @@
+import { Prisma } from '@prisma/client';
+
 import { logger } from '../lib/logger.js';
 import { prisma } from '../lib/prisma.js';
 
@@ -9,6 +11,59 @@ export type InventorySnapshot = {
   lastReceiptDate: string | null;
 };
 
+export type InventoryGrouping = 'stockroom' | 'job';
+
+export const INVENTORY_GROUPINGS: InventoryGrouping[] = ['stockroom', 'job'];
+
+export type InventoryTagAllocation = {
+  tagNumber: string;
+  quantity: number;
+  countQuantity: number | null;
+  closed: boolean;
+};
+
+export type OnHandLot = {
+  departmentCode: string;
+  departmentDescription: string;
+  locationCode: string;
+  locationDescription: string;
+  lotNumber: string;
+  jobNumber: string;
+  receivedDate: string | null;
+  quantity: number;
+  materialCost: number | null;
+};
+
+export type InventoryLotRow = OnHandLot & {
+  extendedCost: number | null;
+  allocatedQuantity: number;
+  availableQuantity: number;
+  tags: InventoryTagAllocation[];
+};
+
+export type InventoryGroup = {
+  key: string;
+  label: string;
+  quantity: number;
+  allocatedQuantity: number;
+  availableQuantity: number;
+  lotCount: number;
+  rows: InventoryLotRow[];
+};
+
+export type PartInventory = {
+  partNumber: string;
+  description: string;
+  stockUom: string;
+  quantityOnHand: number;
+  quantityAllocated: number;
+  quantityAvailable: number;
+  lotCount: number;
+  rows: InventoryLotRow[];
+  groupBy: InventoryGrouping | null;
+  groups: InventoryGroup[] | null;
+};
+
 type AggregateRow = {
   totalQuantity: unknown;
   lotCount: unknown;
@@ -89,3 +144,191 @@ export async function getInventorySnapshot(): Promise<InventorySnapshot> {
 
   return snapshot;
 }
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+// Tags point at a lot by the same five fields that key inventorylots.
+function buildLotKey(values: unknown[]): string {
+  return values.map(normalize).join('\u0000');
+}
+
+export function parseInventoryGrouping(value: unknown): InventoryGrouping | null {
+  const normalized = normalize(value).toLowerCase();
+
+  if (!normalized || normalized === 'none') {
+    return null;
+  }
+
+  const match = INVENTORY_GROUPINGS.find((grouping) => grouping === normalized);
+
+  if (!match) {
+    throw new Error(`groupBy must be one of ${INVENTORY_GROUPINGS.join(', ')}.`);
+  }
+
+  return match;
+}
+
+function groupLots(rows: InventoryLotRow[], grouping: InventoryGrouping): InventoryGroup[] {
+  const groups = new Map<string, InventoryGroup>();
+
+  rows.forEach((row) => {
+    const key = grouping === 'stockroom' ? row.departmentCode : row.jobNumber;
+    const label =
+      grouping === 'stockroom'
+        ? [row.departmentCode, row.departmentDescription].filter(Boolean).join(' - ')
+        : row.jobNumber || 'No job';
+    const group = groups.get(key) ?? {
+      key,
+      label,
+      quantity: 0,
+      allocatedQuantity: 0,
+      availableQuantity: 0,
+      lotCount: 0,
+      rows: [],
+    };
+
+    group.quantity += row.quantity;
+    group.allocatedQuantity += row.allocatedQuantity;
+    group.availableQuantity += row.availableQuantity;
+    group.lotCount += 1;
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** Every non-zero lot of a part with its stockroom and bin descriptions, in stockroom and bin order. */
+export async function loadOnHandLots(partNumber: string): Promise<OnHandLot[]> {
+  const rows = await prisma.$queryRaw<
+    {
+      DepartmentCode: string;
+      DepartmentDescription: string | null;
+      LocationCode: string;
+      LocationDescription: string | null;
+      SNLotNumber: string;
+      JobNumber: string;
+      DateReceived: Date | null;
+      Quantity: number | null;
+      MaterialCost: number | null;
+    }[]
+  >(Prisma.sql`
+    SELECT
+      il.DepartmentCode,
+      dc.DescText AS DepartmentDescription,
+      il.LocationCode,
+      sl.DescText AS LocationDescription,
+      il.SNLotNumber,
+      il.JobNumber,
+      il.DateReceived,
+      il.Quantity,
+      il.MaterialCost
+    FROM inventorylots il
+    LEFT JOIN departmentcodes dc ON dc.DepartmentCode = il.DepartmentCode
+    LEFT JOIN stocklocations sl ON sl.DepartmentCode = il.DepartmentCode AND sl.LocationCode = il.LocationCode
+    WHERE il.PartNumber = ${partNumber} AND COALESCE(il.Quantity, 0) <> 0
+    ORDER BY il.DepartmentCode, il.LocationCode, il.DateReceived, il.SNLotNumber
+  `);
+
+  return rows.map((row) => ({
+    departmentCode: normalize(row.DepartmentCode),
+    departmentDescription: normalize(row.DepartmentDescription),
+    locationCode: normalize(row.LocationCode),
+    locationDescription: normalize(row.LocationDescription),
+    lotNumber: normalize(row.SNLotNumber),
+    jobNumber: normalize(row.JobNumber),
+    receivedDate: asDateString(row.DateReceived),
+    quantity: asNumber(row.Quantity),
+    materialCost: row.MaterialCost === null ? null : asNumber(row.MaterialCost),
+  }));
+}
+
+/**
+ * Lists every stocked lot of a part with the bin it sits in, oldest receipt first within each
+ * bin so pickers can issue FIFO. Counting tags written against a lot count as allocated, the same
+ * way the company-wide snapshot treats them. Returns null when the part does not exist.
+ */
+export async function getPartInventory(
+  partNumber: string,
+  options: { groupBy?: InventoryGrouping | null } = {},
+): Promise<PartInventory | null> {
+  const trimmed = normalize(partNumber);
+
+  if (!trimmed) {
+    return null;
+  }
+
+  const part = await prisma.partmaster.findUnique({
+    where: { PartNumber: trimmed },
+    select: { PartNumber: true, DescText: true, StockUOM: true },
+  });
+
+  if (!part) {
+    return null;
+  }
+
+  const [lots, tags] = await Promise.all([
+    loadOnHandLots(part.PartNumber),
+    prisma.inventorytags.findMany({
+      where: { PartNumber: part.PartNumber, InventoryQuantity: { not: null } },
+      orderBy: { TagNumber: 'asc' },
+    }),
+  ]);
+
+  const tagsByLot = new Map<string, InventoryTagAllocation[]>();
+
+  tags.forEach((tag) => {
+    const key = buildLotKey([tag.PartNumber, tag.DepartmentCode, tag.LocationCode, tag.SNLotNumber, tag.JobNumber]);
+    const allocations = tagsByLot.get(key) ?? [];
+    allocations.push({
+      tagNumber: tag.TagNumber,
+      quantity: asNumber(tag.InventoryQuantity),
+      countQuantity: tag.CountQuantity === null ? null : asNumber(tag.CountQuantity),
+      closed: Boolean(tag.ClosedFlag),
+    });
+    tagsByLot.set(key, allocations);
+  });
+
+  const rows: InventoryLotRow[] = lots.map((lot) => {
+    const lotTags =
+      tagsByLot.get(buildLotKey([part.PartNumber, lot.departmentCode, lot.locationCode, lot.lotNumber, lot.jobNumber])) ?? [];
+    const allocatedQuantity = lotTags.reduce((sum, tag) => sum + tag.quantity, 0);
+
+    return {
+      ...lot,
+      extendedCost: lot.materialCost === null ? null : lot.materialCost * lot.quantity,
+      allocatedQuantity,
+      availableQuantity: Math.max(0, lot.quantity - allocatedQuantity),
+      tags: lotTags,
+    };
+  });
+
+  const groupBy = options.groupBy ?? null;
+  const quantityOnHand = rows.reduce((sum, row) => sum + row.quantity, 0);
+  const quantityAllocated = rows.reduce((sum, row) => sum + row.allocatedQuantity, 0);
+
+  logger.debug('Part inventory prepared', { partNumber: part.PartNumber, lotCount: rows.length, groupBy });
+
+  return {
+    partNumber: part.PartNumber,
+    description: normalize(part.DescText),
+    stockUom: normalize(part.StockUOM),
+    quantityOnHand,
+    quantityAllocated,
+    quantityAvailable: rows.reduce((sum, row) => sum + row.availableQuantity, 0),
+    lotCount: rows.length,
+    rows,
+    groupBy,
+    groups: groupBy ? groupLots(rows, groupBy) : null,
+  };
+}
@@ -0,0 +1,564 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { encodeCode128, type Code128Symbol } from '../lib/code128.js';
+import { encodeDataMatrix } from '../lib/datamatrix.js';
+import { logger } from '../lib/logger.js';
+import { formatPdf, measurePdfText, type PdfPage, type PdfShape } from '../lib/pdf.js';
+import { prisma } from '../lib/prisma.js';
+
+export type LabelFormat = 'zpl' | 'pdf';
+
+export type LabelSymbology = 'code128' | 'datamatrix';
+
+export type LabelRequest =
+  | { kind: 'part'; partNumber: string; copies?: number }
+  | { kind: 'lot'; partNumber: string; lotNumber: string; quantity?: number; copies?: number }
+  | { kind: 'location'; departmentCode: string; locationCode?: string; copies?: number };
+
+export type LabelSheet = {
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  top: number;
+  left: number;
+  columnPitch: number;
+  rowPitch: number;
+};
+
+/** Label stock, measured in inches. Thermal rolls have no sheet and print one label per page. */
+export type LabelTemplate = {
+  id: string;
+  description: string;
+  width: number;
+  height: number;
+  sheet: LabelSheet | null;
+};
+
+export type LabelRenderOptions = {
+  format?: LabelFormat;
+  template?: string;
+  symbology?: LabelSymbology;
+};
+
+export type LabelFile = {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+  template: string;
+  labelCount: number;
+};
+
+export type SavedLabelFile = Omit<LabelFile, 'body'> & {
+  path: string;
+};
+
+type LabelContent = {
+  barcode: string;
+  title: string;
+  lines: string[];
+  copies: number;
+};
+
+// Positions in inches from the label's top-left corner; text y is the top of the line.
+type LabelElement =
+  | { type: 'text'; x: number; y: number; size: number; text: string; bold: boolean }
+  | { type: 'code128'; x: number; y: number; moduleWidth: number; height: number; symbol: Code128Symbol; data: string }
+  | { type: 'datamatrix'; x: number; y: number; moduleWidth: number; matrix: boolean[][]; data: string };
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  { id: 'thermal-2x1', description: '2" x 1" thermal roll', width: 2, height: 1, sheet: null },
+  { id: 'thermal-3x2', description: '3" x 2" thermal roll', width: 3, height: 2, sheet: null },
+  { id: 'thermal-4x2', description: '4" x 2" thermal roll', width: 4, height: 2, sheet: null },
+  {
+    id: 'avery-5160',
+    description: 'Avery 5160 address labels, 2-5/8" x 1", 30 per letter sheet',
+    width: 2.625,
+    height: 1,
+    sheet: { pageWidth: 8.5, pageHeight: 11, columns: 3, rows: 10, top: 0.5, left: 0.1875, columnPitch: 2.75, rowPitch: 1 },
+  },
+  {
+    id: 'avery-5163',
+    description: 'Avery 5163 shipping labels, 4" x 2", 10 per letter sheet',
+    width: 4,
+    height: 2,
+    sheet: { pageWidth: 8.5, pageHeight: 11, columns: 2, rows: 5, top: 0.5, left: 0.15625, columnPitch: 4.1875, rowPitch: 2 },
+  },
+];
+
+export const LABEL_CONTENT_TYPES: Record<LabelFormat, string> = {
+  zpl: 'application/zpl; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+// Scanned values are the label's key fields joined with this separator.
+export const LABEL_FIELD_SEPARATOR = ';';
+
+const DEFAULT_TEMPLATE = 'thermal-2x1';
+const DEFAULT_DPI = 203;
+const DEFAULT_OUTPUT_DIR = path.resolve('storage', 'labels');
+const MAX_LABELS = 1000;
+const MAX_COPIES = 500;
+const MARGIN = 0.08;
+const POINTS_PER_INCH = 72;
+// Widest bar module worth printing; anything wider only makes short codes sprawl across the label.
+const MAX_CODE128_MODULE = 0.02;
+const MAX_DATAMATRIX_MODULE = 0.04;
+// ZPL scanners need bars at least this many dots wide, DataMatrix cells at least this many dots.
+const MIN_CODE128_DOTS = 1;
+const MIN_DATAMATRIX_DOTS = 2;
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function formatQuantity(value: number): string {
+  return String(Number(value.toPrecision(10)));
+}
+
+function resolveCopies(value: unknown): number {
+  if (value === undefined || value === null) {
+    return 1;
+  }
+
+  const copies = Number(value);
+
+  if (!Number.isInteger(copies) || copies < 1 || copies > MAX_COPIES) {
+    throw new Error(`Label copies must be a whole number from 1 to ${MAX_COPIES}.`);
+  }
+
+  return copies;
+}
+
+export function listLabelTemplates(): LabelTemplate[] {
+  return LABEL_TEMPLATES;
+}
+
+function resolveTemplate(id: string | undefined): LabelTemplate {
+  const requested = normalize(id) || DEFAULT_TEMPLATE;
+  const template = LABEL_TEMPLATES.find((entry) => entry.id === requested);
+
+  if (!template) {
+    throw new Error(`Label template ${requested} is invalid; expected ${LABEL_TEMPLATES.map((entry) => entry.id).join(', ')}.`);
+  }
+
+  return template;
+}
+
+/** Dots per inch of the Zebra printers, LABEL_PRINTER_DPI (default 203). */
+function resolvePrinterDpi(): number {
+  const configured = Number.parseInt(normalize(process.env.LABEL_PRINTER_DPI), 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_DPI;
+}
+
+/** Saved print files go to LABEL_OUTPUT_DIR (default ./storage/labels). */
+export function resolveLabelOutputDir(): string {
+  const configured = normalize(process.env.LABEL_OUTPUT_DIR);
+  return configured ? path.resolve(configured) : DEFAULT_OUTPUT_DIR;
+}
+
+async function loadPartLabel(request: Extract<LabelRequest, { kind: 'part' }>): Promise<LabelContent[]> {
+  const partNumber = normalize(request.partNumber);
+
+  if (!partNumber) {
+    throw new Error('A part number is required for a part label.');
+  }
+
+  const part = await prisma.partmaster.findUnique({
+    where: { PartNumber: partNumber },
+    select: { PartNumber: true, Revision: true, DescText: true },
+  });
+
+  if (!part) {
+    throw new Error(`Part ${partNumber} does not exist.`);
+  }
+
+  const revision = normalize(part.Revision);
+
+  return [
+    {
+      barcode: [part.PartNumber, revision].filter(Boolean).join(LABEL_FIELD_SEPARATOR),
+      title: part.PartNumber,
+      lines: [revision ? `Rev ${revision}` : '', normalize(part.DescText)].filter(Boolean),
+      copies: resolveCopies(request.copies),
+    },
+  ];
+}
+
+async function loadLotLabel(request: Extract<LabelRequest, { kind: 'lot' }>): Promise<LabelContent[]> {
+  const partNumber = normalize(request.partNumber);
+  const lotNumber = normalize(request.lotNumber);
+
+  if (!partNumber || !lotNumber) {
+    throw new Error('A part number and lot/serial number are required for a lot label.');
+  }
+
+  const lot = await prisma.inventorylots.findFirst({
+    where: { PartNumber: partNumber, SNLotNumber: lotNumber },
+    include: { partmaster: { select: { Revision: true, DescText: true, StockUOM: true } } },
+  });
+
+  if (!lot) {
+    throw new Error(`Lot ${lotNumber} of part ${partNumber} does not exist.`);
+  }
+
+  // A quantity on the request labels part of a lot, e.g. when receiving splits it across bins.
+  const quantity = request.quantity ?? lot.Quantity ?? 0;
+
+  if (!Number.isFinite(quantity) || quantity < 0) {
+    throw new Error('Label quantity must be zero or more.');
+  }
+
+  const uom = normalize(lot.partmaster.StockUOM);
+  const received = lot.DateReceived ? lot.DateReceived.toISOString().slice(0, 10) : '';
+
+  return [
+    {
+      barcode: [lot.PartNumber, lot.SNLotNumber, formatQuantity(quantity)].join(LABEL_FIELD_SEPARATOR),
+      title: lot.PartNumber,
+      lines: [
+        `Lot/SN ${lot.SNLotNumber}`,
+        `Qty ${formatQuantity(quantity)}${uom ? ` ${uom}` : ''}`,
+        [normalize(lot.DepartmentCode), normalize(lot.LocationCode), received ? `rcvd ${received}` : ''].filter(Boolean).join(' '),
+        normalize(lot.partmaster.DescText),
+      ].filter(Boolean),
+      copies: resolveCopies(request.copies),
+    },
+  ];
+}
+
+/** Without a location code every bin in the department is labelled, in bin order. */
+async function loadLocationLabels(request: Extract<LabelRequest, { kind: 'location' }>): Promise<LabelContent[]> {
+  const departmentCode = normalize(request.departmentCode);
+  const locationCode = normalize(request.locationCode);
+
+  if (!departmentCode) {
+    throw new Error('A department code is required for a location label.');
+  }
+
+  const locations = await prisma.stocklocations.findMany({
+    where: { DepartmentCode: departmentCode, ...(locationCode ? { LocationCode: locationCode } : {}) },
+    include: { departmentcodes: { select: { DescText: true } } },
+    orderBy: { LocationCode: 'asc' },
+  });
+
+  if (locations.length === 0) {
+    throw new Error(`Stock location ${[departmentCode, locationCode].filter(Boolean).join(' ')} does not exist.`);
+  }
+
+  const copies = resolveCopies(request.copies);
+
+  return locations.map((location) => ({
+    barcode: [location.DepartmentCode, location.LocationCode].join(LABEL_FIELD_SEPARATOR),
+    title: location.LocationCode,
+    lines: [
+      normalize(location.DescText),
+      `${location.DepartmentCode}${location.departmentcodes.DescText ? ` ${normalize(location.departmentcodes.DescText)}` : ''}`,
+    ].filter(Boolean),
+    copies,
+  }));
+}
+
+async function loadLabelContent(requests: LabelRequest[]): Promise<LabelContent[]> {
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new Error('At least one label is required.');
+  }
+
+  const contents: LabelContent[] = [];
+
+  for (const request of requests) {
+    switch (request?.kind) {
+      case 'part':
+        contents.push(...(await loadPartLabel(request)));
+        break;
+      case 'lot':
+        contents.push(...(await loadLotLabel(request)));
+        break;
+      case 'location':
+        contents.push(...(await loadLocationLabels(request)));
+        break;
+      default:
+        throw new Error('Label kind must be part, lot or location.');
+    }
+  }
+
+  const total = contents.reduce((sum, content) => sum + content.copies, 0);
+
+  if (total > MAX_LABELS) {
+    throw new Error(`A print job must have ${MAX_LABELS} labels or fewer; this one has ${total}.`);
+  }
+
+  return contents;
+}
+
+function fitText(text: string, size: number, width: number): string {
+  const sizePoints = size * POINTS_PER_INCH;
+  const widthPoints = width * POINTS_PER_INCH;
+
+  if (measurePdfText(text, sizePoints) <= widthPoints) {
+    return text;
+  }
+
+  let fitted = text;
+  while (fitted.length > 1 && measurePdfText(`${fitted}...`, sizePoints) > widthPoints) {
+    fitted = fitted.slice(0, -1);
+  }
+
+  return `${fitted.trimEnd()}...`;
+}
+
+/**
+ * Lays out one label: a Code 128 symbol runs along the bottom under the text, a DataMatrix
+ * sits on the left with the text beside it. Lines that do not fit are dropped from the end.
+ */
+function layoutLabel(
+  content: LabelContent,
+  template: LabelTemplate,
+  symbology: LabelSymbology,
+  dotsPerInch: number | null,
+): LabelElement[] {
+  const innerWidth = template.width - MARGIN * 2;
+  const innerHeight = template.height - MARGIN * 2;
+  const titleSize = Math.min(0.2, innerHeight * 0.24);
+  const lineSize = Math.min(0.13, titleSize * 0.65);
+  // Rounds module sizes down to whole printer dots for ZPL; PDF keeps them exact.
+  const snap = (value: number) => (dotsPerInch ? Math.floor(value * dotsPerInch) / dotsPerInch : value);
+
+  let barcode: LabelElement;
+  let textLeft = MARGIN;
+  let textBottom = template.height - MARGIN;
+
+  if (symbology === 'datamatrix') {
+    const matrix = encodeDataMatrix(content.barcode);
+    // One module of quiet zone on each side.
+    const side = Math.min(innerHeight, innerWidth * 0.45);
+    const moduleWidth = snap(Math.min(MAX_DATAMATRIX_MODULE, side / (matrix.length + 2)));
+
+    if (dotsPerInch && moduleWidth * dotsPerInch < MIN_DATAMATRIX_DOTS) {
+      throw new Error(`Barcode "${content.barcode}" must be shorter to fit the ${template.id} template.`);
+    }
+
+    const symbolSize = moduleWidth * matrix.length;
+    barcode = {
+      type: 'datamatrix',
+      x: MARGIN + moduleWidth,
+      y: MARGIN + (innerHeight - symbolSize) / 2,
+      moduleWidth,
+      matrix,
+      data: content.barcode,
+    };
+    textLeft = MARGIN + symbolSize + moduleWidth * 3;
+  } else {
+    const symbol = encodeCode128(content.barcode);
+    const height = Math.min(0.6, Math.max(0.25, innerHeight * 0.35));
+    const moduleWidth = snap(Math.min(MAX_CODE128_MODULE, innerWidth / symbol.modules));
+
+    if (dotsPerInch && moduleWidth * dotsPerInch < MIN_CODE128_DOTS) {
+      throw new Error(`Barcode "${content.barcode}" must be shorter to fit the ${template.id} template.`);
+    }
+
+    const barsWidth = moduleWidth * (symbol.modules - symbol.quietZone * 2);
+    barcode = {
+      type: 'code128',
+      x: MARGIN + (innerWidth - barsWidth) / 2,
+      y: template.height - MARGIN - height,
+      moduleWidth,
+      height,
+      symbol,
+      data: content.barcode,
+    };
+    textBottom = barcode.y - 0.03;
+  }
+
+  const textWidth = template.width - MARGIN - textLeft;
+  const elements: LabelElement[] = [barcode];
+  let y = MARGIN;
+
+  [content.title, ...content.lines].forEach((line, index) => {
+    const size = index === 0 ? titleSize : lineSize;
+
+    if (y + size > textBottom) {
+      return;
+    }
+
+    elements.push({ type: 'text', x: textLeft, y, size, text: fitText(line, size, textWidth), bold: index === 0 });
+    y += size * 1.2;
+  });
+
+  return elements;
+}
+
+function escapeZpl(text: string): string {
+  // Field data goes through ^FH so the command prefixes can be printed.
+  return text.replace(/[\\^~]/g, (char) => `\\${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function renderZplLabel(content: LabelContent, template: LabelTemplate, symbology: LabelSymbology, dpi: number): string {
+  const dots = (inches: number) => Math.round(inches * dpi);
+  const commands = ['^XA', '^CI28', `^PW${dots(template.width)}`, `^LL${dots(template.height)}`, '^LH0,0'];
+
+  layoutLabel(content, template, symbology, dpi).forEach((element) => {
+    if (element.type === 'text') {
+      const height = dots(element.size);
+      commands.push(`^FO${dots(element.x)},${dots(element.y)}^A0N,${height},${height}^FH\\^FD${escapeZpl(element.text)}^FS`);
+    } else if (element.type === 'code128') {
+      commands.push(
+        `^FO${dots(element.x)},${dots(element.y)}^BY${dots(element.moduleWidth)}` +
+          `^BCN,${dots(element.height)},N,N,N,A^FH\\^FD${escapeZpl(element.data)}^FS`,
+      );
+    } else {
+      commands.push(`^FO${dots(element.x)},${dots(element.y)}^BXN,${dots(element.moduleWidth)},200^FH\\^FD${escapeZpl(element.data)}^FS`);
+    }
+  });
+
+  commands.push(`^PQ${content.copies}`, '^XZ');
+  return commands.join('\n');
+}
+
+function toPdfShapes(elements: LabelElement[], left: number, top: number): PdfShape[] {
+  const points = (inches: number) => inches * POINTS_PER_INCH;
+  const shapes: PdfShape[] = [];
+
+  elements.forEach((element) => {
+    if (element.type === 'text') {
+      // PDF text sits on its baseline, which in Helvetica is about 0.8 em below the top of the line.
+      shapes.push({
+        type: 'text',
+        x: points(left + element.x),
+        y: points(top + element.y + element.size * 0.8),
+        size: points(element.size),
+        text: element.text,
+        font: element.bold ? 'bold' : 'regular',
+      });
+      return;
+    }
+
+    if (element.type === 'code128') {
+      let x = left + element.x;
+      element.symbol.widths.forEach((width, index) => {
+        if (index % 2 === 0) {
+          shapes.push({
+            type: 'rect',
+            x: points(x),
+            y: points(top + element.y),
+            width: points(width * element.moduleWidth),
+            height: points(element.height),
+          });
+        }
+        x += width * element.moduleWidth;
+      });
+      return;
+    }
+
+    element.matrix.forEach((row, rowIndex) => {
+      row.forEach((dark, columnIndex) => {
+        if (dark) {
+          shapes.push({
+            type: 'rect',
+            x: points(left + element.x + columnIndex * element.moduleWidth),
+            y: points(top + element.y + rowIndex * element.moduleWidth),
+            width: points(element.moduleWidth),
+            height: points(element.moduleWidth),
+          });
+        }
+      });
+    });
+  });
+
+  return shapes;
+}
+
+function renderPdfLabels(contents: LabelContent[], template: LabelTemplate, symbology: LabelSymbology): Buffer {
+  const labels = contents.flatMap((content) => {
+    const elements = layoutLabel(content, template, symbology, null);
+    return Array.from({ length: content.copies }, () => elements);
+  });
+  const points = (inches: number) => inches * POINTS_PER_INCH;
+  const { sheet } = template;
+
+  if (!sheet) {
+    return formatPdf(
+      labels.map((elements) => ({ width: points(template.width), height: points(template.height), shapes: toPdfShapes(elements, 0, 0) })),
+    );
+  }
+
+  const perPage = sheet.columns * sheet.rows;
+  const pages: PdfPage[] = [];
+
+  labels.forEach((elements, index) => {
+    const slot = index % perPage;
+
+    if (slot === 0) {
+      pages.push({ width: points(sheet.pageWidth), height: points(sheet.pageHeight), shapes: [] });
+    }
+
+    const left = sheet.left + (slot % sheet.columns) * sheet.columnPitch;
+    const top = sheet.top + Math.floor(slot / sheet.columns) * sheet.rowPitch;
+    pages[pages.length - 1].shapes.push(...toPdfShapes(elements, left, top));
+  });
+
+  return formatPdf(pages);
+}
+
+/**
+ * Renders part, lot and bin labels as a ZPL job for the Zebra printers or as a PDF, laid out on
+ * the template's label sheet when it has one. Every request is validated before anything is
+ * rendered, so a bad part number fails the whole job rather than printing a partial batch.
+ */
+export async function renderLabels(requests: LabelRequest[], options: LabelRenderOptions = {}): Promise<LabelFile> {
+  const format = options.format ?? 'pdf';
+  const symbology = options.symbology ?? 'code128';
+
+  if (format !== 'zpl' && format !== 'pdf') {
+    throw new Error('Label format must be zpl or pdf.');
+  }
+
+  if (symbology !== 'code128' && symbology !== 'datamatrix') {
+    throw new Error('Barcode symbology must be code128 or datamatrix.');
+  }
+
+  const template = resolveTemplate(options.template);
+  const contents = await loadLabelContent(requests);
+  const labelCount = contents.reduce((sum, content) => sum + content.copies, 0);
+
+  const body =
+    format === 'zpl'
+      ? Buffer.from(`${contents.map((content) => renderZplLabel(content, template, symbology, resolvePrinterDpi())).join('\n')}\n`, 'utf8')
+      : renderPdfLabels(contents, template, symbology);
+
+  const kinds = Array.from(new Set(requests.map((request) => request.kind)));
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  logger.info('Labels rendered', { format, symbology, template: template.id, labelCount, kinds });
+
+  return {
+    fileName: `labels-${kinds.length === 1 ? kinds[0] : 'mixed'}-${stamp}.${format}`,
+    contentType: LABEL_CONTENT_TYPES[format],
+    body,
+    template: template.id,
+    labelCount,
+  };
+}
+
+/** renderLabels, written to the label output directory for a print spooler to pick up. */
+export async function writeLabels(requests: LabelRequest[], options: LabelRenderOptions = {}): Promise<SavedLabelFile> {
+  const { body, ...file } = await renderLabels(requests, options);
+  const directory = resolveLabelOutputDir();
+  const filePath = path.join(directory, file.fileName);
+
+  await mkdir(directory, { recursive: true });
+  await writeFile(filePath, body);
+
+  logger.info('Labels written to disk', { path: filePath, labelCount: file.labelCount });
+
+  return { ...file, path: filePath };
+}
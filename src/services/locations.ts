@@ -1,6 +1,7 @@
 import { Prisma } from '@prisma/client';
 
 import { logger } from '../lib/logger.js';
+import { paginateRows, resolveSortKey, type Page, type PageRequest } from '../lib/pagination.js';
 import { prisma } from '../lib/prisma.js';
 
 export type LocationOption = {
@@ -12,6 +13,17 @@ export type LocationOption = {
   locationDisplay: string;
 };
 
+export type LocationSortKey = keyof LocationOption;
+
+const LOCATION_SORT_KEYS: LocationSortKey[] = [
+  'roomCode',
+  'roomDescription',
+  'roomDisplay',
+  'locationCode',
+  'locationDescription',
+  'locationDisplay',
+];
+
 function normalize(value: unknown): string {
   if (typeof value === 'string') {
     return value.trim();
@@ -28,10 +40,13 @@ function normalize(value: unknown): string {
   return '';
 }
 
-export async function listLocations(limit = 500): Promise<LocationOption[]> {
+export async function listLocations(options: PageRequest = {}): Promise<Page<LocationOption>> {
+  const limit = options.limit ?? 500;
   const safeLimit = Number.isFinite(limit) && limit > 0 ? Math.min(Math.trunc(limit), 5000) : 500;
+  const sort = resolveSortKey(options.sort, LOCATION_SORT_KEYS, 'roomCode');
+  const direction = options.direction === 'desc' ? 'desc' : 'asc';
 
-  logger.debug('Loading stock locations', { limit: safeLimit });
+  logger.debug('Loading stock locations', { limit: safeLimit, sort, direction, hasCursor: Boolean(options.cursor) });
 
   const [records, partAssignments] = await Promise.all([
     prisma.$queryRaw<
@@ -67,7 +82,6 @@ export async function listLocations(limit = 500): Promise<LocationOption[]> {
       LEFT JOIN locations l
         ON l.DepartmentCode = r.DepartmentCode
       ORDER BY r.DepartmentCode ASC, l.LocationCode ASC
-      LIMIT ${safeLimit}
     `),
     prisma.partmaster.findMany({
       select: { StockroomCode: true, LocationCode: true },
@@ -75,7 +89,7 @@ export async function listLocations(limit = 500): Promise<LocationOption[]> {
         StockroomCode: { not: null },
         LocationCode: { not: null },
       },
-      take: safeLimit,
+      distinct: ['StockroomCode', 'LocationCode'],
     }),
   ]);
 
@@ -125,5 +139,17 @@ export async function listLocations(limit = 500): Promise<LocationOption[]> {
     addLocation(entry.StockroomCode, entry.LocationCode);
   });
 
-  return combined.slice(0, safeLimit);
+  // The combined list is small (one row per room/bin), so it is paged in memory after merging
+  // the stock location master with ad-hoc bins assigned on parts.
+  return paginateRows(combined, {
+    sort,
+    direction,
+    limit: safeLimit,
+    cursor: options.cursor,
+    sortValues: (location) => [
+      location[sort],
+      location.roomCode.toLowerCase(),
+      location.locationCode.toLowerCase(),
+    ],
+  });
 }
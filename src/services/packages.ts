@@ -0,0 +1,390 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+
+export type PackageOption = {
+  id: number;
+  name: string;
+};
+
+export type PackageCategory = {
+  column: string;
+  label: string;
+  partTypes: { id: number; code: string }[];
+};
+
+export type PackageCategoryOverview = {
+  categories: PackageCategory[];
+  unresolvedPartTypes: { id: number; code: string; packageColumn: string }[];
+};
+
+export type PackageRecord = {
+  id: number;
+  name: string;
+  categories: string[];
+  usageCount: number;
+};
+
+export type PackagePayload = {
+  name?: string;
+  categories?: string[];
+};
+
+const FIXED_COLUMNS = new Set(['package_id', 'package_name']);
+const CATEGORY_CACHE_TTL_MS = 60_000;
+const MAX_PACKAGE_NAME_LENGTH = 255;
+
+// Package attributes store the package name, either flagged by data type or by the legacy code.
+const PACKAGE_ATTRIBUTE_SQL = Prisma.sql`
+  SELECT attribute_ID
+  FROM attribute
+  WHERE LOWER(COALESCE(data_type, '')) LIKE '%linked to package master table%'
+     OR LOWER(COALESCE(attribute_code, '')) REGEXP '^package(_[0-9]+)?$'
+`;
+
+let categoryCache: { columns: string[]; loadedAt: number } | null = null;
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function normalizeIdentifier(value: unknown): string {
+  return normalize(value).toLowerCase().replace(/[^a-z0-9_]/g, '');
+}
+
+function toLabel(column: string): string {
+  return column
+    .split('_')
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function quoteColumn(column: string): Prisma.Sql {
+  // Columns only ever come from information_schema, never from the request.
+  return Prisma.raw(`\`${column.replace(/`/g, '')}\``);
+}
+
+/**
+ * Every boolean column of package_master other than its key and name is a category flag, so a
+ * new category only needs a new column, added by a reviewed schema change rather than at
+ * runtime. The list is cached briefly because it is read for each part type on every part type
+ * listing.
+ */
+export async function listPackageCategoryColumns(): Promise<string[]> {
+  if (categoryCache && Date.now() - categoryCache.loadedAt < CATEGORY_CACHE_TTL_MS) {
+    return categoryCache.columns;
+  }
+
+  const rows = await prisma.$queryRaw<{ column_name: string }[]>(Prisma.sql`
+    SELECT COLUMN_NAME AS column_name
+    FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE()
+      AND TABLE_NAME = 'package_master'
+      AND (DATA_TYPE IN ('bit', 'bool', 'boolean') OR COLUMN_TYPE LIKE 'tinyint(1)%')
+    ORDER BY ORDINAL_POSITION
+  `);
+
+  const columns = rows.map((row) => normalize(row.column_name)).filter((column) => column && !FIXED_COLUMNS.has(column));
+
+  categoryCache = { columns, loadedAt: Date.now() };
+  return columns;
+}
+
+export async function resolvePackageColumn(partType: {
+  packageColumn?: string | null;
+  code?: string | null;
+}): Promise<string | null> {
+  const columns = await listPackageCategoryColumns();
+  const candidates = [normalizeIdentifier(partType.packageColumn), normalizeIdentifier(partType.code)];
+
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+
+    const match = columns.find((column) => column.toLowerCase() === candidate);
+    if (match) {
+      return match;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Used when a part type is saved: an empty package column is allowed for categories without
+ * packages, anything else must name an existing category flag.
+ */
+export async function assertPackageColumn(packageColumn: string): Promise<string> {
+  const trimmed = packageColumn.trim();
+
+  if (!trimmed) {
+    return '';
+  }
+
+  const resolved = await resolvePackageColumn({ packageColumn: trimmed });
+
+  if (!resolved) {
+    throw new Error(`Package column "${trimmed}" must name a package_master category column.`);
+  }
+
+  return resolved;
+}
+
+export async function listPackageOptions(partType: {
+  packageColumn?: string | null;
+  code?: string | null;
+}): Promise<PackageOption[]> {
+  try {
+    const column = await resolvePackageColumn(partType);
+
+    if (!column) {
+      return [];
+    }
+
+    const packages = await prisma.$queryRaw<{ package_id: number; package_name: string }[]>(Prisma.sql`
+      SELECT package_id, package_name
+      FROM package_master
+      WHERE ${quoteColumn(column)} = TRUE
+      ORDER BY package_name ASC
+    `);
+
+    return packages
+      .map((entry) => ({ id: Number(entry.package_id), name: normalize(entry.package_name) }))
+      .filter((entry) => entry.id > 0 && entry.name.length > 0);
+  } catch (error) {
+    logger.error('Failed to load package options for part type', {
+      partTypeCode: partType.code,
+      packageColumn: partType.packageColumn,
+      error,
+    });
+
+    return [];
+  }
+}
+
+export async function getPackageCategoryOverview(): Promise<PackageCategoryOverview> {
+  const [columns, partTypes] = await Promise.all([
+    listPackageCategoryColumns(),
+    prisma.part_type.findMany({ orderBy: { part_type_id: 'asc' } }),
+  ]);
+
+  const categories = new Map<string, PackageCategory>(
+    columns.map((column) => [column, { column, label: toLabel(column), partTypes: [] }]),
+  );
+  const unresolvedPartTypes: PackageCategoryOverview['unresolvedPartTypes'] = [];
+
+  for (const partType of partTypes) {
+    const column = await resolvePackageColumn({ packageColumn: partType.package_column, code: partType.code });
+    const category = column ? categories.get(column) : undefined;
+
+    if (category) {
+      category.partTypes.push({ id: partType.part_type_id, code: partType.code });
+    } else if (normalize(partType.package_column)) {
+      unresolvedPartTypes.push({ id: partType.part_type_id, code: partType.code, packageColumn: partType.package_column });
+    }
+  }
+
+  return { categories: Array.from(categories.values()), unresolvedPartTypes };
+}
+
+async function countPackageUsage(names: string[]): Promise<Map<string, number>> {
+  if (names.length === 0) {
+    return new Map();
+  }
+
+  const rows = await prisma.$queryRaw<{ name: string; count: bigint | number }[]>(Prisma.sql`
+    SELECT part_data AS name, COUNT(*) AS count
+    FROM part_data
+    WHERE attribute_ID IN (${PACKAGE_ATTRIBUTE_SQL})
+      AND part_data IN (${Prisma.join(names)})
+    GROUP BY part_data
+  `);
+
+  return new Map(rows.map((row) => [normalize(row.name).toLowerCase(), Number(row.count)]));
+}
+
+async function readPackages(columns: string[], where: Prisma.Sql): Promise<PackageRecord[]> {
+  const flagColumns = columns.length > 0 ? Prisma.sql`, ${Prisma.join(columns.map(quoteColumn))}` : Prisma.empty;
+  const rows = await prisma.$queryRaw<Record<string, unknown>[]>(Prisma.sql`
+    SELECT package_id, package_name${flagColumns}
+    FROM package_master
+    ${where}
+    ORDER BY package_name ASC
+  `);
+
+  const usage = await countPackageUsage(rows.map((row) => normalize(row['package_name'])).filter(Boolean));
+
+  return rows.map((row) => {
+    const name = normalize(row['package_name']);
+    return {
+      id: Number(row['package_id']),
+      name,
+      categories: columns.filter((column) => Boolean(Number(row[column]))),
+      usageCount: usage.get(name.toLowerCase()) ?? 0,
+    };
+  });
+}
+
+export async function listPackages(options: { category?: string; query?: string } = {}): Promise<PackageRecord[]> {
+  const columns = await listPackageCategoryColumns();
+  const clauses: Prisma.Sql[] = [];
+  const category = normalize(options.category);
+  const query = normalize(options.query);
+
+  if (category) {
+    const column = await resolvePackageColumn({ packageColumn: category });
+
+    if (!column) {
+      throw new Error(`Package category ${category} does not exist.`);
+    }
+
+    clauses.push(Prisma.sql`${quoteColumn(column)} = TRUE`);
+  }
+
+  if (query) {
+    clauses.push(Prisma.sql`package_name LIKE ${`%${query}%`}`);
+  }
+
+  return readPackages(columns, clauses.length > 0 ? Prisma.sql`WHERE ${Prisma.join(clauses, ' AND ')}` : Prisma.empty);
+}
+
+export async function getPackage(packageId: number): Promise<PackageRecord | null> {
+  const columns = await listPackageCategoryColumns();
+  const [record] = await readPackages(columns, Prisma.sql`WHERE package_id = ${packageId}`);
+  return record ?? null;
+}
+
+async function resolveCategoryFlags(categories: unknown): Promise<Map<string, boolean>> {
+  const columns = await listPackageCategoryColumns();
+
+  if (!Array.isArray(categories)) {
+    throw new Error('categories must be an array of category columns.');
+  }
+
+  const selected = new Set<string>();
+
+  for (const entry of categories) {
+    const column = await resolvePackageColumn({ packageColumn: normalize(entry) });
+
+    if (!column) {
+      throw new Error(`Package category ${normalize(entry)} does not exist.`);
+    }
+
+    selected.add(column);
+  }
+
+  return new Map(columns.map((column) => [column, selected.has(column)]));
+}
+
+function normalizePackageName(value: unknown): string {
+  const name = normalize(value);
+
+  if (!name) {
+    throw new Error('Package name is required.');
+  }
+
+  if (name.length > MAX_PACKAGE_NAME_LENGTH) {
+    throw new Error(`Package name must be ${MAX_PACKAGE_NAME_LENGTH} characters or fewer.`);
+  }
+
+  return name;
+}
+
+async function assertPackageNameAvailable(name: string, packageId?: number): Promise<void> {
+  const existing = await prisma.package_master.findFirst({
+    where: { package_name: name, ...(packageId !== undefined ? { NOT: { package_id: packageId } } : {}) },
+    select: { package_id: true },
+  });
+
+  if (existing) {
+    throw new Error(`Package ${name} already exists.`);
+  }
+}
+
+function buildFlagAssignments(flags: Map<string, boolean>): Prisma.Sql[] {
+  return Array.from(flags.entries()).map(([column, enabled]) => Prisma.sql`${quoteColumn(column)} = ${enabled}`);
+}
+
+export async function createPackage(payload: PackagePayload): Promise<PackageRecord> {
+  const name = normalizePackageName(payload.name);
+  const flags = await resolveCategoryFlags(payload.categories ?? []);
+  await assertPackageNameAvailable(name);
+
+  const assignments = [Prisma.sql`package_name = ${name}`, ...buildFlagAssignments(flags)];
+  await prisma.$executeRaw(Prisma.sql`INSERT INTO package_master SET ${Prisma.join(assignments, ', ')}`);
+
+  const created = await prisma.package_master.findUnique({ where: { package_name: name }, select: { package_id: true } });
+
+  logger.info('Package created', { packageId: created?.package_id, name });
+
+  return (await getPackage(Number(created?.package_id))) as PackageRecord;
+}
+
+/**
+ * Renaming a package also rewrites the part_data rows that reference it, since package
+ * attributes store the name rather than the id.
+ */
+export async function updatePackage(packageId: number, payload: PackagePayload): Promise<PackageRecord> {
+  const current = await prisma.package_master.findUnique({
+    where: { package_id: packageId },
+    select: { package_name: true },
+  });
+
+  if (!current) {
+    throw new Error(`Package ${packageId} does not exist.`);
+  }
+
+  const name = payload.name === undefined ? current.package_name : normalizePackageName(payload.name);
+  const flags = payload.categories === undefined ? new Map<string, boolean>() : await resolveCategoryFlags(payload.categories);
+
+  if (name !== current.package_name) {
+    await assertPackageNameAvailable(name, packageId);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const assignments = [Prisma.sql`package_name = ${name}`, ...buildFlagAssignments(flags)];
+    await tx.$executeRaw(Prisma.sql`
+      UPDATE package_master SET ${Prisma.join(assignments, ', ')} WHERE package_id = ${packageId}
+    `);
+
+    if (name !== current.package_name) {
+      await tx.$executeRaw(Prisma.sql`
+        UPDATE part_data
+        SET part_data = ${name}
+        WHERE attribute_ID IN (${PACKAGE_ATTRIBUTE_SQL})
+          AND part_data = ${current.package_name}
+      `);
+    }
+  });
+
+  logger.info('Package updated', { packageId, name, renamedFrom: name !== current.package_name ? current.package_name : undefined });
+
+  return (await getPackage(packageId)) as PackageRecord;
+}
+
+export async function deletePackage(packageId: number): Promise<void> {
+  const current = await getPackage(packageId);
+
+  if (!current) {
+    throw new Error(`Package ${packageId} does not exist.`);
+  }
+
+  if (current.usageCount > 0) {
+    throw new Error(`Package ${current.name} cannot be removed while ${current.usageCount} part attribute(s) reference it.`);
+  }
+
+  await prisma.package_master.delete({ where: { package_id: packageId } });
+
+  logger.info('Package removed', { packageId, name: current.name });
+}
@@ -0,0 +1,260 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { reservePartNumber } from './partNumbering.js';
+import { getPartDetail, type PartDetail } from './parts.js';
+
+export type PartCloneSection = 'attributes' | 'routing' | 'bom' | 'crossReferences' | 'documents';
+
+export const PART_CLONE_SECTIONS: PartCloneSection[] = ['attributes', 'routing', 'bom', 'crossReferences', 'documents'];
+
+export type PartCloneOptions = {
+  targetPartNumber?: string;
+  description?: string;
+  revision?: string;
+  sections?: PartCloneSection[];
+  resetCosts?: boolean;
+};
+
+export type PartCloneResult = {
+  sourcePartNumber: string;
+  part: PartDetail;
+  copied: Record<PartCloneSection, number>;
+  // Lines the section had on the source but that could not be copied, with the reason in warnings.
+  skipped: Record<PartCloneSection, number>;
+  warnings: string[];
+  costsReset: boolean;
+};
+
+const MAX_PART_NUMBER_LENGTH = 30;
+
+const RESET_COSTS = {
+  STDMaterialCost: null,
+  STDBurdenCost: null,
+  STDLaborCost: null,
+  STDSetUpCost: null,
+  STDSubContCost: null,
+  CostRevisionDate: null,
+  MaterialCost: null,
+  LaborCost: null,
+  BurdenCost: null,
+  SetUpCost: null,
+  SubContCost: null,
+  Cost: null,
+} satisfies Partial<Prisma.partmasterUncheckedCreateInput>;
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function resolveSections(sections: PartCloneSection[] | undefined): Set<PartCloneSection> {
+  if (sections === undefined) {
+    return new Set(PART_CLONE_SECTIONS);
+  }
+
+  const unknown = sections.filter((section) => !PART_CLONE_SECTIONS.includes(section));
+
+  if (unknown.length > 0) {
+    throw new Error(`Invalid clone section(s) ${unknown.join(', ')}; expected ${PART_CLONE_SECTIONS.join(', ')}.`);
+  }
+
+  return new Set(sections);
+}
+
+/**
+ * Builds the partmaster row for the copy. Usage history, count dates and the bin assignment
+ * (LocationCode is unique per part) belong to the source and are never carried over; costs are
+ * copied unless resetCosts is set, in which case the part starts uncosted like a new entry.
+ */
+function buildPartmasterCopy(
+  source: Prisma.partmasterGetPayload<{ select: undefined }>,
+  partNumber: string,
+  options: PartCloneOptions,
+): Prisma.partmasterUncheckedCreateInput {
+  const {
+    PartNumber: _partNumber,
+    PartMaster_PKey: _partKey,
+    LocationCode: _locationCode,
+    LastXactionDate: _lastTransaction,
+    LastCountDate: _lastCount,
+    YTDUsage: _ytdUsage,
+    ABCDollarUsage: _abcUsage,
+    ...fields
+  } = source;
+
+  const data: Prisma.partmasterUncheckedCreateInput = {
+    ...fields,
+    PartNumber: partNumber,
+    DateAdded: new Date(),
+  };
+
+  if (options.description !== undefined) {
+    data.DescText = normalize(options.description) || null;
+  }
+
+  if (options.revision !== undefined) {
+    data.Revision = normalize(options.revision) || null;
+  }
+
+  if (options.resetCosts) {
+    Object.assign(data, RESET_COSTS);
+  }
+
+  return data;
+}
+
+/**
+ * Copies a part and the selected parts of its structure to a new part number in one
+ * transaction. Without a target part number one is reserved from the part type's sequence.
+ * Document links are copied without the ECN and job that introduced them on the source.
+ *
+ * BOM lines are never copied: the legacy uniq_BOM_Component index lets a component sit on only
+ * one assembly, and every component of the source is already on the source. They are reported
+ * as skipped so the new assembly's BOM can be built with its own components. Cross-references
+ * are skipped the same way: the legacy schema ties each one to purchase and sales order lines
+ * for the part, which a new part cannot have.
+ */
+export async function clonePart(sourcePartNumber: string, options: PartCloneOptions = {}): Promise<PartCloneResult> {
+  const sourceNumber = normalize(sourcePartNumber);
+  const requestedNumber = normalize(options.targetPartNumber);
+  const sections = resolveSections(options.sections);
+
+  if (!sourceNumber) {
+    throw new Error('A source part number is required.');
+  }
+
+  if (requestedNumber.length > MAX_PART_NUMBER_LENGTH) {
+    throw new Error(`Part number must be ${MAX_PART_NUMBER_LENGTH} characters or fewer.`);
+  }
+
+  if (requestedNumber && requestedNumber === sourceNumber) {
+    throw new Error('The new part number must be different from the source part number.');
+  }
+
+  const copied: Record<PartCloneSection, number> = {
+    attributes: 0,
+    routing: 0,
+    bom: 0,
+    crossReferences: 0,
+    documents: 0,
+  };
+  const skipped: Record<PartCloneSection, number> = {
+    attributes: 0,
+    routing: 0,
+    bom: 0,
+    crossReferences: 0,
+    documents: 0,
+  };
+  const warnings: string[] = [];
+
+  const targetNumber = await prisma.$transaction(async (tx) => {
+    const source = await tx.partmaster.findUnique({ where: { PartNumber: sourceNumber } });
+
+    if (!source) {
+      throw new Error(`Part ${sourceNumber} does not exist.`);
+    }
+
+    if (requestedNumber) {
+      const existing = await tx.partmaster.findUnique({ where: { PartNumber: requestedNumber }, select: { PartNumber: true } });
+
+      if (existing) {
+        throw new Error(`Part ${requestedNumber} already exists.`);
+      }
+    } else if (!source.part_type_ID) {
+      throw new Error(`A new part number is required because ${sourceNumber} has no part type to number from.`);
+    }
+
+    const partNumber = requestedNumber || (await reservePartNumber(tx, source.part_type_ID as number));
+    const created = await tx.partmaster.create({ data: buildPartmasterCopy(source, partNumber, options) });
+
+    if (sections.has('attributes')) {
+      const rows = await tx.part_data.findMany({ where: { PartMaster_PKey: source.PartMaster_PKey } });
+      const result = await tx.part_data.createMany({
+        data: rows.map((row) => ({
+          PartMaster_PKey: created.PartMaster_PKey,
+          attribute_ID: row.attribute_ID,
+          part_data: row.part_data,
+        })),
+      });
+      copied.attributes = result.count;
+    }
+
+    if (sections.has('routing')) {
+      const rows = await tx.routers.findMany({ where: { PartNumber: sourceNumber } });
+      const result = await tx.routers.createMany({
+        data: rows.map(({ Routers_PKey: _key, ...row }) => ({ ...row, PartNumber: partNumber })),
+      });
+      copied.routing = result.count;
+    }
+
+    if (sections.has('bom')) {
+      skipped.bom = await tx.bom.count({ where: { Assembly: sourceNumber } });
+
+      if (skipped.bom > 0) {
+        warnings.push(
+          `${skipped.bom} BOM line(s) were not copied: each component can be used on only one assembly (uniq_BOM_Component) and is already used on ${sourceNumber}.`,
+        );
+      }
+    }
+
+    if (sections.has('crossReferences')) {
+      skipped.crossReferences = await tx.partxreference.count({ where: { PartNumber: sourceNumber } });
+
+      if (skipped.crossReferences > 0) {
+        warnings.push(
+          `${skipped.crossReferences} cross-reference(s) were not copied: each must match a purchase order line and a sales order line for the same part (fk_PartXReference_PODetail_111_po, fk_PartXReference_SODetail_111_so), and ${partNumber} has none yet.`,
+        );
+      }
+    }
+
+    if (sections.has('documents')) {
+      const rows = await tx.partdocuments.findMany({ where: { PartNumber: sourceNumber } });
+      const result = await tx.partdocuments.createMany({
+        data: rows.map(({ PartDocuments_PKey: _key, ...row }) => ({
+          ...row,
+          PartNumber: partNumber,
+          ECNNumber: null,
+          JobNumber: null,
+        })),
+      });
+      // Stored files are content-addressed, so the clone can point at the same copies.
+      await tx.$executeRaw`
+        INSERT INTO part_document_file
+          (PartNumber, DocumentID, document_key, supersedes_DocumentID, file_name, content_type, byte_size, uploaded_by, uploaded_at)
+        SELECT ${partNumber}, DocumentID, document_key, supersedes_DocumentID, file_name, content_type, byte_size, uploaded_by, uploaded_at
+        FROM part_document_file
+        WHERE PartNumber = ${sourceNumber}
+      `;
+      copied.documents = result.count;
+    }
+
+    return partNumber;
+  });
+
+  logger.info('Part cloned', {
+    sourcePartNumber: sourceNumber,
+    partNumber: targetNumber,
+    sections: Array.from(sections),
+    resetCosts: Boolean(options.resetCosts),
+    copied,
+    skipped,
+  });
+
+  return {
+    sourcePartNumber: sourceNumber,
+    part: (await getPartDetail(targetNumber)) as PartDetail,
+    copied,
+    skipped,
+    warnings,
+    costsReset: Boolean(options.resetCosts),
+  };
+}
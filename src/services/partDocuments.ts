@@ -0,0 +1,624 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { mkdir, rename, rm, stat } from 'node:fs/promises';
+import type { ServerResponse } from 'node:http';
+import path from 'node:path';
+import process from 'node:process';
+import { Transform, type Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+import { Prisma } from '@prisma/client';
+
+import { streamFile } from '../lib/fileStream.js';
+import { logger, serializeError } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { nextRevision } from './ecn.js';
+
+export type PartDocumentStatus = 'effective' | 'pending' | 'superseded' | 'obsolete';
+
+export type PartDocumentFile = {
+  name: string;
+  contentType: string;
+  size: number;
+  hash: string;
+  uploadedBy: string;
+  uploadedAt: string | null;
+};
+
+export type PartDocument = {
+  partNumber: string;
+  documentId: string;
+  // The DocumentID of the first revision; every revision of a datasheet or drawing shares it.
+  documentKey: string;
+  revision: string;
+  description: string;
+  notes: string;
+  ecnNumber: string;
+  jobNumber: string;
+  effectiveDate: string | null;
+  obsoleteDate: string | null;
+  status: PartDocumentStatus;
+  supersedes: string | null;
+  supersededBy: string | null;
+  file: PartDocumentFile | null;
+  // DocumentPath of rows recorded before the repository existed, usually a shared-drive path.
+  legacyPath: string | null;
+};
+
+export type PartDocumentUpload = {
+  documentId?: string;
+  revision?: string;
+  description?: string;
+  notes?: string;
+  fileName?: string;
+  contentType?: string;
+  effectiveDate?: string | null;
+  uploadedBy?: string;
+};
+
+export type PartDocumentListOptions = {
+  all?: boolean;
+  asOf?: string | null;
+};
+
+export type PartDocumentContent = {
+  filePath: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  hash: string;
+};
+
+type DocumentRecord = {
+  PartNumber: string;
+  DocumentID: string;
+  DocumentRevision: string | null;
+  DescText: string | null;
+  ECNNumber: string | null;
+  JobNumber: string | null;
+  EffectiveDate: Date | null;
+  ObsoleteDate: Date | null;
+  Notes: string | null;
+  DocumentPath: string | null;
+  document_key: string | null;
+  supersedes_DocumentID: string | null;
+  file_name: string | null;
+  content_type: string | null;
+  byte_size: bigint | number | null;
+  uploaded_by: string | null;
+  uploaded_at: Date | null;
+  supersededBy: string | null;
+};
+
+const DEFAULT_STORAGE_DIR = path.resolve(process.cwd(), 'storage', 'part-documents');
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+const MAX_DOCUMENT_ID_LENGTH = 15;
+const MAX_REVISION_LENGTH = 4;
+const MAX_DESCRIPTION_LENGTH = 60;
+const MAX_FILE_NAME_LENGTH = 255;
+const MAX_CONTENT_TYPE_LENGTH = 100;
+const MAX_EMPLOYEE_ID_LENGTH = 10;
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function toIsoString(value: Date | null | undefined): string | null {
+  return value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString() : null;
+}
+
+function parseOptionalDate(value: string | null | undefined, label: string): Date | null {
+  const text = normalize(value);
+
+  if (!text) {
+    return null;
+  }
+
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${label} must be a valid date.`);
+  }
+
+  return date;
+}
+
+function toOptionalText(value: unknown, label: string, maxLength: number): string | null {
+  const text = normalize(value);
+
+  if (text.length > maxLength) {
+    throw new Error(`${label} must be ${maxLength} characters or fewer.`);
+  }
+
+  return text || null;
+}
+
+/** Files live under PART_DOCUMENTS_DIR (default ./storage/part-documents), named by content hash. */
+export function resolveDocumentStorageDir(): string {
+  const configured = normalize(process.env.PART_DOCUMENTS_DIR);
+  return configured ? path.resolve(configured) : DEFAULT_STORAGE_DIR;
+}
+
+function resolveMaxBytes(): number {
+  const configured = Number.parseInt(normalize(process.env.PART_DOCUMENTS_MAX_BYTES), 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_BYTES;
+}
+
+function resolveContentPath(hash: string): string {
+  if (!HASH_PATTERN.test(hash)) {
+    throw new Error(`Document content ${hash} does not exist.`);
+  }
+
+  return path.join(resolveDocumentStorageDir(), hash.slice(0, 2), hash);
+}
+
+type StoredContent = {
+  hash: string;
+  size: number;
+  // False when identical content was already stored, so a failed save must leave the file alone.
+  created: boolean;
+};
+
+/**
+ * Streams an upload to a temporary file while hashing it, then moves it to its content address.
+ * Identical files collapse onto one copy, so a datasheet shared by many parts is stored once.
+ */
+async function storeContent(content: Readable): Promise<StoredContent> {
+  const root = resolveDocumentStorageDir();
+  const maxBytes = resolveMaxBytes();
+  const tempDir = path.join(root, 'tmp');
+  const tempPath = path.join(tempDir, randomUUID());
+  const hash = createHash('sha256');
+  let size = 0;
+
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+
+      if (size > maxBytes) {
+        callback(new Error(`Documents must be ${maxBytes} bytes or smaller.`));
+        return;
+      }
+
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  await mkdir(tempDir, { recursive: true });
+
+  try {
+    await pipeline(content, meter, createWriteStream(tempPath));
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+
+  if (size === 0) {
+    await rm(tempPath, { force: true });
+    throw new Error('Document content is required.');
+  }
+
+  const digest = hash.digest('hex');
+  const target = resolveContentPath(digest);
+
+  await mkdir(path.dirname(target), { recursive: true });
+  let created = false;
+
+  try {
+    await stat(target);
+  } catch {
+    created = true;
+  }
+
+  await rename(tempPath, target);
+
+  logger.debug('Stored part document content', { hash: digest, size, created });
+  return { hash: digest, size, created };
+}
+
+/**
+ * Removes content stored for a save that then failed, unless it was already there or a document
+ * row has since come to reference it. Cleanup failures are logged so the save's own error is the
+ * one reported.
+ */
+async function discardContent(stored: StoredContent): Promise<void> {
+  if (!stored.created) {
+    return;
+  }
+
+  try {
+    const references = await prisma.partdocuments.count({ where: { DocumentPath: stored.hash } });
+
+    if (references === 0) {
+      await rm(resolveContentPath(stored.hash), { force: true });
+      logger.debug('Removed unreferenced part document content', { hash: stored.hash });
+    }
+  } catch (error) {
+    logger.warn('Failed to remove unreferenced part document content', { hash: stored.hash, error: serializeError(error) });
+  }
+}
+
+function resolveStatus(record: DocumentRecord, asOf: Date): PartDocumentStatus {
+  if (record.EffectiveDate && record.EffectiveDate > asOf) {
+    return 'pending';
+  }
+
+  if (record.ObsoleteDate && record.ObsoleteDate <= asOf) {
+    return record.supersededBy ? 'superseded' : 'obsolete';
+  }
+
+  return 'effective';
+}
+
+function mapDocument(record: DocumentRecord, asOf: Date): PartDocument {
+  const hasFile = record.file_name !== null;
+  const documentPath = normalize(record.DocumentPath);
+
+  return {
+    partNumber: record.PartNumber,
+    documentId: record.DocumentID,
+    documentKey: normalize(record.document_key) || record.DocumentID,
+    revision: normalize(record.DocumentRevision),
+    description: normalize(record.DescText),
+    notes: normalize(record.Notes),
+    ecnNumber: normalize(record.ECNNumber),
+    jobNumber: normalize(record.JobNumber),
+    effectiveDate: toIsoString(record.EffectiveDate),
+    obsoleteDate: toIsoString(record.ObsoleteDate),
+    status: resolveStatus(record, asOf),
+    supersedes: normalize(record.supersedes_DocumentID) || null,
+    supersededBy: normalize(record.supersededBy) || null,
+    file: hasFile
+      ? {
+          name: normalize(record.file_name),
+          contentType: normalize(record.content_type) || DEFAULT_CONTENT_TYPE,
+          size: Number(record.byte_size ?? 0),
+          hash: documentPath,
+          uploadedBy: normalize(record.uploaded_by),
+          uploadedAt: toIsoString(record.uploaded_at),
+        }
+      : null,
+    legacyPath: !hasFile && documentPath ? documentPath : null,
+  };
+}
+
+async function loadDocuments(
+  client: Prisma.TransactionClient | typeof prisma,
+  partNumber: string,
+  filters: Prisma.Sql[] = [],
+): Promise<DocumentRecord[]> {
+  return client.$queryRaw<DocumentRecord[]>(Prisma.sql`
+    SELECT
+      d.PartNumber,
+      d.DocumentID,
+      d.DocumentRevision,
+      d.DescText,
+      d.ECNNumber,
+      d.JobNumber,
+      d.EffectiveDate,
+      d.ObsoleteDate,
+      d.Notes,
+      d.DocumentPath,
+      f.document_key,
+      f.supersedes_DocumentID,
+      f.file_name,
+      f.content_type,
+      f.byte_size,
+      f.uploaded_by,
+      f.uploaded_at,
+      (
+        SELECT s.DocumentID
+        FROM part_document_file s
+        WHERE s.PartNumber = d.PartNumber AND s.supersedes_DocumentID = d.DocumentID
+        LIMIT 1
+      ) AS supersededBy
+    FROM partdocuments d
+    LEFT JOIN part_document_file f ON f.PartNumber = d.PartNumber AND f.DocumentID = d.DocumentID
+    WHERE d.PartNumber = ${partNumber}
+      ${filters.length > 0 ? Prisma.sql`AND ${Prisma.join(filters, ' AND ')}` : Prisma.empty}
+    ORDER BY COALESCE(f.document_key, d.DocumentID), d.EffectiveDate DESC, d.DocumentID
+  `);
+}
+
+async function loadDocument(
+  client: Prisma.TransactionClient | typeof prisma,
+  partNumber: string,
+  documentId: string,
+): Promise<DocumentRecord> {
+  const [record] = await loadDocuments(client, partNumber, [Prisma.sql`d.DocumentID = ${documentId}`]);
+
+  if (!record) {
+    throw new Error(`Document ${documentId} does not exist for part ${partNumber}.`);
+  }
+
+  return record;
+}
+
+async function assertPartExists(partNumber: string): Promise<void> {
+  const part = await prisma.partmaster.findUnique({ where: { PartNumber: partNumber }, select: { PartNumber: true } });
+
+  if (!part) {
+    throw new Error(`Part ${partNumber} does not exist.`);
+  }
+}
+
+function normalizeDocumentId(value: unknown): string {
+  const documentId = normalize(value);
+
+  if (documentId.length > MAX_DOCUMENT_ID_LENGTH) {
+    throw new Error(`Document ID must be ${MAX_DOCUMENT_ID_LENGTH} characters or fewer.`);
+  }
+
+  if (documentId && !DOCUMENT_ID_PATTERN.test(documentId)) {
+    throw new Error('Document ID must contain only letters, digits, dots, dashes and underscores.');
+  }
+
+  return documentId;
+}
+
+type UploadFields = {
+  revision: string | null;
+  description: string | null;
+  notes: string | null;
+  fileName: string;
+  contentType: string;
+  effectiveDate: Date;
+  uploadedBy: string | null;
+};
+
+function readUploadFields(upload: PartDocumentUpload): UploadFields {
+  // Browsers on Windows send the full client path; keep only the file name.
+  const fileName = normalize(upload.fileName).split(/[\\/]/).pop() ?? '';
+
+  if (!fileName) {
+    throw new Error('File name is required.');
+  }
+
+  if (fileName.length > MAX_FILE_NAME_LENGTH) {
+    throw new Error(`File name must be ${MAX_FILE_NAME_LENGTH} characters or fewer.`);
+  }
+
+  return {
+    revision: toOptionalText(upload.revision, 'Revision', MAX_REVISION_LENGTH)?.toUpperCase() ?? null,
+    description: toOptionalText(upload.description, 'Description', MAX_DESCRIPTION_LENGTH),
+    notes: normalize(upload.notes) || null,
+    fileName,
+    contentType: toOptionalText(upload.contentType, 'Content type', MAX_CONTENT_TYPE_LENGTH) ?? DEFAULT_CONTENT_TYPE,
+    effectiveDate: parseOptionalDate(upload.effectiveDate, 'Effective date') ?? new Date(),
+    uploadedBy: toOptionalText(upload.uploadedBy, 'Uploaded by', MAX_EMPLOYEE_ID_LENGTH),
+  };
+}
+
+async function insertDocument(
+  tx: Prisma.TransactionClient,
+  partNumber: string,
+  documentId: string,
+  documentKey: string,
+  supersedes: string | null,
+  fields: UploadFields,
+  stored: StoredContent,
+): Promise<void> {
+  const existing = await tx.partdocuments.findUnique({
+    where: { PartNumber_DocumentID: { PartNumber: partNumber, DocumentID: documentId } },
+    select: { DocumentID: true },
+  });
+
+  if (existing) {
+    throw new Error(`Document ${documentId} already exists for part ${partNumber}.`);
+  }
+
+  await tx.partdocuments.create({
+    data: {
+      PartNumber: partNumber,
+      DocumentID: documentId,
+      DocumentRevision: fields.revision,
+      DescText: fields.description ?? fields.fileName.slice(0, MAX_DESCRIPTION_LENGTH),
+      EffectiveDate: fields.effectiveDate,
+      ObsoleteDate: null,
+      Notes: fields.notes,
+      DocumentPath: stored.hash,
+    },
+  });
+
+  await tx.$executeRaw`
+    INSERT INTO part_document_file
+      (PartNumber, DocumentID, document_key, supersedes_DocumentID, file_name, content_type, byte_size, uploaded_by, uploaded_at)
+    VALUES
+      (${partNumber}, ${documentId}, ${documentKey}, ${supersedes}, ${fields.fileName}, ${fields.contentType}, ${stored.size},
+       ${fields.uploadedBy}, ${new Date()})
+  `;
+}
+
+/**
+ * Lists a part's documents. By default only the revisions in effect now (or at asOf) are
+ * returned; all=true includes pending, superseded and obsolete revisions as well.
+ */
+export async function listPartDocuments(partNumber: string, options: PartDocumentListOptions = {}): Promise<PartDocument[]> {
+  const trimmed = normalize(partNumber);
+  const asOf = parseOptionalDate(options.asOf, 'As-of date') ?? new Date();
+
+  await assertPartExists(trimmed);
+
+  const filters = options.all
+    ? []
+    : [
+        Prisma.sql`(d.EffectiveDate IS NULL OR d.EffectiveDate <= ${asOf})`,
+        Prisma.sql`(d.ObsoleteDate IS NULL OR d.ObsoleteDate > ${asOf})`,
+      ];
+
+  const records = await loadDocuments(prisma, trimmed, filters);
+  return records.map((record) => mapDocument(record, asOf));
+}
+
+export async function uploadPartDocument(
+  partNumber: string,
+  upload: PartDocumentUpload,
+  content: Readable,
+): Promise<PartDocument> {
+  const trimmed = normalize(partNumber);
+  const documentId = normalizeDocumentId(upload.documentId);
+  const fields = readUploadFields(upload);
+
+  if (!documentId) {
+    throw new Error('Document ID is required.');
+  }
+
+  await assertPartExists(trimmed);
+
+  const stored = await storeContent(content);
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await insertDocument(tx, trimmed, documentId, documentId, null, fields, stored);
+    });
+  } catch (error) {
+    await discardContent(stored);
+    throw error;
+  }
+
+  logger.info('Part document uploaded', { partNumber: trimmed, documentId, hash: stored.hash, size: stored.size });
+  return mapDocument(await loadDocument(prisma, trimmed, documentId), new Date());
+}
+
+/**
+ * Records a new revision of a document. The new row takes over on its effective date and the
+ * previous revision is obsoleted on that same date, so exactly one revision is ever current.
+ * The new revision defaults to the next one after the superseded revision and its DocumentID
+ * to "<document key>-<revision>".
+ */
+export async function supersedePartDocument(
+  partNumber: string,
+  documentId: string,
+  upload: PartDocumentUpload,
+  content: Readable,
+): Promise<PartDocument> {
+  const trimmed = normalize(partNumber);
+  const previousId = normalizeDocumentId(documentId);
+  const fields = readUploadFields(upload);
+  const previous = await loadDocument(prisma, trimmed, previousId);
+  const documentKey = normalize(previous.document_key) || previous.DocumentID;
+
+  if (previous.supersededBy) {
+    throw new Error(`Document ${previousId} cannot be superseded again; it was superseded by ${previous.supersededBy}.`);
+  }
+
+  if (previous.EffectiveDate && fields.effectiveDate < previous.EffectiveDate) {
+    throw new Error(`Effective date must not be before the effective date of ${previousId}.`);
+  }
+
+  if (!fields.revision) {
+    try {
+      fields.revision = nextRevision(normalize(previous.DocumentRevision));
+    } catch {
+      throw new Error(`Revision is required because ${normalize(previous.DocumentRevision)} does not increment automatically.`);
+    }
+
+    if (fields.revision.length > MAX_REVISION_LENGTH) {
+      throw new Error(`Revision must be ${MAX_REVISION_LENGTH} characters or fewer.`);
+    }
+  }
+
+  const nextId = normalizeDocumentId(upload.documentId) || `${documentKey}-${fields.revision}`;
+
+  if (nextId.length > MAX_DOCUMENT_ID_LENGTH) {
+    throw new Error(`Document ID is required because ${nextId} is longer than ${MAX_DOCUMENT_ID_LENGTH} characters.`);
+  }
+
+  const stored = await storeContent(content);
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      // Lock the previous revision so two concurrent supersedes cannot both succeed.
+      await tx.$queryRaw`
+        SELECT DocumentID FROM partdocuments WHERE PartNumber = ${trimmed} AND DocumentID = ${previousId} FOR UPDATE
+      `;
+      const current = await loadDocument(tx, trimmed, previousId);
+
+      if (current.supersededBy) {
+        throw new Error(`Document ${previousId} cannot be superseded again; it was superseded by ${current.supersededBy}.`);
+      }
+
+      await insertDocument(tx, trimmed, nextId, documentKey, previousId, fields, stored);
+      await tx.partdocuments.update({
+        where: { PartNumber_DocumentID: { PartNumber: trimmed, DocumentID: previousId } },
+        data: { ObsoleteDate: fields.effectiveDate },
+      });
+    });
+  } catch (error) {
+    await discardContent(stored);
+    throw error;
+  }
+
+  logger.info('Part document superseded', { partNumber: trimmed, previousId, documentId: nextId, hash: stored.hash });
+  return mapDocument(await loadDocument(prisma, trimmed, nextId), new Date());
+}
+
+/** Resolves the stored file for a document so the caller can stream it. */
+export async function getPartDocumentContent(partNumber: string, documentId: string): Promise<PartDocumentContent> {
+  const trimmed = normalize(partNumber);
+  const record = await loadDocument(prisma, trimmed, normalizeDocumentId(documentId));
+  const hash = normalize(record.DocumentPath);
+
+  if (record.file_name === null || !HASH_PATTERN.test(hash)) {
+    const legacy = hash ? ` (recorded path: ${hash})` : '';
+    throw new Error(`The file for document ${record.DocumentID} does not exist in the document repository${legacy}.`);
+  }
+
+  const filePath = resolveContentPath(hash);
+
+  try {
+    await stat(filePath);
+  } catch (error) {
+    logger.error('Part document content is missing from storage', {
+      partNumber: trimmed,
+      documentId,
+      hash,
+      error: serializeError(error),
+    });
+    throw new Error(`The file for document ${record.DocumentID} does not exist in the document repository.`);
+  }
+
+  return {
+    filePath,
+    fileName: normalize(record.file_name),
+    contentType: normalize(record.content_type) || DEFAULT_CONTENT_TYPE,
+    size: Number(record.byte_size ?? 0),
+    hash,
+  };
+}
+
+function buildContentDisposition(fileName: string, download: boolean): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${download ? 'attachment' : 'inline'}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Streams a document resolved by getPartDocumentContent with its stored name and type. Shared by
+ * the local server and the serverless route so both send the same headers.
+ */
+export function sendPartDocumentContent(res: ServerResponse, file: PartDocumentContent, download: boolean): void {
+  streamFile(res, file.filePath, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Length': String(file.size),
+      'Content-Disposition': buildContentDisposition(file.fileName, download),
+      ETag: `"${file.hash}"`,
+    },
+    logContext: { hash: file.hash },
+    sendError: (response) => {
+      response.setHeader('Content-Type', 'application/json; charset=utf-8');
+      response.end(JSON.stringify({ error: 'Unable to download part document.' }));
+    },
+  });
+}
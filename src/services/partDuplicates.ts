@@ -0,0 +1,282 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { formatCanonicalNumber, parseEngineeringValue } from './engineeringUnits.js';
+import { collapseSql, collapseText } from './partRelevance.js';
+
+export type DuplicateStrength = 'strong' | 'possible';
+
+export type PartDuplicateMatch = {
+  partNumber: string;
+  description: string;
+  score: number;
+  strength: DuplicateStrength;
+  matchedAttributes: string[];
+  differingAttributes: string[];
+  manufacturerPartNumbers: string[];
+};
+
+export type DuplicateCheckInput = {
+  partNumber?: string;
+  partTypeId?: number;
+  attributes?: { attributeId: number; value: string }[];
+  manufacturerPartNumbers?: string[];
+  limit?: number;
+};
+
+export type DuplicateCheckResult = {
+  partNumber: string | null;
+  partTypeId: number | null;
+  hasStrongMatch: boolean;
+  matches: PartDuplicateMatch[];
+};
+
+const STRONG_MATCH_SCORE = 0.9;
+const POSSIBLE_MATCH_SCORE = 0.6;
+// A single shared value (e.g. the same package) is not enough to call two parts the same.
+const MIN_MATCHED_ATTRIBUTES = 2;
+const MAX_CANDIDATES = 200;
+const DEFAULT_LIMIT = 10;
+const IGNORED_ATTRIBUTE_CODES = new Set(['notes']);
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+/**
+ * Values are compared case- and whitespace-insensitively, and numbers by value in the attribute's
+ * unit so "10000", "10000.0" and "10k" agree.
+ */
+export function normalizeAttributeValue(value: unknown, unit: string | null = null): string {
+  const text = normalize(value).replace(/\s+/g, '');
+  const number = parseEngineeringValue(text, unit);
+
+  return number !== null ? formatCanonicalNumber(number) : text.toLowerCase();
+}
+
+function normalizeCode(code: unknown): string {
+  return normalize(code).toLowerCase().replace(/_\d+$/, '');
+}
+
+async function loadSubject(input: DuplicateCheckInput, units: Map<number, string | null>): Promise<{
+  partNumber: string | null;
+  partTypeId: number | null;
+  values: Map<number, string>;
+  manufacturerPartNumbers: string[];
+}> {
+  const partNumber = normalize(input.partNumber) || null;
+  const values = new Map<number, string>();
+  let partTypeId = typeof input.partTypeId === 'number' && Number.isFinite(input.partTypeId) ? input.partTypeId : null;
+  let manufacturerPartNumbers = (input.manufacturerPartNumbers ?? []).map(normalize).filter(Boolean);
+
+  (input.attributes ?? []).forEach((entry) => {
+    const value = normalizeAttributeValue(entry.value, units.get(entry.attributeId));
+    if (value) {
+      values.set(entry.attributeId, value);
+    }
+  });
+
+  if (partNumber && (values.size === 0 || partTypeId === null || manufacturerPartNumbers.length === 0)) {
+    const part = await prisma.partmaster.findUnique({
+      where: { PartNumber: partNumber },
+      select: {
+        part_type_ID: true,
+        part_data: { select: { attribute_ID: true, part_data: true } },
+        partxreference: { select: { PartXReference: true } },
+      },
+    });
+
+    if (part) {
+      partTypeId = partTypeId ?? part.part_type_ID ?? null;
+
+      if (values.size === 0) {
+        part.part_data.forEach((entry) => {
+          const value = normalizeAttributeValue(entry.part_data, units.get(entry.attribute_ID));
+          if (value) {
+            values.set(entry.attribute_ID, value);
+          }
+        });
+      }
+
+      if (manufacturerPartNumbers.length === 0) {
+        manufacturerPartNumbers = part.partxreference.map((entry) => normalize(entry.PartXReference)).filter(Boolean);
+      }
+    }
+  }
+
+  return { partNumber, partTypeId, values, manufacturerPartNumbers };
+}
+
+async function findManufacturerMatches(mpns: string[], excludePartNumber: string | null): Promise<Map<string, string[]>> {
+  const collapsed = Array.from(new Set(mpns.map(collapseText).filter((value) => value.length >= 3)));
+  const matches = new Map<string, string[]>();
+
+  if (collapsed.length === 0) {
+    return matches;
+  }
+
+  const rows = await prisma.$queryRaw<{ PartNumber: string; PartXReference: string }[]>(Prisma.sql`
+    SELECT DISTINCT px.PartNumber, px.PartXReference
+    FROM partxreference px
+    WHERE ${collapseSql(Prisma.sql`px.PartXReference`)} IN (${Prisma.join(collapsed)})
+      ${excludePartNumber ? Prisma.sql`AND px.PartNumber <> ${excludePartNumber}` : Prisma.empty}
+    LIMIT ${MAX_CANDIDATES}
+  `);
+
+  rows.forEach((row) => {
+    const list = matches.get(row.PartNumber) ?? [];
+    list.push(normalize(row.PartXReference));
+    matches.set(row.PartNumber, list);
+  });
+
+  return matches;
+}
+
+/**
+ * Candidates must share the part type and at least two attribute values with the subject. Stored
+ * values are legacy free text ("10k", "10000", " 0603"), so they are normalized here exactly like
+ * the subject's before comparing; SQL only narrows the rows to the part type and attributes.
+ */
+async function findAttributeCandidates(
+  partTypeId: number,
+  values: Map<number, string>,
+  units: Map<number, string | null>,
+  excludePartNumber: string | null,
+): Promise<string[]> {
+  if (values.size === 0) {
+    return [];
+  }
+
+  const rows = await prisma.$queryRaw<{ PartNumber: string; attribute_ID: number; part_data: string | null }[]>(Prisma.sql`
+    SELECT pm.PartNumber, pd.attribute_ID, pd.part_data
+    FROM part_data pd
+    JOIN partmaster pm ON pm.PartMaster_PKey = pd.PartMaster_PKey
+    WHERE pm.part_type_ID = ${partTypeId}
+      ${excludePartNumber ? Prisma.sql`AND pm.PartNumber <> ${excludePartNumber}` : Prisma.empty}
+      AND pd.attribute_ID IN (${Prisma.join(Array.from(values.keys()))})
+  `);
+
+  const matchCounts = new Map<string, number>();
+
+  rows.forEach((row) => {
+    if (normalizeAttributeValue(row.part_data, units.get(row.attribute_ID)) === values.get(row.attribute_ID)) {
+      matchCounts.set(row.PartNumber, (matchCounts.get(row.PartNumber) ?? 0) + 1);
+    }
+  });
+
+  const required = Math.min(MIN_MATCHED_ATTRIBUTES, values.size);
+
+  return Array.from(matchCounts.entries())
+    .filter(([, matches]) => matches >= required)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CANDIDATES)
+    .map(([partNumber]) => partNumber);
+}
+
+export async function findDuplicateParts(input: DuplicateCheckInput): Promise<DuplicateCheckResult> {
+  const attributes = await prisma.attribute.findMany({ select: { attribute_ID: true, attribute_code: true, unit: true } });
+  const units = new Map(attributes.map((entry) => [entry.attribute_ID, entry.unit]));
+  const subject = await loadSubject(input, units);
+  const limit = typeof input.limit === 'number' && input.limit > 0 ? Math.floor(input.limit) : DEFAULT_LIMIT;
+
+  const [mpnMatches, attributeCandidates] = await Promise.all([
+    findManufacturerMatches(subject.manufacturerPartNumbers, subject.partNumber),
+    subject.partTypeId !== null
+      ? findAttributeCandidates(subject.partTypeId, subject.values, units, subject.partNumber)
+      : Promise.resolve([]),
+  ]);
+
+  const candidateNumbers = Array.from(new Set([...mpnMatches.keys(), ...attributeCandidates]));
+
+  if (candidateNumbers.length === 0) {
+    return { partNumber: subject.partNumber, partTypeId: subject.partTypeId, hasStrongMatch: false, matches: [] };
+  }
+
+  const candidates = await prisma.partmaster.findMany({
+    where: { PartNumber: { in: candidateNumbers } },
+    select: {
+      PartNumber: true,
+      DescText: true,
+      part_type_ID: true,
+      part_data: { select: { attribute_ID: true, part_data: true } },
+    },
+  });
+
+  const codes = new Map(attributes.map((entry) => [entry.attribute_ID, normalize(entry.attribute_code) || String(entry.attribute_ID)]));
+  const isCompared = (attributeId: number) => !IGNORED_ATTRIBUTE_CODES.has(normalizeCode(codes.get(attributeId)));
+
+  const matches = candidates
+    .map((candidate): PartDuplicateMatch | null => {
+      const candidateValues = new Map<number, string>();
+      candidate.part_data.forEach((entry) => {
+        const value = normalizeAttributeValue(entry.part_data, units.get(entry.attribute_ID));
+        if (value && isCompared(entry.attribute_ID)) {
+          candidateValues.set(entry.attribute_ID, value);
+        }
+      });
+
+      const sameType = subject.partTypeId !== null && candidate.part_type_ID === subject.partTypeId;
+      const compared = new Set(
+        sameType ? [...Array.from(subject.values.keys()).filter(isCompared), ...candidateValues.keys()] : [],
+      );
+      const matchedAttributes: string[] = [];
+      const differingAttributes: string[] = [];
+
+      compared.forEach((attributeId) => {
+        const code = codes.get(attributeId) ?? String(attributeId);
+        if (subject.values.get(attributeId) === candidateValues.get(attributeId)) {
+          matchedAttributes.push(code);
+        } else {
+          differingAttributes.push(code);
+        }
+      });
+
+      const attributeScore =
+        matchedAttributes.length >= Math.min(MIN_MATCHED_ATTRIBUTES, compared.size) && compared.size > 0
+          ? matchedAttributes.length / compared.size
+          : 0;
+      const manufacturerPartNumbers = mpnMatches.get(candidate.PartNumber) ?? [];
+      // A shared manufacturer part number is the same physical component regardless of attributes.
+      const score = manufacturerPartNumbers.length > 0 ? 1 : attributeScore;
+
+      if (score < POSSIBLE_MATCH_SCORE) {
+        return null;
+      }
+
+      return {
+        partNumber: candidate.PartNumber,
+        description: normalize(candidate.DescText),
+        score: Math.round(score * 100) / 100,
+        strength: score >= STRONG_MATCH_SCORE ? 'strong' : 'possible',
+        matchedAttributes,
+        differingAttributes,
+        manufacturerPartNumbers,
+      };
+    })
+    .filter((match): match is PartDuplicateMatch => Boolean(match))
+    .sort((a, b) => b.score - a.score || a.partNumber.localeCompare(b.partNumber))
+    .slice(0, limit);
+
+  logger.debug('Duplicate part check completed', {
+    partNumber: subject.partNumber,
+    partTypeId: subject.partTypeId,
+    candidateCount: candidateNumbers.length,
+    matchCount: matches.length,
+  });
+
+  return {
+    partNumber: subject.partNumber,
+    partTypeId: subject.partTypeId,
+    hasStrongMatch: matches.some((match) => match.strength === 'strong'),
+    matches,
+  };
+}
@@ -0,0 +1,157 @@
+import { formatCsv } from '../lib/csv.js';
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { formatXlsx } from '../lib/xlsx.js';
+
+export type PartFileFormat = 'csv' | 'xlsx';
+
+export type PartFileField = 'partNumber' | 'partType' | 'description' | 'revision' | 'stockUom' | 'status' | 'room' | 'location';
+
+export type PartExportOptions = {
+  format?: PartFileFormat;
+  partTypeId?: number;
+  partNumbers?: string[];
+};
+
+export type PartExportFile = {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+  rowCount: number;
+};
+
+/**
+ * The fixed columns of a part file, in export order. Every other column is an attribute code.
+ * Aliases are compared after normalizeHeader so "Part Number", "part_number" and "PartNumber"
+ * all land on the same field.
+ */
+export const PART_FILE_COLUMNS: { field: PartFileField; header: string; aliases: string[] }[] = [
+  { field: 'partNumber', header: 'part_number', aliases: ['partnumber', 'partno', 'pn'] },
+  { field: 'partType', header: 'part_type', aliases: ['parttype', 'parttypeid', 'type'] },
+  { field: 'description', header: 'description', aliases: ['description', 'desc', 'desctext'] },
+  { field: 'revision', header: 'revision', aliases: ['revision', 'rev'] },
+  { field: 'stockUom', header: 'stock_uom', aliases: ['stockuom', 'uom'] },
+  { field: 'status', header: 'status', aliases: ['status', 'isc'] },
+  { field: 'room', header: 'room', aliases: ['room', 'stockroom', 'stockroomcode'] },
+  { field: 'location', header: 'location', aliases: ['location', 'locationcode', 'bin'] },
+];
+
+export const PART_FILE_CONTENT_TYPES: Record<PartFileFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const MAX_EXPORT_ROWS = 10_000;
+
+export function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+/**
+ * Exports parts with one column per attribute code of the exported part types, in the layout
+ * importParts reads back. Attributes that share a code across part types share a column.
+ */
+export async function exportParts(options: PartExportOptions = {}): Promise<PartExportFile> {
+  const format: PartFileFormat = options.format === 'xlsx' ? 'xlsx' : 'csv';
+  const partNumbers = (options.partNumbers ?? []).map(normalize).filter(Boolean);
+  const where = {
+    ...(typeof options.partTypeId === 'number' && Number.isFinite(options.partTypeId) ? { part_type_ID: options.partTypeId } : {}),
+    ...(partNumbers.length > 0 ? { PartNumber: { in: partNumbers } } : {}),
+  };
+
+  const total = await prisma.partmaster.count({ where });
+
+  if (total > MAX_EXPORT_ROWS) {
+    throw new Error(`Exports must be limited to ${MAX_EXPORT_ROWS} parts; filter by part type or part numbers.`);
+  }
+
+  const [parts, partTypes] = await Promise.all([
+    prisma.partmaster.findMany({
+      where,
+      orderBy: { PartNumber: 'asc' },
+      select: {
+        PartNumber: true,
+        DescText: true,
+        Revision: true,
+        StockUOM: true,
+        ISC: true,
+        StockroomCode: true,
+        LocationCode: true,
+        part_type_ID: true,
+        part_data: { select: { attribute_ID: true, part_data: true } },
+      },
+    }),
+    prisma.part_type.findMany({ select: { part_type_id: true, code: true } }),
+  ]);
+
+  const typeIds = Array.from(new Set(parts.map((part) => part.part_type_ID).filter((id): id is number => id !== null)));
+  const mappings = await prisma.attribute_part_type_map.findMany({
+    where: { part_type_ID: { in: typeIds } },
+    orderBy: [{ part_type_ID: 'asc' }, { attribute_ID: 'asc' }],
+    select: { attribute: { select: { attribute_ID: true, attribute_code: true } } },
+  });
+
+  const attributeHeaders: string[] = [];
+  const columnByCode = new Map<string, number>();
+  const columnByAttribute = new Map<number, number>();
+
+  mappings.forEach(({ attribute }) => {
+    const code = normalize(attribute.attribute_code) || String(attribute.attribute_ID);
+    const key = code.toLowerCase();
+
+    if (!columnByCode.has(key)) {
+      columnByCode.set(key, attributeHeaders.length);
+      attributeHeaders.push(code);
+    }
+
+    columnByAttribute.set(attribute.attribute_ID, columnByCode.get(key) as number);
+  });
+
+  const typeCodes = new Map(partTypes.map((type) => [type.part_type_id, normalize(type.code)]));
+  const rows = parts.map((part) => {
+    const fixed: Record<PartFileField, string> = {
+      partNumber: part.PartNumber,
+      partType: part.part_type_ID !== null ? typeCodes.get(part.part_type_ID) || String(part.part_type_ID) : '',
+      description: normalize(part.DescText),
+      revision: normalize(part.Revision),
+      stockUom: normalize(part.StockUOM),
+      status: normalize(part.ISC),
+      room: normalize(part.StockroomCode),
+      location: normalize(part.LocationCode),
+    };
+    const attributes = attributeHeaders.map(() => '');
+
+    part.part_data.forEach((entry) => {
+      const column = columnByAttribute.get(entry.attribute_ID);
+      if (column !== undefined) {
+        attributes[column] = normalize(entry.part_data);
+      }
+    });
+
+    return [...PART_FILE_COLUMNS.map((column) => fixed[column.field]), ...attributes];
+  });
+
+  const table = [[...PART_FILE_COLUMNS.map((column) => column.header), ...attributeHeaders], ...rows];
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  logger.info('Parts exported', { format, rowCount: rows.length, attributeColumns: attributeHeaders.length });
+
+  return {
+    fileName: `parts-${stamp}.${format}`,
+    contentType: PART_FILE_CONTENT_TYPES[format],
+    body: format === 'xlsx' ? formatXlsx(table, 'Parts') : Buffer.from(formatCsv(table), 'utf8'),
+    rowCount: rows.length,
+  };
+}
@@ -0,0 +1,449 @@
+import { Prisma } from '@prisma/client';
+
+import { parseCsv, type SheetRow } from '../lib/csv.js';
+import { logger, serializeError } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import { parseXlsx } from '../lib/xlsx.js';
+import { findDuplicateParts } from './partDuplicates.js';
+import { normalizeHeader, PART_FILE_COLUMNS, type PartFileField, type PartFileFormat } from './partExport.js';
+import { assertLifecycleUnchanged } from './partLifecycle.js';
+import { reservePartNumber } from './partNumbering.js';
+import {
+  assertRequiredAttributes,
+  normalizeAttributes,
+  resolveAttributeDefinitions,
+  writePartData,
+  type PartAttributeDefinition,
+} from './parts.js';
+
+export type PartImportRow = {
+  rowNumber: number;
+  partNumber: string;
+  partType: string;
+  action: 'create' | 'update' | null;
+  status: 'valid' | 'rejected' | 'created' | 'updated';
+  errors: string[];
+};
+
+export type PartImportSummary = {
+  total: number;
+  creates: number;
+  updates: number;
+  rejected: number;
+};
+
+export type PartImportCommit = {
+  created: number;
+  updated: number;
+  rejected: number;
+  batches: number;
+};
+
+export type PartImportResult = {
+  format: PartFileFormat;
+  dryRun: boolean;
+  columns: { fields: string[]; attributes: string[] };
+  rows: PartImportRow[];
+  summary: PartImportSummary;
+  committed: PartImportCommit | null;
+};
+
+export type PartImportOptions = {
+  format?: PartFileFormat;
+  // CSV text, or the base64-encoded workbook for xlsx.
+  content: string;
+  dryRun?: boolean;
+  batchSize?: number;
+  allowDuplicates?: boolean;
+};
+
+type PartFields = {
+  DescText?: string;
+  Revision?: string;
+  StockUOM?: string;
+  ISC?: string;
+  StockroomCode?: string;
+  LocationCode?: string;
+};
+
+type RowPlan = {
+  row: PartImportRow;
+  existingKey: number | null;
+  partTypeId: number;
+  fields: PartFields;
+  attributes: { attributeId: number; value: string }[];
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_BATCH_SIZE = 500;
+const MAX_IMPORT_ROWS = 5_000;
+// Requests are capped at 1 MB, which leaves roughly 750 KB of zipped workbook once base64 is
+// decoded. Sheet XML seldom compresses better than 20:1, so a workbook that must inflate past
+// this budget is refused rather than expanded.
+const MAX_IMPORT_BODY_BYTES = 1_000_000;
+const MAX_WORKBOOK_INFLATED_BYTES = MAX_IMPORT_BODY_BYTES * 20;
+
+const FIELD_LIMITS: Partial<Record<PartFileField, number>> = {
+  partNumber: 30,
+  description: 60,
+  revision: 4,
+  stockUom: 10,
+  status: 1,
+  room: 10,
+  location: 10,
+};
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function normalizeCode(value: string): string {
+  return value.trim().toLowerCase().replace(/_\d+$/, '');
+}
+
+function readRows(options: PartImportOptions): { format: PartFileFormat; rows: SheetRow[] } {
+  if (typeof options.content !== 'string' || options.content.trim().length === 0) {
+    throw new Error('Part file contents are required.');
+  }
+
+  if (options.format === 'xlsx') {
+    return {
+      format: 'xlsx',
+      rows: parseXlsx(Buffer.from(options.content, 'base64'), { maxInflatedBytes: MAX_WORKBOOK_INFLATED_BYTES }),
+    };
+  }
+
+  return { format: 'csv', rows: parseCsv(options.content) };
+}
+
+function resolveHeader(header: string[]): { fields: Partial<Record<PartFileField, number>>; attributes: Map<number, string> } {
+  const fields: Partial<Record<PartFileField, number>> = {};
+  const attributes = new Map<number, string>();
+
+  header.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell);
+    const column = PART_FILE_COLUMNS.find((entry) => entry.aliases.includes(normalized));
+
+    if (column && fields[column.field] === undefined) {
+      fields[column.field] = index;
+    } else if (cell.trim()) {
+      attributes.set(index, cell.trim());
+    }
+  });
+
+  return { fields, attributes };
+}
+
+// Exact codes win; otherwise "tolerance" matches a type whose attribute is coded "tolerance_2".
+function findDefinition(definitions: Map<number, PartAttributeDefinition>, header: string): PartAttributeDefinition | undefined {
+  const all = Array.from(definitions.values());
+  return (
+    all.find((definition) => definition.code.toLowerCase() === header.toLowerCase()) ??
+    all.find((definition) => normalizeCode(definition.code) === normalizeCode(header))
+  );
+}
+
+function summarize(rows: PartImportRow[]): PartImportSummary {
+  return {
+    total: rows.length,
+    creates: rows.filter((row) => row.action === 'create' && row.status !== 'rejected').length,
+    updates: rows.filter((row) => row.action === 'update' && row.status !== 'rejected').length,
+    rejected: rows.filter((row) => row.status === 'rejected').length,
+  };
+}
+
+async function applyRow(tx: Prisma.TransactionClient, plan: RowPlan): Promise<string> {
+  if (plan.existingKey !== null) {
+    await tx.partmaster.update({
+      where: { PartNumber: plan.row.partNumber },
+      data: { ...plan.fields, part_type_ID: plan.partTypeId },
+    });
+    await writePartData(tx, plan.existingKey, plan.attributes);
+    return plan.row.partNumber;
+  }
+
+  const created = await tx.partmaster.create({
+    data: {
+      PartNumber: plan.row.partNumber || (await reservePartNumber(tx, plan.partTypeId)),
+      DateAdded: new Date(),
+      ...plan.fields,
+      part_type_ID: plan.partTypeId,
+    },
+  });
+  await writePartData(tx, created.PartMaster_PKey, plan.attributes);
+  return created.PartNumber;
+}
+
+/**
+ * Imports parts from a CSV or XLSX file laid out like exportParts: the fixed part columns plus
+ * one column per attribute code. Every row is validated with the same attribute rules as the
+ * part editor. Blank cells leave an existing part's value unchanged, and rows without a part
+ * number are numbered from their part type's sequence.
+ *
+ * Rows are committed in batches, each in its own transaction. When a batch fails, its rows are
+ * retried one at a time so a single row the database rejects does not take its neighbours down.
+ */
+export async function importParts(options: PartImportOptions): Promise<PartImportResult> {
+  const dryRun = options.dryRun !== false;
+  const batchSize = Math.min(Math.max(Math.floor(options.batchSize ?? DEFAULT_BATCH_SIZE), 1), MAX_BATCH_SIZE);
+  const { format, rows: table } = readRows(options);
+  const [headerRow, ...dataRows] = table;
+  const header = headerRow?.cells ?? [];
+  const { fields: fieldColumns, attributes: attributeColumns } = resolveHeader(header);
+
+  if (fieldColumns.partNumber === undefined && fieldColumns.partType === undefined) {
+    throw new Error('Part file must have a part_number or part_type column.');
+  }
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Part files must contain ${MAX_IMPORT_ROWS} rows or fewer.`);
+  }
+
+  const readField = (row: string[], field: PartFileField) => {
+    const index = fieldColumns[field];
+    return index === undefined ? '' : normalize(row[index]);
+  };
+
+  const partNumbers = Array.from(new Set(dataRows.map((row) => readField(row.cells, 'partNumber')).filter(Boolean)));
+  const [partTypes, existingParts, uoms, rooms] = await Promise.all([
+    prisma.part_type.findMany({ select: { part_type_id: true, code: true, sheet_name: true } }),
+    prisma.partmaster.findMany({
+      where: { PartNumber: { in: partNumbers } },
+      select: {
+        PartNumber: true,
+        PartMaster_PKey: true,
+        part_type_ID: true,
+        Revision: true,
+        ISC: true,
+        part_data: { select: { attribute_ID: true, part_data: true } },
+      },
+    }),
+    prisma.uomcodes.findMany({ select: { UOMCode: true } }),
+    prisma.departmentcodes.findMany({ select: { DepartmentCode: true } }),
+  ]);
+
+  const existingByNumber = new Map(existingParts.map((part) => [part.PartNumber.toLowerCase(), part]));
+  const uomCodes = new Set(uoms.map((entry) => entry.UOMCode.toLowerCase()));
+  const roomCodes = new Set(rooms.map((entry) => entry.DepartmentCode.toLowerCase()));
+  const definitionCache = new Map<number, Map<number, PartAttributeDefinition>>();
+  const firstRowByNumber = new Map<string, number>();
+
+  const resolvePartType = (value: string) =>
+    partTypes.find(
+      (type) =>
+        String(type.part_type_id) === value ||
+        type.code.toLowerCase() === value.toLowerCase() ||
+        type.sheet_name.toLowerCase() === value.toLowerCase(),
+    );
+
+  const plans: RowPlan[] = [];
+  const rows: PartImportRow[] = [];
+
+  for (const { line, cells } of dataRows) {
+    const partNumber = readField(cells, 'partNumber');
+    const partTypeValue = readField(cells, 'partType');
+    const existing = partNumber ? existingByNumber.get(partNumber.toLowerCase()) : undefined;
+    const row: PartImportRow = {
+      rowNumber: line,
+      partNumber: existing?.PartNumber ?? partNumber,
+      partType: partTypeValue,
+      action: existing ? 'update' : 'create',
+      status: 'valid',
+      errors: [],
+    };
+    rows.push(row);
+
+    if (partNumber) {
+      const firstRow = firstRowByNumber.get(partNumber.toLowerCase());
+      if (firstRow !== undefined) {
+        row.errors.push(`Part number ${partNumber} already appears on row ${firstRow}.`);
+      } else {
+        firstRowByNumber.set(partNumber.toLowerCase(), row.rowNumber);
+      }
+    }
+
+    (Object.keys(FIELD_LIMITS) as PartFileField[]).forEach((field) => {
+      const limit = FIELD_LIMITS[field] as number;
+      if (readField(cells, field).length > limit) {
+        const header = PART_FILE_COLUMNS.find((column) => column.field === field)?.header ?? field;
+        row.errors.push(`${header} must be ${limit} characters or fewer.`);
+      }
+    });
+
+    const partType = partTypeValue ? resolvePartType(partTypeValue) : undefined;
+    const partTypeId = partType?.part_type_id ?? (partTypeValue ? undefined : existing?.part_type_ID ?? undefined);
+
+    if (partTypeValue && !partType) {
+      row.errors.push(`Part type ${partTypeValue} does not exist.`);
+    } else if (!partTypeId) {
+      row.errors.push(existing ? `A part type is required for ${existing.PartNumber}.` : 'A part type is required to create a part.');
+    }
+
+    const revision = readField(cells, 'revision');
+    if (existing && revision && revision !== normalize(existing.Revision)) {
+      row.errors.push('An implemented engineering change notice is required to change a part revision.');
+    }
+
+    const status = readField(cells, 'status');
+    if (status) {
+      try {
+        assertLifecycleUnchanged(existing?.ISC ?? null, status);
+      } catch (error) {
+        row.errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const stockUom = readField(cells, 'stockUom');
+    if (stockUom && !uomCodes.has(stockUom.toLowerCase())) {
+      row.errors.push(`Unit of measure ${stockUom} does not exist.`);
+    }
+
+    const room = readField(cells, 'room');
+    if (room && !roomCodes.has(room.toLowerCase())) {
+      row.errors.push(`Room ${room} does not exist.`);
+    }
+
+    if (!partTypeId) {
+      continue;
+    }
+
+    if (!definitionCache.has(partTypeId)) {
+      definitionCache.set(partTypeId, await resolveAttributeDefinitions(partTypeId));
+    }
+
+    const definitions = definitionCache.get(partTypeId) as Map<number, PartAttributeDefinition>;
+    const merged = new Map<number, string>(
+      existing && existing.part_type_ID === partTypeId
+        ? existing.part_data.map((entry) => [entry.attribute_ID, normalize(entry.part_data)])
+        : [],
+    );
+
+    attributeColumns.forEach((code, column) => {
+      const value = normalize(cells[column]);
+      if (!value) {
+        return;
+      }
+
+      const definition = findDefinition(definitions, code);
+      if (definition) {
+        merged.set(definition.attributeId, value);
+      } else {
+        row.errors.push(`Column ${code} is not an attribute of part type ${partType?.code ?? partTypeId}.`);
+      }
+    });
+
+    let attributes: { attributeId: number; value: string }[] = [];
+
+    try {
+      attributes = normalizeAttributes(
+        Array.from(merged.entries()).map(([attributeId, value]) => ({ attributeId, value })),
+        definitions,
+      ).filter((entry) => entry.value.length > 0);
+
+      if (definitions.size > 0) {
+        assertRequiredAttributes(attributes, definitions);
+      }
+    } catch (error) {
+      row.errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (row.errors.length === 0 && !existing && !options.allowDuplicates) {
+      const duplicates = await findDuplicateParts({ partNumber: partNumber || undefined, partTypeId, attributes });
+      const strong = duplicates.matches.filter((match) => match.strength === 'strong');
+      if (strong.length > 0) {
+        row.errors.push(`Part duplicates existing part(s) ${strong.map((match) => match.partNumber).join(', ')}.`);
+      }
+    }
+
+    const fields: PartFields = {};
+    const assign = (key: keyof PartFields, field: PartFileField) => {
+      const value = readField(cells, field);
+      if (value) {
+        fields[key] = value;
+      }
+    };
+    assign('DescText', 'description');
+    assign('StockUOM', 'stockUom');
+    assign('ISC', 'status');
+    assign('StockroomCode', 'room');
+    assign('LocationCode', 'location');
+    if (!existing) {
+      assign('Revision', 'revision');
+    }
+
+    plans.push({ row, existingKey: existing?.PartMaster_PKey ?? null, partTypeId, fields, attributes });
+  }
+
+  rows.forEach((row) => {
+    if (row.errors.length > 0) {
+      row.status = 'rejected';
+    }
+  });
+
+  const summary = summarize(rows);
+  const columns = {
+    fields: PART_FILE_COLUMNS.filter((column) => fieldColumns[column.field] !== undefined).map((column) => column.header),
+    attributes: Array.from(attributeColumns.values()),
+  };
+
+  logger.debug('Parsed part import file', { format, dryRun, ...summary });
+
+  if (dryRun) {
+    return { format, dryRun, columns, rows, summary, committed: null };
+  }
+
+  const pending = plans.filter((plan) => plan.row.status === 'valid');
+  const committed: PartImportCommit = { created: 0, updated: 0, rejected: summary.rejected, batches: 0 };
+
+  const markApplied = (plan: RowPlan, partNumber: string) => {
+    plan.row.partNumber = partNumber;
+    plan.row.status = plan.existingKey !== null ? 'updated' : 'created';
+    committed[plan.existingKey !== null ? 'updated' : 'created'] += 1;
+  };
+
+  for (let start = 0; start < pending.length; start += batchSize) {
+    const batch = pending.slice(start, start + batchSize);
+    committed.batches += 1;
+
+    try {
+      const applied = await prisma.$transaction(
+        async (tx) => {
+          const numbers: string[] = [];
+          for (const plan of batch) {
+            numbers.push(await applyRow(tx, plan));
+          }
+          return numbers;
+        },
+        { timeout: 60_000 },
+      );
+      batch.forEach((plan, offset) => markApplied(plan, applied[offset]));
+    } catch (batchError) {
+      logger.warn('Part import batch failed; retrying rows individually', {
+        batch: committed.batches,
+        error: serializeError(batchError),
+      });
+
+      for (const plan of batch) {
+        try {
+          markApplied(plan, await prisma.$transaction((tx) => applyRow(tx, plan)));
+        } catch (error) {
+          plan.row.status = 'rejected';
+          plan.row.errors.push(error instanceof Error ? error.message : 'Unable to save part.');
+          committed.rejected += 1;
+        }
+      }
+    }
+  }
+
+  logger.info('Parts imported', { format, ...committed });
+
+  return { format, dryRun, columns, rows, summary: summarize(rows), committed };
+}
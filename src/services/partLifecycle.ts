@@ -0,0 +1,372 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+
+export type PartLifecycleState = 'active' | 'nrnd' | 'obsolete' | 'deleted';
+
+export type LifecycleBlockerKind = 'salesOrder' | 'purchaseOrder' | 'workOrder' | 'bomUsage' | 'inventory';
+
+export type LifecycleBlocker = {
+  kind: LifecycleBlockerKind;
+  reference: string;
+  quantity: number | null;
+  detail: string;
+};
+
+export type PartHistoryCount = {
+  source: string;
+  count: number;
+};
+
+export type PartLifecycle = {
+  partNumber: string;
+  state: PartLifecycleState;
+  statusCode: string;
+  transitions: PartLifecycleState[];
+  blockers: LifecycleBlocker[];
+  history: PartHistoryCount[];
+  canHardDelete: boolean;
+};
+
+export type LifecycleTransitionResult = {
+  partNumber: string;
+  from: PartLifecycleState;
+  to: PartLifecycleState;
+  dryRun: boolean;
+  applied: boolean;
+  blockers: LifecycleBlocker[];
+};
+
+type LifecycleClient = Prisma.TransactionClient | typeof prisma;
+
+export const PART_LIFECYCLE_STATES: PartLifecycleState[] = ['active', 'nrnd', 'obsolete', 'deleted'];
+
+// ISC is the part status the editor already shows. OMC stays the order method code (e.g. P for
+// phantoms) because MRP reads it independently of whether the part is still being designed in.
+export const LIFECYCLE_STATUS_CODES: Record<PartLifecycleState, string> = {
+  active: 'A',
+  nrnd: 'N',
+  obsolete: 'O',
+  deleted: 'D',
+};
+
+const BLOCKED_STATES = new Set<PartLifecycleState>(['obsolete', 'deleted']);
+const MAX_BLOCKERS_PER_KIND = 50;
+
+// Every table that records a transaction or plan against a part. A part with rows in any of
+// these has history and can only be soft-deleted.
+const HISTORY_SOURCES = [
+  'sodetail',
+  'podetail',
+  'woheader',
+  'wipissues',
+  'inventorylots',
+  'inventorytags',
+  'invoicedetail',
+  'creditmemodetail',
+  'pipissues',
+  'seriallotnumbers',
+  'mrpparts',
+  'forecastparts',
+  'forecastquantities',
+  'crpdetail',
+  'poshortages',
+  'ecnparts',
+  'ecn_change',
+];
+
+const BLOCKER_LABELS: Record<LifecycleBlockerKind, string> = {
+  salesOrder: 'open sales order line(s)',
+  purchaseOrder: 'open purchase order line(s)',
+  workOrder: 'open work order(s)',
+  bomUsage: 'active BOM usage(s)',
+  inventory: 'on-hand inventory lot(s)',
+};
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'bigint' ? Number(value) : Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/** Blank and legacy codes read as active so existing parts keep behaving as they do today. */
+export function resolveLifecycleState(statusCode: unknown): PartLifecycleState {
+  const code = normalize(statusCode).toUpperCase();
+  const match = PART_LIFECYCLE_STATES.find((state) => LIFECYCLE_STATUS_CODES[state] === code);
+  return match ?? 'active';
+}
+
+export function parseLifecycleState(value: unknown): PartLifecycleState {
+  const normalized = normalize(value).toLowerCase();
+  const match = PART_LIFECYCLE_STATES.find(
+    (state) => state === normalized || LIFECYCLE_STATUS_CODES[state].toLowerCase() === normalized,
+  );
+
+  if (!match) {
+    throw new Error(`Lifecycle state must be one of ${PART_LIFECYCLE_STATES.join(', ')}.`);
+  }
+
+  return match;
+}
+
+/**
+ * Parts move forward through active → NRND → obsolete → deleted, skipping steps if needed, and
+ * can be reinstated one step back at a time.
+ */
+export function listLifecycleTransitions(from: PartLifecycleState): PartLifecycleState[] {
+  const index = PART_LIFECYCLE_STATES.indexOf(from);
+  return PART_LIFECYCLE_STATES.filter((_state, candidate) => candidate > index || candidate === index - 1);
+}
+
+/**
+ * Part saves and imports carry the status code along with everything else; they may rewrite it
+ * but not move the part to another lifecycle state without the usage checks.
+ */
+export function assertLifecycleUnchanged(currentCode: unknown, requestedCode: unknown): void {
+  const current = resolveLifecycleState(currentCode);
+  const requested = resolveLifecycleState(requestedCode);
+
+  if (current !== requested) {
+    throw new Error(
+      `Part status cannot change from ${current} to ${requested} on save; use a lifecycle transition so open orders, BOM usage and stock are checked.`,
+    );
+  }
+}
+
+async function findBlockers(client: LifecycleClient, partNumber: string): Promise<LifecycleBlocker[]> {
+  const [salesOrders, purchaseOrders, workOrders, bomUsage, inventory] = await Promise.all([
+    client.$queryRaw<{ SONumber: string; SOLine: string; openQuantity: number | null; ScheduledShipDate: Date | null }[]>(
+      Prisma.sql`
+        SELECT SONumber, SOLine, COALESCE(QuantityOrdered, 0) - COALESCE(QuantityShipped, 0) AS openQuantity, ScheduledShipDate
+        FROM sodetail
+        WHERE PartNumber = ${partNumber}
+          AND COALESCE(ClosedFlag, 0) = 0
+          AND COALESCE(QuantityOrdered, 0) > COALESCE(QuantityShipped, 0)
+        ORDER BY SONumber, SOLine
+        LIMIT ${MAX_BLOCKERS_PER_KIND}
+      `,
+    ),
+    client.$queryRaw<{ PONumber: string; POLine: string; openQuantity: number | null; RequiredDate: Date | null }[]>(
+      Prisma.sql`
+        SELECT PONumber, POLine, COALESCE(QuantityOrdered, 0) - COALESCE(QuantityReceived, 0) AS openQuantity, RequiredDate
+        FROM podetail
+        WHERE PartNumber = ${partNumber}
+          AND COALESCE(ClosedFlag, 0) = 0
+          AND COALESCE(QuantityOrdered, 0) > COALESCE(QuantityReceived, 0)
+        ORDER BY PONumber, POLine
+        LIMIT ${MAX_BLOCKERS_PER_KIND}
+      `,
+    ),
+    client.$queryRaw<{ WONumber: string; openQuantity: number | null; RequiredDate: Date | null }[]>(Prisma.sql`
+      SELECT WONumber, GREATEST(COALESCE(QuantityRequired, 0) - COALESCE(QuantityCompleted, 0), 0) AS openQuantity, RequiredDate
+      FROM woheader
+      WHERE PartNumber = ${partNumber} AND COALESCE(ClosedFlag, 0) = 0
+      ORDER BY WONumber
+      LIMIT ${MAX_BLOCKERS_PER_KIND}
+    `),
+    client.$queryRaw<{ Assembly: string; ItemSequence: string | null; QuantityPer: number | null }[]>(Prisma.sql`
+      SELECT Assembly, ItemSequence, QuantityPer
+      FROM bom
+      WHERE Component = ${partNumber} AND (ObsoleteDate IS NULL OR ObsoleteDate > NOW())
+      ORDER BY Assembly
+      LIMIT ${MAX_BLOCKERS_PER_KIND}
+    `),
+    client.$queryRaw<{ DepartmentCode: string; LocationCode: string; SNLotNumber: string; Quantity: number | null }[]>(
+      Prisma.sql`
+        SELECT DepartmentCode, LocationCode, SNLotNumber, Quantity
+        FROM inventorylots
+        WHERE PartNumber = ${partNumber} AND Quantity > 0
+        ORDER BY DepartmentCode, LocationCode, SNLotNumber
+        LIMIT ${MAX_BLOCKERS_PER_KIND}
+      `,
+    ),
+  ]);
+
+  const formatDate = (value: Date | null) => (value ? ` due ${value.toISOString().slice(0, 10)}` : '');
+
+  return [
+    ...salesOrders.map((row) => ({
+      kind: 'salesOrder' as const,
+      reference: `${row.SONumber}/${row.SOLine}`,
+      quantity: toNumber(row.openQuantity),
+      detail: `Sales order ${row.SONumber} line ${row.SOLine}${formatDate(row.ScheduledShipDate)}`,
+    })),
+    ...purchaseOrders.map((row) => ({
+      kind: 'purchaseOrder' as const,
+      reference: `${row.PONumber}/${row.POLine}`,
+      quantity: toNumber(row.openQuantity),
+      detail: `Purchase order ${row.PONumber} line ${row.POLine}${formatDate(row.RequiredDate)}`,
+    })),
+    ...workOrders.map((row) => ({
+      kind: 'workOrder' as const,
+      reference: row.WONumber,
+      quantity: toNumber(row.openQuantity),
+      detail: `Work order ${row.WONumber}${formatDate(row.RequiredDate)}`,
+    })),
+    ...bomUsage.map((row) => ({
+      kind: 'bomUsage' as const,
+      reference: row.Assembly,
+      quantity: row.QuantityPer === null ? null : toNumber(row.QuantityPer),
+      detail: `Used on ${row.Assembly}${row.ItemSequence ? ` item ${normalize(row.ItemSequence)}` : ''}`,
+    })),
+    ...inventory.map((row) => ({
+      kind: 'inventory' as const,
+      reference: [row.DepartmentCode, row.LocationCode, row.SNLotNumber].map(normalize).filter(Boolean).join('/'),
+      quantity: toNumber(row.Quantity),
+      detail: `On hand in ${normalize(row.DepartmentCode)} ${normalize(row.LocationCode)}${
+        normalize(row.SNLotNumber) ? ` lot ${normalize(row.SNLotNumber)}` : ''
+      }`,
+    })),
+  ];
+}
+
+async function countHistory(client: LifecycleClient, partNumber: string): Promise<PartHistoryCount[]> {
+  const rows = await client.$queryRaw<{ source: string; count: bigint | number }[]>(Prisma.sql`
+    ${Prisma.join(
+      HISTORY_SOURCES.map(
+        (table) => Prisma.sql`SELECT ${table} AS source, COUNT(*) AS count FROM ${Prisma.raw(table)} WHERE PartNumber = ${partNumber}`,
+      ),
+      ' UNION ALL ',
+    )}
+    UNION ALL SELECT 'bom' AS source, COUNT(*) AS count FROM bom WHERE Component = ${partNumber}
+  `);
+
+  return rows.map((row) => ({ source: row.source, count: toNumber(row.count) })).filter((row) => row.count > 0);
+}
+
+function describeBlockers(blockers: LifecycleBlocker[]): string {
+  const counts = new Map<LifecycleBlockerKind, number>();
+  blockers.forEach((blocker) => counts.set(blocker.kind, (counts.get(blocker.kind) ?? 0) + 1));
+
+  return Array.from(counts.entries())
+    .map(([kind, count]) => `${count}${count >= MAX_BLOCKERS_PER_KIND ? '+' : ''} ${BLOCKER_LABELS[kind]}`)
+    .join(', ');
+}
+
+async function loadStatus(client: LifecycleClient, partNumber: string): Promise<{ partNumber: string; statusCode: string }> {
+  const part = await client.partmaster.findUnique({ where: { PartNumber: partNumber }, select: { PartNumber: true, ISC: true } });
+
+  if (!part) {
+    throw new Error(`Part ${partNumber} does not exist.`);
+  }
+
+  return { partNumber: part.PartNumber, statusCode: normalize(part.ISC) };
+}
+
+export async function getPartLifecycle(partNumber: string): Promise<PartLifecycle> {
+  const part = await loadStatus(prisma, normalize(partNumber));
+  const state = resolveLifecycleState(part.statusCode);
+  const [blockers, history] = await Promise.all([findBlockers(prisma, part.partNumber), countHistory(prisma, part.partNumber)]);
+
+  return {
+    partNumber: part.partNumber,
+    state,
+    statusCode: part.statusCode,
+    transitions: listLifecycleTransitions(state),
+    blockers,
+    history,
+    canHardDelete: history.length === 0,
+  };
+}
+
+/**
+ * Moves a part to another lifecycle state. Obsolete and deleted are refused while the part
+ * still has open orders, active BOM usage or stock on hand; a dry run returns those blocking
+ * references without changing anything.
+ */
+export async function transitionPartLifecycle(
+  partNumber: string,
+  target: PartLifecycleState,
+  options: { dryRun?: boolean } = {},
+): Promise<LifecycleTransitionResult> {
+  const dryRun = options.dryRun === true;
+
+  const result = await prisma.$transaction(async (tx) => {
+    const part = await loadStatus(tx, normalize(partNumber));
+    const from = resolveLifecycleState(part.statusCode);
+
+    if (from === target) {
+      throw new Error(`Part ${part.partNumber} is already ${target}.`);
+    }
+
+    if (!listLifecycleTransitions(from).includes(target)) {
+      throw new Error(`Part ${part.partNumber} cannot move from ${from} to ${target}; reinstate it one step at a time.`);
+    }
+
+    const blockers = BLOCKED_STATES.has(target) ? await findBlockers(tx, part.partNumber) : [];
+
+    if (dryRun) {
+      return { partNumber: part.partNumber, from, to: target, dryRun, applied: false, blockers };
+    }
+
+    if (blockers.length > 0) {
+      throw new Error(`Part ${part.partNumber} cannot become ${target} while it has ${describeBlockers(blockers)}.`);
+    }
+
+    await tx.partmaster.update({
+      where: { PartNumber: part.partNumber },
+      data: { ISC: LIFECYCLE_STATUS_CODES[target] },
+    });
+
+    return { partNumber: part.partNumber, from, to: target, dryRun, applied: true, blockers };
+  });
+
+  if (result.applied) {
+    logger.info('Part lifecycle changed', { partNumber: result.partNumber, from: result.from, to: result.to });
+  }
+
+  return result;
+}
+
+/**
+ * Permanently removes a part and its engineering data (attributes, routing, its own BOM lines,
+ * cross references and document links). Only parts that were never ordered, built, stocked,
+ * planned, changed by an ECN or used on another BOM qualify; everything else is soft-deleted
+ * through the lifecycle.
+ */
+export async function deletePart(partNumber: string): Promise<void> {
+  const deleted = await prisma.$transaction(async (tx) => {
+    const part = await tx.partmaster.findUnique({
+      where: { PartNumber: normalize(partNumber) },
+      select: { PartNumber: true, PartMaster_PKey: true },
+    });
+
+    if (!part) {
+      throw new Error(`Part ${normalize(partNumber)} does not exist.`);
+    }
+
+    const history = await countHistory(tx, part.PartNumber);
+
+    if (history.length > 0) {
+      throw new Error(
+        `Part ${part.PartNumber} cannot be deleted because it has history in ${history
+          .map((entry) => `${entry.source} (${entry.count})`)
+          .join(', ')}; move it to the deleted lifecycle state instead.`,
+      );
+    }
+
+    await tx.refdesignators.deleteMany({ where: { Assembly: part.PartNumber } });
+    await tx.bom.deleteMany({ where: { Assembly: part.PartNumber } });
+    await tx.routers.deleteMany({ where: { PartNumber: part.PartNumber } });
+    await tx.partxreference.deleteMany({ where: { PartNumber: part.PartNumber } });
+    await tx.partdocuments.deleteMany({ where: { PartNumber: part.PartNumber } });
+    await tx.part_data.deleteMany({ where: { PartMaster_PKey: part.PartMaster_PKey } });
+    await tx.partmaster.delete({ where: { PartNumber: part.PartNumber } });
+
+    return part.PartNumber;
+  });
+
+  logger.info('Part deleted', { partNumber: deleted });
+}
@@ -0,0 +1,218 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+
+export type PartNumberFormat = {
+  partTypeId: number;
+  keyName: string;
+  format: string;
+  configured: boolean;
+  lastNumber: number;
+  lastIssued: string | null;
+  preview: string;
+};
+
+export type PartNumberFormatPayload = {
+  keyName?: string;
+  format?: string;
+  nextNumber?: number;
+};
+
+type NumberingClient = Prisma.TransactionClient | typeof prisma;
+
+const MAX_PART_NUMBER_LENGTH = 30;
+const MAX_KEY_NAME_LENGTH = 10;
+const MAX_FORMAT_LENGTH = 30;
+const MAX_LAST_FORMAT_LENGTH = 10;
+const DEFAULT_SEQUENCE_WIDTH = 6;
+const MAX_COLLISION_SKIPS = 1_000;
+const SEQUENCE_TOKEN = /\{seq(?::(\d{1,2}))?\}/g;
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function defaultPrefix(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3) || 'PN';
+}
+
+function buildDefaultFormat(code: string): { keyName: string; format: string } {
+  const prefix = defaultPrefix(code);
+  return { keyName: `PN_${prefix}`, format: `${prefix}-{seq:${DEFAULT_SEQUENCE_WIDTH}}` };
+}
+
+/**
+ * Formats use a single {seq} token, optionally with a zero-padded width: "RES-{seq:6}" yields
+ * RES-000123. Everything else is literal text.
+ */
+export function formatPartNumber(format: string, sequence: number): string {
+  return format.replace(SEQUENCE_TOKEN, (_match, width: string | undefined) =>
+    String(sequence).padStart(width ? Number.parseInt(width, 10) : 0, '0'),
+  );
+}
+
+function assertValidFormat(format: string): void {
+  if (!format) {
+    throw new Error('A part number format is required.');
+  }
+
+  if (format.length > MAX_FORMAT_LENGTH) {
+    throw new Error(`Part number format must be ${MAX_FORMAT_LENGTH} characters or fewer.`);
+  }
+
+  const tokens = format.match(SEQUENCE_TOKEN) ?? [];
+
+  if (tokens.length !== 1) {
+    throw new Error('Part number format must contain exactly one {seq} token, e.g. RES-{seq:6}.');
+  }
+
+  if (!/^[A-Za-z0-9\-_./]*$/.test(format.replace(SEQUENCE_TOKEN, ''))) {
+    throw new Error('Part number format may only contain letters, digits and - _ . / around the {seq} token.');
+  }
+
+  if (formatPartNumber(format, 1).length > MAX_PART_NUMBER_LENGTH) {
+    throw new Error(`Part numbers generated by the format must be ${MAX_PART_NUMBER_LENGTH} characters or fewer.`);
+  }
+}
+
+function assertValidKeyName(keyName: string): void {
+  if (!keyName) {
+    throw new Error('A syskey name is required.');
+  }
+
+  if (keyName.length > MAX_KEY_NAME_LENGTH || !/^[A-Za-z0-9_]+$/.test(keyName)) {
+    throw new Error(`Syskey name must be ${MAX_KEY_NAME_LENGTH} letters, digits or underscores or fewer.`);
+  }
+}
+
+async function loadFormat(
+  client: NumberingClient,
+  partTypeId: number,
+): Promise<{ keyName: string; format: string; configured: boolean }> {
+  const partType = await client.part_type.findUnique({
+    where: { part_type_id: partTypeId },
+    select: { code: true },
+  });
+
+  if (!partType) {
+    throw new Error(`Part type ${partTypeId} does not exist.`);
+  }
+
+  const [row] = await client.$queryRaw<{ syskey_name: string; format: string }[]>(Prisma.sql`
+    SELECT syskey_name, format FROM part_number_format WHERE part_type_ID = ${partTypeId}
+  `);
+
+  if (row) {
+    return { keyName: normalize(row.syskey_name), format: normalize(row.format), configured: true };
+  }
+
+  return { ...buildDefaultFormat(partType.code), configured: false };
+}
+
+async function readSyskey(client: NumberingClient, keyName: string): Promise<{ lastNumber: number; lastIssued: string | null }> {
+  const row = await client.syskeys.findUnique({
+    where: { SYSKEYNAME: keyName },
+    select: { SYSKEYMIN: true, LASTFORMAT: true },
+  });
+
+  return {
+    lastNumber: Math.max(0, Math.floor(Number(row?.SYSKEYMIN ?? 0))),
+    lastIssued: normalize(row?.LASTFORMAT) || null,
+  };
+}
+
+export async function getPartNumberFormat(partTypeId: number): Promise<PartNumberFormat> {
+  const format = await loadFormat(prisma, partTypeId);
+  const { lastNumber, lastIssued } = await readSyskey(prisma, format.keyName);
+
+  return {
+    partTypeId,
+    ...format,
+    lastNumber,
+    lastIssued,
+    preview: formatPartNumber(format.format, lastNumber + 1),
+  };
+}
+
+export async function setPartNumberFormat(partTypeId: number, payload: PartNumberFormatPayload): Promise<PartNumberFormat> {
+  const current = await loadFormat(prisma, partTypeId);
+  const keyName = payload.keyName === undefined ? current.keyName : normalize(payload.keyName).toUpperCase();
+  const format = payload.format === undefined ? current.format : normalize(payload.format);
+
+  assertValidKeyName(keyName);
+  assertValidFormat(format);
+
+  if (payload.nextNumber !== undefined && (!Number.isInteger(payload.nextNumber) || payload.nextNumber < 1)) {
+    throw new Error('nextNumber must be a positive whole number.');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`
+      INSERT INTO part_number_format (part_type_ID, syskey_name, format, updated_at)
+      VALUES (${partTypeId}, ${keyName}, ${format}, ${new Date()})
+      ON DUPLICATE KEY UPDATE syskey_name = VALUES(syskey_name), format = VALUES(format), updated_at = VALUES(updated_at)
+    `;
+
+    if (payload.nextNumber !== undefined) {
+      await tx.$executeRaw`
+        INSERT INTO syskeys (SYSKEYNAME, SYSKEYMIN) VALUES (${keyName}, ${payload.nextNumber - 1})
+        ON DUPLICATE KEY UPDATE SYSKEYMIN = VALUES(SYSKEYMIN)
+      `;
+    }
+  });
+
+  logger.info('Part number format saved', { partTypeId, keyName, format, nextNumber: payload.nextNumber });
+
+  return getPartNumberFormat(partTypeId);
+}
+
+/**
+ * Reserves the next part number for a part type. syskeys.SYSKEYMIN holds the last sequence
+ * issued for the key and LASTFORMAT the last formatted number. The key row is locked with
+ * SELECT ... FOR UPDATE so concurrent creates queue behind each other until the caller's
+ * transaction commits; numbers already taken by hand-entered parts are skipped.
+ */
+export async function reservePartNumber(tx: Prisma.TransactionClient, partTypeId: number): Promise<string> {
+  const { keyName, format } = await loadFormat(tx, partTypeId);
+
+  await tx.$executeRaw`INSERT IGNORE INTO syskeys (SYSKEYNAME, SYSKEYMIN) VALUES (${keyName}, 0)`;
+  const [row] = await tx.$queryRaw<{ SYSKEYMIN: number | null }[]>(Prisma.sql`
+    SELECT SYSKEYMIN FROM syskeys WHERE SYSKEYNAME = ${keyName} FOR UPDATE
+  `);
+
+  let sequence = Math.max(0, Math.floor(Number(row?.SYSKEYMIN ?? 0)));
+  let candidate = '';
+
+  for (let attempt = 0; attempt < MAX_COLLISION_SKIPS; attempt += 1) {
+    sequence += 1;
+    candidate = formatPartNumber(format, sequence);
+
+    if (candidate.length > MAX_PART_NUMBER_LENGTH) {
+      throw new Error(`The ${keyName} sequence has run past the ${MAX_PART_NUMBER_LENGTH}-character part number limit.`);
+    }
+
+    const existing = await tx.partmaster.findUnique({ where: { PartNumber: candidate }, select: { PartNumber: true } });
+
+    if (!existing) {
+      await tx.$executeRaw`
+        UPDATE syskeys
+        SET SYSKEYMIN = ${sequence}, LASTFORMAT = ${candidate.length <= MAX_LAST_FORMAT_LENGTH ? candidate : null}
+        WHERE SYSKEYNAME = ${keyName}
+      `;
+
+      logger.debug('Reserved part number', { partTypeId, keyName, partNumber: candidate });
+      return candidate;
+    }
+  }
+
+  throw new Error(`Unable to find a free part number for ${keyName} after ${MAX_COLLISION_SKIPS} attempts.`);
+}
@@ -0,0 +1,442 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import type { CostBreakdown } from './costing.js';
+import { loadOnHandLots, type OnHandLot } from './inventory.js';
+
+export type OnHandLocation = {
+  departmentCode: string;
+  locationCode: string;
+  locationDescription: string;
+  quantity: number;
+  lotCount: number;
+};
+
+export type OpenPurchaseLine = {
+  poNumber: string;
+  line: string;
+  supplierId: string;
+  supplierName: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  openQuantity: number;
+  unitPrice: number | null;
+  requiredDate: string | null;
+  jobNumber: string;
+};
+
+export type OpenSalesLine = {
+  soNumber: string;
+  line: string;
+  customerId: string;
+  customerName: string;
+  quantityOrdered: number;
+  quantityShipped: number;
+  openQuantity: number;
+  scheduledShipDate: string | null;
+};
+
+export type OpenWorkOrder = {
+  woNumber: string;
+  jobNumber: string;
+  quantityRequired: number;
+  quantityCompleted: number;
+  openQuantity: number;
+  startDate: string | null;
+  requiredDate: string | null;
+};
+
+export type OpenWorkOrderIssue = {
+  woNumber: string;
+  issueId: number;
+  assembly: string;
+  quantityRequired: number;
+  quantityReleased: number;
+  openQuantity: number;
+  requiredDate: string | null;
+};
+
+export type PartCostComparison = {
+  standard: CostBreakdown;
+  actual: CostBreakdown;
+  // Actual minus standard per unit; positive means the part is costing more than planned.
+  variance: number;
+  variancePercent: number | null;
+  costRevisionDate: string | null;
+};
+
+export type PartOverviewAggregate = {
+  partNumber: string;
+  description: string;
+  revision: string;
+  stockUom: string;
+  status: string;
+  onHand: {
+    quantity: number;
+    lots: OnHandLot[];
+    locations: OnHandLocation[];
+  };
+  purchaseOrders: { openQuantity: number; lines: OpenPurchaseLine[] };
+  salesOrders: { openQuantity: number; lines: OpenSalesLine[] };
+  workOrders: {
+    supplyQuantity: number;
+    demandQuantity: number;
+    supply: OpenWorkOrder[];
+    demand: OpenWorkOrderIssue[];
+  };
+  // On hand plus open PO and WO supply, less open SO and WO demand.
+  projectedAvailable: number;
+  whereUsedCount: number;
+  lastTransactionDate: string | null;
+  cost: PartCostComparison;
+};
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'bigint' ? Number(value) : Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toOptionalNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : toNumber(value);
+}
+
+function toIsoString(value: Date | null | undefined): string | null {
+  return value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString() : null;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function buildBreakdown(values: Omit<CostBreakdown, 'total'>): CostBreakdown {
+  const breakdown = {
+    material: roundCost(values.material),
+    labor: roundCost(values.labor),
+    burden: roundCost(values.burden),
+    setup: roundCost(values.setup),
+    subcontract: roundCost(values.subcontract),
+  };
+
+  return { ...breakdown, total: roundCost(sum(Object.values(breakdown))) };
+}
+
+function summarizeLocations(lots: OnHandLot[]): OnHandLocation[] {
+  const locations = new Map<string, OnHandLocation>();
+
+  lots.forEach((lot) => {
+    const key = `${lot.departmentCode}\u0000${lot.locationCode}`;
+    const entry = locations.get(key) ?? {
+      departmentCode: lot.departmentCode,
+      locationCode: lot.locationCode,
+      locationDescription: lot.locationDescription,
+      quantity: 0,
+      lotCount: 0,
+    };
+
+    entry.quantity += lot.quantity;
+    entry.lotCount += 1;
+    locations.set(key, entry);
+  });
+
+  return Array.from(locations.values());
+}
+
+async function loadOpenPurchaseLines(partNumber: string): Promise<OpenPurchaseLine[]> {
+  const rows = await prisma.$queryRaw<
+    {
+      PONumber: string;
+      POLine: string;
+      SupplierID: string | null;
+      SupplierName: string | null;
+      QuantityOrdered: number | null;
+      QuantityReceived: number | null;
+      POUnitPrice: number | null;
+      RequiredDate: Date | null;
+      JobNumber: string | null;
+    }[]
+  >(Prisma.sql`
+    SELECT
+      pd.PONumber,
+      pd.POLine,
+      ph.SupplierID,
+      s.SupplierName,
+      pd.QuantityOrdered,
+      pd.QuantityReceived,
+      pd.POUnitPrice,
+      COALESCE(pd.RequiredDate, ph.RequiredDate) AS RequiredDate,
+      pd.JobNumber
+    FROM podetail pd
+    INNER JOIN poheader ph ON ph.PONumber = pd.PONumber
+    LEFT JOIN suppliers s ON s.SupplierID = ph.SupplierID
+    WHERE pd.PartNumber = ${partNumber}
+      AND COALESCE(pd.ClosedFlag, 0) = 0
+      AND COALESCE(ph.ClosedFlag, 0) = 0
+      AND COALESCE(pd.QuantityOrdered, 0) > COALESCE(pd.QuantityReceived, 0)
+    ORDER BY RequiredDate, pd.PONumber, pd.POLine
+  `);
+
+  return rows.map((row) => ({
+    poNumber: normalize(row.PONumber),
+    line: normalize(row.POLine),
+    supplierId: normalize(row.SupplierID),
+    supplierName: normalize(row.SupplierName),
+    quantityOrdered: toNumber(row.QuantityOrdered),
+    quantityReceived: toNumber(row.QuantityReceived),
+    openQuantity: toNumber(row.QuantityOrdered) - toNumber(row.QuantityReceived),
+    unitPrice: toOptionalNumber(row.POUnitPrice),
+    requiredDate: toIsoString(row.RequiredDate),
+    jobNumber: normalize(row.JobNumber),
+  }));
+}
+
+async function loadOpenSalesLines(partNumber: string): Promise<OpenSalesLine[]> {
+  const rows = await prisma.$queryRaw<
+    {
+      SONumber: string;
+      SOLine: string;
+      CustomerID: string | null;
+      CustomerName: string | null;
+      QuantityOrdered: number | null;
+      QuantityShipped: number | null;
+      ScheduledShipDate: Date | null;
+    }[]
+  >(Prisma.sql`
+    SELECT
+      sd.SONumber,
+      sd.SOLine,
+      sh.CustomerID,
+      c.CustomerName,
+      sd.QuantityOrdered,
+      sd.QuantityShipped,
+      COALESCE(sd.ScheduledShipDate, sh.RequiredDate) AS ScheduledShipDate
+    FROM sodetail sd
+    INNER JOIN soheader sh ON sh.SONumber = sd.SONumber
+    LEFT JOIN customers c ON c.CustomerID = sh.CustomerID
+    WHERE sd.PartNumber = ${partNumber}
+      AND COALESCE(sd.ClosedFlag, 0) = 0
+      AND COALESCE(sh.ClosedFlag, 0) = 0
+      AND COALESCE(sd.QuantityOrdered, 0) > COALESCE(sd.QuantityShipped, 0)
+    ORDER BY ScheduledShipDate, sd.SONumber, sd.SOLine
+  `);
+
+  return rows.map((row) => ({
+    soNumber: normalize(row.SONumber),
+    line: normalize(row.SOLine),
+    customerId: normalize(row.CustomerID),
+    customerName: normalize(row.CustomerName),
+    quantityOrdered: toNumber(row.QuantityOrdered),
+    quantityShipped: toNumber(row.QuantityShipped),
+    openQuantity: toNumber(row.QuantityOrdered) - toNumber(row.QuantityShipped),
+    scheduledShipDate: toIsoString(row.ScheduledShipDate),
+  }));
+}
+
+async function loadOpenWorkOrders(partNumber: string): Promise<OpenWorkOrder[]> {
+  const rows = await prisma.$queryRaw<
+    {
+      WONumber: string;
+      JobNumber: string | null;
+      QuantityRequired: number | null;
+      QuantityCompleted: number | null;
+      StartDate: Date | null;
+      RequiredDate: Date | null;
+    }[]
+  >(Prisma.sql`
+    SELECT WONumber, JobNumber, QuantityRequired, QuantityCompleted, StartDate, RequiredDate
+    FROM woheader
+    WHERE PartNumber = ${partNumber}
+      AND COALESCE(ClosedFlag, 0) = 0
+      AND COALESCE(QuantityRequired, 0) > COALESCE(QuantityCompleted, 0)
+    ORDER BY RequiredDate, WONumber
+  `);
+
+  return rows.map((row) => ({
+    woNumber: normalize(row.WONumber),
+    jobNumber: normalize(row.JobNumber),
+    quantityRequired: toNumber(row.QuantityRequired),
+    quantityCompleted: toNumber(row.QuantityCompleted),
+    openQuantity: toNumber(row.QuantityRequired) - toNumber(row.QuantityCompleted),
+    startDate: toIsoString(row.StartDate),
+    requiredDate: toIsoString(row.RequiredDate),
+  }));
+}
+
+/** Component requirements on open work orders that have not been issued to the floor yet. */
+async function loadOpenWorkOrderIssues(partNumber: string): Promise<OpenWorkOrderIssue[]> {
+  const rows = await prisma.$queryRaw<
+    {
+      WONumber: string;
+      IssueID: number;
+      Assembly: string | null;
+      QuantityRequired: number | null;
+      QuantityReleased: number | null;
+      RequiredDate: Date | null;
+    }[]
+  >(Prisma.sql`
+    SELECT
+      wi.WONumber,
+      wi.IssueID,
+      wo.PartNumber AS Assembly,
+      wi.QuantityRequired,
+      wi.QuantityReleased,
+      COALESCE(wo.StartDate, wo.RequiredDate) AS RequiredDate
+    FROM wipissues wi
+    INNER JOIN woheader wo ON wo.WONumber = wi.WONumber
+    WHERE wi.PartNumber = ${partNumber}
+      AND COALESCE(wo.ClosedFlag, 0) = 0
+      AND COALESCE(wi.QuantityRequired, 0) > COALESCE(wi.QuantityReleased, 0)
+    ORDER BY RequiredDate, wi.WONumber, wi.IssueID
+  `);
+
+  return rows.map((row) => ({
+    woNumber: normalize(row.WONumber),
+    issueId: toNumber(row.IssueID),
+    assembly: normalize(row.Assembly),
+    quantityRequired: toNumber(row.QuantityRequired),
+    quantityReleased: toNumber(row.QuantityReleased),
+    openQuantity: toNumber(row.QuantityRequired) - toNumber(row.QuantityReleased),
+    requiredDate: toIsoString(row.RequiredDate),
+  }));
+}
+
+async function countWhereUsed(partNumber: string): Promise<number> {
+  const [row] = await prisma.$queryRaw<{ count: bigint | number }[]>(Prisma.sql`
+    SELECT COUNT(DISTINCT Assembly) AS count
+    FROM bom
+    WHERE Component = ${partNumber}
+      AND (EffectiveDate IS NULL OR EffectiveDate <= NOW())
+      AND (ObsoleteDate IS NULL OR ObsoleteDate > NOW())
+  `);
+
+  return toNumber(row?.count);
+}
+
+/**
+ * partmaster.LastXactionDate is only maintained by some of the legacy screens, so the latest
+ * posted inventory transaction wins when it is more recent.
+ */
+async function loadLastTransactionDate(partNumber: string, recorded: Date | null): Promise<string | null> {
+  const [row] = await prisma.$queryRaw<{ lastDate: Date | null }[]>(Prisma.sql`
+    SELECT MAX(th.TransactionDate) AS lastDate
+    FROM transactiondetail td
+    INNER JOIN transactionheader th ON th.TransactionGroup = td.TransactionGroup
+    WHERE td.PartNumber = ${partNumber}
+  `);
+
+  const posted = row?.lastDate ?? null;
+
+  if (!posted) {
+    return toIsoString(recorded);
+  }
+
+  return toIsoString(recorded && recorded > posted ? recorded : posted);
+}
+
+/**
+ * Everything a planner needs to answer "can we build it" for one part: stock by lot and bin,
+ * open supply and demand from purchasing, sales and the shop floor, BOM usage, activity and
+ * cost. Returns null when the part does not exist.
+ */
+export async function getPartOverviewAggregate(partNumber: string): Promise<PartOverviewAggregate | null> {
+  const trimmed = normalize(partNumber);
+
+  if (!trimmed) {
+    return null;
+  }
+
+  const part = await prisma.partmaster.findUnique({ where: { PartNumber: trimmed } });
+
+  if (!part) {
+    return null;
+  }
+
+  const [lots, purchaseLines, salesLines, workOrders, workOrderIssues, whereUsedCount, lastTransactionDate] =
+    await Promise.all([
+      loadOnHandLots(part.PartNumber),
+      loadOpenPurchaseLines(part.PartNumber),
+      loadOpenSalesLines(part.PartNumber),
+      loadOpenWorkOrders(part.PartNumber),
+      loadOpenWorkOrderIssues(part.PartNumber),
+      countWhereUsed(part.PartNumber),
+      loadLastTransactionDate(part.PartNumber, part.LastXactionDate),
+    ]);
+
+  const onHandQuantity = sum(lots.map((lot) => lot.quantity));
+  const purchaseQuantity = sum(purchaseLines.map((line) => line.openQuantity));
+  const salesQuantity = sum(salesLines.map((line) => line.openQuantity));
+  const supplyQuantity = sum(workOrders.map((order) => order.openQuantity));
+  const demandQuantity = sum(workOrderIssues.map((issue) => issue.openQuantity));
+
+  const standard = buildBreakdown({
+    material: toNumber(part.STDMaterialCost),
+    labor: toNumber(part.STDLaborCost),
+    burden: toNumber(part.STDBurdenCost),
+    setup: toNumber(part.STDSetUpCost),
+    subcontract: toNumber(part.STDSubContCost),
+  });
+  const actual = buildBreakdown({
+    material: toNumber(part.MaterialCost),
+    labor: toNumber(part.LaborCost),
+    burden: toNumber(part.BurdenCost),
+    setup: toNumber(part.SetUpCost),
+    subcontract: toNumber(part.SubContCost),
+  });
+  const variance = roundCost(actual.total - standard.total);
+
+  logger.debug('Built part overview aggregate', {
+    partNumber: part.PartNumber,
+    lots: lots.length,
+    purchaseLines: purchaseLines.length,
+    salesLines: salesLines.length,
+    workOrders: workOrders.length,
+    workOrderIssues: workOrderIssues.length,
+  });
+
+  return {
+    partNumber: part.PartNumber,
+    description: normalize(part.DescText),
+    revision: normalize(part.Revision),
+    stockUom: normalize(part.StockUOM),
+    status: normalize(part.ISC),
+    onHand: {
+      quantity: onHandQuantity,
+      lots,
+      locations: summarizeLocations(lots),
+    },
+    purchaseOrders: { openQuantity: purchaseQuantity, lines: purchaseLines },
+    salesOrders: { openQuantity: salesQuantity, lines: salesLines },
+    workOrders: {
+      supplyQuantity,
+      demandQuantity,
+      supply: workOrders,
+      demand: workOrderIssues,
+    },
+    projectedAvailable: onHandQuantity + purchaseQuantity + supplyQuantity - salesQuantity - demandQuantity,
+    whereUsedCount,
+    lastTransactionDate,
+    cost: {
+      standard,
+      actual,
+      variance,
+      variancePercent: standard.total !== 0 ? roundCost((variance / standard.total) * 100) : null,
+      costRevisionDate: toIsoString(part.CostRevisionDate),
+    },
+  };
+}
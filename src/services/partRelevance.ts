@@ -0,0 +1,394 @@
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '../lib/prisma.js';
+
+export type PartMatchKind =
+  | 'exact'
+  | 'prefix'
+  | 'collapsed'
+  | 'contains'
+  | 'manufacturerExact'
+  | 'manufacturerPrefix'
+  | 'manufacturerContains'
+  | 'descriptionPhrase'
+  | 'descriptionTokens'
+  | 'fuzzy';
+
+export type PartMatchField = 'partNumber' | 'manufacturerPartNumber' | 'description';
+
+export type PartSearchMatch = {
+  field: PartMatchField;
+  kind: PartMatchKind;
+  value: string;
+  highlights: { start: number; length: number }[];
+};
+
+// Scores are tiers rather than a continuous weight so that ties fall back to part number order
+// and an exact hit can never be outranked by a pile of weaker matches.
+export const RELEVANCE_SCORES: Record<PartMatchKind, number> = {
+  exact: 100,
+  manufacturerExact: 95,
+  prefix: 80,
+  manufacturerPrefix: 75,
+  collapsed: 70,
+  contains: 60,
+  descriptionPhrase: 55,
+  manufacturerContains: 50,
+  descriptionTokens: 40,
+  fuzzy: 30,
+};
+
+const FUZZY_DISTANCE_PENALTY = 10;
+const FUZZY_CANDIDATE_LIMIT = 200;
+const MIN_FUZZY_LENGTH = 4;
+
+export type RelevanceQuery = {
+  raw: string;
+  lower: string;
+  collapsed: string;
+  tokens: string[];
+};
+
+export type FuzzyPartMatches = Map<string, number>;
+
+export function toRelevanceQuery(value: string): RelevanceQuery | null {
+  const raw = value.trim().replace(/\s+/g, ' ');
+
+  if (!raw) {
+    return null;
+  }
+
+  const lower = raw.toLowerCase();
+  const tokens = Array.from(new Set(lower.split(/[^a-z0-9.]+/).filter((token) => token.length > 0)));
+
+  return { raw, lower, collapsed: collapseText(lower), tokens };
+}
+
+export function collapseText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function collapseSql(expression: Prisma.Sql): Prisma.Sql {
+  let collapsed = Prisma.sql`LOWER(${expression})`;
+
+  for (const character of ['-', ' ', '.', '/', '_', ',']) {
+    collapsed = Prisma.sql`REPLACE(${collapsed}, ${character}, '')`;
+  }
+
+  return collapsed;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (character) => `\\${character}`);
+}
+
+function buildTokenClause(expression: Prisma.Sql, tokens: string[]): Prisma.Sql {
+  if (tokens.length === 0) {
+    return Prisma.sql`FALSE`;
+  }
+
+  return Prisma.join(
+    tokens.map((token) => Prisma.sql`LOWER(${expression}) LIKE ${`%${escapeLike(token)}%`}`),
+    ' AND ',
+  );
+}
+
+/**
+ * Bounded Levenshtein distance; returns `limit + 1` as soon as the distance is known to exceed
+ * the limit so scanning a whole part master stays cheap.
+ */
+export function editDistance(left: string, right: string, limit: number): number {
+  if (Math.abs(left.length - right.length) > limit) {
+    return limit + 1;
+  }
+
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+
+  for (let row = 1; row <= left.length; row += 1) {
+    const current = [row];
+    let rowMinimum = row;
+
+    for (let column = 1; column <= right.length; column += 1) {
+      const cost = left[row - 1] === right[column - 1] ? 0 : 1;
+      const value = Math.min(previous[column] + 1, current[column - 1] + 1, previous[column - 1] + cost);
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+
+    if (rowMinimum > limit) {
+      return limit + 1;
+    }
+
+    previous = current;
+  }
+
+  return previous[right.length];
+}
+
+function resolveFuzzyLimit(query: RelevanceQuery): number {
+  if (query.collapsed.length < MIN_FUZZY_LENGTH) {
+    return 0;
+  }
+
+  return query.collapsed.length <= 8 ? 1 : 2;
+}
+
+/**
+ * Finds part numbers within a small edit distance of the query. MySQL has no edit distance
+ * function, so candidates of a similar collapsed length are scored here and handed back to the
+ * search query as explicit lists.
+ */
+export async function findFuzzyPartNumbers(query: RelevanceQuery): Promise<FuzzyPartMatches> {
+  const limit = resolveFuzzyLimit(query);
+  const matches: FuzzyPartMatches = new Map();
+
+  if (limit === 0) {
+    return matches;
+  }
+
+  const collapsedPartNumber = collapseSql(Prisma.sql`pm.PartNumber`);
+  const candidates = await prisma.$queryRaw<{ PartNumber: string }[]>(Prisma.sql`
+    SELECT pm.PartNumber
+    FROM partmaster pm
+    WHERE CHAR_LENGTH(${collapsedPartNumber}) BETWEEN ${query.collapsed.length - limit} AND ${
+      query.collapsed.length + limit
+    }
+  `);
+
+  const scored: { partNumber: string; distance: number }[] = [];
+
+  for (const candidate of candidates) {
+    const partNumber = typeof candidate.PartNumber === 'string' ? candidate.PartNumber : '';
+    const distance = editDistance(collapseText(partNumber), query.collapsed, limit);
+
+    if (distance > 0 && distance <= limit) {
+      scored.push({ partNumber, distance });
+    }
+  }
+
+  scored
+    .sort((a, b) => a.distance - b.distance || a.partNumber.localeCompare(b.partNumber))
+    .slice(0, FUZZY_CANDIDATE_LIMIT)
+    .forEach((entry) => matches.set(entry.partNumber, entry.distance));
+
+  return matches;
+}
+
+function fuzzyScore(distance: number): number {
+  return Math.max(RELEVANCE_SCORES.fuzzy - (distance - 1) * FUZZY_DISTANCE_PENALTY, 1);
+}
+
+/**
+ * Scores a part against the part number search box: the part number itself, its manufacturer
+ * part numbers from partxreference, description tokens and fuzzy part number matches. A score of
+ * zero means the part does not match at all, so the expression doubles as the filter.
+ */
+export function buildPartNumberScoreSql(query: RelevanceQuery, fuzzy: FuzzyPartMatches): Prisma.Sql {
+  const partNumber = Prisma.sql`pm.PartNumber`;
+  const collapsedPartNumber = collapseSql(partNumber);
+  const xrefNumber = Prisma.sql`px.PartXReference`;
+  const collapsedXref = collapseSql(xrefNumber);
+  const prefix = `${escapeLike(query.lower)}%`;
+  const contains = `%${escapeLike(query.lower)}%`;
+  const collapsedContains = `%${escapeLike(query.collapsed || query.lower)}%`;
+
+  const fuzzyGroups = new Map<number, string[]>();
+  fuzzy.forEach((distance, match) => {
+    const group = fuzzyGroups.get(distance) ?? [];
+    group.push(match);
+    fuzzyGroups.set(distance, group);
+  });
+
+  const fuzzyCases = Array.from(fuzzyGroups.entries())
+    .sort(([left], [right]) => left - right)
+    .map(([distance, matches]) => Prisma.sql`WHEN pm.PartNumber IN (${Prisma.join(matches)}) THEN ${fuzzyScore(distance)}`);
+
+  return Prisma.sql`GREATEST(
+    CASE
+      WHEN LOWER(${partNumber}) = ${query.lower} THEN ${RELEVANCE_SCORES.exact}
+      WHEN LOWER(${partNumber}) LIKE ${prefix} THEN ${RELEVANCE_SCORES.prefix}
+      WHEN ${collapsedPartNumber} = ${query.collapsed} THEN ${RELEVANCE_SCORES.collapsed}
+      WHEN LOWER(${partNumber}) LIKE ${contains} OR ${collapsedPartNumber} LIKE ${collapsedContains}
+        THEN ${RELEVANCE_SCORES.contains}
+      ELSE 0
+    END,
+    COALESCE((
+      SELECT MAX(
+        CASE
+          WHEN LOWER(${xrefNumber}) = ${query.lower} THEN ${RELEVANCE_SCORES.manufacturerExact}
+          WHEN LOWER(${xrefNumber}) LIKE ${prefix} THEN ${RELEVANCE_SCORES.manufacturerPrefix}
+          WHEN LOWER(${xrefNumber}) LIKE ${contains} OR ${collapsedXref} LIKE ${collapsedContains}
+            THEN ${RELEVANCE_SCORES.manufacturerContains}
+          ELSE 0
+        END
+      )
+      FROM partxreference px
+      WHERE px.PartNumber = pm.PartNumber
+    ), 0),
+    CASE WHEN ${buildTokenClause(Prisma.sql`COALESCE(pm.DescText, '')`, query.tokens)} THEN ${
+      RELEVANCE_SCORES.descriptionTokens
+    } ELSE 0 END,
+    ${fuzzyCases.length > 0 ? Prisma.sql`CASE ${Prisma.join(fuzzyCases, ' ')} ELSE 0 END` : Prisma.sql`0`}
+  )`;
+}
+
+export function buildDescriptionScoreSql(query: RelevanceQuery): Prisma.Sql {
+  const description = Prisma.sql`COALESCE(pm.DescText, '')`;
+  const collapsedContains = `%${escapeLike(query.collapsed || query.lower)}%`;
+
+  return Prisma.sql`
+    CASE
+      WHEN LOWER(${description}) LIKE ${`%${escapeLike(query.lower)}%`} THEN ${RELEVANCE_SCORES.descriptionPhrase}
+      WHEN ${buildTokenClause(description, query.tokens)} THEN ${RELEVANCE_SCORES.descriptionTokens}
+      WHEN ${collapseSql(description)} LIKE ${collapsedContains} THEN ${RELEVANCE_SCORES.descriptionTokens}
+      ELSE 0
+    END
+  `;
+}
+
+// Picks the manufacturer number that explains the match so the result can show it.
+export function buildMatchedXrefSql(query: RelevanceQuery): Prisma.Sql {
+  const collapsedXref = collapseSql(Prisma.sql`px.PartXReference`);
+  const contains = `%${escapeLike(query.lower)}%`;
+  const collapsedContains = `%${escapeLike(query.collapsed || query.lower)}%`;
+
+  return Prisma.sql`(
+    SELECT px.PartXReference
+    FROM partxreference px
+    WHERE px.PartNumber = pm.PartNumber
+      AND (LOWER(px.PartXReference) LIKE ${contains} OR ${collapsedXref} LIKE ${collapsedContains})
+    ORDER BY LOWER(px.PartXReference) = ${query.lower} DESC, CHAR_LENGTH(px.PartXReference) ASC
+    LIMIT 1
+  )`;
+}
+
+function findRanges(value: string, needle: string): { start: number; length: number }[] {
+  if (!needle) {
+    return [];
+  }
+
+  const index = value.toLowerCase().indexOf(needle);
+  return index >= 0 ? [{ start: index, length: needle.length }] : [];
+}
+
+// Maps a match on the punctuation-free form back onto the original characters.
+function findCollapsedRanges(value: string, collapsedNeedle: string): { start: number; length: number }[] {
+  const positions: number[] = [];
+  let collapsed = '';
+
+  Array.from(value.toLowerCase()).forEach((character, index) => {
+    if (/[a-z0-9]/.test(character)) {
+      positions.push(index);
+      collapsed += character;
+    }
+  });
+
+  const index = collapsedNeedle ? collapsed.indexOf(collapsedNeedle) : -1;
+
+  if (index < 0) {
+    return [];
+  }
+
+  const start = positions[index];
+  const end = positions[index + collapsedNeedle.length - 1];
+  return [{ start, length: end - start + 1 }];
+}
+
+function findTokenRanges(value: string, tokens: string[]): { start: number; length: number }[] {
+  return tokens
+    .flatMap((token) => findRanges(value, token))
+    .sort((a, b) => a.start - b.start);
+}
+
+function resolveTextMatch(
+  field: PartMatchField,
+  value: string,
+  query: RelevanceQuery,
+): PartSearchMatch | null {
+  const lower = value.toLowerCase();
+  const manufacturer = field === 'manufacturerPartNumber';
+
+  if (lower === query.lower) {
+    return {
+      field,
+      kind: manufacturer ? 'manufacturerExact' : 'exact',
+      value,
+      highlights: [{ start: 0, length: value.length }],
+    };
+  }
+
+  if (lower.startsWith(query.lower)) {
+    return { field, kind: manufacturer ? 'manufacturerPrefix' : 'prefix', value, highlights: findRanges(value, query.lower) };
+  }
+
+  if (!manufacturer && query.collapsed && collapseText(value) === query.collapsed) {
+    return { field, kind: 'collapsed', value, highlights: [{ start: 0, length: value.length }] };
+  }
+
+  const ranges = findRanges(value, query.lower);
+  const highlights = ranges.length > 0 ? ranges : findCollapsedRanges(value, query.collapsed);
+
+  if (highlights.length > 0) {
+    return { field, kind: manufacturer ? 'manufacturerContains' : 'contains', value, highlights };
+  }
+
+  return null;
+}
+
+function resolveDescriptionMatch(description: string, query: RelevanceQuery): PartSearchMatch | null {
+  const phrase = findRanges(description, query.lower);
+
+  if (phrase.length > 0) {
+    return { field: 'description', kind: 'descriptionPhrase', value: description, highlights: phrase };
+  }
+
+  const tokens = findTokenRanges(description, query.tokens);
+
+  if (tokens.length > 0 && tokens.length >= query.tokens.length) {
+    return { field: 'description', kind: 'descriptionTokens', value: description, highlights: tokens };
+  }
+
+  const collapsed = findCollapsedRanges(description, query.collapsed);
+  return collapsed.length > 0
+    ? { field: 'description', kind: 'descriptionTokens', value: description, highlights: collapsed }
+    : null;
+}
+
+/**
+ * Explains why a row matched, mirroring the SQL tiers, so the caller can highlight the field
+ * that earned the score.
+ */
+export function describePartMatch(
+  row: { partNumber: string; description: string; matchedXref: string },
+  partQuery: RelevanceQuery | null,
+  descriptionQuery: RelevanceQuery | null,
+  fuzzy: FuzzyPartMatches,
+): PartSearchMatch | null {
+  if (!partQuery) {
+    return descriptionQuery ? resolveDescriptionMatch(row.description, descriptionQuery) : null;
+  }
+
+  const candidates = [
+    resolveTextMatch('partNumber', row.partNumber, partQuery),
+    row.matchedXref ? resolveTextMatch('manufacturerPartNumber', row.matchedXref, partQuery) : null,
+  ].filter((entry): entry is PartSearchMatch => entry !== null);
+
+  const tokenRanges = findTokenRanges(row.description, partQuery.tokens);
+  if (partQuery.tokens.length > 0 && tokenRanges.length >= partQuery.tokens.length) {
+    candidates.push({ field: 'description', kind: 'descriptionTokens', value: row.description, highlights: tokenRanges });
+  }
+
+  if (fuzzy.has(row.partNumber)) {
+    candidates.push({
+      field: 'partNumber',
+      kind: 'fuzzy',
+      value: row.partNumber,
+      highlights: [{ start: 0, length: row.partNumber.length }],
+    });
+  }
+
+  return candidates.reduce<PartSearchMatch | null>(
+    (best, candidate) => (!best || RELEVANCE_SCORES[candidate.kind] > RELEVANCE_SCORES[best.kind] ? candidate : best),
+    null,
+  );
+}
@@ -0,0 +1,464 @@
+import { Prisma, type partxreference_status } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+
+export type PartSourceStatus = 'Not Known' | 'In Production' | 'Not For New Designs' | 'Last Time Buy' | 'Obsolete';
+
+export type PartSource = {
+  partNumber: string;
+  manufacturerPartNumber: string;
+  supplierId: string;
+  supplierName: string;
+  description: string;
+  status: PartSourceStatus;
+  approved: boolean;
+  price: number | null;
+  leadTime: number | null;
+  rating: number | null;
+  obsoleteDate: string | null;
+  retired: boolean;
+  // 1 is the preferred source; null for retired or obsolete sources, which are never ranked.
+  rank: number | null;
+  score: number | null;
+};
+
+export type PartSourceKey = {
+  manufacturerPartNumber?: string;
+  supplierId?: string;
+};
+
+export type PartSourcePayload = PartSourceKey & {
+  description?: string | null;
+  status?: string | null;
+  approved?: boolean;
+  price?: number | string | null;
+  leadTime?: number | string | null;
+  rating?: number | string | null;
+  obsoleteDate?: string | null;
+};
+
+export type SourceRankingWeights = {
+  price: number;
+  leadTime: number;
+  rating: number;
+};
+
+export type PartSourceListOptions = {
+  includeRetired?: boolean;
+  weights?: Partial<SourceRankingWeights>;
+};
+
+type SourceRecord = Prisma.partxreferenceGetPayload<{ include: { suppliers: { select: { SupplierName: true } } } }>;
+
+// Plain column values, so the same fields serve both a create and an update.
+type SourceFields = Pick<
+  Prisma.partxreferenceUncheckedCreateInput,
+  'XRefDescText' | 'status' | 'ApprovedSource' | 'SupplierPrice' | 'SupplierLeadtime' | 'SupplierRating' | 'ObsoleteDate'
+>;
+
+const STATUS_LABELS: Record<partxreference_status, PartSourceStatus> = {
+  Not_Known: 'Not Known',
+  In_Production: 'In Production',
+  Not_For_New_Designs: 'Not For New Designs',
+  Last_Time_Buy: 'Last Time Buy',
+  Obsolete: 'Obsolete',
+};
+
+// Statuses that discourage new buys; such sources rank after the others with the same approval.
+const DISCOURAGED_STATUSES = new Set<partxreference_status>(['Not_For_New_Designs', 'Last_Time_Buy']);
+
+const DEFAULT_WEIGHTS: SourceRankingWeights = { price: 0.5, leadTime: 0.3, rating: 0.2 };
+const MAX_PART_XREFERENCE_LENGTH = 40;
+const MAX_SUPPLIER_ID_LENGTH = 15;
+const MAX_DESCRIPTION_LENGTH = 60;
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function toDateOnly(value: Date | null | undefined): string | null {
+  return value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString().slice(0, 10) : null;
+}
+
+function startOfToday(): Date {
+  const today = new Date();
+  return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+}
+
+function parseStatus(value: unknown): partxreference_status {
+  const key = normalize(value).toLowerCase().replace(/[^a-z]/g, '');
+  const match = (Object.keys(STATUS_LABELS) as partxreference_status[]).find(
+    (status) => status.toLowerCase().replace(/[^a-z]/g, '') === key,
+  );
+
+  if (!match) {
+    throw new Error(`Status must be one of: ${Object.values(STATUS_LABELS).join(', ')}`);
+  }
+
+  return match;
+}
+
+function parseOptionalNumber(value: unknown, label: string): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const parsed = typeof value === 'number' ? value : Number.parseFloat(String(value));
+
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${label} must be a non-negative number.`);
+  }
+
+  return parsed;
+}
+
+function parseOptionalDate(value: string | null | undefined, label: string): Date | null {
+  const text = normalize(value);
+
+  if (!text) {
+    return null;
+  }
+
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${label} must be a valid date.`);
+  }
+
+  return date;
+}
+
+function readKey(payload: PartSourceKey): { manufacturerPartNumber: string; supplierId: string } {
+  const manufacturerPartNumber = normalize(payload.manufacturerPartNumber);
+  const supplierId = normalize(payload.supplierId);
+
+  if (!manufacturerPartNumber) {
+    throw new Error('Manufacturer part number is required.');
+  }
+
+  if (manufacturerPartNumber.length > MAX_PART_XREFERENCE_LENGTH) {
+    throw new Error(`Manufacturer part number must be ${MAX_PART_XREFERENCE_LENGTH} characters or fewer.`);
+  }
+
+  if (!supplierId) {
+    throw new Error('Supplier ID is required.');
+  }
+
+  if (supplierId.length > MAX_SUPPLIER_ID_LENGTH) {
+    throw new Error(`Supplier ID must be ${MAX_SUPPLIER_ID_LENGTH} characters or fewer.`);
+  }
+
+  return { manufacturerPartNumber, supplierId };
+}
+
+function buildSourceData(payload: PartSourcePayload): SourceFields {
+  const data: SourceFields = {};
+
+  if (payload.description !== undefined) {
+    const description = normalize(payload.description);
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Description must be ${MAX_DESCRIPTION_LENGTH} characters or fewer.`);
+    }
+    data.XRefDescText = description || null;
+  }
+
+  if (payload.status !== undefined && payload.status !== null && payload.status !== '') {
+    data.status = parseStatus(payload.status);
+  }
+
+  if (payload.approved !== undefined) {
+    data.ApprovedSource = payload.approved === true;
+  }
+
+  if (payload.price !== undefined) {
+    data.SupplierPrice = parseOptionalNumber(payload.price, 'Price');
+  }
+
+  if (payload.leadTime !== undefined) {
+    data.SupplierLeadtime = parseOptionalNumber(payload.leadTime, 'Lead time');
+  }
+
+  if (payload.rating !== undefined) {
+    data.SupplierRating = parseOptionalNumber(payload.rating, 'Rating');
+  }
+
+  if (payload.obsoleteDate !== undefined) {
+    data.ObsoleteDate = parseOptionalDate(payload.obsoleteDate, 'Obsolete date');
+  }
+
+  return data;
+}
+
+function resolveWeights(weights: Partial<SourceRankingWeights> | undefined): SourceRankingWeights {
+  const resolved = { ...DEFAULT_WEIGHTS };
+
+  (Object.keys(DEFAULT_WEIGHTS) as (keyof SourceRankingWeights)[]).forEach((key) => {
+    const value = weights?.[key];
+    if (value !== undefined) {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`The ${key} weight must be a non-negative number.`);
+      }
+      resolved[key] = value;
+    }
+  });
+
+  if (resolved.price + resolved.leadTime + resolved.rating === 0) {
+    throw new Error('At least one ranking weight must be greater than zero.');
+  }
+
+  return resolved;
+}
+
+// Scales each value to 0..1 across the candidates, 1 being best. Missing values score 0, so an
+// unquoted price or lead time counts as the worst one on offer.
+function scaleMetric(values: (number | null)[], lowerIsBetter: boolean): number[] {
+  const known = values.filter((value): value is number => value !== null);
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+
+  return values.map((value) => {
+    if (value === null) {
+      return 0;
+    }
+
+    if (max === min) {
+      return 1;
+    }
+
+    return lowerIsBetter ? (max - value) / (max - min) : (value - min) / (max - min);
+  });
+}
+
+function isRetired(record: SourceRecord, today: Date): boolean {
+  return record.ObsoleteDate !== null && record.ObsoleteDate <= today;
+}
+
+/**
+ * Orders sources the way a buyer would pick them: approved sources first, sources marked Not For
+ * New Designs or Last Time Buy after the others, then by a weighted score of price and lead time (lower is better)
+ * and supplier rating (higher is better). Retired and obsolete sources are listed last, unranked.
+ */
+function rankSources(records: SourceRecord[], weights: SourceRankingWeights): PartSource[] {
+  const today = startOfToday();
+  const rankable = records.filter((record) => !isRetired(record, today) && record.status !== 'Obsolete');
+  const prices = scaleMetric(rankable.map((record) => record.SupplierPrice), true);
+  const leadTimes = scaleMetric(rankable.map((record) => record.SupplierLeadtime), true);
+  const ratings = scaleMetric(rankable.map((record) => record.SupplierRating), false);
+  const totalWeight = weights.price + weights.leadTime + weights.rating;
+  const scores = new Map(
+    rankable.map((record, index) => [
+      record,
+      Math.round(
+        ((weights.price * prices[index] + weights.leadTime * leadTimes[index] + weights.rating * ratings[index]) /
+          totalWeight) *
+          1000,
+      ) / 1000,
+    ]),
+  );
+
+  const ordered = [...rankable].sort(
+    (a, b) =>
+      Number(Boolean(b.ApprovedSource)) - Number(Boolean(a.ApprovedSource)) ||
+      Number(DISCOURAGED_STATUSES.has(a.status ?? 'Not_Known')) - Number(DISCOURAGED_STATUSES.has(b.status ?? 'Not_Known')) ||
+      (scores.get(b) ?? 0) - (scores.get(a) ?? 0) ||
+      a.PartXReference.localeCompare(b.PartXReference),
+  );
+  const unranked = records
+    .filter((record) => !scores.has(record))
+    .sort((a, b) => a.PartXReference.localeCompare(b.PartXReference));
+
+  return [...ordered, ...unranked].map((record) => {
+    const rank = ordered.indexOf(record);
+
+    return {
+      partNumber: record.PartNumber,
+      manufacturerPartNumber: record.PartXReference,
+      supplierId: record.SupplierID,
+      supplierName: normalize(record.suppliers?.SupplierName),
+      description: normalize(record.XRefDescText),
+      status: STATUS_LABELS[record.status ?? 'Not_Known'],
+      approved: Boolean(record.ApprovedSource),
+      price: record.SupplierPrice,
+      leadTime: record.SupplierLeadtime,
+      rating: record.SupplierRating,
+      obsoleteDate: toDateOnly(record.ObsoleteDate),
+      retired: isRetired(record, today),
+      rank: rank >= 0 ? rank + 1 : null,
+      score: scores.get(record) ?? null,
+    };
+  });
+}
+
+async function assertPartExists(partNumber: string): Promise<void> {
+  const part = await prisma.partmaster.findUnique({ where: { PartNumber: partNumber }, select: { PartNumber: true } });
+
+  if (!part) {
+    throw new Error(`Part ${partNumber} does not exist.`);
+  }
+}
+
+async function findSource(partNumber: string, key: PartSourceKey): Promise<PartSource> {
+  const { manufacturerPartNumber, supplierId } = readKey(key);
+  const sources = await listPartSources(partNumber, { includeRetired: true });
+  const source = sources.find(
+    (entry) => entry.manufacturerPartNumber === manufacturerPartNumber && entry.supplierId === supplierId,
+  );
+
+  if (!source) {
+    throw new Error(`Source ${manufacturerPartNumber} from supplier ${supplierId} does not exist for part ${partNumber}.`);
+  }
+
+  return source;
+}
+
+/** The approved vendor list for a part, ranked by preference. Retired sources are opt-in. */
+export async function listPartSources(partNumber: string, options: PartSourceListOptions = {}): Promise<PartSource[]> {
+  const trimmed = normalize(partNumber);
+  const weights = resolveWeights(options.weights);
+  const records = await prisma.partxreference.findMany({
+    where: { PartNumber: trimmed },
+    include: { suppliers: { select: { SupplierName: true } } },
+  });
+  const ranked = rankSources(records, weights);
+
+  return options.includeRetired ? ranked : ranked.filter((source) => !source.retired);
+}
+
+/**
+ * The legacy schema requires every partxreference row to match a podetail line and an sodetail
+ * line on (PartNumber, PartXReference), so a source can only be recorded once the manufacturer
+ * part number has been both bought and sold. Checked up front so the caller gets a clear conflict.
+ */
+async function assertLegacyOrderLinesExist(partNumber: string, manufacturerPartNumber: string): Promise<void> {
+  const where = { PartNumber: partNumber, PartXReference: manufacturerPartNumber };
+  const [purchaseLine, salesLine] = await Promise.all([
+    prisma.podetail.findFirst({ where, select: { PONumber: true } }),
+    prisma.sodetail.findFirst({ where, select: { SONumber: true } }),
+  ]);
+  const missing = [
+    purchaseLine ? null : 'a purchase order line (fk_PartXReference_PODetail_111_po)',
+    salesLine ? null : 'a sales order line (fk_PartXReference_SODetail_111_so)',
+  ].filter((entry): entry is string => entry !== null);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Source ${manufacturerPartNumber} cannot be added for part ${partNumber}; the legacy schema requires ${missing.join(' and ')} that already uses it.`,
+    );
+  }
+}
+
+export async function addPartSource(partNumber: string, payload: PartSourcePayload): Promise<PartSource> {
+  const trimmed = normalize(partNumber);
+  const key = readKey(payload);
+  const data = buildSourceData(payload);
+
+  await assertPartExists(trimmed);
+
+  const supplier = await prisma.suppliers.findUnique({ where: { SupplierID: key.supplierId }, select: { SupplierID: true } });
+  if (!supplier) {
+    throw new Error(`Supplier ${key.supplierId} does not exist.`);
+  }
+
+  const existing = await prisma.partxreference.findUnique({
+    where: {
+      PartNumber_PartXReference_SupplierID: {
+        PartNumber: trimmed,
+        PartXReference: key.manufacturerPartNumber,
+        SupplierID: key.supplierId,
+      },
+    },
+    select: { ObsoleteDate: true },
+  });
+
+  if (existing) {
+    throw new Error(
+      existing.ObsoleteDate
+        ? `Source ${key.manufacturerPartNumber} from supplier ${key.supplierId} already exists but is retired; update it to reinstate it.`
+        : `Source ${key.manufacturerPartNumber} from supplier ${key.supplierId} already exists for part ${trimmed}.`,
+    );
+  }
+
+  await assertLegacyOrderLinesExist(trimmed, key.manufacturerPartNumber);
+
+  await prisma.partxreference.create({
+    data: {
+      ...data,
+      PartNumber: trimmed,
+      PartXReference: key.manufacturerPartNumber,
+      SupplierID: key.supplierId,
+    },
+  });
+
+  logger.info('Part source added', { partNumber: trimmed, ...key });
+  return findSource(trimmed, key);
+}
+
+/**
+ * Updates a source in place: marks it approved, refreshes its price, lead time or rating, or
+ * reinstates a retired source with obsoleteDate: null.
+ */
+export async function updatePartSource(partNumber: string, payload: PartSourcePayload): Promise<PartSource> {
+  const trimmed = normalize(partNumber);
+  const key = readKey(payload);
+  const data = buildSourceData(payload);
+
+  await findSource(trimmed, key);
+
+  if (Object.keys(data).length > 0) {
+    await prisma.partxreference.update({
+      where: {
+        PartNumber_PartXReference_SupplierID: {
+          PartNumber: trimmed,
+          PartXReference: key.manufacturerPartNumber,
+          SupplierID: key.supplierId,
+        },
+      },
+      data,
+    });
+  }
+
+  logger.info('Part source updated', { partNumber: trimmed, ...key, fields: Object.keys(data) });
+  return findSource(trimmed, key);
+}
+
+/**
+ * Retires a source from the given date (today by default). The row is kept, and no longer
+ * approved, so purchase and sales history that references the manufacturer part number stays intact.
+ */
+export async function retirePartSource(
+  partNumber: string,
+  payload: PartSourceKey & { obsoleteDate?: string | null },
+): Promise<PartSource> {
+  const trimmed = normalize(partNumber);
+  const key = readKey(payload);
+  const current = await findSource(trimmed, key);
+
+  if (current.retired) {
+    throw new Error(`Source ${key.manufacturerPartNumber} from supplier ${key.supplierId} cannot be retired twice.`);
+  }
+
+  await prisma.partxreference.update({
+    where: {
+      PartNumber_PartXReference_SupplierID: {
+        PartNumber: trimmed,
+        PartXReference: key.manufacturerPartNumber,
+        SupplierID: key.supplierId,
+      },
+    },
+    data: {
+      ObsoleteDate: parseOptionalDate(payload.obsoleteDate, 'Obsolete date') ?? startOfToday(),
+      ApprovedSource: false,
+    },
+  });
+
+  logger.info('Part source retired', { partNumber: trimmed, ...key });
+  return findSource(trimmed, key);
+}
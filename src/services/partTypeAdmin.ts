@@ -0,0 +1,664 @@
+import { Prisma } from '@prisma/client';
+
+import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
+import {
+  collectRuleAttributes,
+  normalizeRuleIdentifier,
+  parseAlternativeRanges,
+  parseRequiredRule,
+  type RuleNode,
+} from './attributeRules.js';
+import { parseEngineeringValue } from './engineeringUnits.js';
+import { assertPackageColumn } from './packages.js';
+import {
+  parseAttributeConstraint,
+  toAttributeDefinition,
+  validateAttributeValue,
+  type PartAttributeDefinition,
+} from './parts.js';
+
+export type PartTypePayload = {
+  code?: string;
+  sheetName?: string;
+  packageColumn?: string;
+};
+
+export type AttributePayload = {
+  code?: string;
+  dataType?: string | null;
+  minValue?: number | string | null;
+  maxValue?: number | string | null;
+  unit?: string | null;
+  requiredRule?: string | null;
+  alternativeMin?: string | null;
+  alternativeMax?: string | null;
+};
+
+export type PartTypeRecord = {
+  id: number;
+  code: string;
+  sheetName: string;
+  packageColumn: string;
+  attributeIds: number[];
+  partCount: number;
+};
+
+export type AttributeRecord = {
+  attributeId: number;
+  code: string;
+  dataType: string | null;
+  minValue: number | null;
+  maxValue: number | null;
+  unit: string | null;
+  requiredRule: string | null;
+  alternativeMin: string | null;
+  alternativeMax: string | null;
+  partTypeIds: number[];
+  partDataCount: number;
+};
+
+export type PartDataImpact = {
+  affectedRows: number;
+  invalidValues: { value: string; count: number; reason: string }[];
+};
+
+export type AdminChangeOptions = {
+  dryRun?: boolean;
+  confirm?: boolean;
+};
+
+export type AttributeChangeResult = {
+  dryRun: boolean;
+  applied: boolean;
+  impact: PartDataImpact;
+  attribute: AttributeRecord | null;
+};
+
+export type MappingChangeResult = {
+  dryRun: boolean;
+  applied: boolean;
+  impact: PartDataImpact;
+  partType: PartTypeRecord | null;
+};
+
+const MAX_PART_TYPE_ID = 255;
+const MAX_CODE_LENGTH = 100;
+const MAX_ATTRIBUTE_CODE_LENGTH = 255;
+const MAX_DATA_TYPE_LENGTH = 750;
+const MAX_RULE_LENGTH = 500;
+const MAX_PART_DATA_LENGTH = 50;
+const INVALID_VALUE_SAMPLE_LIMIT = 50;
+
+function normalize(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  return '';
+}
+
+function toOptionalText(value: unknown, label: string, maxLength: number): string | null {
+  const text = normalize(value);
+
+  if (text.length > maxLength) {
+    throw new Error(`${label} must be ${maxLength} characters or fewer.`);
+  }
+
+  return text || null;
+}
+
+// Bounds accept the same engineering notation as part values ("4.7k", "100nF") in the attribute's unit.
+function toOptionalNumber(value: unknown, label: string, unit: string | null): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const parsed = parseEngineeringValue(typeof value === 'number' ? value : String(value), unit);
+
+  if (parsed === null) {
+    throw new Error(`${label} must be a number.`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Accepts the same data types parseAttributeConstraint understands, but rejects anything it would
+ * silently treat as free text so a typo such as "enum(A,B)" does not disable validation.
+ */
+export function normalizeDataType(value: unknown): string | null {
+  const dataType = toOptionalText(value, 'Data type', MAX_DATA_TYPE_LENGTH);
+
+  if (!dataType) {
+    return null;
+  }
+
+  if (dataType.toLowerCase().includes('linked to package master table')) {
+    return dataType;
+  }
+
+  const enumMatch = dataType.match(/^enum\s*\((.*)\)$/is);
+
+  if (enumMatch) {
+    if (!/^\s*'[^']+'\s*(,\s*'[^']+'\s*)*$/.test(enumMatch[1])) {
+      throw new Error(`Enum data types must list quoted options, e.g. enum('Thick Film','Thin Film').`);
+    }
+
+    const constraint = parseAttributeConstraint(dataType);
+    const options = constraint.kind === 'enum' ? constraint.options : [];
+    const seen = new Set<string>();
+
+    options.forEach((option) => {
+      if (option.length > MAX_PART_DATA_LENGTH) {
+        throw new Error(`Enum option "${option}" must be ${MAX_PART_DATA_LENGTH} characters or fewer.`);
+      }
+
+      if (seen.has(option.toLowerCase())) {
+        throw new Error(`Enum option "${option}" is listed more than once.`);
+      }
+
+      seen.add(option.toLowerCase());
+    });
+
+    return `enum(${options.map((option) => `'${option}'`).join(',')})`;
+  }
+
+  if (/^(int|double)(\s*\(\s*\d+\s*(,\s*\d+\s*)?\))?(\s+unsigned)?$/i.test(dataType)) {
+    return dataType;
+  }
+
+  if (/^(text|varchar\s*\(\s*\d+\s*\))$/i.test(dataType)) {
+    return dataType;
+  }
+
+  throw new Error(
+    `Data type "${dataType}" is invalid; use enum('...'), int, double, text or linked to package master table.`,
+  );
+}
+
+async function loadKnownAttributeIdentifiers(excludeAttributeId?: number): Promise<Set<string>> {
+  const attributes = await prisma.attribute.findMany({ select: { attribute_ID: true, attribute_code: true } });
+
+  return new Set(
+    attributes
+      .filter((entry) => entry.attribute_ID !== excludeAttributeId)
+      .map((entry) => normalizeRuleIdentifier(entry.attribute_code ?? '')),
+  );
+}
+
+function assertRuleReferences(conditions: (RuleNode | null)[], known: Set<string>, label: string): void {
+  const referenced = new Set<string>();
+  conditions.forEach((condition) => collectRuleAttributes(condition, referenced));
+
+  referenced.forEach((identifier) => {
+    if (!known.has(identifier)) {
+      throw new Error(`${label} references unknown attribute "${identifier}".`);
+    }
+  });
+}
+
+type AttributeColumns = {
+  attribute_code: string | null;
+  data_type: string | null;
+  min_value: number | null;
+  max_value: number | null;
+  unit: string | null;
+  required_rule: string | null;
+  alternative_min: string | null;
+  alternative_max: string | null;
+};
+
+async function buildAttributeColumns(
+  payload: AttributePayload,
+  current: AttributeColumns | null,
+  attributeId?: number,
+): Promise<AttributeColumns> {
+  const pick = <K extends keyof AttributePayload>(key: K, fallback: unknown) =>
+    payload[key] === undefined ? fallback : payload[key];
+
+  const code = toOptionalText(pick('code', current?.attribute_code), 'Attribute code', MAX_ATTRIBUTE_CODE_LENGTH);
+
+  if (!code) {
+    throw new Error('Attribute code is required.');
+  }
+
+  const unit = toOptionalText(pick('unit', current?.unit), 'Unit', MAX_ATTRIBUTE_CODE_LENGTH);
+  const columns: AttributeColumns = {
+    attribute_code: code,
+    data_type: payload.dataType === undefined ? current?.data_type ?? null : normalizeDataType(payload.dataType),
+    min_value: toOptionalNumber(pick('minValue', current?.min_value), 'Minimum value', unit),
+    max_value: toOptionalNumber(pick('maxValue', current?.max_value), 'Maximum value', unit),
+    unit,
+    required_rule: toOptionalText(pick('requiredRule', current?.required_rule), 'Required rule', MAX_RULE_LENGTH),
+    alternative_min: toOptionalText(pick('alternativeMin', current?.alternative_min), 'Alternative minimum', MAX_RULE_LENGTH),
+    alternative_max: toOptionalText(pick('alternativeMax', current?.alternative_max), 'Alternative maximum', MAX_RULE_LENGTH),
+  };
+
+  if (columns.min_value !== null && columns.max_value !== null && columns.min_value > columns.max_value) {
+    throw new Error('Minimum value must be less than or equal to the maximum value.');
+  }
+
+  const known = await loadKnownAttributeIdentifiers(attributeId);
+  known.add(normalizeRuleIdentifier(code));
+
+  const requirement = parseRequiredRule(columns.required_rule);
+  if (requirement.kind === 'invalid') {
+    throw new Error(`Required rule is invalid: ${requirement.error}`);
+  }
+
+  assertRuleReferences([requirement.condition], known, 'Required rule');
+
+  for (const [label, source] of [
+    ['Alternative minimum', columns.alternative_min],
+    ['Alternative maximum', columns.alternative_max],
+  ] as const) {
+    const parsed = parseAlternativeRanges(source, unit);
+    if (parsed.errors.length > 0) {
+      throw new Error(`${label} is invalid: ${parsed.errors.join(' ')}`);
+    }
+
+    assertRuleReferences(
+      parsed.ranges.map((range) => range.condition),
+      known,
+      label,
+    );
+  }
+
+  const duplicate = await prisma.attribute.findFirst({
+    where: {
+      attribute_code: code,
+      ...(attributeId !== undefined ? { NOT: { attribute_ID: attributeId } } : {}),
+    },
+    select: { attribute_ID: true },
+  });
+
+  if (duplicate) {
+    throw new Error(`Attribute ${code} already exists.`);
+  }
+
+  return columns;
+}
+
+function describeValidation(definition: PartAttributeDefinition, value: string): string | null {
+  try {
+    validateAttributeValue(definition, value);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Counts the stored values that satisfy the current definition but would fail the proposed one.
+ * Values that are already invalid are not blamed on the change. Numeric bounds are checked
+ * against the default range because alternative ranges depend on each part's sibling values.
+ */
+async function measureDefinitionImpact(
+  attributeId: number,
+  current: AttributeColumns,
+  proposed: AttributeColumns,
+): Promise<PartDataImpact> {
+  const rows = await prisma.$queryRaw<{ value: string; count: bigint | number }[]>(Prisma.sql`
+    SELECT part_data AS value, COUNT(*) AS count
+    FROM part_data
+    WHERE attribute_ID = ${attributeId}
+      AND part_data IS NOT NULL
+      AND TRIM(part_data) <> ''
+    GROUP BY part_data
+  `);
+
+  const currentDefinition = toAttributeDefinition(attributeId, current);
+  const proposedDefinition = toAttributeDefinition(attributeId, proposed);
+  const invalidValues: PartDataImpact['invalidValues'] = [];
+  let affectedRows = 0;
+
+  rows.forEach((row) => {
+    const value = normalize(row.value);
+    const reason = describeValidation(proposedDefinition, value);
+
+    if (!reason || describeValidation(currentDefinition, value) !== null) {
+      return;
+    }
+
+    const count = Number(row.count);
+    affectedRows += count;
+    invalidValues.push({ value, count, reason });
+  });
+
+  invalidValues.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+  return { affectedRows, invalidValues: invalidValues.slice(0, INVALID_VALUE_SAMPLE_LIMIT) };
+}
+
+async function measureRemovalImpact(attributeId: number, partTypeId?: number): Promise<PartDataImpact> {
+  const partTypeFilter =
+    partTypeId !== undefined
+      ? Prisma.sql`AND pd.PartMaster_PKey IN (SELECT PartMaster_PKey FROM partmaster WHERE part_type_ID = ${partTypeId})`
+      : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<{ value: string; count: bigint | number }[]>(Prisma.sql`
+    SELECT pd.part_data AS value, COUNT(*) AS count
+    FROM part_data pd
+    WHERE pd.attribute_ID = ${attributeId}
+      AND pd.part_data IS NOT NULL
+      AND TRIM(pd.part_data) <> ''
+      ${partTypeFilter}
+    GROUP BY pd.part_data
+    ORDER BY count DESC, pd.part_data ASC
+  `);
+
+  const reason = partTypeId !== undefined ? 'Attribute unmapped from part type' : 'Attribute removed';
+  const invalidValues = rows.map((row) => ({ value: normalize(row.value), count: Number(row.count), reason }));
+
+  return {
+    affectedRows: invalidValues.reduce((sum, entry) => sum + entry.count, 0),
+    invalidValues: invalidValues.slice(0, INVALID_VALUE_SAMPLE_LIMIT),
+  };
+}
+
+function assertImpactConfirmed(impact: PartDataImpact, options: AdminChangeOptions, action: string): void {
+  if (impact.affectedRows > 0 && !options.confirm) {
+    throw new Error(
+      `${action} would invalidate ${impact.affectedRows} part_data row(s); review the impact with dryRun and resubmit with confirm to apply.`,
+    );
+  }
+}
+
+async function loadAttributeColumns(attributeId: number): Promise<AttributeColumns> {
+  const attribute = await prisma.attribute.findUnique({ where: { attribute_ID: attributeId } });
+
+  if (!attribute) {
+    throw new Error(`Attribute ${attributeId} does not exist.`);
+  }
+
+  return attribute;
+}
+
+async function nextId(tx: Prisma.TransactionClient, table: 'attribute' | 'attribute_part_type_map' | 'part_type'): Promise<number> {
+  const column = table === 'attribute' ? 'attribute_ID' : table === 'part_type' ? 'part_type_id' : 'map_ID';
+  // The legacy tables have no AUTO_INCREMENT, so the next key is taken under a lock.
+  const [row] = await tx.$queryRaw<{ id: bigint | number | null }[]>(Prisma.sql`
+    SELECT MAX(${Prisma.raw(column)}) AS id FROM ${Prisma.raw(table)} FOR UPDATE
+  `);
+
+  return Number(row?.id ?? 0) + 1;
+}
+
+export async function listAttributes(): Promise<AttributeRecord[]> {
+  const [attributes, counts] = await Promise.all([
+    prisma.attribute.findMany({
+      include: { attribute_part_type_map: { select: { part_type_ID: true } } },
+      orderBy: { attribute_ID: 'asc' },
+    }),
+    prisma.$queryRaw<{ attribute_ID: number; count: bigint | number }[]>(Prisma.sql`
+      SELECT attribute_ID, COUNT(*) AS count FROM part_data GROUP BY attribute_ID
+    `),
+  ]);
+
+  const countLookup = new Map(counts.map((row) => [Number(row.attribute_ID), Number(row.count)]));
+
+  return attributes.map((attribute) => ({
+    attributeId: attribute.attribute_ID,
+    code: attribute.attribute_code ?? String(attribute.attribute_ID),
+    dataType: attribute.data_type,
+    minValue: attribute.min_value,
+    maxValue: attribute.max_value,
+    unit: attribute.unit,
+    requiredRule: attribute.required_rule,
+    alternativeMin: attribute.alternative_min,
+    alternativeMax: attribute.alternative_max,
+    partTypeIds: attribute.attribute_part_type_map
+      .map((mapping) => mapping.part_type_ID)
+      .filter((id): id is number => typeof id === 'number'),
+    partDataCount: countLookup.get(attribute.attribute_ID) ?? 0,
+  }));
+}
+
+export async function getAttribute(attributeId: number): Promise<AttributeRecord | null> {
+  const attribute = await prisma.attribute.findUnique({
+    where: { attribute_ID: attributeId },
+    include: { attribute_part_type_map: { select: { part_type_ID: true } } },
+  });
+
+  if (!attribute) {
+    return null;
+  }
+
+  const partDataCount = await prisma.part_data.count({ where: { attribute_ID: attributeId } });
+
+  return {
+    attributeId: attribute.attribute_ID,
+    code: attribute.attribute_code ?? String(attribute.attribute_ID),
+    dataType: attribute.data_type,
+    minValue: attribute.min_value,
+    maxValue: attribute.max_value,
+    unit: attribute.unit,
+    requiredRule: attribute.required_rule,
+    alternativeMin: attribute.alternative_min,
+    alternativeMax: attribute.alternative_max,
+    partTypeIds: attribute.attribute_part_type_map
+      .map((mapping) => mapping.part_type_ID)
+      .filter((id): id is number => typeof id === 'number'),
+    partDataCount,
+  };
+}
+
+export async function createAttribute(payload: AttributePayload): Promise<AttributeRecord> {
+  const columns = await buildAttributeColumns(payload, null);
+
+  const attributeId = await prisma.$transaction(async (tx) => {
+    const id = await nextId(tx, 'attribute');
+    await tx.attribute.create({ data: { attribute_ID: id, ...columns } });
+    return id;
+  });
+
+  logger.info('Attribute created', { attributeId, code: columns.attribute_code });
+
+  return (await getAttribute(attributeId)) as AttributeRecord;
+}
+
+export async function updateAttribute(
+  attributeId: number,
+  payload: AttributePayload,
+  options: AdminChangeOptions = {},
+): Promise<AttributeChangeResult> {
+  const current = await loadAttributeColumns(attributeId);
+  const proposed = await buildAttributeColumns(payload, current, attributeId);
+  const impact = await measureDefinitionImpact(attributeId, current, proposed);
+
+  if (options.dryRun) {
+    return { dryRun: true, applied: false, impact, attribute: await getAttribute(attributeId) };
+  }
+
+  assertImpactConfirmed(impact, options, `Changing attribute ${current.attribute_code ?? attributeId}`);
+
+  await prisma.attribute.update({ where: { attribute_ID: attributeId }, data: proposed });
+
+  logger.info('Attribute updated', { attributeId, code: proposed.attribute_code, invalidatedRows: impact.affectedRows });
+
+  return { dryRun: false, applied: true, impact, attribute: await getAttribute(attributeId) };
+}
+
+export async function deleteAttribute(attributeId: number, options: AdminChangeOptions = {}): Promise<AttributeChangeResult> {
+  const current = await loadAttributeColumns(attributeId);
+  const impact = await measureRemovalImpact(attributeId);
+
+  if (options.dryRun) {
+    return { dryRun: true, applied: false, impact, attribute: await getAttribute(attributeId) };
+  }
+
+  assertImpactConfirmed(impact, options, `Removing attribute ${current.attribute_code ?? attributeId}`);
+
+  // part_data and attribute_part_type_map rows cascade with the attribute.
+  await prisma.attribute.delete({ where: { attribute_ID: attributeId } });
+
+  logger.info('Attribute removed', { attributeId, code: current.attribute_code, removedRows: impact.affectedRows });
+
+  return { dryRun: false, applied: true, impact, attribute: null };
+}
+
+async function buildPartTypeColumns(
+  payload: PartTypePayload,
+  current: { code: string; sheet_name: string; package_column: string } | null,
+): Promise<{ code: string; sheet_name: string; package_column: string }> {
+  const code = toOptionalText(payload.code ?? current?.code, 'Part type code', MAX_CODE_LENGTH);
+  const sheetName = toOptionalText(payload.sheetName ?? current?.sheet_name, 'Sheet name', MAX_CODE_LENGTH);
+  const packageColumn = toOptionalText(payload.packageColumn ?? current?.package_column, 'Package column', MAX_CODE_LENGTH);
+
+  if (!code) {
+    throw new Error('Part type code is required.');
+  }
+
+  // Only a submitted package column is checked so legacy rows can still be renamed; unresolved
+  // ones are listed by the package category overview.
+  const resolvedColumn =
+    payload.packageColumn === undefined && current ? current.package_column : await assertPackageColumn(packageColumn ?? '');
+
+  return { code, sheet_name: sheetName ?? code, package_column: resolvedColumn };
+}
+
+export async function getPartType(partTypeId: number): Promise<PartTypeRecord | null> {
+  const partType = await prisma.part_type.findUnique({
+    where: { part_type_id: partTypeId },
+    include: { attribute_part_type_map: { select: { attribute_ID: true }, orderBy: { map_ID: 'asc' } } },
+  });
+
+  if (!partType) {
+    return null;
+  }
+
+  const partCount = await prisma.partmaster.count({ where: { part_type_ID: partTypeId } });
+
+  return {
+    id: partType.part_type_id,
+    code: partType.code,
+    sheetName: partType.sheet_name,
+    packageColumn: partType.package_column,
+    attributeIds: partType.attribute_part_type_map.map((mapping) => mapping.attribute_ID),
+    partCount,
+  };
+}
+
+async function assertPartTypeCodeAvailable(code: string, partTypeId?: number): Promise<void> {
+  const duplicate = await prisma.part_type.findFirst({
+    where: { code, ...(partTypeId !== undefined ? { NOT: { part_type_id: partTypeId } } : {}) },
+    select: { part_type_id: true },
+  });
+
+  if (duplicate) {
+    throw new Error(`Part type ${code} already exists.`);
+  }
+}
+
+export async function createPartType(payload: PartTypePayload): Promise<PartTypeRecord> {
+  const columns = await buildPartTypeColumns(payload, null);
+  await assertPartTypeCodeAvailable(columns.code);
+
+  const partTypeId = await prisma.$transaction(async (tx) => {
+    const id = await nextId(tx, 'part_type');
+
+    if (id > MAX_PART_TYPE_ID) {
+      throw new Error(`No more than ${MAX_PART_TYPE_ID} part types are supported.`);
+    }
+
+    await tx.part_type.create({ data: { part_type_id: id, ...columns } });
+    return id;
+  });
+
+  logger.info('Part type created', { partTypeId, code: columns.code });
+
+  return (await getPartType(partTypeId)) as PartTypeRecord;
+}
+
+export async function updatePartType(partTypeId: number, payload: PartTypePayload): Promise<PartTypeRecord> {
+  const current = await prisma.part_type.findUnique({ where: { part_type_id: partTypeId } });
+
+  if (!current) {
+    throw new Error(`Part type ${partTypeId} does not exist.`);
+  }
+
+  const columns = await buildPartTypeColumns(payload, current);
+  await assertPartTypeCodeAvailable(columns.code, partTypeId);
+  await prisma.part_type.update({ where: { part_type_id: partTypeId }, data: columns });
+
+  logger.info('Part type updated', { partTypeId, code: columns.code });
+
+  return (await getPartType(partTypeId)) as PartTypeRecord;
+}
+
+export async function deletePartType(partTypeId: number): Promise<void> {
+  const current = await getPartType(partTypeId);
+
+  if (!current) {
+    throw new Error(`Part type ${partTypeId} does not exist.`);
+  }
+
+  if (current.partCount > 0) {
+    throw new Error(`Part type ${current.code} cannot be removed while ${current.partCount} part(s) use it.`);
+  }
+
+  // Attribute mappings cascade with the part type; the attributes themselves are shared and kept.
+  await prisma.part_type.delete({ where: { part_type_id: partTypeId } });
+
+  logger.info('Part type removed', { partTypeId, code: current.code });
+}
+
+export async function addAttributeMapping(partTypeId: number, attributeId: number): Promise<PartTypeRecord> {
+  const partType = await getPartType(partTypeId);
+
+  if (!partType) {
+    throw new Error(`Part type ${partTypeId} does not exist.`);
+  }
+
+  await loadAttributeColumns(attributeId);
+
+  if (partType.attributeIds.includes(attributeId)) {
+    throw new Error(`Attribute ${attributeId} mapping for part type ${partType.code} already exists.`);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const id = await nextId(tx, 'attribute_part_type_map');
+    await tx.attribute_part_type_map.create({
+      data: { map_ID: id, attribute_ID: attributeId, part_type_ID: partTypeId },
+    });
+  });
+
+  logger.info('Attribute mapped to part type', { partTypeId, attributeId });
+
+  return (await getPartType(partTypeId)) as PartTypeRecord;
+}
+
+export async function removeAttributeMapping(
+  partTypeId: number,
+  attributeId: number,
+  options: AdminChangeOptions = {},
+): Promise<MappingChangeResult> {
+  const partType = await getPartType(partTypeId);
+
+  if (!partType) {
+    throw new Error(`Part type ${partTypeId} does not exist.`);
+  }
+
+  if (!partType.attributeIds.includes(attributeId)) {
+    throw new Error(`Attribute ${attributeId} mapping for part type ${partType.code} does not exist.`);
+  }
+
+  const impact = await measureRemovalImpact(attributeId, partTypeId);
+
+  if (options.dryRun) {
+    return { dryRun: true, applied: false, impact, partType };
+  }
+
+  assertImpactConfirmed(impact, options, `Unmapping attribute ${attributeId} from ${partType.code}`);
+
+  await prisma.attribute_part_type_map.deleteMany({ where: { part_type_ID: partTypeId, attribute_ID: attributeId } });
+
+  logger.info('Attribute unmapped from part type', { partTypeId, attributeId, orphanedRows: impact.affectedRows });
+
+  return { dryRun: false, applied: true, impact, partType: await getPartType(partTypeId) };
+}
@@ -1,7 +1,49 @@
 import { Prisma } from '@prisma/client';
 
 import { logger } from '../lib/logger.js';
+import {
+  buildKeysetClause,
+  buildOrderClause,
+  decodeCursor,
+  encodeCursor,
+  resolveSortKey,
+  type Page,
+  type PageRequest,
+  type SortDirection,
+} from '../lib/pagination.js';
 import { prisma } from '../lib/prisma.js';
+import {
+  evaluateRequiredRule,
+  normalizeRuleIdentifier,
+  parseAlternativeRanges,
+  parseRequiredRule,
+  resolveAlternativeBound,
+  type AlternativeRange,
+  type RequiredRule,
+  type RuleValues,
+} from './attributeRules.js';
+import {
+  formatAttributeDisplay,
+  formatCanonicalNumber,
+  formatEngineeringValue,
+  parseEngineeringValue,
+} from './engineeringUnits.js';
+import { listPackageOptions, type PackageOption } from './packages.js';
+import { findDuplicateParts, type PartDuplicateMatch } from './partDuplicates.js';
+import { assertLifecycleUnchanged, LIFECYCLE_STATUS_CODES } from './partLifecycle.js';
+import { reservePartNumber } from './partNumbering.js';
+import { listPartSources, type PartSource } from './partSourcing.js';
+import {
+  buildDescriptionScoreSql,
+  buildMatchedXrefSql,
+  buildPartNumberScoreSql,
+  describePartMatch,
+  findFuzzyPartNumbers,
+  toRelevanceQuery,
+  type FuzzyPartMatches,
+  type PartSearchMatch,
+  type RelevanceQuery,
+} from './partRelevance.js';
 
 export type PartSearchResult = {
   partNumber: string;
@@ -18,6 +60,11 @@ export type PartSearchResult = {
   hasBom: boolean;
 };
 
+export type PartSearchHit = PartSearchResult & {
+  score: number | null;
+  match: PartSearchMatch | null;
+};
+
 export type PartAttributeDefinition = {
   attributeId: number;
   code: string;
@@ -26,6 +73,9 @@ export type PartAttributeDefinition = {
   maxValue: number | null;
   unit: string | null;
   requiredRule: string | null;
+  requirement: RequiredRule;
+  alternativeMin: AlternativeRange[];
+  alternativeMax: AlternativeRange[];
 };
 
 export type PartTypeDefinition = {
@@ -49,113 +99,23 @@ export type PartDetail = {
   location: string;
   notes: string;
   partTypeId: number | null;
-  attributes: { attributeId: number; code: string; value: string; required: boolean; requiredRule: string | null }[];
-};
-
-type PackageMasterColumn =
-  | 'resistors'
-  | 'capacitors'
-  | 'inductors_magnetic_components'
-  | 'diodes'
-  | 'leds_optoelectronics'
-  | 'transistors'
-  | 'linear_ics'
-  | 'power_ics'
-  | 'logic_ics'
-  | 'interface_communication_ics'
-  | 'memory_devices'
-  | 'microcontrollers_mcus'
-  | 'microprocessors_mpus'
-  | 'dsps_fpgas_asics_socs'
-  | 'sensors_environmental'
-  | 'sensors_motion_position'
-  | 'sensors_electrical'
-  | 'sensors_force_flow_specialized'
-  | 'electromechanical_relays'
-  | 'switches'
-  | 'connectors_board_level'
-  | 'connectors_wire_level'
-  | 'connectors_i_o'
-  | 'wire_cable'
-  | 'cable_assemblies'
-  | 'fuses_protection'
-  | 'batteries'
-  | 'battery_holders_accessories'
-  | 'power_modules_supplies'
-  | 'fans_blowers'
-  | 'fan_accessories'
-  | 'heat_management'
-  | 'crystals_oscillators'
-  | 'antennas'
-  | 'rf_modules'
-  | 'audio_components'
-  | 'displays'
-  | 'pcbs_bare_boards'
-  | 'pcb_assemblies_dev_boards'
-  | 'mechanical_hardware'
-  | 'enclosures'
-  | 'labels_markers'
-  | 'tools'
-  | 'cleaning_chemicals'
-  | 'motors_actuators'
-  | 'light_sources';
-
-export type PackageOption = {
-  id: number;
-  name: string;
+  attributes: {
+    attributeId: number;
+    code: string;
+    value: string;
+    // The stored value rendered for people, e.g. "4.7 kΩ" for 4700 in an Ohm attribute.
+    displayValue: string;
+    required: boolean;
+    requiredRule: string | null;
+    requirement: RequiredRule;
+    requirementReason: string | null;
+  }[];
+  // Approved vendor list, preferred source first; retired sources are left out.
+  sources: PartSource[];
 };
 
-const PACKAGE_MASTER_COLUMNS: PackageMasterColumn[] = [
-  'resistors',
-  'capacitors',
-  'inductors_magnetic_components',
-  'diodes',
-  'leds_optoelectronics',
-  'transistors',
-  'linear_ics',
-  'power_ics',
-  'logic_ics',
-  'interface_communication_ics',
-  'memory_devices',
-  'microcontrollers_mcus',
-  'microprocessors_mpus',
-  'dsps_fpgas_asics_socs',
-  'sensors_environmental',
-  'sensors_motion_position',
-  'sensors_electrical',
-  'sensors_force_flow_specialized',
-  'electromechanical_relays',
-  'switches',
-  'connectors_board_level',
-  'connectors_wire_level',
-  'connectors_i_o',
-  'wire_cable',
-  'cable_assemblies',
-  'fuses_protection',
-  'batteries',
-  'battery_holders_accessories',
-  'power_modules_supplies',
-  'fans_blowers',
-  'fan_accessories',
-  'heat_management',
-  'crystals_oscillators',
-  'antennas',
-  'rf_modules',
-  'audio_components',
-  'displays',
-  'pcbs_bare_boards',
-  'pcb_assemblies_dev_boards',
-  'mechanical_hardware',
-  'enclosures',
-  'labels_markers',
-  'tools',
-  'cleaning_chemicals',
-  'motors_actuators',
-  'light_sources',
-];
-
 export type PartUpsertPayload = {
-  partNumber: string;
+  partNumber?: string;
   description?: string;
   revision?: string;
   stockUom?: string;
@@ -164,31 +124,65 @@ export type PartUpsertPayload = {
   location?: string;
   partTypeId?: number;
   attributes?: { attributeId: number; value: string }[];
+  allowDuplicate?: boolean;
 };
 
-type PartSearchOptions = {
+export type PartSaveResult = PartDetail & {
+  duplicates: PartDuplicateMatch[];
+};
+
+export type PartSortKey = keyof PartSearchResult;
+
+export type PartSearchSortKey = PartSortKey | 'relevance';
+
+type PartSearchOptions = PageRequest & {
   partNumber: string;
   description: string;
   inStockOnly: boolean;
-  limit?: number;
+  includeDeleted?: boolean;
 };
 
-function buildPartQuery(whereClause: Prisma.Sql, limitClause: Prisma.Sql = Prisma.sql``) {
-  return Prisma.sql`
-    SELECT
-      pm.PartNumber,
-      pm.DescText,
-      pm.Revision,
-      pm.StockUOM,
-      pm.ISC,
-      pm.StockroomCode,
-      pm.LocationCode,
-      sl.LocationDescription,
-      sl.DepartmentDescription,
-      notes.Notes,
-      EXISTS (SELECT 1 FROM bom b WHERE b.Assembly = pm.PartNumber LIMIT 1) AS hasBom,
-      GREATEST(COALESCE(il.quantityOnHand, 0) - COALESCE(it.quantityAllocated, 0), 0) AS availableQuantity
-    FROM partmaster pm
+export type ParametricFilter = {
+  attributeId: number;
+  values?: string[];
+  // Numbers, or engineering notation ("4.7k", "100nF") read in the attribute's unit.
+  min?: number | string;
+  max?: number | string;
+};
+
+export type ParametricSearchOptions = Partial<PartSearchOptions> & {
+  partTypeId?: number;
+  packageIds?: number[];
+  filters?: ParametricFilter[];
+};
+
+export type AttributeFacet = {
+  attributeId: number;
+  code: string;
+  kind: 'enum' | 'int' | 'double' | 'text';
+  unit: string | null;
+  isPackage: boolean;
+  min: number | null;
+  max: number | null;
+  values: { value: string; label: string; count: number }[];
+  truncated: boolean;
+};
+
+export type ParametricSearchResult = {
+  total: number;
+  results: PartSearchResult[];
+  partTypes: { id: number; code: string; count: number }[];
+  facets: AttributeFacet[];
+};
+
+const FACET_VALUE_LIMIT = 50;
+
+// Guards numeric casts so free-text entries in part_data never match a range filter as zero.
+// Legacy values typed with prefixes or units ("4.7k", "16V") fail it until rewritten by
+// src/scripts/normalizeAttributeValues.ts.
+export const NUMERIC_VALUE_PATTERN = '^[-+]?([0-9]+[.]?[0-9]*|[.][0-9]+)([eE][-+]?[0-9]+)?$';
+
+const STOCK_JOINS = Prisma.sql`
     LEFT JOIN (
       SELECT PartNumber, SUM(Quantity) AS quantityOnHand
       FROM inventorylots
@@ -202,6 +196,67 @@ function buildPartQuery(whereClause: Prisma.Sql, limitClause: Prisma.Sql = Prism
       GROUP BY PartNumber
     ) it
       ON it.PartNumber = pm.PartNumber
+`;
+
+const AVAILABLE_QUANTITY_SQL = Prisma.sql`GREATEST(COALESCE(il.quantityOnHand, 0) - COALESCE(it.quantityAllocated, 0), 0)`;
+
+// Sort expressions avoid NULLs so keyset comparisons never drop rows; PartNumber is appended as
+// the unique tie-breaker.
+const PART_SORT_EXPRESSIONS: Record<PartSortKey, Prisma.Sql> = {
+  partNumber: Prisma.sql`pm.PartNumber`,
+  description: Prisma.sql`COALESCE(pm.DescText, '')`,
+  revision: Prisma.sql`COALESCE(pm.Revision, '')`,
+  availableQuantity: AVAILABLE_QUANTITY_SQL,
+  room: Prisma.sql`COALESCE(NULLIF(sl.DepartmentDescription, ''), pm.StockroomCode, '')`,
+  roomCode: Prisma.sql`COALESCE(pm.StockroomCode, '')`,
+  location: Prisma.sql`COALESCE(sl.LocationDescription, pm.LocationCode, '')`,
+  locationCode: Prisma.sql`COALESCE(pm.LocationCode, '')`,
+  stockUom: Prisma.sql`COALESCE(pm.StockUOM, '')`,
+  status: Prisma.sql`COALESCE(pm.ISC, '')`,
+  notes: Prisma.sql`COALESCE(notes.Notes, '')`,
+  hasBom: Prisma.sql`EXISTS (SELECT 1 FROM bom b WHERE b.Assembly = pm.PartNumber LIMIT 1)`,
+};
+
+export const PART_SORT_KEYS = Object.keys(PART_SORT_EXPRESSIONS) as PartSortKey[];
+
+export const PART_SEARCH_SORT_KEYS: PartSearchSortKey[] = ['relevance', ...PART_SORT_KEYS];
+
+function resolvePartSortExpressions(sort: PartSortKey): Prisma.Sql[] {
+  return sort === 'partNumber'
+    ? [PART_SORT_EXPRESSIONS.partNumber]
+    : [PART_SORT_EXPRESSIONS[sort], PART_SORT_EXPRESSIONS.partNumber];
+}
+
+function buildPartQuery(
+  whereClause: Prisma.Sql,
+  limitClause: Prisma.Sql = Prisma.sql``,
+  order: { expressions: Prisma.Sql[]; direction: SortDirection } = {
+    expressions: [PART_SORT_EXPRESSIONS.partNumber],
+    direction: 'asc',
+  },
+  extraColumns: Prisma.Sql[] = [],
+) {
+  const sortColumns = order.expressions.map(
+    (expression, index) => Prisma.sql`${expression} AS ${Prisma.raw(`sortValue${index}`)}`,
+  );
+
+  return Prisma.sql`
+    SELECT
+      ${Prisma.join([...sortColumns, ...extraColumns])},
+      pm.PartNumber,
+      pm.DescText,
+      pm.Revision,
+      pm.StockUOM,
+      pm.ISC,
+      pm.StockroomCode,
+      pm.LocationCode,
+      sl.LocationDescription,
+      sl.DepartmentDescription,
+      notes.Notes,
+      ${PART_SORT_EXPRESSIONS.hasBom} AS hasBom,
+      ${AVAILABLE_QUANTITY_SQL} AS availableQuantity
+    FROM partmaster pm
+    ${STOCK_JOINS}
     LEFT JOIN (
       SELECT
         sl.DepartmentCode,
@@ -228,7 +283,7 @@ function buildPartQuery(whereClause: Prisma.Sql, limitClause: Prisma.Sql = Prism
     ) notes
       ON notes.PartMaster_PKey = pm.PartMaster_PKey
     ${whereClause}
-    ORDER BY pm.PartNumber ASC
+    ${buildOrderClause(order.expressions, order.direction)}
     ${limitClause}
   `;
 }
@@ -376,32 +431,6 @@ function normalizeAttributeCode(code: unknown): string {
   return normalizeString(code).toLowerCase().replace(/_\d+$/, '');
 }
 
-function evaluateRequirement(rule: unknown, subtypeValue: string): { required: boolean; visible: boolean } {
-  const normalizedRule = typeof rule === 'string' ? rule.trim().toLowerCase() : '';
-
-  if (!normalizedRule) {
-    return { required: false, visible: true };
-  }
-
-  if (normalizedRule === 'yes') {
-    return { required: true, visible: true };
-  }
-
-  if (normalizedRule === 'no') {
-    return { required: false, visible: true };
-  }
-
-  const matches = Array.from(normalizedRule.matchAll(/'([^']+)'/g)).map((match) => match[1]?.trim().toLowerCase());
-  const normalizedSubtype = subtypeValue.trim().toLowerCase();
-
-  if (matches.length > 0 && normalizedSubtype) {
-    const hasMatch = matches.some((entry) => entry === normalizedSubtype);
-    return { required: hasMatch, visible: hasMatch };
-  }
-
-  return { required: false, visible: true };
-}
-
 function toNullableNumber(value: unknown): number | null {
   if (typeof value === 'number' && Number.isFinite(value)) {
     return value;
@@ -421,80 +450,70 @@ function toNullableNumber(value: unknown): number | null {
   return null;
 }
 
-function normalizeIdentifier(value: unknown): string {
-  return normalizeString(value).toLowerCase().replace(/[^a-z0-9_]/g, '');
-}
-
-function resolvePackageColumn(partType: { packageColumn?: string | null; code?: string | null }): PackageMasterColumn | null {
-  const candidates = [normalizeIdentifier(partType.packageColumn), normalizeIdentifier(partType.code)];
-  for (const candidate of candidates) {
-    if (!candidate) {
-      continue;
-    }
+function buildRuleValues(
+  attributes: { attributeId: number; value: string }[],
+  definitions: Map<number, PartAttributeDefinition>,
+): RuleValues {
+  const values: RuleValues = new Map();
 
-    const match = PACKAGE_MASTER_COLUMNS.find((column) => column.toLowerCase() === candidate);
-    if (match) {
-      return match;
+  for (const entry of attributes) {
+    const definition = definitions.get(entry.attributeId);
+    if (definition && typeof entry.value === 'string') {
+      values.set(normalizeRuleIdentifier(definition.code), entry.value.trim());
     }
   }
 
-  return null;
+  return values;
 }
 
-async function listPackageOptions(partType: { packageColumn?: string | null; code?: string | null }): Promise<PackageOption[]> {
-  const column = resolvePackageColumn(partType);
-
-  if (!column) {
-    return [];
+export function toAttributeDefinition(
+  attributeId: number,
+  attribute: {
+    attribute_code: string | null;
+    data_type: string | null;
+    min_value: number | null;
+    max_value: number | null;
+    unit: string | null;
+    required_rule: string | null;
+    alternative_min: string | null;
+    alternative_max: string | null;
+  } | null,
+): PartAttributeDefinition {
+  const code = attribute?.attribute_code ?? String(attributeId);
+  const requirement = parseRequiredRule(attribute?.required_rule);
+  const alternativeMin = parseAlternativeRanges(attribute?.alternative_min, attribute?.unit);
+  const alternativeMax = parseAlternativeRanges(attribute?.alternative_max, attribute?.unit);
+  const ruleErrors = [
+    ...(requirement.error ? [requirement.error] : []),
+    ...alternativeMin.errors,
+    ...alternativeMax.errors,
+  ];
+
+  if (ruleErrors.length > 0) {
+    logger.warn('Ignoring unparseable attribute rules', { attributeId, code, errors: ruleErrors });
   }
 
-  try {
-    const packages = await prisma.$queryRaw<{ package_id: number; package_name: string }[]>(Prisma.sql`
-      SELECT package_id, package_name
-      FROM package_master
-      WHERE ${Prisma.raw(`\`${column}\``)} = TRUE
-      ORDER BY package_name ASC
-    `);
-
-    return packages
-      .map((entry) => ({ id: asNumber(entry.package_id), name: normalizeString(entry.package_name) }))
-      .filter((entry) => entry.id > 0 && entry.name.length > 0);
-  } catch (error) {
-    logger.error('Failed to load package options for part type', {
-      partTypeCode: partType.code,
-      packageColumn: partType.packageColumn,
-      error,
-    });
-
-    return [];
-  }
-}
-
-function findSubtypeValue(
-  attributes: { attributeId: number; value: string }[],
-  definitions: Map<number, PartAttributeDefinition>,
-): string {
-  for (const definition of definitions.values()) {
-    if (normalizeAttributeCode(definition.code) !== 'subtype') {
-      continue;
-    }
-
-    const match = attributes.find((entry) => entry.attributeId === definition.attributeId);
-    if (match && typeof match.value === 'string') {
-      return match.value.trim();
-    }
-  }
-
-  return '';
+  return {
+    attributeId,
+    code,
+    dataType: attribute?.data_type ?? null,
+    minValue: toNullableNumber(attribute?.min_value),
+    maxValue: toNullableNumber(attribute?.max_value),
+    unit: attribute?.unit ?? null,
+    requiredRule: attribute?.required_rule ?? null,
+    requirement,
+    alternativeMin: alternativeMin.ranges,
+    alternativeMax: alternativeMax.ranges,
+  };
 }
 
-type AttributeConstraint =
+export type AttributeConstraint =
   | { kind: 'enum'; options: string[] }
   | { kind: 'int' }
   | { kind: 'double' }
   | { kind: 'text' };
 
-function parseAttributeConstraint(dataType: string | null): AttributeConstraint {
+export function parseAttributeConstraint(dataType: string | null): AttributeConstraint {
   if (!dataType) {
     return { kind: 'text' };
   }
@@ -526,7 +545,11 @@ function parseAttributeConstraint(dataType: string | null): AttributeConstraint
   return { kind: 'text' };
 }
 
-function validateAttributeValue(definition: PartAttributeDefinition, rawValue: unknown): string {
+export function validateAttributeValue(
+  definition: PartAttributeDefinition,
+  rawValue: unknown,
+  siblings: RuleValues = new Map(),
+): string {
   const value = toSafeString(rawValue);
 
   if (!value) {
@@ -535,8 +558,14 @@ function validateAttributeValue(definition: PartAttributeDefinition, rawValue: u
 
   const constraint = parseAttributeConstraint(definition.dataType);
   const label = definition.code || `Attribute ${definition.attributeId}`;
-  const min = definition.minValue;
-  const max = definition.maxValue;
+  const alternativeMin = resolveAlternativeBound(definition.alternativeMin, siblings);
+  const alternativeMax = resolveAlternativeBound(definition.alternativeMax, siblings);
+  const min = alternativeMin?.value ?? definition.minValue;
+  const max = alternativeMax?.value ?? definition.maxValue;
+  const minSuffix = alternativeMin ? ` when ${alternativeMin.description}` : '';
+  const maxSuffix = alternativeMax ? ` when ${alternativeMax.description}` : '';
+  const describeBound = (bound: number) =>
+    definition.unit ? formatEngineeringValue(bound, definition.unit) : String(bound);
 
   if (constraint.kind === 'enum') {
     if (constraint.options.length > 0) {
@@ -549,54 +578,54 @@ function validateAttributeValue(definition: PartAttributeDefinition, rawValue: u
     return value;
   }
 
-  if (constraint.kind === 'int') {
-    const parsed = Number.parseInt(value, 10);
-    if (!Number.isInteger(parsed)) {
-      throw new Error(`"${label}" must be a whole number.`);
+  if (constraint.kind === 'int' || constraint.kind === 'double') {
+    // Values are typed the way datasheets print them ("4.7k", "100nF") and stored as plain
+    // numbers in the attribute's unit so range checks and parametric search can compare them.
+    const parsed = parseEngineeringValue(value, definition.unit);
+
+    if (parsed === null) {
+      throw new Error(
+        definition.unit
+          ? `"${label}" must be a number in ${definition.unit}, optionally with an SI prefix such as k, M, m, u or n.`
+          : `"${label}" must be a number.`,
+      );
     }
 
-    if (min !== null && parsed < min) {
-      throw new Error(`"${label}" must be greater than or equal to ${min}.`);
-    }
-
-    if (max !== null && parsed > max) {
-      throw new Error(`"${label}" must be less than or equal to ${max}.`);
-    }
-
-    return parsed.toString();
-  }
-
-  if (constraint.kind === 'double') {
-    const parsed = Number.parseFloat(value);
+    const canonical = Number(formatCanonicalNumber(parsed));
 
-    if (Number.isNaN(parsed)) {
-      throw new Error(`"${label}" must be a number.`);
+    if (constraint.kind === 'int' && !Number.isInteger(canonical)) {
+      throw new Error(`"${label}" must be a whole number.`);
     }
 
-    if (min !== null && parsed < min) {
-      throw new Error(`"${label}" must be greater than or equal to ${min}.`);
+    if (min !== null && canonical < min) {
+      throw new Error(`"${label}" must be greater than or equal to ${describeBound(min)}${minSuffix}.`);
     }
 
-    if (max !== null && parsed > max) {
-      throw new Error(`"${label}" must be less than or equal to ${max}.`);
+    if (max !== null && canonical > max) {
+      throw new Error(`"${label}" must be less than or equal to ${describeBound(max)}${maxSuffix}.`);
     }
 
-    return parsed.toString();
+    return formatCanonicalNumber(canonical);
   }
 
   return value;
 }
 
-export async function searchParts(options: PartSearchOptions): Promise<PartSearchResult[]> {
+type RelevanceScores = {
+  partNumber: Prisma.Sql | null;
+  description: Prisma.Sql | null;
+};
+
+// Ranked searches pass their score expressions so that the filter and the ranking always agree;
+// parametric search keeps the plain LIKE filters.
+function buildSearchClauses(options: Partial<PartSearchOptions>, scores?: RelevanceScores): Prisma.Sql[] {
   const partNumber = typeof options.partNumber === 'string' ? options.partNumber.trim() : '';
   const description = typeof options.description === 'string' ? options.description.trim() : '';
-  const inStockOnly = Boolean(options.inStockOnly);
-  const requestedLimit =
-    typeof options.limit === 'number' && Number.isFinite(options.limit) ? Math.floor(options.limit) : undefined;
-
   const whereClauses: Prisma.Sql[] = [];
 
-  if (partNumber.length > 0) {
+  if (scores?.partNumber) {
+    whereClauses.push(Prisma.sql`${scores.partNumber} > 0`);
+  } else if (partNumber.length > 0) {
     const normalizedPart = partNumber.replace(/\s+/g, ' ');
     const lowerPart = normalizedPart.toLowerCase();
     const collapsedPart = lowerPart.replace(/[^a-z0-9]/g, '');
@@ -615,7 +644,9 @@ export async function searchParts(options: PartSearchOptions): Promise<PartSearc
     );
   }
 
-  if (description.length > 0) {
+  if (scores?.description) {
+    whereClauses.push(Prisma.sql`${scores.description} > 0`);
+  } else if (description.length > 0) {
     const normalizedDescription = description.replace(/\s+/g, ' ');
     const lowerDescription = normalizedDescription.toLowerCase();
     const collapsedDescription = lowerDescription.replace(/[^a-z0-9]/g, '');
@@ -632,16 +663,82 @@ export async function searchParts(options: PartSearchOptions): Promise<PartSearc
     );
   }
 
-  if (inStockOnly) {
+  if (!options.includeDeleted) {
+    whereClauses.push(Prisma.sql`COALESCE(pm.ISC, '') <> ${LIFECYCLE_STATUS_CODES.deleted}`);
+  }
+
+  if (options.inStockOnly) {
     whereClauses.push(
       Prisma.sql`GREATEST(COALESCE(il.quantityOnHand, 0) - COALESCE(it.quantityAllocated, 0), 0) > 0`,
     );
   }
 
-  const whereClause =
-    whereClauses.length > 0
-      ? Prisma.sql`WHERE ${Prisma.join(whereClauses, ' AND ')}`
-      : Prisma.sql``;
+  return whereClauses;
+}
+
+function mapPartSearchHit(
+  record: Record<string, unknown>,
+  partQuery: RelevanceQuery | null,
+  descriptionQuery: RelevanceQuery | null,
+  fuzzy: FuzzyPartMatches,
+): PartSearchHit {
+  const part = mapPartResult(record);
+  const ranked = Boolean(partQuery || descriptionQuery);
+
+  return {
+    ...part,
+    score: ranked ? asNumber(record['relevanceScore']) : null,
+    match: ranked
+      ? describePartMatch(
+          {
+            partNumber: part.partNumber,
+            description: part.description,
+            matchedXref: normalizeString(record['matchedXref']).trim(),
+          },
+          partQuery,
+          descriptionQuery,
+          fuzzy,
+        )
+      : null,
+  };
+}
+
+export async function searchParts(options: PartSearchOptions): Promise<Page<PartSearchHit>> {
+  const partNumber = typeof options.partNumber === 'string' ? options.partNumber.trim() : '';
+  const description = typeof options.description === 'string' ? options.description.trim() : '';
+  const inStockOnly = Boolean(options.inStockOnly);
+  const requestedLimit =
+    typeof options.limit === 'number' && Number.isFinite(options.limit) ? Math.floor(options.limit) : undefined;
+  const partQuery = toRelevanceQuery(partNumber);
+  const descriptionQuery = toRelevanceQuery(description);
+  const relevanceSort = partQuery !== null || descriptionQuery !== null;
+  const sort = resolveSortKey(options.sort, PART_SEARCH_SORT_KEYS, relevanceSort ? 'relevance' : 'partNumber');
+  const direction = options.direction === 'desc' ? 'desc' : 'asc';
+
+  const fuzzy: FuzzyPartMatches = partQuery ? await findFuzzyPartNumbers(partQuery) : new Map();
+  const scores: RelevanceScores = {
+    partNumber: partQuery ? buildPartNumberScoreSql(partQuery, fuzzy) : null,
+    description: descriptionQuery ? buildDescriptionScoreSql(descriptionQuery) : null,
+  };
+  const relevanceScore = scores.partNumber ?? scores.description;
+
+  // Relevance is ranked best-first in ascending order by negating the score, which keeps the
+  // single-direction keyset comparison valid.
+  const sortExpressions =
+    sort === 'relevance'
+      ? relevanceScore
+        ? [Prisma.sql`(0 - ${relevanceScore})`, PART_SORT_EXPRESSIONS.partNumber]
+        : [PART_SORT_EXPRESSIONS.partNumber]
+      : resolvePartSortExpressions(sort);
+  const extraColumns = [
+    ...(relevanceScore ? [Prisma.sql`${relevanceScore} AS relevanceScore`] : []),
+    ...(partQuery ? [Prisma.sql`${buildMatchedXrefSql(partQuery)} AS matchedXref`] : []),
+  ];
+
+  const whereClauses = buildSearchClauses(options, scores);
+  const pageClauses = options.cursor
+    ? [...whereClauses, buildKeysetClause(sortExpressions, decodeCursor(options.cursor, sort, direction), direction)]
+    : whereClauses;
 
   const limit = typeof requestedLimit === 'number' && requestedLimit > 0 ? requestedLimit : undefined;
 
@@ -650,13 +747,357 @@ export async function searchParts(options: PartSearchOptions): Promise<PartSearc
     descriptionLength: description.length,
     inStockOnly,
     limit,
+    sort,
+    direction,
+    fuzzyCandidates: fuzzy.size,
+    hasCursor: Boolean(options.cursor),
+  });
+
+  // One extra row tells us whether another page exists without a second query.
+  const limitClause = typeof limit === 'number' ? Prisma.sql`LIMIT ${limit + 1}` : Prisma.sql``;
+
+  const [results, totals] = await Promise.all([
+    prisma.$queryRaw<Record<string, unknown>[]>(
+      buildPartQuery(toWhereClause(pageClauses), limitClause, { expressions: sortExpressions, direction }, extraColumns),
+    ),
+    prisma.$queryRaw<{ total: bigint | number }[]>(Prisma.sql`
+      SELECT COUNT(*) AS total
+      FROM partmaster pm
+      ${STOCK_JOINS}
+      ${toWhereClause(whereClauses)}
+    `),
+  ]);
+
+  const hasMore = typeof limit === 'number' && results.length > limit;
+  const pageRows = hasMore ? results.slice(0, limit) : results;
+  const lastRow = pageRows[pageRows.length - 1];
+
+  return {
+    items: pageRows.map((row) => mapPartSearchHit(row, partQuery, descriptionQuery, fuzzy)),
+    pageInfo: {
+      total: asNumber(totals[0]?.total),
+      limit: limit ?? null,
+      nextCursor:
+        hasMore && lastRow
+          ? encodeCursor(
+              sort,
+              direction,
+              sortExpressions.map((_, index) => lastRow[`sortValue${index}`]),
+            )
+          : null,
+      sort,
+      direction,
+    },
+  };
+}
+
+function isPackageAttribute(definition: PartAttributeDefinition): boolean {
+  return normalizeString(definition.dataType).toLowerCase().includes('linked to package master table');
+}
+
+function parseRangeBound(
+  bound: number | string | undefined,
+  definition: PartAttributeDefinition,
+  name: 'minimum' | 'maximum',
+): number | undefined {
+  if (bound === undefined || bound === '') {
+    return undefined;
+  }
+
+  const parsed = parseEngineeringValue(bound, definition.unit);
+
+  if (parsed === null) {
+    throw new Error(`"${definition.code || `Attribute ${definition.attributeId}`}" ${name} must be a number.`);
+  }
+
+  return parsed;
+}
+
+function buildAttributeFilterClause(
+  filter: ParametricFilter,
+  definitions: Map<number, PartAttributeDefinition>,
+): Prisma.Sql | null {
+  const definition = definitions.get(filter.attributeId);
+
+  if (!definition) {
+    throw new Error(`Attribute ${filter.attributeId} is not defined for the selected part type.`);
+  }
+
+  const constraint = parseAttributeConstraint(definition.dataType);
+  const label = definition.code || `Attribute ${definition.attributeId}`;
+  const values = (filter.values ?? []).map((value) => toSafeString(value)).filter((value) => value.length > 0);
+  const conditions: Prisma.Sql[] = [];
+
+  if (values.length > 0) {
+    if (constraint.kind === 'enum' && constraint.options.length > 0) {
+      const unknown = values.filter(
+        (value) => !constraint.options.some((option) => option.toLowerCase() === value.toLowerCase()),
+      );
+
+      if (unknown.length > 0) {
+        throw new Error(`"${label}" must be one of: ${constraint.options.join(', ')}`);
+      }
+    }
+
+    const textMatch = Prisma.sql`LOWER(TRIM(pd.part_data)) IN (${Prisma.join(values.map((value) => value.toLowerCase()))})`;
+    const numbers =
+      constraint.kind === 'int' || constraint.kind === 'double'
+        ? values.map((value) => parseEngineeringValue(value, definition.unit)).filter((value): value is number => value !== null)
+        : [];
+
+    // "4.7k" should find the stored 4700 as well as legacy rows that kept the typed text.
+    conditions.push(
+      numbers.length > 0
+        ? Prisma.sql`(
+            ${textMatch}
+            OR (
+              TRIM(pd.part_data) REGEXP ${NUMERIC_VALUE_PATTERN}
+              AND CAST(TRIM(pd.part_data) AS DECIMAL(38, 12)) IN (${Prisma.join(numbers)})
+            )
+          )`
+        : textMatch,
+    );
+  }
+
+  const min = parseRangeBound(filter.min, definition, 'minimum');
+  const max = parseRangeBound(filter.max, definition, 'maximum');
+
+  if (min !== undefined || max !== undefined) {
+    if (constraint.kind !== 'int' && constraint.kind !== 'double') {
+      throw new Error(`"${label}" must be numeric to filter by range.`);
+    }
+
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new Error(`"${label}" minimum must not exceed its maximum.`);
+    }
+
+    conditions.push(Prisma.sql`TRIM(pd.part_data) REGEXP ${NUMERIC_VALUE_PATTERN}`);
+
+    if (min !== undefined) {
+      conditions.push(Prisma.sql`CAST(TRIM(pd.part_data) AS DECIMAL(38, 12)) >= ${min}`);
+    }
+
+    if (max !== undefined) {
+      conditions.push(Prisma.sql`CAST(TRIM(pd.part_data) AS DECIMAL(38, 12)) <= ${max}`);
+    }
+  }
+
+  if (conditions.length === 0) {
+    return null;
+  }
+
+  return Prisma.sql`
+    EXISTS (
+      SELECT 1
+      FROM part_data pd
+      WHERE pd.PartMaster_PKey = pm.PartMaster_PKey
+        AND pd.attribute_ID = ${definition.attributeId}
+        AND ${Prisma.join(conditions, ' AND ')}
+    )
+  `;
+}
+
+function toWhereClause(clauses: Prisma.Sql[]): Prisma.Sql {
+  return clauses.length > 0 ? Prisma.sql`WHERE ${Prisma.join(clauses, ' AND ')}` : Prisma.sql``;
+}
+
+function buildAttributeFacet(
+  definition: PartAttributeDefinition,
+  rows: { value: string; count: number }[],
+): AttributeFacet {
+  const constraint = parseAttributeConstraint(definition.dataType);
+  const isNumeric = constraint.kind === 'int' || constraint.kind === 'double';
+  const parsed = new Map(
+    rows.map((row) => [row.value, isNumeric ? parseEngineeringValue(row.value, definition.unit) : null] as const),
+  );
+  const numericValues = Array.from(parsed.values()).filter((value): value is number => value !== null);
+
+  const sorted = [...rows].sort((a, b) => {
+    if (isNumeric) {
+      return (parsed.get(a.value) ?? Number.POSITIVE_INFINITY) - (parsed.get(b.value) ?? Number.POSITIVE_INFINITY);
+    }
+
+    return b.count - a.count || a.value.localeCompare(b.value);
   });
 
+  return {
+    attributeId: definition.attributeId,
+    code: definition.code,
+    kind: constraint.kind,
+    unit: definition.unit,
+    isPackage: isPackageAttribute(definition),
+    min: numericValues.length > 0 ? Math.min(...numericValues) : null,
+    max: numericValues.length > 0 ? Math.max(...numericValues) : null,
+    values: sorted.slice(0, FACET_VALUE_LIMIT).map((row) => {
+      const number = parsed.get(row.value);
+      return {
+        ...row,
+        label: number !== null && number !== undefined ? formatEngineeringValue(number, definition.unit) : row.value,
+      };
+    }),
+    truncated: sorted.length > FACET_VALUE_LIMIT,
+  };
+}
+
+/**
+ * Parametric search over part_data. Attribute filters are ANDed together while the values of a
+ * single filter are ORed. Facet counts for a filtered attribute ignore that attribute's own
+ * filter so the page can still offer its sibling values for drill-down.
+ */
+export async function searchPartsParametric(options: ParametricSearchOptions): Promise<ParametricSearchResult> {
+  const partTypeId =
+    typeof options.partTypeId === 'number' && Number.isFinite(options.partTypeId) ? options.partTypeId : undefined;
+  const filters = Array.isArray(options.filters) ? options.filters : [];
+  const packageIds = Array.isArray(options.packageIds)
+    ? options.packageIds.filter((id) => Number.isFinite(id) && id > 0)
+    : [];
+  const requestedLimit =
+    typeof options.limit === 'number' && Number.isFinite(options.limit) ? Math.floor(options.limit) : undefined;
+  const limit = typeof requestedLimit === 'number' && requestedLimit > 0 ? requestedLimit : undefined;
+
+  if (partTypeId === undefined && (filters.length > 0 || packageIds.length > 0)) {
+    throw new Error('A part type is required to filter by attributes or packages.');
+  }
+
+  const baseClauses = buildSearchClauses(options);
+  const attributeClauses: { attributeId: number; clause: Prisma.Sql }[] = [];
+  let definitions = new Map<number, PartAttributeDefinition>();
+
+  if (partTypeId !== undefined) {
+    const partType = await prisma.part_type.findUnique({
+      where: { part_type_id: partTypeId },
+      select: { part_type_id: true },
+    });
+
+    if (!partType) {
+      throw new Error(`Part type ${partTypeId} does not exist.`);
+    }
+
+    definitions = await resolveAttributeDefinitions(partTypeId);
+    baseClauses.push(Prisma.sql`pm.part_type_ID = ${partTypeId}`);
+
+    filters.forEach((filter) => {
+      const clause = buildAttributeFilterClause(filter, definitions);
+      if (clause) {
+        attributeClauses.push({ attributeId: filter.attributeId, clause });
+      }
+    });
+  }
+
+  if (packageIds.length > 0) {
+    const packageDefinition = Array.from(definitions.values()).find(isPackageAttribute);
+
+    if (!packageDefinition) {
+      throw new Error('The selected part type does not have a package attribute.');
+    }
+
+    const packages = await prisma.package_master.findMany({
+      where: { package_id: { in: packageIds } },
+      select: { package_name: true },
+    });
+    const packageNames = packages.map((entry) => entry.package_name).filter((name) => name.trim().length > 0);
+
+    attributeClauses.push({
+      attributeId: packageDefinition.attributeId,
+      clause:
+        packageNames.length > 0
+          ? (buildAttributeFilterClause(
+              { attributeId: packageDefinition.attributeId, values: packageNames },
+              definitions,
+            ) as Prisma.Sql)
+          : Prisma.sql`1 = 0`,
+    });
+  }
+
+  const whereClause = toWhereClause([...baseClauses, ...attributeClauses.map((entry) => entry.clause)]);
   const limitClause = typeof limit === 'number' ? Prisma.sql`LIMIT ${limit}` : Prisma.sql``;
 
+  logger.debug('Executing parametric part search', {
+    partTypeId,
+    filterCount: filters.length,
+    packageCount: packageIds.length,
+    limit,
+  });
+
   const results = await prisma.$queryRaw<Record<string, unknown>[]>(buildPartQuery(whereClause, limitClause));
 
-  return results.map(mapPartResult);
+  const totals = await prisma.$queryRaw<{ total: bigint | number }[]>(Prisma.sql`
+    SELECT COUNT(*) AS total
+    FROM partmaster pm
+    ${STOCK_JOINS}
+    ${whereClause}
+  `);
+
+  const partTypeCounts = await prisma.$queryRaw<{ id: number; code: string; partCount: bigint | number }[]>(Prisma.sql`
+    SELECT pt.part_type_id AS id, pt.code AS code, COUNT(*) AS partCount
+    FROM partmaster pm
+    ${STOCK_JOINS}
+    INNER JOIN part_type pt
+      ON pt.part_type_id = pm.part_type_ID
+    ${whereClause}
+    GROUP BY pt.part_type_id, pt.code
+    ORDER BY pt.code ASC
+  `);
+
+  const facetRows = new Map<number, { value: string; count: number }[]>();
+
+  const loadFacetRows = async (clauses: Prisma.Sql[], attributeIds: number[]) => {
+    if (attributeIds.length === 0) {
+      return;
+    }
+
+    const rows = await prisma.$queryRaw<{ attributeId: number; value: string; partCount: bigint | number }[]>(Prisma.sql`
+      SELECT pd.attribute_ID AS attributeId, TRIM(pd.part_data) AS value, COUNT(DISTINCT pd.PartMaster_PKey) AS partCount
+      FROM part_data pd
+      WHERE pd.attribute_ID IN (${Prisma.join(attributeIds)})
+        AND pd.part_data IS NOT NULL
+        AND LENGTH(TRIM(pd.part_data)) > 0
+        AND pd.PartMaster_PKey IN (
+          SELECT pm.PartMaster_PKey
+          FROM partmaster pm
+          ${STOCK_JOINS}
+          ${toWhereClause(clauses)}
+        )
+      GROUP BY pd.attribute_ID, TRIM(pd.part_data)
+    `);
+
+    rows.forEach((row) => {
+      const attributeId = asNumber(row.attributeId);
+      const entries = facetRows.get(attributeId) ?? [];
+      entries.push({ value: normalizeString(row.value), count: asNumber(row.partCount) });
+      facetRows.set(attributeId, entries);
+    });
+  };
+
+  const facetDefinitions = Array.from(definitions.values()).filter(
+    (definition) => normalizeAttributeCode(definition.code) !== 'notes',
+  );
+  const filteredIds = new Set(attributeClauses.map((entry) => entry.attributeId));
+
+  await loadFacetRows(
+    [...baseClauses, ...attributeClauses.map((entry) => entry.clause)],
+    facetDefinitions.map((definition) => definition.attributeId).filter((id) => !filteredIds.has(id)),
+  );
+
+  for (const attributeId of filteredIds) {
+    await loadFacetRows(
+      [...baseClauses, ...attributeClauses.filter((entry) => entry.attributeId !== attributeId).map((entry) => entry.clause)],
+      [attributeId],
+    );
+  }
+
+  return {
+    total: asNumber(totals[0]?.total),
+    results: results.map(mapPartResult),
+    partTypes: partTypeCounts.map((row) => ({
+      id: asNumber(row.id),
+      code: normalizeString(row.code),
+      count: asNumber(row.partCount),
+    })),
+    facets: facetDefinitions
+      .sort((a, b) => a.code.localeCompare(b.code))
+      .map((definition) => buildAttributeFacet(definition, facetRows.get(definition.attributeId) ?? [])),
+  };
 }
 
 export async function getPartOverview(partNumber: string): Promise<PartSearchResult | null> {
@@ -696,21 +1137,19 @@ export async function listPartTypes(): Promise<PartTypeDefinition[]> {
       packageOptions: await listPackageOptions({ packageColumn: entry.package_column, code: entry.code }),
       attributes: entry.attribute_part_type_map
         .filter((mapping) => Boolean(mapping.attribute))
-        .map((mapping) => ({
-          attributeId: mapping.attribute_ID,
-          code: mapping.attribute?.attribute_code ?? String(mapping.attribute_ID),
-          dataType: mapping.attribute?.data_type ?? null,
-          minValue: toNullableNumber(mapping.attribute?.min_value),
-          maxValue: toNullableNumber(mapping.attribute?.max_value),
-          unit: mapping.attribute?.unit ?? null,
-          requiredRule: mapping.attribute?.required_rule ?? null,
-        })),
+        .map((mapping) => toAttributeDefinition(mapping.attribute_ID, mapping.attribute)),
     })),
   );
 
   return withPackages;
 }
 
+function formatStoredAttributeValue(value: unknown, dataType: string | null, unit: string | null): string {
+  const text = normalizeString(value);
+  const { kind } = parseAttributeConstraint(dataType);
+  return text && (kind === 'int' || kind === 'double') ? formatAttributeDisplay(text, unit) : text;
+}
+
 function toSafeString(value: unknown): string {
   return typeof value === 'string' ? value.trim() : '';
 }
@@ -743,16 +1182,19 @@ export async function getPartDetail(partNumber: string): Promise<PartDetail | nu
     attributeId: entry.attribute_ID,
     code: normalizeString(entry.attribute?.attribute_code) || String(entry.attribute_ID),
     value: normalizeString(entry.part_data),
+    displayValue: formatStoredAttributeValue(entry.part_data, entry.attribute?.data_type ?? null, entry.attribute?.unit ?? null),
     requiredRule: entry.attribute?.required_rule ?? null,
+    requirement: parseRequiredRule(entry.attribute?.required_rule),
   }));
 
-  const subtypeValue =
-    attributeDetails.find((attribute) => normalizeAttributeCode(attribute.code) === 'subtype')?.value ?? '';
+  const ruleValues: RuleValues = new Map(
+    attributeDetails.map((attribute) => [normalizeRuleIdentifier(attribute.code), attribute.value]),
+  );
 
-  const attributes = attributeDetails.map((entry) => ({
-    ...entry,
-    required: evaluateRequirement(entry.requiredRule, subtypeValue).required,
-  }));
+  const attributes = attributeDetails.map((entry) => {
+    const state = evaluateRequiredRule(entry.requirement, ruleValues);
+    return { ...entry, required: state.required, requirementReason: state.reason };
+  });
 
   return {
     partNumber: part.PartNumber,
@@ -767,10 +1209,11 @@ export async function getPartDetail(partNumber: string): Promise<PartDetail | nu
     notes: overview?.notes ?? '',
     partTypeId: typeof part.part_type_ID === 'number' ? part.part_type_ID : null,
     attributes,
+    sources: await listPartSources(part.PartNumber),
   };
 }
 
-async function resolveAttributeDefinitions(partTypeId: number | undefined): Promise<Map<number, PartAttributeDefinition>> {
+export async function resolveAttributeDefinitions(partTypeId: number | undefined): Promise<Map<number, PartAttributeDefinition>> {
   if (typeof partTypeId !== 'number' || !Number.isFinite(partTypeId)) {
     return new Map();
   }
@@ -782,20 +1225,12 @@ async function resolveAttributeDefinitions(partTypeId: number | undefined): Prom
 
   const definitions = mappings
     .filter((mapping) => Boolean(mapping.attribute))
-    .map((mapping) => ({
-      attributeId: mapping.attribute_ID,
-      code: mapping.attribute?.attribute_code ?? String(mapping.attribute_ID),
-      dataType: mapping.attribute?.data_type ?? null,
-      minValue: toNullableNumber(mapping.attribute?.min_value),
-      maxValue: toNullableNumber(mapping.attribute?.max_value),
-      unit: mapping.attribute?.unit ?? null,
-      requiredRule: mapping.attribute?.required_rule ?? null,
-    }));
+    .map((mapping) => toAttributeDefinition(mapping.attribute_ID, mapping.attribute));
 
   return new Map(definitions.map((entry) => [entry.attributeId, entry]));
 }
 
-function normalizeAttributes(
+export function normalizeAttributes(
   attributes: PartUpsertPayload['attributes'],
   definitions: Map<number, PartAttributeDefinition>,
 ): { attributeId: number; value: string }[] {
@@ -804,6 +1239,10 @@ function normalizeAttributes(
   }
 
   const allowedIds = new Set(definitions.keys());
+  const siblings = buildRuleValues(
+    attributes.map((item) => ({ attributeId: Number.parseInt(String(item.attributeId), 10), value: toSafeString(item.value) })),
+    definitions,
+  );
 
   return attributes
     .map((item) => {
@@ -814,21 +1253,21 @@ function normalizeAttributes(
         return null;
       }
 
-      const value = validateAttributeValue(definition, item.value);
+      const value = validateAttributeValue(definition, item.value, siblings);
       return { attributeId, value };
     })
     .filter((item): item is { attributeId: number; value: string } => Boolean(item));
 }
 
-function assertRequiredAttributes(
+export function assertRequiredAttributes(
   attributes: { attributeId: number; value: string }[],
   definitions: Map<number, PartAttributeDefinition>,
 ): void {
-  const subtypeValue = findSubtypeValue(attributes, definitions);
+  const values = buildRuleValues(attributes, definitions);
   const missingRequired: string[] = [];
 
   for (const definition of definitions.values()) {
-    const requirement = evaluateRequirement(definition.requiredRule, subtypeValue);
+    const requirement = evaluateRequiredRule(definition.requirement, values);
     if (!requirement.required) continue;
 
     const match = attributes.find((entry) => entry.attributeId === definition.attributeId);
@@ -842,17 +1281,97 @@ function assertRequiredAttributes(
   }
 }
 
-export async function upsertPart(payload: PartUpsertPayload, allowCreate: boolean): Promise<PartDetail> {
+export async function writePartData(
+  tx: Prisma.TransactionClient,
+  partKey: number,
+  attributes: { attributeId: number; value: string }[],
+): Promise<void> {
+  await tx.part_data.deleteMany({ where: { PartMaster_PKey: partKey } });
+
+  if (attributes.length > 0) {
+    await tx.part_data.createMany({
+      data: attributes.map((entry) => ({
+        PartMaster_PKey: partKey,
+        attribute_ID: entry.attributeId,
+        part_data: entry.value || null,
+      })),
+    });
+  }
+}
+
+/**
+ * Merges attribute changes into a part's existing part_data inside the caller's transaction,
+ * validating the result against the part type exactly as a part save would. An empty value
+ * clears the attribute.
+ */
+export async function applyPartAttributeChanges(
+  tx: Prisma.TransactionClient,
+  partNumber: string,
+  changes: { attributeId: number; value: string }[],
+): Promise<void> {
+  const part = await tx.partmaster.findUnique({
+    where: { PartNumber: partNumber },
+    select: { PartMaster_PKey: true, part_type_ID: true, part_data: { select: { attribute_ID: true, part_data: true } } },
+  });
+
+  if (!part) {
+    throw new Error(`Part ${partNumber} does not exist.`);
+  }
+
+  if (!part.part_type_ID) {
+    throw new Error(`A Part Type must be selected for ${partNumber} before its attributes can be changed.`);
+  }
+
+  const definitions = await resolveAttributeDefinitions(part.part_type_ID);
+  const merged = new Map(part.part_data.map((entry) => [entry.attribute_ID, normalizeString(entry.part_data)]));
+
+  for (const change of changes) {
+    if (!definitions.has(change.attributeId)) {
+      throw new Error(`Attribute ${change.attributeId} is not a valid attribute for the part type of ${partNumber}.`);
+    }
+
+    merged.set(change.attributeId, change.value);
+  }
+
+  const normalized = normalizeAttributes(
+    Array.from(merged.entries()).map(([attributeId, value]) => ({ attributeId, value })),
+    definitions,
+  ).filter((entry) => entry.value.length > 0);
+
+  if (definitions.size > 0) {
+    assertRequiredAttributes(normalized, definitions);
+  }
+
+  await writePartData(tx, part.PartMaster_PKey, normalized);
+}
+
+/**
+ * Creates or updates a part. When a new part is posted without a part number, one is reserved
+ * from the part type's numbering sequence inside the same transaction that creates it.
+ */
+export async function upsertPart(payload: PartUpsertPayload, allowCreate: boolean): Promise<PartSaveResult> {
   const partNumber = toSafeString(payload.partNumber);
 
-  if (!partNumber) {
+  if (!partNumber && !allowCreate) {
     throw new Error('A part number is required.');
   }
 
-  const existingPart = await prisma.partmaster.findUnique({
-    where: { PartNumber: partNumber },
-    select: { PartMaster_PKey: true, part_type_ID: true },
-  });
+  const existingPart = partNumber
+    ? await prisma.partmaster.findUnique({
+        where: { PartNumber: partNumber },
+        select: { PartMaster_PKey: true, part_type_ID: true, Revision: true, ISC: true },
+      })
+    : null;
+
+  if (payload.status !== undefined) {
+    assertLifecycleUnchanged(existingPart?.ISC ?? null, payload.status);
+  }
+
+  // Revisions only move through an implemented ECN so every change has an audit trail.
+  const requestedRevision = toSafeString(payload.revision);
+  if (existingPart && payload.revision !== undefined && requestedRevision !== toSafeString(existingPart.Revision)) {
+    throw new Error('An implemented engineering change notice is required to change a part revision.');
+  }
 
   const effectivePartTypeId =
     typeof payload.partTypeId === 'number' && Number.isFinite(payload.partTypeId)
@@ -888,38 +1407,46 @@ export async function upsertPart(payload: PartUpsertPayload, allowCreate: boolea
   >;
 
   const updateData: Prisma.partmasterUncheckedUpdateInput = { ...baseData };
+  delete updateData.Revision;
+
+  if (payload.status === undefined) {
+    delete updateData.ISC;
+  }
 
   if (!existingPart && !allowCreate) {
     throw new Error('Part does not exist.');
   }
 
+  // Edits only report look-alikes; creating over a strong match needs an explicit override.
+  const duplicateCheck = await findDuplicateParts({
+    partNumber: partNumber || undefined,
+    partTypeId: effectivePartTypeId,
+    attributes: normalizedAttributes,
+  });
+
+  if (!existingPart && duplicateCheck.hasStrongMatch && !payload.allowDuplicate) {
+    const strongMatches = duplicateCheck.matches.filter((match) => match.strength === 'strong');
+    throw new Error(
+      `Part duplicates existing part(s) ${strongMatches.map((match) => match.partNumber).join(', ')}; resubmit with allowDuplicate to create it anyway.`,
+    );
+  }
+
   const result = await prisma.$transaction(async (tx) => {
     const partRecord = existingPart
       ? await tx.partmaster.update({ where: { PartNumber: partNumber }, data: updateData })
       : await tx.partmaster.create({
           data: {
-            PartNumber: partNumber,
+            PartNumber: partNumber || (await reservePartNumber(tx, effectivePartTypeId)),
             DateAdded: new Date(),
             ...baseData,
           } satisfies Prisma.partmasterUncheckedCreateInput,
         });
 
-    const partKey = partRecord.PartMaster_PKey;
-
-    await tx.part_data.deleteMany({ where: { PartMaster_PKey: partKey } });
-
-    if (normalizedAttributes.length > 0) {
-      await tx.part_data.createMany({
-        data: normalizedAttributes.map((entry) => ({
-          PartMaster_PKey: partKey,
-          attribute_ID: entry.attributeId,
-          part_data: entry.value || null,
-        })),
-      });
-    }
+    await writePartData(tx, partRecord.PartMaster_PKey, normalizedAttributes);
 
     return partRecord;
   });
 
-  return (await getPartDetail(result.PartNumber)) as PartDetail;
+  const detail = (await getPartDetail(result.PartNumber)) as PartDetail;
+  return { ...detail, duplicates: duplicateCheck.matches };
 }
@@ -1,4 +1,5 @@
 import { logger } from '../lib/logger.js';
+import { paginateRows, resolveSortKey, type Page, type PageRequest } from '../lib/pagination.js';
 import { prisma } from '../lib/prisma.js';
 
 export type UomOverviewRow = {
@@ -9,6 +10,10 @@ export type UomOverviewRow = {
   usage: string;
 };
 
+export type UomSortKey = keyof UomOverviewRow;
+
+const UOM_SORT_KEYS: UomSortKey[] = ['code', 'description', 'type', 'conversionFactor', 'usage'];
+
 type RawUomRecord = {
   UOMCode: string | null;
   DescText: string | null;
@@ -107,10 +112,18 @@ function mapRecord(record: RawUomRecord): UomOverviewRow {
   };
 }
 
-export async function getUnitsOfMeasure(limit = 100): Promise<UomOverviewRow[]> {
+export async function getUnitsOfMeasure(options: PageRequest = {}): Promise<Page<UomOverviewRow>> {
+  const limit = options.limit ?? 100;
   const safeLimit = Number.isFinite(limit) && limit > 0 ? Math.min(Math.trunc(limit), 5000) : 100;
+  const sort = resolveSortKey(options.sort, UOM_SORT_KEYS, 'code');
+  const direction = options.direction === 'desc' ? 'desc' : 'asc';
 
-  logger.debug('Retrieving units of measure overview', { limit: safeLimit });
+  logger.debug('Retrieving units of measure overview', {
+    limit: safeLimit,
+    sort,
+    direction,
+    hasCursor: Boolean(options.cursor),
+  });
 
   const records = (await prisma.$queryRaw`
     SELECT
@@ -141,8 +154,14 @@ export async function getUnitsOfMeasure(limit = 100): Promise<UomOverviewRow[]>
       GROUP BY b.BOMUOMCode
     ) bom ON bom.Code = u.UOMCode
     ORDER BY u.UOMCode ASC
-    LIMIT ${safeLimit}
   `) as RawUomRecord[];
 
-  return records.map(mapRecord);
+  // uomcodes is a short lookup table, so sorting on the derived type/usage labels happens in memory.
+  return paginateRows(records.map(mapRecord), {
+    sort,
+    direction,
+    limit: safeLimit,
+    cursor: options.cursor,
+    sortValues: (row) => [row[sort], row.code],
+  });
 }